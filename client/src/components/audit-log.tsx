@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatEuropeanDateTime } from "@/lib/date-utils";
+import type { AuditEntry, Cluster } from "@shared/schema";
+import { AUDIT_ACTIONS } from "@shared/audit";
+import { FieldChangesTable } from "@/components/pending-changes-review";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download } from "lucide-react";
+
+// Entries shown in the dialog; the downloads include the whole log
+const SHOWN_ENTRIES = 200;
+const EXPORTED_ENTRIES = 100000;
+
+type AuditFilterForm = { actor: string; action: string; target: string; field: string };
+
+const emptyFilter: AuditFilterForm = { actor: "", action: "all", target: "", field: "" };
+
+function auditQuery(filter: AuditFilterForm, extra: Record<string, string>): string {
+  const params = new URLSearchParams(extra);
+  if (filter.actor.trim()) params.set("actor", filter.actor.trim());
+  if (filter.action !== "all") params.set("action", filter.action);
+  if (filter.target.trim()) params.set("target", filter.target.trim());
+  if (filter.field.trim()) params.set("field", filter.field.trim());
+  return `/api/audit?${params}`;
+}
+
+// Who changed what and when, across all clusters, for approvers and administrators
+export function AuditLogDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const [filter, setFilter] = useState<AuditFilterForm>(emptyFilter);
+
+  const { data: entries = [], isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [auditQuery(filter, { limit: String(SHOWN_ENTRIES) })],
+    enabled: open,
+  });
+
+  const { data: clusters = [] } = useQuery<Cluster[]>({
+    queryKey: ["/api/clusters"],
+    enabled: open,
+  });
+  const clusterName = (id: number | null) => clusters.find(cluster => cluster.id === id)?.name;
+
+  const setField = (name: keyof AuditFilterForm) => (value: string) => setFilter(current => ({ ...current, [name]: value }));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Audit Log</DialogTitle>
+          <DialogDescription>
+            Every change made through the configurator, newest first. Refused requests are listed with their status.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-4 gap-2">
+          <Input placeholder="User" value={filter.actor} onChange={(event) => setField("actor")(event.target.value)} />
+          <Select value={filter.action} onValueChange={setField("action")}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {AUDIT_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>{action}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input placeholder="Queue or other target" value={filter.target} onChange={(event) => setField("target")(event.target.value)} />
+          <Input placeholder="Setting, e.g. maxRunningApps" value={filter.field} onChange={(event) => setField("field")(event.target.value)} />
+        </div>
+
+        <div className="space-y-2 max-h-[55vh] overflow-auto">
+          {isLoading ? (
+            <p className="text-sm text-carbon-gray-50">Loading audit log...</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-carbon-gray-50">No entries match</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="border border-gray-200 rounded-lg px-4 py-2">
+                <div className="flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary" className="font-mono text-xs">{entry.action}</Badge>
+                    {entry.target && <span className="font-medium text-carbon-gray-70">{entry.target}</span>}
+                    {entry.clusterId !== null && (
+                      <span className="text-xs text-carbon-gray-50">on {clusterName(entry.clusterId) ?? `cluster ${entry.clusterId}`}</span>
+                    )}
+                    {entry.statusCode >= 400 && (
+                      <Badge className="bg-red-100 text-red-700 text-xs">{entry.statusCode}</Badge>
+                    )}
+                  </div>
+                  <span className="text-xs text-carbon-gray-50">
+                    {entry.actor}{entry.sourceIp && ` from ${entry.sourceIp}`}, {formatEuropeanDateTime(entry.createdAt)}
+                  </span>
+                </div>
+                <div className="font-mono text-xs text-carbon-gray-50">{entry.method} {entry.endpoint}</div>
+                {entry.changes.length > 0 && (
+                  <div className="mt-1">
+                    <FieldChangesTable fields={entry.changes} />
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" size="sm" asChild>
+            <a href={auditQuery(filter, { format: "csv", limit: String(EXPORTED_ENTRIES) })} download>
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <a href={auditQuery(filter, { format: "jsonl", limit: String(EXPORTED_ENTRIES) })} download>
+              <Download className="w-4 h-4 mr-2" />
+              JSONL
+            </a>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,368 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatEuropeanDateTime } from "@/lib/date-utils";
+import type { ChangeRequestDetail, ChangeRequestEvent, ChangeRequestSummary, PendingChangesDiff } from "@shared/schema";
+import type { ChangeRequestStatus } from "@shared/change-requests";
+import { describeHookFailure, type PostApplyHookResult } from "@shared/post-apply-hook";
+import { changeTypeStyles, diffLineClass, FieldChangesTable, ValidationIssues } from "@/components/pending-changes-review";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Check, Clock, Eye, GitPullRequest, MessageSquare, Save, Undo2, User, X } from "lucide-react";
+
+type ChangeRequestAction = "approve" | "reject" | "withdraw" | "apply";
+
+const statusStyles: Record<ChangeRequestStatus, string> = {
+  open: "bg-blue-100 text-carbon-blue",
+  approved: "bg-green-100 text-carbon-success",
+  rejected: "bg-red-100 text-red-700",
+  withdrawn: "bg-gray-200 text-carbon-gray-70",
+  applied: "bg-gray-200 text-carbon-gray-70",
+};
+
+const eventDescriptions: Record<ChangeRequestEvent["type"], string> = {
+  submitted: "submitted the change request",
+  commented: "commented",
+  approved: "approved",
+  rejected: "rejected",
+  withdrawn: "withdrew the change request",
+  applied: "applied the changes",
+};
+
+function isActive(request: ChangeRequestSummary): boolean {
+  return request.status === "open" || request.status === "approved";
+}
+
+function countChanges(request: ChangeRequestSummary): number {
+  return request.changes.queues.length + (request.changes.globalConfig.length > 0 ? 1 : 0);
+}
+
+function ChangeRequestDialog({ id, onOpenChange }: { id: number | null; onOpenChange: (open: boolean) => void }) {
+  const [comment, setComment] = useState("");
+  const { toast } = useToast();
+  const { user, can } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: request } = useQuery<ChangeRequestDetail>({
+    queryKey: ["/api/change-requests", id],
+    enabled: id !== null,
+    staleTime: 0,
+  });
+
+  // The file the request would write, while it can still be applied
+  const selectionQuery = request
+    ? `?queueIds=${request.queueIds.join(",")}&globalConfig=${request.globalConfig}`
+    : "";
+  const { data: diff } = useQuery<PendingChangesDiff>({
+    queryKey: [`/api/pending-changes/diff${selectionQuery}`],
+    enabled: !!request && isActive(request) && !request.outdated,
+    staleTime: 0,
+  });
+
+  const onSettled = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/change-requests"] });
+  };
+
+  const commentMutation = useMutation({
+    mutationFn: async (message: string) => {
+      await apiRequest("POST", `/api/change-requests/${id}/comments`, { message });
+    },
+    onSuccess: () => {
+      setComment("");
+      onSettled();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ action, message }: { action: ChangeRequestAction; message?: string }) => {
+      const response = await apiRequest("POST", `/api/change-requests/${id}/${action}`, { message });
+      const { hook }: { hook?: PostApplyHookResult | null } = await response.json();
+      return { action, hook };
+    },
+    onSuccess: ({ action, hook }) => {
+      setComment("");
+      onSettled();
+      if (action === "apply") {
+        queryClient.invalidateQueries({ queryKey: ["/api/pending-changes"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/config"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/config/revisions"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/global-config"] });
+      }
+      if (hook && !hook.success) {
+        toast({
+          title: `Change request #${id} applied, but the post-apply hook failed`,
+          description: `${hook.target}: ${describeHookFailure(hook)}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      const done = { approve: "approved", reject: "rejected", withdraw: "withdrawn", apply: "applied" }[action];
+      toast({ title: "Success", description: `Change request #${id} ${done}` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update change request",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isBusy = commentMutation.isPending || actionMutation.isPending;
+  const isAuthor = !!request && request.author === user?.username;
+  const remark = comment.trim() || undefined;
+
+  return (
+    <Dialog open={id !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-3">
+            <span>#{id} {request?.title}</span>
+            {request && (
+              <Badge variant="secondary" className={statusStyles[request.status]}>{request.status}</Badge>
+            )}
+            {request?.outdated && (
+              <Badge variant="secondary" className="bg-yellow-100 text-carbon-gray-70">changed since submitted</Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            {request
+              ? `Submitted by ${request.author} on ${formatEuropeanDateTime(request.createdAt)}`
+              : "Loading..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {request && (
+          <div className="space-y-4">
+            {request.description && (
+              <p className="text-sm text-carbon-gray-70 whitespace-pre-wrap">{request.description}</p>
+            )}
+            {diff?.validation && <ValidationIssues validation={diff.validation} />}
+
+            <Tabs defaultValue="changes">
+              <TabsList>
+                <TabsTrigger value="changes">Changes ({countChanges(request)})</TabsTrigger>
+                <TabsTrigger value="xml" disabled={!diff}>XML Diff</TabsTrigger>
+                <TabsTrigger value="history">History ({request.events.length})</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="changes" className="max-h-[45vh] overflow-auto space-y-3">
+                {request.changes.globalConfig.length > 0 && (
+                  <div className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center space-x-3 mb-2">
+                      <span className="font-medium text-carbon-gray-70">Global settings</span>
+                      <Badge variant="secondary" className={changeTypeStyles.modified}>modified</Badge>
+                    </div>
+                    <FieldChangesTable fields={request.changes.globalConfig} />
+                  </div>
+                )}
+                {request.changes.queues.map((change) => (
+                  <div key={change.queueId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center space-x-3 mb-2">
+                      <span className="font-medium text-carbon-gray-70">{change.queuePath}</span>
+                      <Badge variant="secondary" className={changeTypeStyles[change.type]}>{change.type}</Badge>
+                    </div>
+                    <FieldChangesTable fields={change.fields} />
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="xml">
+                {diff?.xmlDiff ? (
+                  <pre className="max-h-[45vh] overflow-auto rounded-md border border-gray-200 text-xs font-mono">
+                    {diff.xmlDiff.split("\n").map((line, index) => (
+                      <div key={index} className={`px-3 ${diffLineClass(line)}`}>{line || " "}</div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-carbon-gray-50">The changes do not alter the current file</p>
+                )}
+              </TabsContent>
+
+              <TabsContent value="history" className="max-h-[45vh] overflow-auto space-y-3">
+                {request.events.map((event) => (
+                  <div key={event.id} className="border-l-2 border-gray-200 pl-4">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <span className="font-medium text-carbon-gray-70">{event.author}</span>
+                      <span className="text-carbon-gray-50">{eventDescriptions[event.type]}</span>
+                      {event.type === "applied" && request.revisionId && (
+                        <span className="text-carbon-gray-50">as revision #{request.revisionId}</span>
+                      )}
+                      <span className="text-xs text-carbon-gray-50">{formatEuropeanDateTime(event.createdAt)}</span>
+                    </div>
+                    {event.message && (
+                      <p className="text-sm text-carbon-gray-70 mt-1 whitespace-pre-wrap">{event.message}</p>
+                    )}
+                  </div>
+                ))}
+              </TabsContent>
+            </Tabs>
+
+            <Textarea
+              placeholder={isActive(request) ? "Comment, or a remark to go with your decision" : "Comment"}
+              rows={2}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+        )}
+
+        {request && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              disabled={isBusy || !comment.trim()}
+              onClick={() => commentMutation.mutate(comment)}
+            >
+              <MessageSquare className="w-4 h-4 mr-2" />
+              Comment
+            </Button>
+            {isActive(request) && (isAuthor || can("approver")) && can("editor") && (
+              <Button
+                variant="outline"
+                disabled={isBusy}
+                onClick={() => actionMutation.mutate({ action: "withdraw", message: remark })}
+              >
+                <Undo2 className="w-4 h-4 mr-2" />
+                Withdraw
+              </Button>
+            )}
+            {request.status === "open" && can("approver") && (
+              <>
+                <Button
+                  variant="outline"
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                  disabled={isBusy}
+                  onClick={() => actionMutation.mutate({ action: "reject", message: remark })}
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Reject
+                </Button>
+                <Button
+                  className="bg-carbon-blue hover:bg-blue-700"
+                  disabled={isBusy || request.outdated}
+                  onClick={() => actionMutation.mutate({ action: "approve", message: remark })}
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Approve
+                </Button>
+              </>
+            )}
+            {request.status === "approved" && can("approver") && (
+              <Button
+                className="bg-carbon-success hover:bg-green-700"
+                disabled={isBusy || request.outdated || (diff?.validation?.errors.length ?? 0) > 0}
+                onClick={() => actionMutation.mutate({ action: "apply" })}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {actionMutation.isPending ? "Applying..." : "Apply"}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ChangeRequests() {
+  const [showAll, setShowAll] = useState(false);
+  const [viewingId, setViewingId] = useState<number | null>(null);
+
+  const { data: requests = [], isLoading } = useQuery<ChangeRequestSummary[]>({
+    queryKey: ["/api/change-requests"],
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse">Loading change requests...</div>;
+  }
+
+  const shown = showAll ? requests : requests.filter(isActive);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border border-gray-200 shadow-sm">
+        <CardHeader className="border-b border-gray-200">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <GitPullRequest className="w-5 h-5 text-carbon-blue" />
+              <div>
+                <CardTitle className="text-lg font-medium text-carbon-gray-70">
+                  Change Requests
+                </CardTitle>
+                <p className="text-sm text-carbon-gray-50 mt-1">
+                  Pending changes are written to disk once a reviewer other than their author approves them
+                </p>
+              </div>
+            </div>
+            <Tabs value={showAll ? "all" : "active"} onValueChange={(value) => setShowAll(value === "all")}>
+              <TabsList>
+                <TabsTrigger value="active">Open</TabsTrigger>
+                <TabsTrigger value="all">All</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          {shown.length === 0 ? (
+            <p className="text-sm text-carbon-gray-50">
+              {showAll ? "No change requests yet" : "No change requests waiting for review or to be applied"}
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {shown.map((request) => (
+                <div
+                  key={request.id}
+                  className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-3">
+                      <span className="font-medium text-carbon-gray-70">#{request.id}</span>
+                      <span className="text-sm text-carbon-gray-70 truncate">{request.title}</span>
+                      <Badge variant="secondary" className={statusStyles[request.status]}>{request.status}</Badge>
+                      {request.outdated && (
+                        <Badge variant="secondary" className="bg-yellow-100 text-carbon-gray-70">changed since submitted</Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-4 mt-1 text-xs text-carbon-gray-50">
+                      <span className="flex items-center">
+                        <Clock className="w-3 h-3 mr-1" />
+                        {formatEuropeanDateTime(request.updatedAt)}
+                      </span>
+                      <span className="flex items-center">
+                        <User className="w-3 h-3 mr-1" />
+                        {request.author}
+                      </span>
+                      <span>{countChanges(request)} {countChanges(request) === 1 ? "change" : "changes"}</span>
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setViewingId(request.id)} title="Review change request">
+                    <Eye className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ChangeRequestDialog id={viewingId} onOpenChange={(open) => !open && setViewingId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { insertClusterSchema, type Cluster, type InsertCluster } from "@shared/schema";
+import { apiRequest, getCurrentClusterId, setCurrentClusterId } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import PromotionDialog from "@/components/promotion-dialog";
+
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowUpFromLine, Plus, Server } from "lucide-react";
+
+const emptyForm: InsertCluster = { name: "", configPath: "", yarnSitePath: "" };
+
+// Chooses the cluster every other view works on
+export default function ClusterSwitcher() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [clusterId, setClusterId] = useState(getCurrentClusterId());
+  const [adding, setAdding] = useState(false);
+  const [promoting, setPromoting] = useState(false);
+
+  const { data: clusters = [] } = useQuery<Cluster[]>({
+    queryKey: ["/api/clusters"],
+  });
+
+  const form = useForm<InsertCluster>({
+    resolver: zodResolver(insertClusterSchema),
+    defaultValues: emptyForm,
+  });
+
+  const selectCluster = (id: number) => {
+    setCurrentClusterId(id);
+    setClusterId(id);
+  };
+
+  // The remembered cluster may have been removed since
+  useEffect(() => {
+    if (clusters.length > 0 && clusterId !== null && !clusters.some(cluster => cluster.id === clusterId)) {
+      selectCluster(clusters[0].id);
+    }
+  }, [clusters, clusterId]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertCluster) => {
+      const response = await apiRequest("POST", "/api/clusters", data);
+      return response.json() as Promise<Cluster>;
+    },
+    onSuccess: (cluster) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
+      selectCluster(cluster.id);
+      setAdding(false);
+      form.reset(emptyForm);
+      toast({ title: "Success", description: `Cluster ${cluster.name} added` });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add cluster",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = clusters.find(cluster => cluster.id === clusterId) ?? clusters[0];
+
+  return (
+    <div className="flex items-center space-x-2 mt-4">
+      <Select value={selected ? String(selected.id) : undefined} onValueChange={(value) => selectCluster(parseInt(value))}>
+        <SelectTrigger className="text-sm">
+          <Server className="w-4 h-4 mr-2 text-carbon-gray-50" />
+          <SelectValue placeholder="Cluster" />
+        </SelectTrigger>
+        <SelectContent>
+          {clusters.map(cluster => (
+            <SelectItem key={cluster.id} value={String(cluster.id)}>
+              {cluster.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="sm" onClick={() => setAdding(true)} disabled={!can("admin")} title="Add cluster">
+        <Plus className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setPromoting(true)}
+        disabled={!selected || clusters.length < 2 || !can("editor")}
+        title="Promote another cluster's configuration into this one"
+      >
+        <ArrowUpFromLine className="w-4 h-4" />
+      </Button>
+
+      {selected && (
+        <PromotionDialog open={promoting} onOpenChange={setPromoting} target={selected} clusters={clusters} />
+      )}
+
+      <Dialog open={adding} onOpenChange={setAdding}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Cluster</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="prod-east" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="configPath"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Allocation File</FormLabel>
+                    <FormControl>
+                      <Input placeholder="/etc/hadoop/conf/fair-scheduler.xml" {...field} />
+                    </FormControl>
+                    <FormDescription>Created with default queues if it does not exist</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="yarnSitePath"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>yarn-site.xml</FormLabel>
+                    <FormControl>
+                      <Input placeholder="/etc/hadoop/conf/yarn-site.xml" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>The ResourceManager address is read from it</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setAdding(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending} className="bg-carbon-blue hover:bg-blue-700">
+                  {createMutation.isPending ? "Adding..." : "Add Cluster"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
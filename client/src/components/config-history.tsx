@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatEuropeanDateTime } from "@/lib/date-utils";
+import type { ConfigRevision, ConfigRevisionSummary } from "@shared/schema";
+import { describeHookFailure } from "@shared/post-apply-hook";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { History, Eye, RotateCcw, User, Clock } from "lucide-react";
+
+export default function ConfigHistory() {
+  const [viewingRevisionId, setViewingRevisionId] = useState<number | null>(null);
+  const [restoringRevision, setRestoringRevision] = useState<ConfigRevisionSummary | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: revisions = [], isLoading } = useQuery<ConfigRevisionSummary[]>({
+    queryKey: ["/api/config/revisions"],
+  });
+
+  const { data: viewingRevision } = useQuery<ConfigRevision>({
+    queryKey: ["/api/config/revisions", viewingRevisionId],
+    enabled: !!viewingRevisionId,
+  });
+
+  const { data: pendingChanges } = useQuery<{count: number, hasPending: boolean}>({
+    queryKey: ["/api/pending-changes"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/config/revisions/${id}/restore`, { force: true });
+      return response.json();
+    },
+    onSuccess: (_staged, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/global-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/pending-changes"] });
+      toast({
+        title: "Success",
+        description: `Revision #${id} staged as pending changes for review`,
+      });
+      setRestoringRevision(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="animate-pulse">Loading configuration history...</div>;
+  }
+
+  const latestRevisionId = revisions[0]?.id;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border border-gray-200 shadow-sm">
+        <CardHeader className="border-b border-gray-200">
+          <div className="flex items-center space-x-3">
+            <History className="w-5 h-5 text-carbon-blue" />
+            <div>
+              <CardTitle className="text-lg font-medium text-carbon-gray-70">
+                Configuration History
+              </CardTitle>
+              <p className="text-sm text-carbon-gray-50 mt-1">
+                Every configuration written to disk, newest first
+              </p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          {revisions.length === 0 ? (
+            <p className="text-sm text-carbon-gray-50">No configuration revisions recorded yet</p>
+          ) : (
+            <div className="space-y-3">
+              {revisions.map((revision) => (
+                <div
+                  key={revision.id}
+                  className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
+                >
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-3">
+                      <span className="font-medium text-carbon-gray-70">#{revision.id}</span>
+                      <span className="text-sm text-carbon-gray-70 truncate">{revision.summary}</span>
+                      {revision.id === latestRevisionId && (
+                        <Badge variant="secondary" className="bg-green-100 text-carbon-success">
+                          Current
+                        </Badge>
+                      )}
+                      {revision.hookResult && (
+                        <Badge
+                          variant="secondary"
+                          className={revision.hookResult.success ? "bg-gray-100 text-carbon-gray-50" : "bg-red-100 text-red-700"}
+                          title={`${revision.hookResult.target} (${revision.hookResult.durationMs} ms)`}
+                        >
+                          {revision.hookResult.success ? "Hook succeeded" : `Hook failed: ${describeHookFailure(revision.hookResult)}`}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-4 mt-1 text-xs text-carbon-gray-50">
+                      <span className="flex items-center">
+                        <Clock className="w-3 h-3 mr-1" />
+                        {formatEuropeanDateTime(revision.createdAt)}
+                      </span>
+                      <span className="flex items-center">
+                        <User className="w-3 h-3 mr-1" />
+                        {revision.author}
+                      </span>
+                      <span className="truncate">{revision.filePath}</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setViewingRevisionId(revision.id)}
+                      title="View revision content"
+                    >
+                      <Eye className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revision.id === latestRevisionId || restoreMutation.isPending}
+                      onClick={() => setRestoringRevision(revision)}
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Restore
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Revision Content Dialog */}
+      <Dialog open={!!viewingRevisionId} onOpenChange={(open) => !open && setViewingRevisionId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Revision #{viewingRevisionId}</DialogTitle>
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto rounded-md bg-carbon-gray-10 p-4 text-xs font-mono text-carbon-gray-70">
+            {viewingRevision?.content ?? "Loading..."}
+          </pre>
+        </DialogContent>
+      </Dialog>
+
+      {/* Restore Confirmation */}
+      <AlertDialog open={!!restoringRevision} onOpenChange={(open) => !open && setRestoringRevision(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore revision #{restoringRevision?.id}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The configuration from {restoringRevision ? formatEuropeanDateTime(restoringRevision.createdAt) : ""} will
+              be staged as pending changes, and written to disk once a change request for them is approved and applied.
+              {pendingChanges?.hasPending && ` Your ${pendingChanges.count} pending changes will be replaced.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => restoringRevision && restoreMutation.mutate(restoringRevision.id)}
+              className="bg-carbon-blue hover:bg-blue-700"
+            >
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { formatEuropeanDateTime } from "@/lib/date-utils";
+import type { DriftReport, QueueDrift } from "@shared/schema";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { RefreshCw } from "lucide-react";
+
+// Checked once a minute; the Fair Scheduler picks up a new allocation file
+// within about 10 seconds
+const DRIFT_CHECK_INTERVAL = 60000;
+
+const kindLabels: Record<QueueDrift["kind"], string> = {
+  missing: "Not on ResourceManager",
+  unconfigured: "Not configured",
+  changed: "Different settings",
+};
+
+function formatDriftValue(value: unknown, field: string): string {
+  if (value === null || value === undefined) {
+    return field === "maxRunningApps" ? "unlimited" : "-";
+  }
+  if (typeof value === "object" && "memoryMb" in value && "vcores" in value) {
+    const { memoryMb, vcores } = value as { memoryMb: number; vcores: number };
+    return `${memoryMb} mb, ${vcores} vcores`;
+  }
+  return String(value);
+}
+
+function statusOf(report: DriftReport | undefined, isLoading: boolean): { dot: string; label: string } {
+  if (isLoading || !report) return { dot: "bg-gray-300", label: "Checking ResourceManager..." };
+  switch (report.status) {
+    case "in-sync":
+      return { dot: "bg-carbon-success", label: "In sync with ResourceManager" };
+    case "drifted": {
+      const count = report.queues.filter(queue => queue.kind !== "unconfigured" || !report.placementCreatesQueues).length;
+      return { dot: "bg-carbon-warning", label: `Drift in ${count} ${count === 1 ? "queue" : "queues"}` };
+    }
+    case "unavailable":
+      return { dot: "bg-red-500", label: "ResourceManager unavailable" };
+    case "disabled":
+      return { dot: "bg-gray-300", label: "YARN not connected" };
+  }
+}
+
+// Whether the ResourceManager runs with the applied configuration, for the
+// dashboard header; the details open in a dialog
+export default function DriftStatus() {
+  const [open, setOpen] = useState(false);
+
+  const { data: report, isLoading, isFetching, refetch } = useQuery<DriftReport>({
+    queryKey: ["/api/yarn/drift"],
+    refetchInterval: DRIFT_CHECK_INTERVAL,
+  });
+
+  const { dot, label } = statusOf(report, isLoading);
+
+  return (
+    <>
+      <button className="flex items-center rounded-md px-2 py-1 hover:bg-gray-100" onClick={() => setOpen(true)}>
+        <div className={`w-3 h-3 ${dot} rounded-full mr-2`}></div>
+        <span className="text-sm text-carbon-gray-50">{label}</span>
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>ResourceManager Drift</DialogTitle>
+            <DialogDescription>
+              The applied configuration{report?.revisionId ? ` (revision #${report.revisionId})` : ""} against the
+              queues the ResourceManager reports. Right after applying, the scheduler may not have reloaded the file yet.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-carbon-gray-50">
+              {report ? `Checked ${formatEuropeanDateTime(report.checkedAt)}` : "Checking..."}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? "animate-spin" : ""}`} />
+              Check Now
+            </Button>
+          </div>
+
+          {report?.status === "disabled" && (
+            <p className="text-sm text-carbon-gray-50">Enable the YARN integration in the Configuration tab to compare against the ResourceManager.</p>
+          )}
+          {report?.status === "unavailable" && (
+            <p className="text-sm text-red-700">{report.error}</p>
+          )}
+          {report?.status === "in-sync" && (
+            <p className="text-sm text-carbon-gray-50">Every configured queue runs with its applied settings.</p>
+          )}
+
+          {report && report.queues.length > 0 && (
+            <div className="space-y-2 max-h-[55vh] overflow-auto">
+              {report.queues.map((queue) => {
+                const expected = queue.kind === "unconfigured" && report.placementCreatesQueues;
+                return (
+                  <div key={queue.path} className="border border-gray-200 rounded-lg px-4 py-2">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <span className="font-mono font-medium text-carbon-gray-70">{queue.path}</span>
+                      <Badge variant="secondary" className={expected ? "text-xs" : "bg-yellow-100 text-yellow-800 text-xs"}>
+                        {expected ? "Created by placement rules" : kindLabels[queue.kind]}
+                      </Badge>
+                    </div>
+                    {queue.differences.length > 0 && (
+                      <table className="w-full mt-1 text-xs">
+                        <thead>
+                          <tr className="text-left text-carbon-gray-50">
+                            <th className="font-medium py-1">Setting</th>
+                            <th className="font-medium py-1">Applied</th>
+                            <th className="font-medium py-1">ResourceManager</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {queue.differences.map((difference) => (
+                            <tr key={difference.field} className="font-mono">
+                              <td className="py-1">{difference.field}</td>
+                              <td className="py-1 text-green-700">{formatDriftValue(difference.expected, difference.field)}</td>
+                              <td className="py-1 text-red-700">{formatDriftValue(difference.actual, difference.field)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {report && report.notReported.length > 0 && (
+            <p className="text-xs text-carbon-gray-50">
+              Not compared, as the ResourceManager does not report them: {report.notReported.join(", ")}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
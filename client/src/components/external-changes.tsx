@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { formatEuropeanDateTime } from "@/lib/date-utils";
+import { diffLineClass, formatValue } from "@/components/pending-changes-review";
+import type { ConfigMergeRequest, ExternalChangeStatus, MergeChange, MergePreview } from "@shared/schema";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertTriangle, GitMerge, RefreshCw } from "lucide-react";
+
+// The watcher polls the file every few seconds; the sidebar asks less often
+const EXTERNAL_CHANGES_INTERVAL = 10000;
+
+const sourceLabels: Record<MergeChange["source"], string> = {
+  disk: "On disk",
+  pending: "Pending",
+  both: "Both",
+};
+
+// Whole queues are shown by their settings; the ones of every queue are left out
+function formatMergeValue(change: MergeChange, value: unknown): string {
+  if (change.field !== null) return formatValue(value);
+  if (value === null) return "removed";
+  const settings = Object.entries(value as Record<string, unknown>)
+    .filter(([field, setting]) => setting !== null && !["name", "path", "parent"].includes(field))
+    .map(([field, setting]) => `${field} ${formatValue(setting)}`);
+  return settings.length > 0 ? settings.join(", ") : "no settings";
+}
+
+function invalidateConfiguration(queryClient: ReturnType<typeof useQueryClient>) {
+  for (const key of ["/api/config/external-changes", "/api/config", "/api/pending-changes", "/api/queues", "/api/global-config", "/api/users", "/api/change-requests"]) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
+
+interface MergeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The three-way merge of the pending changes with the file on disk; every
+// conflict needs a side before the merge is staged
+function MergeDialog({ open, onOpenChange }: MergeDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [resolutions, setResolutions] = useState<ConfigMergeRequest["resolutions"]>({});
+
+  const { data: preview, isLoading, error, refetch } = useQuery<MergePreview>({
+    queryKey: ["/api/config/merge"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    setResolutions({});
+  }, [preview?.file.diskHash]);
+
+  const mergeMutation = useMutation({
+    mutationFn: async (request: ConfigMergeRequest) => {
+      const response = await apiRequest("POST", "/api/config/merge", request);
+      return response.json() as Promise<MergePreview>;
+    },
+    onSuccess: (merged) => {
+      invalidateConfiguration(queryClient);
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: `Pending changes merged with ${merged.file.filePath}`,
+      });
+    },
+    onError: (error: any) => {
+      refetch();
+      toast({
+        title: "Error",
+        description: error.message || "Failed to merge with the file on disk",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const conflicts = preview?.changes.filter(change => change.conflict) ?? [];
+  const unresolved = conflicts.filter(change => !resolutions[change.key]).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Merge with the File on Disk</DialogTitle>
+          <DialogDescription>
+            {preview
+              ? `${preview.file.filePath} was changed outside the configurator${preview.file.diskModifiedAt ? ` (${formatEuropeanDateTime(preview.file.diskModifiedAt)})` : ""}.`
+              : "The allocation file was changed outside the configurator."}{" "}
+            Merging reloads it and keeps the pending changes on top; settings both changed need a side.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="animate-pulse text-sm text-carbon-gray-50">Comparing...</div>
+        ) : error || !preview ? (
+          <p className="text-sm text-red-700">{(error as Error | null)?.message || "Failed to compare with the file on disk"}</p>
+        ) : (
+          <Tabs defaultValue="changes">
+            <TabsList>
+              <TabsTrigger value="changes">
+                Changes ({preview.changes.length}{preview.conflicts > 0 ? `, ${preview.conflicts} in conflict` : ""})
+              </TabsTrigger>
+              <TabsTrigger value="xml">Changed on Disk</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="changes" className="max-h-[55vh] overflow-auto">
+              {preview.changes.length === 0 ? (
+                <p className="text-sm text-carbon-gray-50">The file on disk differs in formatting or comments only</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-carbon-gray-50">
+                      <th className="font-normal py-1">Setting</th>
+                      <th className="font-normal py-1">Last synced</th>
+                      <th className="font-normal py-1">On disk</th>
+                      <th className="font-normal py-1">Pending</th>
+                      <th className="font-normal py-1">Result</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map((change) => (
+                      <tr key={change.key} className={`border-t border-gray-100 align-top ${change.conflict ? "bg-yellow-50" : ""}`}>
+                        <td className="py-1 pr-2 font-mono text-xs text-carbon-gray-70">{change.key}</td>
+                        <td className="py-1 pr-2 text-carbon-gray-50">{formatMergeValue(change, change.base)}</td>
+                        <td className="py-1 pr-2">{formatMergeValue(change, change.disk)}</td>
+                        <td className="py-1 pr-2">{formatMergeValue(change, change.pending)}</td>
+                        <td className="py-1">
+                          {change.conflict ? (
+                            <div className="flex space-x-1">
+                              {(["disk", "pending"] as const).map((side) => (
+                                <Button
+                                  key={side}
+                                  size="sm"
+                                  variant={resolutions[change.key] === side ? "default" : "outline"}
+                                  className="h-7 px-2 text-xs"
+                                  onClick={() => setResolutions(current => ({ ...current, [change.key]: side }))}
+                                >
+                                  {side === "disk" ? "Keep disk" : "Keep pending"}
+                                </Button>
+                              ))}
+                            </div>
+                          ) : (
+                            <Badge variant="secondary" className="text-xs">{sourceLabels[change.source]}</Badge>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </TabsContent>
+
+            <TabsContent value="xml">
+              <pre className="max-h-[55vh] overflow-auto rounded-md border border-gray-200 text-xs font-mono">
+                {preview.xmlDiff.split("\n").map((line, index) => (
+                  <div key={index} className={`px-3 ${diffLineClass(line)}`}>{line || " "}</div>
+                ))}
+              </pre>
+            </TabsContent>
+          </Tabs>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!preview || unresolved > 0 || mergeMutation.isPending}
+            onClick={() => preview && preview.file.diskHash && mergeMutation.mutate({ diskHash: preview.file.diskHash, resolutions })}
+          >
+            <GitMerge className="w-4 h-4 mr-2" />
+            {mergeMutation.isPending ? "Merging..." : unresolved > 0 ? `Resolve ${unresolved} ${unresolved === 1 ? "conflict" : "conflicts"}` : "Merge"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ExternalChangesProps {
+  hasPending: boolean;
+}
+
+// Warns when the allocation file was edited outside the configurator.
+// Without pending changes it is simply reloaded; pending changes are merged
+// with it first.
+export default function ExternalChanges({ hasPending }: ExternalChangesProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [mergeOpen, setMergeOpen] = useState(false);
+
+  const { data: external } = useQuery<ExternalChangeStatus>({
+    queryKey: ["/api/config/external-changes"],
+    refetchInterval: EXTERNAL_CHANGES_INTERVAL,
+  });
+
+  const reloadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/config/reload");
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateConfiguration(queryClient);
+      toast({
+        title: "Success",
+        description: "Configuration reloaded from disk",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reload configuration",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (external?.status === "missing") {
+    return (
+      <div className="rounded-md border border-red-200 bg-red-50 p-3 mb-4">
+        <div className="flex items-center text-xs font-medium text-red-700 mb-1">
+          <AlertTriangle className="w-4 h-4 mr-1" />
+          Allocation file cannot be read
+        </div>
+        <p className="text-xs text-red-700 break-all">{external.error}</p>
+      </div>
+    );
+  }
+  if (external?.status !== "changed") return null;
+
+  return (
+    <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 mb-4">
+      <div className="flex items-center text-xs font-medium text-yellow-800 mb-1">
+        <AlertTriangle className="w-4 h-4 mr-1" />
+        Changed outside the configurator
+      </div>
+      <p className="text-xs text-yellow-800">
+        {external.diskModifiedAt ? `Modified on disk ${formatEuropeanDateTime(external.diskModifiedAt)}. ` : ""}
+        {hasPending
+          ? "Pending changes cannot be applied until they are merged with the file."
+          : "The configuration shown is not the one on disk."}
+      </p>
+      {can("editor") && (hasPending ? (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-2 text-yellow-800 border-yellow-200 hover:bg-yellow-100"
+          onClick={() => setMergeOpen(true)}
+        >
+          <GitMerge className="w-4 h-4 mr-2" />
+          Review &amp; Merge
+        </Button>
+      ) : (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full mt-2 text-yellow-800 border-yellow-200 hover:bg-yellow-100"
+          disabled={reloadMutation.isPending}
+          onClick={() => reloadMutation.mutate()}
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${reloadMutation.isPending ? 'animate-spin' : ''}`} />
+          {reloadMutation.isPending ? "Reloading..." : "Reload from Disk"}
+        </Button>
+      ))}
+
+      <MergeDialog open={mergeOpen} onOpenChange={setMergeOpen} />
+    </div>
+  );
+}
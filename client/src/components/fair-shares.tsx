@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ResponsiveContainer, Treemap } from "recharts";
+import type { FairShareAnalysis, QueueFairShare, ResourceShare } from "@shared/schema";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Calculator, PieChart } from "lucide-react";
+
+type ShareKind = "steadyFairShare" | "instantaneousFairShare";
+
+interface FairShareParams {
+  memoryMb: string;
+  vcores: string;
+  config: "pending" | "applied";
+}
+
+// Top-level queues get a color that their descendants share
+const COLORS = ["#0f62fe", "#24a148", "#8a3ffc", "#ff832b", "#1192e8", "#fa4d56", "#007d79", "#d12771"];
+
+interface TreemapNode {
+  name: string;
+  path: string;
+  size?: number;
+  color: string;
+  children?: TreemapNode[];
+}
+
+const formatMemory = (mb: number) => (mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${mb} MB`);
+
+function formatShare(share: ResourceShare) {
+  const memory = share.memoryMb === null ? "—" : formatMemory(share.memoryMb);
+  const vcores = share.vcores === null ? "—" : `${share.vcores} vCores`;
+  return `${memory}, ${vcores}`;
+}
+
+// Nested treemap data sized by memory share; queues without a share are left out
+function toTreemap(queues: QueueFairShare[], kind: ShareKind): TreemapNode[] {
+  const build = (queue: QueueFairShare, color: string): TreemapNode | null => {
+    const children = queues
+      .filter((child) => child.parent === queue.path)
+      .map((child) => build(child, color))
+      .filter((child): child is TreemapNode => child !== null);
+    const size = queue[kind].memoryMb ?? 0;
+    if (children.length > 0) return { name: queue.name, path: queue.path, color, children };
+    return size > 0 ? { name: queue.name, path: queue.path, size, color } : null;
+  };
+  return queues
+    .filter((queue) => queue.parent === "root")
+    .map((queue, index) => build(queue, COLORS[index % COLORS.length]))
+    .filter((node): node is TreemapNode => node !== null);
+}
+
+function TreemapCell(props: any) {
+  const { x, y, width, height, name, path, size, color, depth } = props;
+  // Only leaf queues are drawn; parents are the sum of their leaves
+  if (depth === 0 || props.children) return null;
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={color} stroke="#fff" strokeWidth={2} fillOpacity={0.85}>
+        <title>{`${path}: ${formatMemory(size)}`}</title>
+      </rect>
+      {width > 60 && height > 32 && (
+        <>
+          <text x={x + 6} y={y + 16} fill="#fff" fontSize={12} fontWeight={500}>
+            {name}
+          </text>
+          <text x={x + 6} y={y + 30} fill="#fff" fontSize={11}>
+            {formatMemory(size)}
+          </text>
+        </>
+      )}
+    </g>
+  );
+}
+
+/**
+ * Steady and instantaneous fair shares of every queue, as a treemap of the
+ * leaf queues' memory shares and a table of every queue.
+ */
+export default function FairShares() {
+  const [form, setForm] = useState<FairShareParams>({ memoryMb: "", vcores: "", config: "pending" });
+  const [params, setParams] = useState<FairShareParams>(form);
+  const [kind, setKind] = useState<ShareKind>("steadyFairShare");
+  // Leaf queues with running applications; null until the user picks them
+  const [activeLeaves, setActiveLeaves] = useState<string[] | null>(null);
+
+  const search = new URLSearchParams({ config: params.config });
+  if (params.memoryMb && params.vcores) {
+    search.set("memoryMb", params.memoryMb);
+    search.set("vcores", params.vcores);
+  }
+  if (activeLeaves) search.set("active", activeLeaves.join(","));
+
+  const { data: analysis, error, isFetching } = useQuery<FairShareAnalysis>({
+    queryKey: [`/api/analysis/fair-shares?${search.toString()}`],
+    // Recompute whenever the overview is opened, the queues may have changed
+    staleTime: 0,
+  });
+
+  const leaves = analysis?.queues.filter((queue) => !analysis.queues.some((child) => child.parent === queue.path)) ?? [];
+  const depth = (queue: QueueFairShare) => queue.path.split(".").length - 1;
+  const treemap = analysis ? toTreemap(analysis.queues, kind) : [];
+
+  const toggleActive = (path: string, checked: boolean) => {
+    const current = activeLeaves ?? leaves.map((leaf) => leaf.path);
+    setActiveLeaves(checked ? [...current, path] : current.filter((leaf) => leaf !== path));
+  };
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <PieChart className="w-5 h-5 text-carbon-blue" />
+          <div>
+            <CardTitle className="text-lg font-medium text-carbon-gray-70">Fair Shares</CardTitle>
+            <p className="text-sm text-carbon-gray-50 mt-1">
+              What each queue's weight, min and max resources mean in cluster resources
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <form
+          className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setParams(form);
+          }}
+        >
+          <div className="space-y-2">
+            <Label>Cluster Memory (MB)</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="From YARN"
+              value={form.memoryMb}
+              onChange={(e) => setForm({ ...form, memoryMb: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Cluster vCores</Label>
+            <Input
+              type="number"
+              min={1}
+              placeholder="From YARN"
+              value={form.vcores}
+              onChange={(e) => setForm({ ...form, vcores: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Configuration</Label>
+            <Select value={form.config} onValueChange={(config) => setForm({ ...form, config: config as FairShareParams["config"] })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Current, including pending changes</SelectItem>
+                <SelectItem value="applied">Last applied</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Share</Label>
+            <Select value={kind} onValueChange={(value) => setKind(value as ShareKind)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="steadyFairShare">Steady</SelectItem>
+                <SelectItem value="instantaneousFairShare">Instantaneous</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={isFetching} className="bg-carbon-blue hover:bg-blue-700">
+            <Calculator className="w-4 h-4 mr-2" />
+            {isFetching ? "Calculating..." : "Calculate"}
+          </Button>
+        </form>
+
+        {error ? (
+          <p className="text-sm text-carbon-gray-50">
+            Enter the cluster memory and vCores, or connect to YARN to use the cluster's resources.
+          </p>
+        ) : analysis && (
+          <>
+            <p className="text-sm text-carbon-gray-50">
+              Cluster: {formatMemory(analysis.cluster.memoryMb)}, {analysis.cluster.vcores} vCores
+              {analysis.clusterSource === "yarn" ? " (from YARN)" : ""}.{" "}
+              {kind === "steadyFairShare"
+                ? "Steady fair shares divide the cluster among all queues."
+                : "Instantaneous fair shares divide the cluster among the active queues only."}{" "}
+              Queues under a fair parent share memory only; drf parents share every resource.
+            </p>
+
+            {treemap.length > 0 ? (
+              <div className="h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <Treemap data={treemap} dataKey="size" isAnimationActive={false} content={<TreemapCell />} />
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-sm text-carbon-gray-50">No queue has a memory share</p>
+            )}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-carbon-gray-50">
+                  <th className="font-normal py-1">Queue</th>
+                  <th className="font-normal py-1">Weight</th>
+                  <th className="font-normal py-1">Policy</th>
+                  <th className="font-normal py-1">Steady Fair Share</th>
+                  <th className="font-normal py-1">Instantaneous Fair Share</th>
+                  <th className="font-normal py-1">Active</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.queues.map((queue) => (
+                  <tr key={queue.path} className="border-t border-gray-100">
+                    <td className="py-1 font-mono text-carbon-gray-70" style={{ paddingLeft: `${depth(queue) * 16}px` }}>
+                      {queue.name}
+                    </td>
+                    <td className="py-1 text-carbon-gray-70">{queue.weight}</td>
+                    <td className="py-1 text-carbon-gray-70">{queue.schedulingPolicy}</td>
+                    <td className="py-1 text-carbon-gray-70">{formatShare(queue.steadyFairShare)}</td>
+                    <td className="py-1 text-carbon-gray-70">{formatShare(queue.instantaneousFairShare)}</td>
+                    <td className="py-1">
+                      {leaves.includes(queue) ? (
+                        <Checkbox
+                          checked={queue.active}
+                          onCheckedChange={(checked) => toggleActive(queue.path, checked === true)}
+                        />
+                      ) : (
+                        <span className="text-carbon-gray-50">{queue.active ? "yes" : "no"}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
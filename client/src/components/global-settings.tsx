@@ -3,7 +3,8 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { GlobalConfig, GlobalConfigFormData, globalConfigFormSchema } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DEFAULT_PLACEMENT_RULES, formatPlacementRule } from "@shared/placement";
+import { apiRequest, queryClient, clusterUrl } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 import { Button } from "@/components/ui/button";
@@ -11,7 +12,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
+import PlacementRulesBuilder from "@/components/placement-rules-builder";
 import { Settings } from "lucide-react";
 
 export default function GlobalSettings() {
@@ -29,14 +30,17 @@ export default function GlobalSettings() {
       userMaxAppsDefault: globalConfig?.userMaxAppsDefault || 5,
       queueMaxAppsDefault: globalConfig?.queueMaxAppsDefault || undefined,
       queueMaxAMShareDefault: globalConfig?.queueMaxAMShareDefault || undefined,
-      queuePlacementRules: globalConfig?.queuePlacementRules || "specified,user,default",
+      defaultMinSharePreemptionTimeout: globalConfig?.defaultMinSharePreemptionTimeout || undefined,
+      defaultFairSharePreemptionTimeout: globalConfig?.defaultFairSharePreemptionTimeout || undefined,
+      defaultFairSharePreemptionThreshold: globalConfig?.defaultFairSharePreemptionThreshold ?? undefined,
+      queuePlacementRules: globalConfig?.queuePlacementRules || DEFAULT_PLACEMENT_RULES,
       defaultQueue: globalConfig?.defaultQueue || "default",
     },
   });
 
   const updateMutation = useMutation({
     mutationFn: async (data: GlobalConfigFormData) => {
-      const response = await fetch("/api/global-config", {
+      const response = await fetch(clusterUrl("/api/global-config"), {
         method: "PUT",
         body: JSON.stringify(data),
         headers: { "Content-Type": "application/json" },
@@ -65,7 +69,10 @@ export default function GlobalSettings() {
         userMaxAppsDefault: globalConfig.userMaxAppsDefault || 5,
         queueMaxAppsDefault: globalConfig.queueMaxAppsDefault || undefined,
         queueMaxAMShareDefault: globalConfig.queueMaxAMShareDefault || undefined,
-        queuePlacementRules: globalConfig.queuePlacementRules || "specified,user,default",
+        defaultMinSharePreemptionTimeout: globalConfig.defaultMinSharePreemptionTimeout || undefined,
+        defaultFairSharePreemptionTimeout: globalConfig.defaultFairSharePreemptionTimeout || undefined,
+        defaultFairSharePreemptionThreshold: globalConfig.defaultFairSharePreemptionThreshold ?? undefined,
+        queuePlacementRules: globalConfig.queuePlacementRules || DEFAULT_PLACEMENT_RULES,
         defaultQueue: globalConfig.defaultQueue || "default",
       });
     }
@@ -82,7 +89,10 @@ export default function GlobalSettings() {
         userMaxAppsDefault: globalConfig.userMaxAppsDefault || 5,
         queueMaxAppsDefault: globalConfig.queueMaxAppsDefault || undefined,
         queueMaxAMShareDefault: globalConfig.queueMaxAMShareDefault || undefined,
-        queuePlacementRules: globalConfig.queuePlacementRules || "specified,user,default",
+        defaultMinSharePreemptionTimeout: globalConfig.defaultMinSharePreemptionTimeout || undefined,
+        defaultFairSharePreemptionTimeout: globalConfig.defaultFairSharePreemptionTimeout || undefined,
+        defaultFairSharePreemptionThreshold: globalConfig.defaultFairSharePreemptionThreshold ?? undefined,
+        queuePlacementRules: globalConfig.queuePlacementRules || DEFAULT_PLACEMENT_RULES,
         defaultQueue: globalConfig.defaultQueue || "default",
       });
     }
@@ -151,6 +161,24 @@ export default function GlobalSettings() {
                   {globalConfig?.queueMaxAMShareDefault || "Not set"}
                 </p>
               </div>
+              <div>
+                <label className="text-sm font-medium text-carbon-gray-50">Default Min Share Preemption Timeout</label>
+                <p className="text-base text-carbon-gray-70 mt-1">
+                  {globalConfig?.defaultMinSharePreemptionTimeout ? `${globalConfig.defaultMinSharePreemptionTimeout}s` : "Not set"}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-carbon-gray-50">Default Fair Share Preemption Timeout</label>
+                <p className="text-base text-carbon-gray-70 mt-1">
+                  {globalConfig?.defaultFairSharePreemptionTimeout ? `${globalConfig.defaultFairSharePreemptionTimeout}s` : "Not set"}
+                </p>
+              </div>
+              <div>
+                <label className="text-sm font-medium text-carbon-gray-50">Default Fair Share Preemption Threshold</label>
+                <p className="text-base text-carbon-gray-70 mt-1">
+                  {globalConfig?.defaultFairSharePreemptionThreshold ?? "Not set"}
+                </p>
+              </div>
             </div>
             
             <div className="space-y-4">
@@ -162,11 +190,13 @@ export default function GlobalSettings() {
               </div>
               <div>
                 <label className="text-sm font-medium text-carbon-gray-50">Queue Placement Rules</label>
-                <p className="text-base text-carbon-gray-70 mt-1">
-                  {globalConfig?.queuePlacementRules || "specified,user,default"}
-                </p>
+                <ol className="list-decimal list-inside text-base text-carbon-gray-70 mt-1 space-y-1">
+                  {(globalConfig?.queuePlacementRules || DEFAULT_PLACEMENT_RULES).map((rule, index) => (
+                    <li key={index} className="font-mono text-sm">{formatPlacementRule(rule)}</li>
+                  ))}
+                </ol>
                 <p className="text-xs text-carbon-gray-40 mt-1">
-                  Comma-separated list of placement rules (e.g., specified,user,default)
+                  Rules are tried in order until one places the application
                 </p>
               </div>
             </div>
@@ -263,6 +293,78 @@ export default function GlobalSettings() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="defaultMinSharePreemptionTimeout"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Min Share Preemption Timeout (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Seconds"
+                          {...field}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            field.onChange(value ? parseInt(value) : undefined);
+                          }}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="defaultFairSharePreemptionTimeout"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Fair Share Preemption Timeout (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          placeholder="Seconds"
+                          {...field}
+                          onChange={(e) => {
+                            const value = e.target.value;
+                            field.onChange(value ? parseInt(value) : undefined);
+                          }}
+                          value={field.value || ""}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="defaultFairSharePreemptionThreshold"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default Fair Share Preemption Threshold (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="text"
+                          placeholder="0.5"
+                          value={field.value !== undefined ? (Number.isInteger(field.value) ? `${field.value}.0` : field.value.toString()) : ""}
+                          onChange={(e) => {
+                            const strVal = e.target.value;
+                            // Allow decimal input between 0 and 1
+                            if (strVal === '' || /^0?\.\d*$|^1\.0*$|^0$|^1$/.test(strVal)) {
+                              const val = parseFloat(strVal);
+                              field.onChange(isNaN(val) ? undefined : val);
+                            }
+                          }}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <div className="space-y-4">
@@ -287,16 +389,14 @@ export default function GlobalSettings() {
                     <FormItem>
                       <FormLabel>Queue Placement Rules</FormLabel>
                       <FormControl>
-                        <Textarea 
-                          {...field}
-                          placeholder="specified,user,default"
-                          className="min-h-[60px]"
+                        <PlacementRulesBuilder
+                          value={field.value}
+                          onChange={field.onChange}
+                          defaultQueue={form.watch("defaultQueue") || "default"}
                         />
                       </FormControl>
                       <p className="text-xs text-carbon-gray-40">
-                        Comma-separated list of placement rules with optional attributes.<br/>
-                        Examples: "specified:create=false", "user:create=false", "default"<br/>
-                        Available rules: specified, user, primaryGroup, secondaryGroupExistingQueue, nestedUserQueue, default
+                        Rules are tried top to bottom; drag a rule to reorder it. A default rule without a queue uses the Default Queue above.
                       </p>
                       <FormMessage />
                     </FormItem>
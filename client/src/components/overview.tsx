@@ -17,7 +17,10 @@ import {
 } from "lucide-react";
 import { formatEuropeanDateTime } from "@/lib/date-utils";
 import { YarnSummary } from "@/components/yarn-summary";
+import FairShares from "@/components/fair-shares";
+import WhatIf from "@/components/what-if";
 import type { Queue, QueueMetrics } from "@shared/schema";
+import { formatResourceValue, type ResourceValue } from "@shared/resources";
 
 interface OverviewProps {
   onEditQueue?: (queueId: number) => void;
@@ -50,8 +53,8 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
   // Calculate statistics
   const stats = {
     totalQueues: queues.length,
-    totalMemory: queues.reduce((sum, q) => sum + (q.maxMemory || 0), 0),
-    totalVCores: queues.reduce((sum, q) => sum + (q.maxVcores || 0), 0),
+    totalMemory: queues.reduce((sum, q) => sum + (q.maxResources?.kind === "absolute" ? q.maxResources.memoryMb || 0 : 0), 0),
+    totalVCores: queues.reduce((sum, q) => sum + (q.maxResources?.kind === "absolute" ? q.maxResources.vcores || 0 : 0), 0),
     defaultPolicy: "Fair",
   };
 
@@ -62,12 +65,19 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
     return `${mb} MB`;
   };
 
+  // Percentages and custom resource types are shown as written in the file
+  const formatResources = (value: ResourceValue) => {
+    if (value.kind !== "absolute") return formatResourceValue(value);
+    return `${value.memoryMb ? formatMemory(value.memoryMb) : "∞"}, ${value.vcores || "∞"} vCores`;
+  };
+
   const getRootQueues = () => {
-    return queues.filter(q => q.parent === "root" && q.name !== "root");
+    return queues.filter(q => q.parent === "root");
   };
 
-  const getQueueMetrics = (queueName: string): QueueMetrics | undefined => {
-    return queueMetrics.find(m => m.queueName === queueName);
+  // The ResourceManager reports queues by full path, e.g. root.production
+  const getQueueMetrics = (queuePath: string): QueueMetrics | undefined => {
+    return queueMetrics.find(m => m.queueName === queuePath);
   };
 
   const handleViewQueue = (queue: Queue) => {
@@ -194,7 +204,7 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
             {/* Child Queues */}
             <div className="ml-6 space-y-3">
               {getRootQueues().map((queue) => {
-                const metrics = getQueueMetrics(queue.name);
+                const metrics = getQueueMetrics(queue.path);
                 return (
                   <div
                     key={queue.id}
@@ -225,9 +235,9 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
                           YARN: Disconnected
                         </Badge>
                       )}
-                      {(queue.maxMemory || queue.maxVcores) && (
+                      {queue.maxResources && (
                         <Badge variant="secondary" className="bg-green-100 text-carbon-success">
-                          Max: {queue.maxMemory ? formatMemory(queue.maxMemory) : "∞"}, {queue.maxVcores || "∞"} vCores
+                          Max: {formatResources(queue.maxResources)}
                         </Badge>
                       )}
                     </div>
@@ -257,6 +267,12 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
         </CardContent>
       </Card>
 
+      {/* Fair Shares */}
+      <FairShares />
+
+      {/* What-If Scenarios */}
+      <WhatIf />
+
       {/* Queue Details Dialog */}
       <Dialog open={isDetailsOpen} onOpenChange={setIsDetailsOpen}>
         <DialogContent className="max-w-2xl">
@@ -294,25 +310,17 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
                 <h4 className="text-sm font-medium text-carbon-gray-70 mb-3">Resource Limits</h4>
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="text-sm font-medium text-carbon-gray-50">Min Memory</label>
+                    <label className="text-sm font-medium text-carbon-gray-50">Min Resources</label>
                     <p className="text-base text-carbon-gray-70">
-                      {selectedQueue.minMemory ? formatMemory(selectedQueue.minMemory) : "Not set"}
+                      {selectedQueue.minResources ? formatResources(selectedQueue.minResources) : "Not set"}
                     </p>
                   </div>
                   <div>
-                    <label className="text-sm font-medium text-carbon-gray-50">Min vCores</label>
-                    <p className="text-base text-carbon-gray-70">{selectedQueue.minVcores || "Not set"}</p>
-                  </div>
-                  <div>
-                    <label className="text-sm font-medium text-carbon-gray-50">Max Memory</label>
+                    <label className="text-sm font-medium text-carbon-gray-50">Max Resources</label>
                     <p className="text-base text-carbon-gray-70">
-                      {selectedQueue.maxMemory ? formatMemory(selectedQueue.maxMemory) : "Not set"}
+                      {selectedQueue.maxResources ? formatResources(selectedQueue.maxResources) : "Not set"}
                     </p>
                   </div>
-                  <div>
-                    <label className="text-sm font-medium text-carbon-gray-50">Max vCores</label>
-                    <p className="text-base text-carbon-gray-70">{selectedQueue.maxVcores || "Not set"}</p>
-                  </div>
                 </div>
               </div>
 
@@ -347,6 +355,24 @@ export default function Overview({ onEditQueue, onSwitchToQueues }: OverviewProp
                       {selectedQueue.allowPreemptionTo ? "Yes" : "No"}
                     </p>
                   </div>
+                  <div>
+                    <label className="text-sm font-medium text-carbon-gray-50">Min Share Preemption Timeout</label>
+                    <p className="text-base text-carbon-gray-70">
+                      {selectedQueue.minSharePreemptionTimeout ? `${selectedQueue.minSharePreemptionTimeout}s` : "Inherited"}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-carbon-gray-50">Fair Share Preemption Timeout</label>
+                    <p className="text-base text-carbon-gray-70">
+                      {selectedQueue.fairSharePreemptionTimeout ? `${selectedQueue.fairSharePreemptionTimeout}s` : "Inherited"}
+                    </p>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-carbon-gray-50">Fair Share Preemption Threshold</label>
+                    <p className="text-base text-carbon-gray-70">
+                      {selectedQueue.fairSharePreemptionThreshold ?? "Inherited"}
+                    </p>
+                  </div>
                 </div>
               </div>
 
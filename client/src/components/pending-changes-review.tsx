@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import type { ChangeRequestSummary, ConfigValidation, FieldChange, PendingChangesDiff, PendingChangeSelection, QueueChange } from "@shared/schema";
+import type { ChangeRequestForm } from "@shared/change-requests";
+import { formatResourceValue, resourceValueSchema } from "@shared/resources";
+import { formatPlacementRules, placementRulesSchema } from "@shared/placement";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertCircle, AlertTriangle, Send, Undo2 } from "lucide-react";
+
+interface PendingChangesReviewProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (request: ChangeRequestForm) => void;
+  onDiscard: (selection: PendingChangeSelection) => void;
+  isSubmitting: boolean;
+  isDiscarding: boolean;
+  // Submitting and discarding need the editor role
+  canSubmit: boolean;
+  canDiscard: boolean;
+}
+
+export const changeTypeStyles: Record<QueueChange["type"], string> = {
+  added: "bg-green-100 text-carbon-success",
+  removed: "bg-red-100 text-red-700",
+  modified: "bg-yellow-100 text-carbon-gray-70",
+};
+
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  const resources = resourceValueSchema.safeParse(value);
+  if (resources.success) return formatResourceValue(resources.data);
+  const placementRules = placementRulesSchema.safeParse(value);
+  if (placementRules.success) return formatPlacementRules(placementRules.data);
+  return String(value);
+}
+
+export function diffLineClass(line: string): string {
+  if (line.startsWith("@@")) return "text-carbon-blue";
+  if (line.startsWith("+++") || line.startsWith("---")) return "text-carbon-gray-50";
+  if (line.startsWith("+")) return "bg-green-50 text-green-800";
+  if (line.startsWith("-")) return "bg-red-50 text-red-800";
+  return "text-carbon-gray-70";
+}
+
+export function FieldChangesTable({ fields }: { fields: FieldChange[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-carbon-gray-50">
+          <th className="font-normal py-1">Field</th>
+          <th className="font-normal py-1">Old value</th>
+          <th className="font-normal py-1">New value</th>
+        </tr>
+      </thead>
+      <tbody>
+        {fields.map((field) => (
+          <tr key={field.field} className="border-t border-gray-100">
+            <td className="py-1 font-mono text-xs text-carbon-gray-70">{field.field}</td>
+            <td className="py-1 text-red-700">{formatValue(field.oldValue)}</td>
+            <td className="py-1 text-carbon-success">{formatValue(field.newValue)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Errors block applying; warnings are shown for review only
+export function ValidationIssues({ validation }: { validation: ConfigValidation }) {
+  const issues = [...validation.errors, ...validation.warnings];
+  if (issues.length === 0) return null;
+  return (
+    <div className="space-y-1 rounded-md border border-gray-200 p-3 max-h-40 overflow-auto">
+      {issues.map((issue, index) => (
+        <div
+          key={index}
+          className={`flex items-start space-x-2 text-sm ${issue.severity === "error" ? "text-red-700" : "text-yellow-700"}`}
+        >
+          {issue.severity === "error" ? (
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          ) : (
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          )}
+          <span>
+            {issue.message}
+            <span className="ml-2 font-mono text-xs opacity-70">
+              [{issue.ruleId}{issue.location ? `, line ${issue.location.line}` : ""}]
+            </span>
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PendingChangesReview({
+  open,
+  onOpenChange,
+  onSubmit,
+  onDiscard,
+  isSubmitting,
+  isDiscarding,
+  canSubmit,
+  canDiscard,
+}: PendingChangesReviewProps) {
+  // null until the user narrows the selection: everything pending that is not
+  // in another change request is chosen
+  const [selection, setSelection] = useState<PendingChangeSelection | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setSelection(null);
+      setTitle("");
+      setDescription("");
+    }
+  }, [open]);
+
+  const { data: changeRequests = [] } = useQuery<ChangeRequestSummary[]>({
+    queryKey: ["/api/change-requests"],
+    enabled: open,
+    staleTime: 0,
+  });
+
+  // Changes of open and approved requests cannot be submitted again
+  const claimedBy = new Map<number, number>();
+  let globalConfigClaimedBy: number | null = null;
+  changeRequests
+    .filter((request) => request.status === "open" || request.status === "approved")
+    .forEach((request) => {
+      request.queueIds.forEach((queueId) => claimedBy.set(queueId, request.id));
+      if (request.globalConfig) globalConfigClaimedBy = request.id;
+    });
+  const hasClaimed = claimedBy.size > 0 || globalConfigClaimedBy !== null;
+
+  const selectionQuery = selection
+    ? `?queueIds=${(selection.queueIds ?? []).join(",")}&globalConfig=${!!selection.globalConfig}`
+    : "";
+
+  const { data: diff, isLoading, isFetching } = useQuery<PendingChangesDiff>({
+    queryKey: [`/api/pending-changes/diff${selectionQuery}`],
+    enabled: open,
+    // Always recompute when the dialog opens or the selection changes
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const allQueueIds = diff?.queues.map((change) => change.queueId) ?? [];
+  const hasGlobalConfigChanges = (diff?.globalConfig.length ?? 0) > 0;
+  const selectedQueueIds = selection ? (selection.queueIds ?? []) : allQueueIds.filter((id) => !claimedBy.has(id));
+  const globalConfigSelected = selection ? !!selection.globalConfig : hasGlobalConfigChanges && globalConfigClaimedBy === null;
+  const nothingSelected = selectedQueueIds.length === 0 && !globalConfigSelected;
+  const isBusy = isSubmitting || isDiscarding || isFetching || !diff;
+  const hasValidationErrors = (diff?.validation?.errors.length ?? 0) > 0;
+
+  // Leave out changes that are already in a change request
+  useEffect(() => {
+    if (selection === null && hasClaimed && diff) {
+      setSelection({ queueIds: selectedQueueIds, globalConfig: globalConfigSelected });
+    }
+  }, [selection, hasClaimed, diff]);
+
+  const toggleQueue = (queueId: number, checked: boolean) => {
+    const queueIds = checked
+      ? [...selectedQueueIds, queueId]
+      : selectedQueueIds.filter((id) => id !== queueId);
+    setSelection({ queueIds, globalConfig: globalConfigSelected });
+  };
+
+  const toggleGlobalConfig = (checked: boolean) => {
+    setSelection({ queueIds: selectedQueueIds, globalConfig: checked });
+  };
+
+  const currentSelection: PendingChangeSelection = { queueIds: selectedQueueIds, globalConfig: globalConfigSelected };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Review Pending Changes</DialogTitle>
+          <DialogDescription>
+            {diff?.filePath
+              ? `Selected changes are submitted for review, and written to ${diff.filePath} once approved`
+              : "Selected changes are submitted for review, and written to the allocation file once approved"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !diff ? (
+          <div className="animate-pulse text-sm text-carbon-gray-50">Loading changes...</div>
+        ) : (
+          <div className="space-y-4">
+            {diff.validation && <ValidationIssues validation={diff.validation} />}
+            <Tabs defaultValue="queues">
+              <TabsList>
+                <TabsTrigger value="queues">
+                  Changes ({diff.queues.length + (hasGlobalConfigChanges ? 1 : 0)})
+                </TabsTrigger>
+                <TabsTrigger value="xml">XML Diff</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="queues" className="max-h-[55vh] overflow-auto space-y-3">
+                {diff.queues.length === 0 && !hasGlobalConfigChanges && (
+                  <p className="text-sm text-carbon-gray-50">No fields differ from the applied configuration</p>
+                )}
+
+                {hasGlobalConfigChanges && (
+                  <div className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center space-x-3 mb-2">
+                      <Checkbox
+                        checked={globalConfigSelected}
+                        onCheckedChange={(checked) => toggleGlobalConfig(checked === true)}
+                      />
+                      <span className="font-medium text-carbon-gray-70">Global settings</span>
+                      <Badge variant="secondary" className={changeTypeStyles.modified}>
+                        modified
+                      </Badge>
+                      {globalConfigClaimedBy !== null && (
+                        <Badge variant="outline" className="text-xs">In change request #{globalConfigClaimedBy}</Badge>
+                      )}
+                    </div>
+                    <FieldChangesTable fields={diff.globalConfig} />
+                  </div>
+                )}
+
+                {diff.queues.map((change) => (
+                  <div key={change.queueId} className="border border-gray-200 rounded-lg p-4">
+                    <div className="flex items-center space-x-3 mb-2">
+                      <Checkbox
+                        checked={selectedQueueIds.includes(change.queueId)}
+                        onCheckedChange={(checked) => toggleQueue(change.queueId, checked === true)}
+                      />
+                      <span className="font-medium text-carbon-gray-70">{change.queuePath}</span>
+                      <Badge variant="secondary" className={changeTypeStyles[change.type]}>
+                        {change.type}
+                      </Badge>
+                      {claimedBy.has(change.queueId) && (
+                        <Badge variant="outline" className="text-xs">In change request #{claimedBy.get(change.queueId)}</Badge>
+                      )}
+                    </div>
+                    <FieldChangesTable fields={change.fields} />
+                  </div>
+                ))}
+              </TabsContent>
+
+              <TabsContent value="xml">
+                {diff.xmlDiff ? (
+                  <pre className="max-h-[55vh] overflow-auto rounded-md border border-gray-200 text-xs font-mono">
+                    {diff.xmlDiff.split("\n").map((line, index) => (
+                      <div key={index} className={`px-3 ${diffLineClass(line)}`}>{line || " "}</div>
+                    ))}
+                  </pre>
+                ) : (
+                  <p className="text-sm text-carbon-gray-50">The selected changes do not alter the current file</p>
+                )}
+              </TabsContent>
+            </Tabs>
+
+            {canSubmit && (
+              <div className="space-y-2 border-t border-gray-200 pt-4">
+                <Input
+                  placeholder="Title of the change request"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+                <Textarea
+                  placeholder="What changes and why (optional)"
+                  rows={2}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="outline"
+            className="text-red-600 border-red-200 hover:bg-red-50"
+            disabled={isBusy || nothingSelected || !canDiscard}
+            onClick={() => onDiscard(currentSelection)}
+          >
+            <Undo2 className="w-4 h-4 mr-2" />
+            {isDiscarding ? "Discarding..." : "Discard Selected"}
+          </Button>
+          <Button
+            className="bg-carbon-success hover:bg-green-700"
+            disabled={isBusy || nothingSelected || hasValidationErrors || !canSubmit || !title.trim()}
+            onClick={() => onSubmit({ ...currentSelection, title, description })}
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isSubmitting ? "Submitting..." : "Submit for Review"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import {
+  PLACEMENT_RULE_NAMES,
+  NESTED_PLACEMENT_RULE_NAMES,
+  type PlacementRule,
+  type PlacementRuleName,
+  type NestedPlacementRule,
+} from "@shared/placement";
+
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, CornerDownRight, GripVertical, Plus, Trash2 } from "lucide-react";
+
+interface PlacementRulesBuilderProps {
+  value: PlacementRule[];
+  onChange: (rules: PlacementRule[]) => void;
+  // Queue of default rules that do not name one
+  defaultQueue: string;
+}
+
+export const placementRuleLabels: Record<PlacementRuleName, string> = {
+  specified: "Specified queue",
+  user: "User name",
+  primaryGroup: "Primary group",
+  secondaryGroupExistingQueue: "Secondary group (existing queue)",
+  nestedUserQueue: "Nested user queue",
+  default: "Default queue",
+  reject: "Reject",
+};
+
+// Drops the settings the new rule type does not have
+function withName<T extends PlacementRule | NestedPlacementRule>(rule: T, name: T["name"]): T {
+  const { create, queue } = rule;
+  const next = { name } as T;
+  if (name !== "reject" && create !== undefined) next.create = create;
+  if (name === "default" && queue) next.queue = queue;
+  if (name === "nestedUserQueue") {
+    (next as PlacementRule).nestedRule = (rule as PlacementRule).nestedRule ?? { name: "primaryGroup" };
+  }
+  return next;
+}
+
+function RuleSettings<T extends PlacementRule | NestedPlacementRule>({
+  rule,
+  names,
+  defaultQueue,
+  onChange,
+}: {
+  rule: T;
+  names: readonly T["name"][];
+  defaultQueue: string;
+  onChange: (rule: T) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <Select value={rule.name} onValueChange={(name) => onChange(withName(rule, name as T["name"]))}>
+        <SelectTrigger className="w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {names.map((name) => (
+            <SelectItem key={name} value={name}>
+              {placementRuleLabels[name]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {rule.name !== "reject" && (
+        <label className="flex items-center space-x-2 text-sm text-carbon-gray-70">
+          <Checkbox
+            checked={rule.create !== false}
+            onCheckedChange={(checked) => {
+              // Creating missing queues is YARN's default
+              const { create, ...rest } = rule;
+              onChange((checked === true ? rest : { ...rest, create: false }) as T);
+            }}
+          />
+          <span>Create queue</span>
+        </label>
+      )}
+
+      {rule.name === "default" && (
+        <Input
+          className="w-56"
+          placeholder={defaultQueue}
+          value={rule.queue ?? ""}
+          onChange={(e) => {
+            const { queue, ...rest } = rule;
+            onChange((e.target.value ? { ...rest, queue: e.target.value } : rest) as T);
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Ordered editor for the rules of a queue placement policy. Rules are tried
+ * top to bottom; drag a row by its handle (or use the arrows) to reorder.
+ */
+export default function PlacementRulesBuilder({ value, onChange, defaultQueue }: PlacementRulesBuilderProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= value.length || from === to) return;
+    const rules = [...value];
+    const [rule] = rules.splice(from, 1);
+    rules.splice(to, 0, rule);
+    onChange(rules);
+  };
+
+  const update = (index: number, rule: PlacementRule) => {
+    onChange(value.map((current, i) => (i === index ? rule : current)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((rule, index) => (
+        <div
+          key={index}
+          draggable
+          onDragStart={(e) => {
+            setDragIndex(index);
+            e.dataTransfer.effectAllowed = "move";
+          }}
+          onDragOver={(e) => {
+            e.preventDefault();
+            if (dragIndex === null || dragIndex === index) return;
+            move(dragIndex, index);
+            setDragIndex(index);
+          }}
+          onDragEnd={() => setDragIndex(null)}
+          className={`flex items-start space-x-3 border border-gray-200 rounded-lg p-3 bg-white ${
+            dragIndex === index ? "opacity-50" : ""
+          }`}
+        >
+          <GripVertical className="w-4 h-4 mt-3 text-carbon-gray-40 cursor-move shrink-0" />
+          <span className="mt-2 w-6 text-sm font-medium text-carbon-gray-50">{index + 1}.</span>
+
+          <div className="flex-1 space-y-3">
+            <RuleSettings
+              rule={rule}
+              names={PLACEMENT_RULE_NAMES}
+              defaultQueue={defaultQueue}
+              onChange={(next) => update(index, next)}
+            />
+            {rule.nestedRule && (
+              <div className="flex items-center space-x-3 pl-2">
+                <CornerDownRight className="w-4 h-4 text-carbon-gray-40 shrink-0" />
+                <span className="text-sm text-carbon-gray-50">under</span>
+                <RuleSettings
+                  rule={rule.nestedRule}
+                  names={NESTED_PLACEMENT_RULE_NAMES}
+                  defaultQueue={defaultQueue}
+                  onChange={(nestedRule) => update(index, { ...rule, nestedRule })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex space-x-1">
+            <Button type="button" variant="ghost" size="sm" disabled={index === 0} onClick={() => move(index, index - 1)}>
+              <ArrowUp className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="ghost" size="sm" disabled={index === value.length - 1} onClick={() => move(index, index + 1)}>
+              <ArrowDown className="w-4 h-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-red-600 hover:bg-red-50"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...value, { name: "default" }])}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Rule
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { PlacementRuleTrace, PlacementSimulation } from "@shared/schema";
+import { formatPlacementRule } from "@shared/placement";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Play, Route } from "lucide-react";
+
+// Groups are typed as a comma-separated list, primary group first
+const simulatorFormSchema = z.object({
+  user: z.string().trim().min(1, "User is required"),
+  groups: z.string(),
+  requestedQueue: z.string(),
+  config: z.enum(["pending", "applied"]),
+});
+
+type SimulatorFormData = z.infer<typeof simulatorFormSchema>;
+
+const outcomeStyles: Record<PlacementRuleTrace["outcome"], string> = {
+  placed: "bg-green-100 text-carbon-success",
+  skipped: "bg-gray-100 text-carbon-gray-50",
+  rejected: "bg-red-100 text-red-700",
+};
+
+export default function PlacementSimulator() {
+  const { toast } = useToast();
+
+  const form = useForm<SimulatorFormData>({
+    resolver: zodResolver(simulatorFormSchema),
+    defaultValues: { user: "", groups: "", requestedQueue: "", config: "pending" },
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async (data: SimulatorFormData): Promise<PlacementSimulation> => {
+      const response = await apiRequest("POST", "/api/placement/simulate", {
+        user: data.user,
+        groups: data.groups.split(",").map((group) => group.trim()).filter(Boolean),
+        requestedQueue: data.requestedQueue.trim() || undefined,
+        config: data.config,
+      });
+      return response.json();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to simulate placement",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const simulation = simulateMutation.data;
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <Route className="w-5 h-5 text-carbon-blue" />
+          <div>
+            <CardTitle className="text-lg font-medium text-carbon-gray-70">
+              Placement Simulator
+            </CardTitle>
+            <p className="text-sm text-carbon-gray-50 mt-1">
+              See which queue an application would land in under the placement policy
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => simulateMutation.mutate(data))}
+            className="grid grid-cols-1 md:grid-cols-2 gap-4"
+          >
+            <FormField
+              control={form.control}
+              name="user"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>User</FormLabel>
+                  <FormControl>
+                    <Input placeholder="alice" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="groups"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Groups (primary first)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="analysts, etl" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="requestedQueue"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Requested Queue (Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="default" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="config"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Configuration</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="pending">Current, including pending changes</SelectItem>
+                      <SelectItem value="applied">Last applied</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="md:col-span-2">
+              <Button type="submit" disabled={simulateMutation.isPending} className="bg-carbon-blue hover:bg-blue-700">
+                <Play className="w-4 h-4 mr-2" />
+                {simulateMutation.isPending ? "Simulating..." : "Simulate"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        {simulation && (
+          <div className="space-y-4">
+            <div className={`rounded-lg p-4 ${simulation.rejected ? "bg-red-50" : "bg-green-50"}`}>
+              {simulation.rejected ? (
+                <p className="font-medium text-red-700">Rejected: {simulation.reason}</p>
+              ) : (
+                <>
+                  <p className="font-medium text-carbon-gray-70">
+                    Placed in <span className="font-mono">{simulation.queue}</span> by rule {simulation.ruleIndex! + 1} (
+                    <span className="font-mono">{formatPlacementRule(simulation.rule!)}</span>)
+                  </p>
+                  <p className="text-sm text-carbon-gray-50 mt-1">
+                    {simulation.createdQueues.length > 0
+                      ? `Would create ${simulation.createdQueues.join(", ")}`
+                      : "The queue already exists"}
+                  </p>
+                </>
+              )}
+            </div>
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-carbon-gray-50">
+                  <th className="font-normal py-1">#</th>
+                  <th className="font-normal py-1">Rule</th>
+                  <th className="font-normal py-1">Outcome</th>
+                  <th className="font-normal py-1">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.trace.map((step) => (
+                  <tr key={step.index} className="border-t border-gray-100">
+                    <td className="py-1 text-carbon-gray-50">{step.index + 1}</td>
+                    <td className="py-1 font-mono text-xs text-carbon-gray-70">{formatPlacementRule(step.rule)}</td>
+                    <td className="py-1">
+                      <Badge variant="secondary" className={outcomeStyles[step.outcome]}>
+                        {step.outcome}
+                      </Badge>
+                    </td>
+                    <td className="py-1 text-carbon-gray-70">
+                      {step.queue && <span className="font-mono mr-2">{step.queue}</span>}
+                      {step.reason}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { postApplyHookSchema, type PostApplyHook } from "@shared/post-apply-hook";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, Zap } from "lucide-react";
+
+type PostApplyHookSettings = {
+  clusterId: number;
+  hook: PostApplyHook | null;
+  serverDefault: PostApplyHook | null;
+};
+
+// "default" stores no hook of the cluster's own, so the server default runs
+type HookMode = "default" | PostApplyHook["type"];
+
+type HookForm = { mode: HookMode; command: string; url: string; timeoutSeconds: string };
+
+function toForm(hook: PostApplyHook | null): HookForm {
+  return {
+    mode: hook?.type ?? "default",
+    command: hook?.type === "command" ? hook.command : "",
+    url: hook?.type === "webhook" ? hook.url : "",
+    timeoutSeconds: hook && hook.type !== "none" ? String(hook.timeoutSeconds) : "60",
+  };
+}
+
+function describeHook(hook: PostApplyHook | null): string {
+  if (!hook || hook.type === "none") return "nothing";
+  return hook.type === "command" ? `the command ${hook.command}` : `a POST to ${hook.url}`;
+}
+
+// What runs after the cluster's allocation file was written, e.g.
+// `yarn rmadmin -refreshQueues`; administrators change it
+export default function PostApplyHookSettings() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<HookForm>(toForm(null));
+
+  const { data: settings, isLoading } = useQuery<PostApplyHookSettings>({
+    queryKey: ["/api/post-apply-hook"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm(toForm(settings.hook));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (hook: PostApplyHook | null) => {
+      const response = await apiRequest("PUT", `/api/clusters/${settings!.clusterId}`, { postApplyHook: hook });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/post-apply-hook"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/clusters"] });
+      toast({ title: "Success", description: "Post-apply hook saved" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the post-apply hook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (form.mode === "default") {
+      saveMutation.mutate(null);
+      return;
+    }
+    const parsed = postApplyHookSchema.safeParse({
+      type: form.mode,
+      command: form.command,
+      url: form.url,
+      timeoutSeconds: parseInt(form.timeoutSeconds),
+    });
+    if (!parsed.success) {
+      toast({
+        title: "Invalid hook",
+        description: parsed.error.errors[0]?.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(parsed.data);
+  };
+
+  const setField = (name: keyof HookForm) => (value: string) => setForm(current => ({ ...current, [name]: value }));
+  const readOnly = !can("admin");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="h-5 w-5" />
+          Post-Apply Hook
+        </CardTitle>
+        <CardDescription>
+          Runs every time a configuration is written to disk, so that the ResourceManager loads it without waiting
+          for its reload interval. A failing hook does not undo the change.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !settings ? (
+          <div className="flex items-center justify-center p-4">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Action</Label>
+                <Select value={form.mode} onValueChange={setField("mode")} disabled={readOnly}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">Server default</SelectItem>
+                    <SelectItem value="none">None</SelectItem>
+                    <SelectItem value="command">Run a command</SelectItem>
+                    <SelectItem value="webhook">Call a webhook</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.mode === "command" && (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>Command</Label>
+                  <Input
+                    className="font-mono"
+                    placeholder="yarn rmadmin -refreshQueues"
+                    value={form.command}
+                    onChange={(event) => setField("command")(event.target.value)}
+                    disabled={readOnly}
+                  />
+                </div>
+              )}
+              {form.mode === "webhook" && (
+                <div className="space-y-2 md:col-span-2">
+                  <Label>URL</Label>
+                  <Input
+                    placeholder="https://deploy.example.com/hooks/refresh-queues"
+                    value={form.url}
+                    onChange={(event) => setField("url")(event.target.value)}
+                    disabled={readOnly}
+                  />
+                </div>
+              )}
+            </div>
+
+            {(form.mode === "command" || form.mode === "webhook") && (
+              <div className="space-y-2 max-w-xs">
+                <Label>Timeout (seconds)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={600}
+                  value={form.timeoutSeconds}
+                  onChange={(event) => setField("timeoutSeconds")(event.target.value)}
+                  disabled={readOnly}
+                />
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              {form.mode === "default"
+                ? `The server default runs ${describeHook(settings.serverDefault)}.`
+                : form.mode === "command"
+                  ? "The command runs in a shell on the configurator's host with HOOK_CLUSTER_ID, HOOK_CLUSTER_NAME, HOOK_ALLOCATION_FILE, HOOK_REVISION_ID and HOOK_AUTHOR set."
+                  : form.mode === "webhook"
+                    ? "The cluster and the revision are POSTed as JSON; any 2xx response counts as success."
+                    : "Nothing runs, even where the server has a default hook."}
+            </p>
+
+            {!readOnly && (
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : "Save Hook"}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import type { Cluster, PromotionPreview } from "@shared/schema";
+import type { PromotionRequest } from "@shared/promotion";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { changeTypeStyles, diffLineClass, FieldChangesTable, ValidationIssues } from "@/components/pending-changes-review";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle, ArrowUpFromLine } from "lucide-react";
+
+interface PromotionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: Cluster;
+  clusters: Cluster[];
+}
+
+// Promotes another cluster's queue tree into the selected one. The changes
+// are previewed here and staged as pending changes of the target.
+export default function PromotionDialog({ open, onOpenChange, target, clusters }: PromotionDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const sources = clusters.filter((cluster) => cluster.id !== target.id);
+  const savedOverrides = target.promotionOverrides;
+
+  const [sourceClusterId, setSourceClusterId] = useState<number | null>(null);
+  const [config, setConfig] = useState<PromotionRequest["config"]>("applied");
+  const [includeGlobalConfig, setIncludeGlobalConfig] = useState(false);
+  const [scaleResources, setScaleResources] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSourceClusterId(sources[0]?.id ?? null);
+      setScaleResources(savedOverrides?.scaleResources ?? false);
+    }
+  }, [open, target.id]);
+
+  const request = sourceClusterId === null ? null : {
+    sourceClusterId,
+    config,
+    includeGlobalConfig,
+    // The saved queue overrides of the target apply either way
+    overrides: { scaleResources, queues: savedOverrides?.queues ?? [] },
+  };
+
+  const { data: preview, error, isFetching } = useQuery<PromotionPreview>({
+    queryKey: ["/api/promotion/preview", target.id, request],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/promotion/preview", request);
+      return response.json();
+    },
+    enabled: open && request !== null,
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+
+  const stageMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/promotion", request);
+      return response.json() as Promise<PromotionPreview>;
+    },
+    onSuccess: (staged) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pending-changes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/global-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      onOpenChange(false);
+      toast({
+        title: "Success",
+        description: `Configuration of ${staged.source.name} staged as pending changes of ${staged.target.name}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to stage promotion",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const hasGlobalConfigChanges = (preview?.globalConfig.length ?? 0) > 0;
+  const hasChanges = (preview?.queues.length ?? 0) > 0 || hasGlobalConfigChanges;
+  const hasValidationErrors = (preview?.validation.errors.length ?? 0) > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Promote into {target.name}</DialogTitle>
+          <DialogDescription>
+            The changes are staged as pending changes of {target.name} and applied from there
+          </DialogDescription>
+        </DialogHeader>
+
+        {sources.length === 0 ? (
+          <p className="text-sm text-carbon-gray-50">Add another cluster to promote its configuration</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Source cluster</Label>
+                <Select
+                  value={sourceClusterId !== null ? String(sourceClusterId) : undefined}
+                  onValueChange={(value) => setSourceClusterId(parseInt(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Cluster" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sources.map((cluster) => (
+                      <SelectItem key={cluster.id} value={String(cluster.id)}>
+                        {cluster.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Configuration</Label>
+                <Select value={config} onValueChange={(value) => setConfig(value as PromotionRequest["config"])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="applied">Last applied</SelectItem>
+                    <SelectItem value="pending">Including pending changes</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center space-x-6">
+              <label className="flex items-center space-x-2 text-sm text-carbon-gray-70">
+                <Checkbox checked={includeGlobalConfig} onCheckedChange={(checked) => setIncludeGlobalConfig(checked === true)} />
+                <span>Include global settings and user limits</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-carbon-gray-70">
+                <Checkbox checked={scaleResources} onCheckedChange={(checked) => setScaleResources(checked === true)} />
+                <span>Scale absolute resources to {target.name}</span>
+              </label>
+            </div>
+            {(savedOverrides?.queues.length ?? 0) > 0 && (
+              <p className="text-xs text-carbon-gray-50">
+                Queue overrides of {target.name}: {savedOverrides!.queues.map((override) => override.queue).join(", ")}
+              </p>
+            )}
+
+            {error ? (
+              <p className="text-sm text-red-600">{(error as Error).message.replace(/^\d+: /, "")}</p>
+            ) : !preview ? (
+              <div className="animate-pulse text-sm text-carbon-gray-50">Loading changes...</div>
+            ) : (
+              <>
+                {preview.scaling && (
+                  <p className="text-xs text-carbon-gray-50">
+                    Absolute resources scaled from {preview.scaling.source.memoryMb} MB, {preview.scaling.source.vcores} vcores
+                    to {preview.scaling.target.memoryMb} MB, {preview.scaling.target.vcores} vcores
+                  </p>
+                )}
+                {preview.warnings.map((warning) => (
+                  <div key={warning} className="flex items-start space-x-2 text-sm text-yellow-700">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>{warning}</span>
+                  </div>
+                ))}
+                <ValidationIssues validation={preview.validation} />
+                <Tabs defaultValue="queues">
+                  <TabsList>
+                    <TabsTrigger value="queues">
+                      Changes ({preview.queues.length + (hasGlobalConfigChanges ? 1 : 0)})
+                    </TabsTrigger>
+                    <TabsTrigger value="xml">XML Diff</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="queues" className="max-h-[45vh] overflow-auto space-y-3">
+                    {!hasChanges && (
+                      <p className="text-sm text-carbon-gray-50">{target.name} already has this configuration</p>
+                    )}
+
+                    {hasGlobalConfigChanges && (
+                      <div className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <span className="font-medium text-carbon-gray-70">Global settings</span>
+                          <Badge variant="secondary" className={changeTypeStyles.modified}>
+                            modified
+                          </Badge>
+                        </div>
+                        <FieldChangesTable fields={preview.globalConfig} />
+                      </div>
+                    )}
+
+                    {preview.queues.map((change) => (
+                      <div key={change.queuePath} className="border border-gray-200 rounded-lg p-4">
+                        <div className="flex items-center space-x-3 mb-2">
+                          <span className="font-medium text-carbon-gray-70">{change.queuePath}</span>
+                          <Badge variant="secondary" className={changeTypeStyles[change.type]}>
+                            {change.type}
+                          </Badge>
+                        </div>
+                        <FieldChangesTable fields={change.fields} />
+                      </div>
+                    ))}
+                  </TabsContent>
+
+                  <TabsContent value="xml">
+                    {preview.xmlDiff ? (
+                      <pre className="max-h-[45vh] overflow-auto rounded-md border border-gray-200 text-xs font-mono">
+                        {preview.xmlDiff.split("\n").map((line, index) => (
+                          <div key={index} className={`px-3 ${diffLineClass(line)}`}>{line || " "}</div>
+                        ))}
+                      </pre>
+                    ) : (
+                      <p className="text-sm text-carbon-gray-50">The promotion does not alter the allocation file</p>
+                    )}
+                  </TabsContent>
+                </Tabs>
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-carbon-blue hover:bg-blue-700"
+            disabled={!preview || !!error || isFetching || !hasChanges || hasValidationErrors || stageMutation.isPending}
+            onClick={() => stageMutation.mutate()}
+          >
+            <ArrowUpFromLine className="w-4 h-4 mr-2" />
+            {stageMutation.isPending ? "Staging..." : "Stage Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queueFormSchema, type QueueFormData, type Queue } from "@shared/schema";
+import { formatResourceValue, type ResourceValue } from "@shared/resources";
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -20,6 +21,12 @@ interface QueueFormProps {
   onClearEdit?: () => void;
 }
 
+// Resource fields hold the text being typed until the form is submitted
+function resourceInputValue(value: ResourceValue | string | null | undefined): string {
+  if (!value) return "";
+  return typeof value === "string" ? value : formatResourceValue(value);
+}
+
 export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProps = {}) {
   const [selectedQueueId, setSelectedQueueId] = useState<number | null>(editingQueueId || null);
   const [isEditing, setIsEditing] = useState(!!editingQueueId);
@@ -42,12 +49,13 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
       parent: "root",
       weight: 1.0,
       schedulingPolicy: "fair",
-      minMemory: undefined,
-      minVcores: undefined,
-      maxMemory: undefined,
-      maxVcores: undefined,
+      minResources: null,
+      maxResources: null,
       maxRunningApps: undefined,
       maxAMShare: undefined,
+      minSharePreemptionTimeout: undefined,
+      fairSharePreemptionTimeout: undefined,
+      fairSharePreemptionThreshold: undefined,
       allowPreemptionFrom: false,
       allowPreemptionTo: false,
       reservation: false,
@@ -71,10 +79,10 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
       });
       handleCancel();
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to save queue configuration",
+        description: error.message || "Failed to save queue configuration",
         variant: "destructive",
       });
     },
@@ -93,10 +101,10 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
       });
       handleCancel();
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to delete queue",
+        description: error.message || "Failed to delete queue",
         variant: "destructive",
       });
     },
@@ -118,12 +126,13 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
         parent: selectedQueue.parent || "root",
         weight: selectedQueue.weight || 1.0,
         schedulingPolicy: selectedQueue.schedulingPolicy || "fair",
-        minMemory: selectedQueue.minMemory || undefined,
-        minVcores: selectedQueue.minVcores || undefined,
-        maxMemory: selectedQueue.maxMemory || undefined,
-        maxVcores: selectedQueue.maxVcores || undefined,
+        minResources: selectedQueue.minResources ?? null,
+        maxResources: selectedQueue.maxResources ?? null,
         maxRunningApps: selectedQueue.maxRunningApps || undefined,
         maxAMShare: selectedQueue.maxAMShare || undefined,
+        minSharePreemptionTimeout: selectedQueue.minSharePreemptionTimeout || undefined,
+        fairSharePreemptionTimeout: selectedQueue.fairSharePreemptionTimeout || undefined,
+        fairSharePreemptionThreshold: selectedQueue.fairSharePreemptionThreshold ?? undefined,
         allowPreemptionFrom: selectedQueue.allowPreemptionFrom || false,
         allowPreemptionTo: selectedQueue.allowPreemptionTo || false,
         reservation: selectedQueue.reservation || false,
@@ -161,8 +170,12 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
     }
   };
 
+  // Parents are referenced by full path; a queue cannot move under itself
   const getParentQueues = () => {
-    return queues.filter(q => q.name !== form.watch("name") && q.name !== "root");
+    return queues.filter(q =>
+      q.path !== "root" &&
+      !(selectedQueue && (q.path === selectedQueue.path || q.path.startsWith(`${selectedQueue.path}.`)))
+    );
   };
 
   if (isLoading) {
@@ -190,14 +203,14 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
           </CardHeader>
           <CardContent className="p-6">
             <div className="space-y-4">
-              {queues.filter(q => q.name !== "root").map((queue) => (
+              {queues.filter(q => q.path !== "root").map((queue) => (
                 <div
                   key={queue.id}
                   className="flex items-center justify-between p-4 border border-gray-200 rounded-lg hover:bg-gray-50"
                 >
                   <div className="flex-1">
                     <div className="flex items-center space-x-4">
-                      <h4 className="font-medium text-carbon-gray-70">{queue.name}</h4>
+                      <h4 className="font-medium text-carbon-gray-70">{queue.path}</h4>
                       <span className="text-sm text-carbon-gray-50">
                         Parent: {queue.parent || "root"}
                       </span>
@@ -208,9 +221,9 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
                         Policy: {queue.schedulingPolicy}
                       </span>
                     </div>
-                    {(queue.maxMemory || queue.maxVcores) && (
+                    {queue.maxResources && (
                       <div className="mt-2 text-sm text-carbon-gray-50">
-                        Max Resources: {queue.maxMemory ? `${queue.maxMemory} MB` : "∞"}, {queue.maxVcores || "∞"} vCores
+                        Max Resources: {formatResourceValue(queue.maxResources)}
                       </div>
                     )}
                   </div>
@@ -274,8 +287,8 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
                             <SelectContent>
                               <SelectItem value="root">root</SelectItem>
                               {getParentQueues().map((queue) => (
-                                <SelectItem key={queue.id} value={queue.name}>
-                                  {queue.name}
+                                <SelectItem key={queue.id} value={queue.path}>
+                                  {queue.path}
                                 </SelectItem>
                               ))}
                             </SelectContent>
@@ -345,62 +358,16 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
                     <div className="grid grid-cols-2 gap-4">
                       <FormField
                         control={form.control}
-                        name="minMemory"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Min Memory (MB)</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="0"
-                                placeholder="1024"
-                                {...field}
-                                value={field.value || ""}
-                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={form.control}
-                        name="minVcores"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Min vCores</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="number"
-                                min="0"
-                                placeholder="1"
-                                {...field}
-                                value={field.value || ""}
-                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="maxMemory"
+                        name="minResources"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Max Memory (MB)</FormLabel>
+                            <FormLabel>Min Resources</FormLabel>
                             <FormControl>
                               <Input
-                                type="number"
-                                min="0"
-                                placeholder="16384"
+                                placeholder="1024 mb, 1 vcores"
                                 {...field}
-                                value={field.value || ""}
-                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                                value={resourceInputValue(field.value)}
+                                onChange={(e) => field.onChange(e.target.value || null)}
                               />
                             </FormControl>
                             <FormMessage />
@@ -410,18 +377,16 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
 
                       <FormField
                         control={form.control}
-                        name="maxVcores"
+                        name="maxResources"
                         render={({ field }) => (
                           <FormItem>
-                            <FormLabel>Max vCores</FormLabel>
+                            <FormLabel>Max Resources</FormLabel>
                             <FormControl>
                               <Input
-                                type="number"
-                                min="0"
-                                placeholder="8"
+                                placeholder="50%"
                                 {...field}
-                                value={field.value || ""}
-                                onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                                value={resourceInputValue(field.value)}
+                                onChange={(e) => field.onChange(e.target.value || null)}
                               />
                             </FormControl>
                             <FormMessage />
@@ -429,6 +394,10 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
                         )}
                       />
                     </div>
+                    <p className="text-sm text-carbon-gray-50">
+                      Absolute ("4096 mb, 4 vcores"), a percentage of the cluster ("50%"), per-resource
+                      percentages ("50% memory, 25% cpu") or any resource types ("memory-mb=4096, vcores=4, yarn.io/gpu=1")
+                    </p>
 
                     <FormField
                       control={form.control}
@@ -540,6 +509,83 @@ export default function QueueForm({ editingQueueId, onClearEdit }: QueueFormProp
                       )}
                     />
                   </div>
+
+                  <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mt-6">
+                    <FormField
+                      control={form.control}
+                      name="minSharePreemptionTimeout"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Min Share Preemption Timeout</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              placeholder="Inherit"
+                              {...field}
+                              value={field.value || ""}
+                              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Seconds below min share before preempting for this queue
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="fairSharePreemptionTimeout"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fair Share Preemption Timeout</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              placeholder="Inherit"
+                              {...field}
+                              value={field.value || ""}
+                              onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Seconds below the fair share threshold before preempting
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="fairSharePreemptionThreshold"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Fair Share Preemption Threshold</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="text"
+                              placeholder="Inherit"
+                              value={field.value !== undefined ? (Number.isInteger(field.value) ? `${field.value}.0` : field.value.toString()) : ""}
+                              onChange={(e) => {
+                                const strVal = e.target.value;
+                                // Allow decimal input between 0 and 1
+                                if (strVal === '' || /^0?\.\d*$|^1\.0*$|^0$|^1$/.test(strVal)) {
+                                  const val = parseFloat(strVal);
+                                  field.onChange(isNaN(val) ? undefined : val);
+                                }
+                              }}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            Fraction of fair share (0.0-1.0) a queue may fall to before preempting
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
                 </div>
 
                 {/* Action Buttons */}
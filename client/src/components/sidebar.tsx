@@ -1,15 +1,24 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, clusterUrl } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { formatEuropeanDateTime } from "@/lib/date-utils";
+import PendingChangesReview from "@/components/pending-changes-review";
+import ClusterSwitcher from "@/components/cluster-switcher";
+import ExternalChanges from "@/components/external-changes";
+import type { PendingChangeSelection, ConversionIssue, ChangeRequestSummary, ConfigRevisionSummary, QueueChange, FieldChange } from "@shared/schema";
+import { describeHookFailure } from "@shared/post-apply-hook";
+import type { ChangeRequestForm } from "@shared/change-requests";
 import { 
   Settings, 
   Upload, 
   Download, 
+  FileOutput,
   RefreshCw, 
   BarChart3, 
   Network, 
@@ -18,10 +27,15 @@ import {
   CheckSquare,
   Save,
   Eye,
-  Activity
+  Activity,
+  History,
+  GitPullRequest,
+  AlertTriangle
 } from "lucide-react";
 
-type TabType = "overview" | "queues" | "policies" | "xml-editor" | "global-settings";
+type UploadFormat = "fair-scheduler" | "capacity-scheduler";
+
+type TabType = "overview" | "queues" | "policies" | "xml-editor" | "global-settings" | "history" | "changes";
 
 interface SidebarProps {
   activeTab: TabType;
@@ -30,7 +44,12 @@ interface SidebarProps {
 
 export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
   const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadFormat, setUploadFormat] = useState<UploadFormat>("fair-scheduler");
+  // Settings of the last imported capacity-scheduler.xml that were not imported
+  const [importIssues, setImportIssues] = useState<ConversionIssue[]>([]);
+  const [reviewOpen, setReviewOpen] = useState(false);
   const { toast } = useToast();
+  const { can } = useAuth();
   const queryClient = useQueryClient();
 
   // Get current config
@@ -46,28 +65,39 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
 
   // Upload mutation
   const uploadMutation = useMutation({
-    mutationFn: async (file: File) => {
+    mutationFn: async ({ file, format }: { file: File; format: UploadFormat }) => {
       const formData = new FormData();
+      formData.append('format', format);
       formData.append('configFile', file);
-      const response = await fetch('/api/config/upload', {
+      const response = await fetch(clusterUrl('/api/config/upload'), {
         method: 'POST',
         body: formData,
       });
-      if (!response.ok) throw new Error('Upload failed');
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || body?.message || 'Upload failed');
+      }
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/config"] });
+    onSuccess: (result: { queues: QueueChange[]; globalConfig: FieldChange[]; issues?: ConversionIssue[] }) => {
+      for (const key of ["/api/queues", "/api/global-config", "/api/users", "/api/pending-changes"]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+      setImportIssues(result.issues ?? []);
+      const staged = result.queues.length + (result.globalConfig.length > 0 ? 1 : 0);
+      const summary = staged === 0 ? "no changes to stage" : `${staged} ${staged === 1 ? "change" : "changes"} staged for review`;
       toast({
         title: "Success",
-        description: "Configuration file uploaded successfully",
+        description: result.issues
+          ? `Capacity Scheduler configuration imported, ${summary}${result.issues.length > 0 ? `; ${result.issues.length} settings not supported` : ""}`
+          : `Configuration file uploaded, ${summary}`,
       });
       setUploadFile(null);
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to upload configuration file",
+        description: error.message || "Failed to upload configuration file",
         variant: "destructive",
       });
     },
@@ -95,25 +125,64 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
     },
   });
 
-  // Apply changes mutation
-  const applyChangesMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/pending-changes/apply');
-      return response.json();
+  // Change requests waiting for review or to be applied
+  const { data: changeRequests = [] } = useQuery<ChangeRequestSummary[]>({
+    queryKey: ["/api/change-requests"],
+    refetchInterval: 10000,
+  });
+  const activeChangeRequests = changeRequests.filter((request) => request.status === "open" || request.status === "approved").length;
+
+  // A failed post-apply hook of the configuration on disk means the
+  // ResourceManager may still run the previous one
+  const { data: revisions = [] } = useQuery<ConfigRevisionSummary[]>({
+    queryKey: ["/api/config/revisions"],
+    refetchInterval: 10000,
+  });
+  const latestRevision = revisions[0];
+  const failedHook = latestRevision?.hookResult && !latestRevision.hookResult.success ? latestRevision.hookResult : null;
+
+  const retryHookMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest('POST', `/api/config/revisions/${revisionId}/hook`);
+      return response.json() as Promise<ConfigRevisionSummary>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/pending-changes"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/config"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+    onSuccess: (revision) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/config/revisions"] });
+      const result = revision.hookResult;
+      toast({
+        title: result?.success ? "Success" : "Post-apply hook failed again",
+        description: result?.success ? "Post-apply hook succeeded" : result ? `${result.target}: ${describeHookFailure(result)}` : undefined,
+        variant: result?.success ? undefined : "destructive",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to run the post-apply hook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Submit for review mutation
+  const submitChangesMutation = useMutation({
+    mutationFn: async (request: ChangeRequestForm) => {
+      const response = await apiRequest('POST', '/api/change-requests', request);
+      return response.json() as Promise<ChangeRequestSummary>;
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/change-requests"] });
+      setReviewOpen(false);
+      onTabChange('changes');
       toast({
         title: "Success",
-        description: "Changes applied successfully",
+        description: `Change request #${request.id} submitted for review`,
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to apply changes",
+        description: error.message || "Failed to submit changes",
         variant: "destructive",
       });
     },
@@ -121,22 +190,25 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
 
   // Discard changes mutation
   const discardChangesMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest('POST', '/api/pending-changes/discard');
+    mutationFn: async (selection?: PendingChangeSelection) => {
+      const response = await apiRequest('POST', '/api/pending-changes/discard', selection);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/pending-changes"] });
       queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/global-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/change-requests"] });
+      setReviewOpen(false);
       toast({
         title: "Success",
         description: "Changes discarded successfully",
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to discard changes",
+        description: error.message || "Failed to discard changes",
         variant: "destructive",
       });
     },
@@ -144,13 +216,13 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
 
   const handleFileUpload = () => {
     if (uploadFile) {
-      uploadMutation.mutate(uploadFile);
+      uploadMutation.mutate({ file: uploadFile, format: uploadFormat });
     }
   };
 
   const handleFileDownload = async () => {
     try {
-      const response = await fetch('/api/config/download');
+      const response = await fetch(clusterUrl('/api/config/download'));
       if (!response.ok) throw new Error('Download failed');
       
       const blob = await response.blob();
@@ -176,6 +248,39 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
     }
   };
 
+  // The report of settings that were not converted exactly is a comment at
+  // the top of the file
+  const handleCapacitySchedulerDownload = async () => {
+    try {
+      const response = await fetch(clusterUrl('/api/convert/capacity-scheduler?format=xml'));
+      if (!response.ok) throw new Error('Conversion failed');
+      const issues = parseInt(response.headers.get('X-Conversion-Issues') || '0', 10);
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'capacity-scheduler.xml';
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      toast({
+        title: "Converted to Capacity Scheduler",
+        description: issues > 0
+          ? `${issues} ${issues === 1 ? "setting was" : "settings were"} not converted exactly, see the comment at the top of the file`
+          : "Every setting was converted",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to convert the configuration",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleReload = () => {
     reloadMutation.mutate();
   };
@@ -186,6 +291,8 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
     { id: "global-settings", icon: Settings, label: "Configuration" },
     { id: "policies", icon: Scale, label: "Scheduling Policies" },
     { id: "xml-editor", icon: Code, label: "XML Editor" },
+    { id: "changes", icon: GitPullRequest, label: "Changes" },
+    { id: "history", icon: History, label: "History" },
   ];
 
   return (
@@ -197,6 +304,7 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
           YARN Fair Scheduler
         </h1>
         <p className="text-sm text-carbon-gray-50 mt-1">Configuration Manager</p>
+        <ClusterSwitcher />
       </div>
 
       {/* File Operations Panel */}
@@ -219,8 +327,49 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
           </p>
         </div>
 
+        <ExternalChanges hasPending={pendingChanges?.hasPending ?? false} />
+
+        {failedHook && latestRevision && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 mb-4">
+            <div className="flex items-center text-xs font-medium text-red-700 mb-1">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              Post-apply hook failed for revision #{latestRevision.id}
+            </div>
+            <p className="text-xs text-red-700 font-mono break-all">{failedHook.target}</p>
+            <p className="text-xs text-red-700 mt-1">
+              {describeHookFailure(failedHook)}, {formatEuropeanDateTime(failedHook.ranAt)}
+            </p>
+            {(failedHook.stderr || failedHook.stdout) && (
+              <pre className="mt-2 max-h-24 overflow-auto whitespace-pre-wrap text-xs text-red-700">
+                {failedHook.stderr || failedHook.stdout}
+              </pre>
+            )}
+            {can("approver") && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full mt-2 text-red-700 border-red-200 hover:bg-red-100"
+                disabled={retryHookMutation.isPending}
+                onClick={() => retryHookMutation.mutate(latestRevision.id)}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${retryHookMutation.isPending ? 'animate-spin' : ''}`} />
+                {retryHookMutation.isPending ? "Running..." : "Retry Hook"}
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* File Upload */}
         <div className="space-y-2 mb-4">
+          <Select value={uploadFormat} onValueChange={(format) => setUploadFormat(format as UploadFormat)}>
+            <SelectTrigger className="text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="fair-scheduler">fair-scheduler.xml</SelectItem>
+              <SelectItem value="capacity-scheduler">capacity-scheduler.xml (import)</SelectItem>
+            </SelectContent>
+          </Select>
           <Input
             type="file"
             accept=".xml"
@@ -237,6 +386,23 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
             <Upload className="w-4 h-4 mr-2" />
             {uploadMutation.isPending ? "Uploading..." : "Upload Config"}
           </Button>
+          {importIssues.length > 0 && (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs font-medium text-yellow-800">Not imported</span>
+                <button className="text-xs text-yellow-800 underline" onClick={() => setImportIssues([])}>
+                  Dismiss
+                </button>
+              </div>
+              <ul className="max-h-40 overflow-y-auto space-y-1">
+                {importIssues.map((issue, index) => (
+                  <li key={index} className="text-xs text-yellow-800">
+                    <span className="font-mono">{issue.queue ? `${issue.queue} ` : ""}{issue.setting}</span>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* File Actions */}
@@ -250,6 +416,15 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
             <Download className="w-4 h-4 mr-2" />
             Download Config
           </Button>
+          <Button
+            onClick={handleCapacitySchedulerDownload}
+            variant="outline"
+            size="sm"
+            className="w-full"
+          >
+            <FileOutput className="w-4 h-4 mr-2" />
+            Download as Capacity Scheduler
+          </Button>
           <Button
             onClick={handleReload}
             disabled={reloadMutation.isPending}
@@ -283,6 +458,9 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
                 >
                   <Icon className="w-4 h-4 mr-3" />
                   {item.label}
+                  {item.id === "changes" && activeChangeRequests > 0 && (
+                    <Badge variant="secondary" className="ml-auto text-xs">{activeChangeRequests}</Badge>
+                  )}
                 </button>
               </li>
             );
@@ -290,7 +468,7 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
         </ul>
       </nav>
 
-      {/* Apply Changes Section */}
+      {/* Pending Changes Section */}
       <div className="p-6 border-t border-gray-200 bg-carbon-gray-10">
         <div className="flex items-center justify-between mb-3">
           <span className="text-sm font-medium text-carbon-gray-70">Pending Changes</span>
@@ -315,25 +493,36 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
           <Button 
             size="sm" 
             className="w-full bg-carbon-success hover:bg-green-700"
-            disabled={!pendingChanges?.hasPending || applyChangesMutation.isPending}
-            onClick={() => applyChangesMutation.mutate()}
+            disabled={!pendingChanges?.hasPending || submitChangesMutation.isPending}
+            onClick={() => setReviewOpen(true)}
           >
             <Save className="w-4 h-4 mr-2" />
-            {applyChangesMutation.isPending ? "Applying..." : "Apply Changes"}
+            {submitChangesMutation.isPending ? "Submitting..." : "Review Changes"}
           </Button>
-          {pendingChanges?.hasPending && (
+          {pendingChanges?.hasPending && can("editor") && (
             <Button 
               variant="outline" 
               size="sm" 
               className="w-full text-red-600 border-red-200 hover:bg-red-50"
               disabled={discardChangesMutation.isPending}
-              onClick={() => discardChangesMutation.mutate()}
+              onClick={() => discardChangesMutation.mutate(undefined)}
             >
               {discardChangesMutation.isPending ? "Discarding..." : "Discard Changes"}
             </Button>
           )}
         </div>
       </div>
+
+      <PendingChangesReview
+        open={reviewOpen}
+        onOpenChange={setReviewOpen}
+        onSubmit={(request) => submitChangesMutation.mutate(request)}
+        onDiscard={(selection) => discardChangesMutation.mutate(selection)}
+        isSubmitting={submitChangesMutation.isPending}
+        isDiscarding={discardChangesMutation.isPending}
+        canSubmit={can("editor")}
+        canDiscard={can("editor")}
+      />
     </div>
   );
 }
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { userLimitFormSchema, type UserLimit, type UserLimitFormData, type GlobalConfig } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Save, Trash2, Users, X } from "lucide-react";
+
+const emptyForm: UserLimitFormData = { name: "", maxRunningApps: 1 };
+
+export default function UserLimits() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // null while the form is closed, "new" when adding a user
+  const [editing, setEditing] = useState<number | "new" | null>(null);
+
+  const { data: userLimits = [], isLoading } = useQuery<UserLimit[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: globalConfig } = useQuery<GlobalConfig>({
+    queryKey: ["/api/global-config"],
+  });
+
+  const form = useForm<UserLimitFormData>({
+    resolver: zodResolver(userLimitFormSchema),
+    defaultValues: emptyForm,
+  });
+
+  const onChanged = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    toast({ title: "Success", description });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: UserLimitFormData) => {
+      if (typeof editing === "number") {
+        return apiRequest("PUT", `/api/users/${editing}`, data);
+      }
+      return apiRequest("POST", "/api/users", data);
+    },
+    onSuccess: () => {
+      onChanged(editing === "new" ? "User limit created" : "User limit updated");
+      handleCancel();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save user limit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("DELETE", `/api/users/${id}`),
+    onSuccess: () => onChanged("User limit deleted"),
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete user limit",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    form.reset(emptyForm);
+    setEditing("new");
+  };
+
+  const handleEdit = (userLimit: UserLimit) => {
+    form.reset({ name: userLimit.name, maxRunningApps: userLimit.maxRunningApps });
+    setEditing(userLimit.id);
+  };
+
+  const handleCancel = () => {
+    form.reset(emptyForm);
+    setEditing(null);
+  };
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-200 flex flex-row items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Users className="w-5 h-5 text-carbon-blue" />
+          <div>
+            <CardTitle className="text-lg font-medium text-carbon-gray-70">
+              User Limits
+            </CardTitle>
+            <p className="text-sm text-carbon-gray-50 mt-1">
+              Per-user overrides of the default of {globalConfig?.userMaxAppsDefault || 5} running apps per user
+            </p>
+          </div>
+        </div>
+        {editing === null && (
+          <Button onClick={handleAdd} className="bg-carbon-blue hover:bg-blue-700">
+            <Plus className="w-4 h-4 mr-2" />
+            Add User
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        {editing !== null && (
+          <Form {...form}>
+            <form
+              onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+              className="flex items-start space-x-4 border border-gray-200 rounded-lg p-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>User</FormLabel>
+                    <FormControl>
+                      <Input placeholder="alice" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxRunningApps"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>Max Running Apps</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value ? parseInt(e.target.value) : undefined)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="flex space-x-2 pt-8">
+                <Button type="submit" disabled={saveMutation.isPending} className="bg-carbon-blue hover:bg-blue-700">
+                  <Save className="w-4 h-4 mr-2" />
+                  {saveMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+
+        {isLoading ? (
+          <div className="text-center">Loading user limits...</div>
+        ) : userLimits.length === 0 ? (
+          <p className="text-sm text-carbon-gray-50">
+            No per-user overrides; every user gets the default limit
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Max Running Apps</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {userLimits.map((userLimit) => (
+                <TableRow key={userLimit.id}>
+                  <TableCell className="font-medium text-carbon-gray-70">{userLimit.name}</TableCell>
+                  <TableCell>{userLimit.maxRunningApps}</TableCell>
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(userLimit)}>
+                      Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600 border-red-200 hover:bg-red-50"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => deleteMutation.mutate(userLimit.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,315 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { accountFormSchema, type AccountForm, type AccountSummary } from "@shared/schema";
+import { passwordChangeSchema, ROLES, type PasswordChange, type Role } from "@shared/auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { AuditLogDialog } from "@/components/audit-log";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, KeyRound, LogOut, Trash2, User, Users } from "lucide-react";
+
+function PasswordDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const form = useForm<PasswordChange>({
+    resolver: zodResolver(passwordChangeSchema),
+    defaultValues: { currentPassword: "", newPassword: "" },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async (data: PasswordChange) => {
+      await apiRequest("PUT", "/api/auth/password", data);
+    },
+    onSuccess: () => {
+      onOpenChange(false);
+      form.reset();
+      toast({ title: "Success", description: "Password changed" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Change Password</DialogTitle>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => passwordMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="current-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New password</FormLabel>
+                  <FormControl>
+                    <Input type="password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={passwordMutation.isPending} className="bg-carbon-blue hover:bg-blue-700">
+                {passwordMutation.isPending ? "Saving..." : "Change Password"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const emptyAccount: AccountForm = { username: "", password: "", role: "viewer" };
+
+// Local accounts, for administrators
+function AccountsDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const { data: accounts = [] } = useQuery<AccountSummary[]>({
+    queryKey: ["/api/accounts"],
+    enabled: open,
+  });
+
+  const form = useForm<AccountForm>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: emptyAccount,
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AccountForm) => {
+      const response = await apiRequest("POST", "/api/accounts", data);
+      return response.json() as Promise<AccountSummary>;
+    },
+    onSuccess: (account) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      form.reset(emptyAccount);
+      toast({ title: "Success", description: `Account ${account.username} created` });
+    },
+    onError: onError("Failed to create account"),
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: Role }) => {
+      await apiRequest("PUT", `/api/accounts/${id}`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    },
+    onError: onError("Failed to change role"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    },
+    onError: onError("Failed to delete account"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Accounts</DialogTitle>
+          <DialogDescription>
+            Viewers read, editors stage and submit changes, approvers review and apply them, admins manage clusters and accounts
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[40vh] overflow-auto">
+          {accounts.map((account) => (
+            <div key={account.id} className="flex items-center justify-between border border-gray-200 rounded-lg px-4 py-2">
+              <span className="font-medium text-carbon-gray-70">{account.username}</span>
+              <div className="flex items-center space-x-2">
+                <Select value={account.role} onValueChange={(role) => roleMutation.mutate({ id: account.id, role: role as Role })}>
+                  <SelectTrigger className="w-32 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{role}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="text-red-600 border-red-200 hover:bg-red-50"
+                  disabled={account.id === user?.id || deleteMutation.isPending}
+                  onClick={() => deleteMutation.mutate(account.id)}
+                  title="Delete account"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="grid grid-cols-4 gap-2 items-start">
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input placeholder="Username" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormControl>
+                    <Input type="password" placeholder="Password" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="role"
+              render={({ field }) => (
+                <FormItem>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {ROLES.map((role) => (
+                        <SelectItem key={role} value={role}>{role}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={createMutation.isPending} className="bg-carbon-blue hover:bg-blue-700">
+              {createMutation.isPending ? "Adding..." : "Add Account"}
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The logged-in user, with logout, password change, account management and
+// the audit log
+export default function UserMenu() {
+  const { user, can, logoutMutation } = useAuth();
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [managingAccounts, setManagingAccounts] = useState(false);
+  const [viewingAuditLog, setViewingAuditLog] = useState(false);
+
+  if (!user) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="text-carbon-gray-70">
+            <User className="w-4 h-4 mr-2" />
+            {user.username}
+            <Badge variant="secondary" className="ml-2 text-xs">{user.role}</Badge>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel className="font-normal text-xs text-carbon-gray-50">
+            {user.source === "proxy" ? "Signed in by the proxy" : "Local account"}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {user.source === "local" && (
+            <DropdownMenuItem onSelect={() => setChangingPassword(true)}>
+              <KeyRound className="w-4 h-4 mr-2" />
+              Change password
+            </DropdownMenuItem>
+          )}
+          {can("admin") && (
+            <DropdownMenuItem onSelect={() => setManagingAccounts(true)}>
+              <Users className="w-4 h-4 mr-2" />
+              Accounts
+            </DropdownMenuItem>
+          )}
+          {can("approver") && (
+            <DropdownMenuItem onSelect={() => setViewingAuditLog(true)}>
+              <History className="w-4 h-4 mr-2" />
+              Audit log
+            </DropdownMenuItem>
+          )}
+          {user.source === "local" && (
+            <DropdownMenuItem onSelect={() => logoutMutation.mutate()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Log out
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <PasswordDialog open={changingPassword} onOpenChange={setChangingPassword} />
+      {can("admin") && <AccountsDialog open={managingAccounts} onOpenChange={setManagingAccounts} />}
+      {can("approver") && <AuditLogDialog open={viewingAuditLog} onOpenChange={setViewingAuditLog} />}
+    </>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Queue, ResourceShare, WhatIfAnalysis, WhatIfScenario, QueueWhatIf } from "@shared/schema";
+import type { ScenarioDemand } from "@shared/what-if";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlaskConical, Plus, Save, Trash2, X } from "lucide-react";
+
+type ConfigChoice = "pending" | "applied";
+
+interface ScenarioForm {
+  id: number | null;
+  name: string;
+  description: string;
+  memoryMb: string;
+  vcores: string;
+  demands: { queue: string; demand: string; usage: string }[];
+}
+
+const EMPTY_FORM: ScenarioForm = { id: null, name: "", description: "", memoryMb: "", vcores: "", demands: [] };
+
+const formatMemory = (mb: number) => (mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${mb} MB`);
+
+function formatShare(share: ResourceShare) {
+  const memory = share.memoryMb === null ? "—" : formatMemory(share.memoryMb);
+  const vcores = share.vcores === null ? "—" : `${share.vcores} vCores`;
+  return `${memory}, ${vcores}`;
+}
+
+function toForm(scenario: WhatIfScenario): ScenarioForm {
+  return {
+    id: scenario.id,
+    name: scenario.name,
+    description: scenario.description ?? "",
+    memoryMb: scenario.cluster ? String(scenario.cluster.memoryMb) : "",
+    vcores: scenario.cluster ? String(scenario.cluster.vcores) : "",
+    demands: scenario.demands.map((demand) => ({
+      queue: demand.queue,
+      demand: String(demand.demand),
+      usage: String(demand.usage),
+    })),
+  };
+}
+
+function fromForm(form: ScenarioForm) {
+  const demands: ScenarioDemand[] = form.demands.map((row) => ({
+    queue: row.queue,
+    demand: Number(row.demand || 0),
+    usage: Number(row.usage || 0),
+  }));
+  return {
+    name: form.name,
+    description: form.description || null,
+    cluster: form.memoryMb && form.vcores ? { memoryMb: Number(form.memoryMb), vcores: Number(form.vcores) } : null,
+    demands,
+  };
+}
+
+function Starvation({ queue }: { queue: QueueWhatIf }) {
+  const timer = (seconds: number | null) => (seconds === null ? "no timeout" : `preempts in ${seconds}s`);
+  if (!queue.minShareStarved && !queue.fairShareStarved) {
+    return <span className="text-carbon-gray-50">—</span>;
+  }
+  return (
+    <div className="space-y-1">
+      {queue.minShareStarved && (
+        <Badge variant="destructive" className="whitespace-nowrap">Min share: {timer(queue.minSharePreemptionIn)}</Badge>
+      )}
+      {queue.fairShareStarved && (
+        <Badge variant="outline" className="whitespace-nowrap border-orange-300 text-orange-600">
+          Fair share: {timer(queue.fairSharePreemptionIn)}
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+/**
+ * One side of the comparison: a saved scenario evaluated against the
+ * current or the last applied configuration.
+ */
+function ScenarioOutcome({ scenarios, label }: { scenarios: WhatIfScenario[]; label: string }) {
+  const [scenarioId, setScenarioId] = useState<number | null>(null);
+  const [config, setConfig] = useState<ConfigChoice>("pending");
+
+  const { data: analysis, error, isFetching } = useQuery<WhatIfAnalysis>({
+    queryKey: ["/api/analysis/what-if", scenarioId, config],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/analysis/what-if", { scenarioId, config });
+      return response.json();
+    },
+    enabled: scenarioId !== null && scenarios.some((scenario) => scenario.id === scenarioId),
+    staleTime: 0,
+  });
+
+  const depth = (queue: QueueWhatIf) => queue.path.split(".").length - 1;
+
+  return (
+    <div className="space-y-4 min-w-0">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>{label}</Label>
+          <Select value={scenarioId === null ? "" : String(scenarioId)} onValueChange={(value) => setScenarioId(Number(value))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Pick a scenario" />
+            </SelectTrigger>
+            <SelectContent>
+              {scenarios.map((scenario) => (
+                <SelectItem key={scenario.id} value={String(scenario.id)}>
+                  {scenario.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Configuration</Label>
+          <Select value={config} onValueChange={(value) => setConfig(value as ConfigChoice)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Current, including pending changes</SelectItem>
+              <SelectItem value="applied">Last applied</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{(error as Error).message.replace(/^\d+: /, "")}</p>
+      ) : isFetching ? (
+        <p className="text-sm text-carbon-gray-50">Calculating...</p>
+      ) : analysis ? (
+        <>
+          <p className="text-sm text-carbon-gray-50">
+            Cluster: {formatMemory(analysis.cluster.memoryMb)}, {analysis.cluster.vcores} vCores
+            {analysis.clusterSource === "yarn" ? " (from YARN)" : ""}.{" "}
+            {analysis.preemptedQueues.length > 0
+              ? `Preemption takes resources from ${analysis.preemptedQueues.join(", ")}.`
+              : "No queue would be preempted."}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-carbon-gray-50">
+                  <th className="font-normal py-1">Queue</th>
+                  <th className="font-normal py-1">Usage</th>
+                  <th className="font-normal py-1">Instantaneous Fair Share</th>
+                  <th className="font-normal py-1">Allocation</th>
+                  <th className="font-normal py-1">Starved</th>
+                  <th className="font-normal py-1">Preempted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analysis.queues.map((queue) => (
+                  <tr key={queue.path} className="border-t border-gray-100 align-top">
+                    <td className="py-1 font-mono text-carbon-gray-70" style={{ paddingLeft: `${depth(queue) * 16}px` }}>
+                      {queue.name}
+                    </td>
+                    <td className="py-1 text-carbon-gray-70">{formatShare(queue.usage)}</td>
+                    <td className="py-1 text-carbon-gray-70">{formatShare(queue.instantaneousFairShare)}</td>
+                    <td className="py-1 text-carbon-gray-70">{formatShare(queue.allocation)}</td>
+                    <td className="py-1">
+                      <Starvation queue={queue} />
+                    </td>
+                    <td className="py-1 text-carbon-gray-70">
+                      {analysis.preemptedQueues.includes(queue.path)
+                        ? formatShare(queue.preempted)
+                        : queue.preemptable ? "—" : "not preemptable"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-carbon-gray-50">Pick a scenario to see its outcome</p>
+      )}
+    </div>
+  );
+}
+
+/**
+ * What-if scenarios: hypothetical demand and usage per queue, and the fair
+ * shares, starvation and preemption they lead to, side by side.
+ */
+export default function WhatIf() {
+  const [form, setForm] = useState<ScenarioForm>(EMPTY_FORM);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: scenarios = [] } = useQuery<WhatIfScenario[]>({
+    queryKey: ["/api/analysis/scenarios"],
+  });
+  const { data: queues = [] } = useQuery<Queue[]>({
+    queryKey: ["/api/queues"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/analysis/scenarios"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analysis/what-if"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (scenario: ScenarioForm) => {
+      const response = scenario.id === null
+        ? await apiRequest("POST", "/api/analysis/scenarios", fromForm(scenario))
+        : await apiRequest("PUT", `/api/analysis/scenarios/${scenario.id}`, fromForm(scenario));
+      return response.json();
+    },
+    onSuccess: (saved: WhatIfScenario) => {
+      invalidate();
+      setForm(toForm(saved));
+      toast({
+        title: "Success",
+        description: `Scenario ${saved.name} saved`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/analysis/scenarios/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(EMPTY_FORM);
+      toast({
+        title: "Success",
+        description: "Scenario deleted",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete scenario",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<ScenarioForm["demands"][number]>) => {
+    setForm({ ...form, demands: form.demands.map((row, i) => (i === index ? { ...row, ...changes } : row)) });
+  };
+
+  return (
+    <Card className="border border-gray-200 shadow-sm">
+      <CardHeader className="border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <FlaskConical className="w-5 h-5 text-carbon-blue" />
+          <div>
+            <CardTitle className="text-lg font-medium text-carbon-gray-70">What-If Scenarios</CardTitle>
+            <p className="text-sm text-carbon-gray-50 mt-1">
+              How queues would share the cluster, who would starve and who would be preempted under a given demand
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Scenario</Label>
+              <Select
+                value={form.id === null ? "new" : String(form.id)}
+                onValueChange={(value) => {
+                  const scenario = scenarios.find((s) => String(s.id) === value);
+                  setForm(scenario ? toForm(scenario) : EMPTY_FORM);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="new">New scenario</SelectItem>
+                  {scenarios.map((scenario) => (
+                    <SelectItem key={scenario.id} value={String(scenario.id)}>
+                      {scenario.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="space-y-2 md:col-span-3">
+              <Label>Description</Label>
+              <Input
+                value={form.description}
+                placeholder="Production demands 80%, dev demands 50%, analytics idle"
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Cluster Memory (MB)</Label>
+              <Input
+                type="number"
+                min={1}
+                placeholder="From YARN"
+                value={form.memoryMb}
+                onChange={(e) => setForm({ ...form, memoryMb: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Cluster vCores</Label>
+              <Input
+                type="number"
+                min={1}
+                placeholder="From YARN"
+                value={form.vcores}
+                onChange={(e) => setForm({ ...form, vcores: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_8rem_8rem_2.5rem] gap-2 text-sm text-carbon-gray-50">
+              <span>Queue (a parent spreads over its leaves by weight)</span>
+              <span>Demand (% of cluster)</span>
+              <span>Usage (% of cluster)</span>
+              <span />
+            </div>
+            {form.demands.map((row, index) => (
+              <div key={index} className="grid grid-cols-[1fr_8rem_8rem_2.5rem] gap-2">
+                <Select value={row.queue} onValueChange={(queue) => updateRow(index, { queue })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick a queue" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {queues.map((queue) => (
+                      <SelectItem key={queue.path} value={queue.path}>
+                        {queue.path}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={row.demand}
+                  onChange={(e) => updateRow(index, { demand: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={row.usage}
+                  onChange={(e) => updateRow(index, { usage: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setForm({ ...form, demands: form.demands.filter((_, i) => i !== index) })}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-carbon-gray-50">Queues without a demand are idle.</p>
+          </div>
+
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              onClick={() => setForm({ ...form, demands: [...form.demands, { queue: "", demand: "0", usage: "0" }] })}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Queue
+            </Button>
+            <div className="flex space-x-2">
+              {form.id !== null && (
+                <Button
+                  variant="outline"
+                  onClick={() => deleteMutation.mutate(form.id!)}
+                  disabled={deleteMutation.isPending}
+                  className="text-red-600 border-red-300 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete
+                </Button>
+              )}
+              <Button
+                onClick={() => saveMutation.mutate(form)}
+                disabled={saveMutation.isPending || !form.name.trim()}
+                className="bg-carbon-blue hover:bg-blue-700"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saveMutation.isPending ? "Saving..." : "Save Scenario"}
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 border-t border-gray-200 pt-6">
+          <ScenarioOutcome scenarios={scenarios} label="Left" />
+          <ScenarioOutcome scenarios={scenarios} label="Right" />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { ConfigValidation, FieldChange, QueueChange, ValidationIssue } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,19 +14,25 @@ import {
   RotateCcw, 
   Download, 
   AlertCircle, 
+  AlertTriangle,
   CheckCircle, 
   Code2,
   RefreshCw
 } from "lucide-react";
 
-interface ValidationResult {
-  isValid: boolean;
-  errors?: string[];
+function IssueLine({ issue }: { issue: ValidationIssue }) {
+  return (
+    <div className="text-sm">
+      • {issue.location && <span className="font-mono">Line {issue.location.line}: </span>}
+      {issue.message}
+      <span className="ml-2 font-mono text-xs opacity-70">[{issue.ruleId}]</span>
+    </div>
+  );
 }
 
 export default function XmlEditor() {
   const [xmlContent, setXmlContent] = useState("");
-  const [validationResult, setValidationResult] = useState<ValidationResult | null>(null);
+  const [validationResult, setValidationResult] = useState<ConfigValidation | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -46,13 +53,13 @@ export default function XmlEditor() {
       const response = await apiRequest('POST', '/api/config/validate', { content });
       return response.json();
     },
-    onSuccess: (result: ValidationResult) => {
+    onSuccess: (result: ConfigValidation) => {
       setValidationResult(result);
       toast({
         title: result.isValid ? "Valid XML" : "Invalid XML",
         description: result.isValid 
-          ? "XML syntax and schema are valid"
-          : `Found ${result.errors?.length || 0} validation errors`,
+          ? `Configuration is valid${result.warnings.length > 0 ? ` with ${result.warnings.length} warnings` : ""}`
+          : `Found ${result.errors.length} validation errors`,
         variant: result.isValid ? "default" : "destructive",
       });
     },
@@ -65,28 +72,27 @@ export default function XmlEditor() {
     },
   });
 
-  // Save mutation
+  // Save mutation; the file is staged as pending changes for review
   const saveMutation = useMutation({
     mutationFn: async (content: string) => {
-      const response = await apiRequest('POST', '/api/config', { 
-        content,
-        filePath: config?.filePath || '/etc/hadoop/conf/fair-scheduler.xml'
-      });
+      const response = await apiRequest('POST', '/api/config', { content });
       return response.json();
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/config"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/queues"] });
+    onSuccess: (staged: { queues: QueueChange[]; globalConfig: FieldChange[] }) => {
+      for (const key of ["/api/pending-changes", "/api/queues", "/api/global-config", "/api/users", "/api/config/generate"]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
       setHasChanges(false);
+      const count = staged.queues.length + (staged.globalConfig.length > 0 ? 1 : 0);
       toast({
         title: "Success",
-        description: "Configuration saved successfully",
+        description: `Configuration staged for review, ${count} ${count === 1 ? "change" : "changes"} pending`,
       });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to save configuration",
+        description: error.message || "Failed to save configuration",
         variant: "destructive",
       });
     },
@@ -222,7 +228,7 @@ export default function XmlEditor() {
               XML Configuration Editor
             </CardTitle>
             <p className="text-sm text-carbon-gray-50 mt-1">
-              Direct editing of fair-scheduler.xml with syntax validation
+              Direct editing of fair-scheduler.xml with configuration validation
             </p>
           </div>
           <div className="flex items-center space-x-4">
@@ -285,12 +291,12 @@ export default function XmlEditor() {
 
           {/* Validation Results */}
           {validationResult && (
-            <div className="mt-4">
+            <div className="mt-4 space-y-2">
               {validationResult.isValid ? (
                 <Alert className="border-green-200 bg-green-50">
                   <CheckCircle className="h-4 w-4 text-green-600" />
                   <AlertDescription className="text-green-800">
-                    XML syntax and schema are valid
+                    XML syntax and configuration are valid
                   </AlertDescription>
                 </Alert>
               ) : (
@@ -299,8 +305,21 @@ export default function XmlEditor() {
                   <AlertDescription>
                     <div className="space-y-1">
                       <div className="font-medium">Validation Errors:</div>
-                      {validationResult.errors?.map((error, index) => (
-                        <div key={index} className="text-sm">• {error}</div>
+                      {validationResult.errors.map((error, index) => (
+                        <IssueLine key={index} issue={error} />
+                      ))}
+                    </div>
+                  </AlertDescription>
+                </Alert>
+              )}
+              {validationResult.warnings.length > 0 && (
+                <Alert className="border-yellow-200 bg-yellow-50">
+                  <AlertTriangle className="h-4 w-4 text-yellow-600" />
+                  <AlertDescription className="text-yellow-800">
+                    <div className="space-y-1">
+                      <div className="font-medium">Warnings:</div>
+                      {validationResult.warnings.map((warning, index) => (
+                        <IssueLine key={index} issue={warning} />
                       ))}
                     </div>
                   </AlertDescription>
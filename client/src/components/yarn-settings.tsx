@@ -10,7 +10,7 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { AlertCircle, CheckCircle, RefreshCw, Settings } from "lucide-react";
 import { yarnConnectionSchema, type YarnConnection } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, clusterUrl } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
 export function YarnSettings() {
@@ -40,7 +40,7 @@ export function YarnSettings() {
 
   const updateConnectionMutation = useMutation({
     mutationFn: async (data: YarnConnection) => {
-      const response = await fetch("/api/yarn/connection", {
+      const response = await fetch(clusterUrl("/api/yarn/connection"), {
         method: "PUT",
         headers: {
           "Content-Type": "application/json",
@@ -73,7 +73,7 @@ export function YarnSettings() {
     setConnectionStatus(null);
     
     try {
-      const response = await fetch("/api/yarn/test-connection");
+      const response = await fetch(clusterUrl("/api/yarn/test-connection"));
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
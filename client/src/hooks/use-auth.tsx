@@ -0,0 +1,75 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { hasRole, type AuthUser, type Login, type Role } from "@shared/auth";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: AuthUser | null;
+  isLoading: boolean;
+  // Whether the user has the role or a more privileged one
+  can: (role: Role) => boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Login>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const { data: user = null, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/auth/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Login) => {
+      const response = await apiRequest("POST", "/api/auth/login", credentials);
+      return response.json() as Promise<AuthUser>;
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(["/api/auth/user"], loggedIn);
+    },
+    onError: () => {
+      toast({
+        title: "Login failed",
+        description: "Invalid username or password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Everything cached belongs to the previous user
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/auth/user"], null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to log out",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const can = (role: Role) => user !== null && hasRole(user.role, role);
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, can, loginMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextType {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -1,6 +1,41 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const CLUSTER_STORAGE_KEY = "yarn-configurator.cluster";
+
+// The cluster API calls go to, kept across reloads. Until one is chosen the
+// unscoped /api paths serve the default cluster.
+let currentClusterId: number | null = (() => {
+  const stored = parseInt(localStorage.getItem(CLUSTER_STORAGE_KEY) ?? "", 10);
+  return Number.isNaN(stored) ? null : stored;
+})();
+
+export function getCurrentClusterId(): number | null {
+  return currentClusterId;
+}
+
+// Every cached query belongs to the previous cluster, except the cluster list
+export function setCurrentClusterId(id: number) {
+  currentClusterId = id;
+  localStorage.setItem(CLUSTER_STORAGE_KEY, String(id));
+  queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== "/api/clusters" });
+}
+
+// Paths that are the same for every cluster
+const GLOBAL_API_PATHS = ["/api/clusters", "/api/auth", "/api/accounts", "/api/audit"];
+
+// "/api/queues" -> "/api/clusters/2/queues"
+export function clusterUrl(url: string): string {
+  if (currentClusterId === null || !url.startsWith("/api/") || GLOBAL_API_PATHS.some(path => url.startsWith(path))) {
+    return url;
+  }
+  return `/api/clusters/${currentClusterId}${url.slice("/api".length)}`;
+}
+
 async function throwIfResNotOk(res: Response) {
+  // A session that ended sends the user back to the login page
+  if (res.status === 401) {
+    queryClient.setQueryData(["/api/auth/user"], null);
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -12,7 +47,7 @@ export async function apiRequest(
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await fetch(clusterUrl(url), {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
@@ -29,7 +64,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(clusterUrl(queryKey.join("/") as string), {
       credentials: "include",
     });
 
@@ -0,0 +1,67 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { loginSchema, type Login } from "@shared/auth";
+import { useAuth } from "@/hooks/use-auth";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Settings } from "lucide-react";
+
+export default function AuthPage() {
+  const { loginMutation } = useAuth();
+  const form = useForm<Login>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-sm mx-4">
+        <CardHeader>
+          <CardTitle className="text-xl font-semibold text-carbon-gray-70 flex items-center">
+            <Settings className="text-carbon-blue mr-2 w-6 h-6" />
+            YARN Fair Scheduler
+          </CardTitle>
+          <CardDescription>Log in to the Configuration Manager</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="username" autoFocus {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" autoComplete="current-password" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={loginMutation.isPending} className="w-full bg-carbon-blue hover:bg-blue-700">
+                {loginMutation.isPending ? "Logging in..." : "Log In"}
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
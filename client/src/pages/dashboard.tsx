@@ -4,10 +4,17 @@ import Overview from "@/components/overview";
 import QueueForm from "@/components/queue-form";
 import XmlEditor from "@/components/xml-editor";
 import GlobalSettings from "@/components/global-settings";
+import UserLimits from "@/components/user-limits";
+import PlacementSimulator from "@/components/placement-simulator";
 import { YarnSettings } from "@/components/yarn-settings";
+import PostApplyHookSettings from "@/components/post-apply-hook-settings";
+import ConfigHistory from "@/components/config-history";
+import ChangeRequests from "@/components/change-requests";
+import UserMenu from "@/components/user-menu";
+import DriftStatus from "@/components/drift-status";
 import { CheckCircle, HelpCircle } from "lucide-react";
 
-type TabType = "overview" | "queues" | "policies" | "xml-editor" | "global-settings";
+type TabType = "overview" | "queues" | "policies" | "xml-editor" | "global-settings" | "history" | "changes";
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState<TabType>("overview");
@@ -19,7 +26,9 @@ export default function Dashboard() {
       'queues': 'Queue Configuration',
       'policies': 'Scheduling Policies',
       'xml-editor': 'XML Editor',
-      'global-settings': 'Configuration'
+      'global-settings': 'Configuration',
+      'history': 'Configuration History',
+      'changes': 'Change Requests'
     };
     return titles[tab];
   };
@@ -51,11 +60,18 @@ export default function Dashboard() {
         );
       case "xml-editor":
         return <XmlEditor />;
+      case "history":
+        return <ConfigHistory />;
+      case "changes":
+        return <ChangeRequests />;
       case "global-settings":
         return (
           <div className="space-y-6">
             <GlobalSettings />
+            <PlacementSimulator />
+            <UserLimits />
             <YarnSettings />
+            <PostApplyHookSettings />
           </div>
         );
       default:
@@ -80,14 +96,11 @@ export default function Dashboard() {
               </p>
             </div>
             <div className="flex items-center space-x-4">
-              {/* Validation Status */}
-              <div className="flex items-center">
-                <div className="w-3 h-3 bg-carbon-success rounded-full mr-2"></div>
-                <span className="text-sm text-carbon-gray-50">Configuration Valid</span>
-              </div>
+              <DriftStatus />
               <button className="p-2 text-carbon-gray-50 hover:text-carbon-gray-70 rounded-md hover:bg-gray-100">
                 <HelpCircle className="w-5 h-5" />
               </button>
+              <UserMenu />
             </div>
           </div>
         </header>
@@ -0,0 +1,53 @@
+CREATE TABLE "config_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_path" text NOT NULL,
+	"content" text NOT NULL,
+	"is_valid" boolean DEFAULT true,
+	"last_modified" text,
+	"validation_errors" text
+);
+--> statement-breakpoint
+CREATE TABLE "global_config" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"default_queue_scheduling_policy" text DEFAULT 'fair',
+	"user_max_apps_default" integer DEFAULT 5,
+	"queue_max_apps_default" integer,
+	"queue_max_am_share_default" double precision,
+	"queue_placement_rules" text DEFAULT 'specified,user,default',
+	"default_queue" text DEFAULT 'default'
+);
+--> statement-breakpoint
+CREATE TABLE "pending_changes" (
+	"queue_id" integer PRIMARY KEY NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "queues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"parent" text,
+	"weight" double precision DEFAULT 1,
+	"scheduling_policy" text DEFAULT 'fair',
+	"min_memory" integer,
+	"min_vcores" integer,
+	"max_memory" integer,
+	"max_vcores" integer,
+	"max_running_apps" integer,
+	"max_am_share" double precision,
+	"allow_preemption_from" boolean DEFAULT false,
+	"allow_preemption_to" boolean DEFAULT false,
+	"reservation" boolean DEFAULT false,
+	"acl_submit_apps" text,
+	"acl_administer_apps" text
+);
+--> statement-breakpoint
+CREATE TABLE "synced_queues" (
+	"queue_id" integer PRIMARY KEY NOT NULL,
+	"data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "yarn_connection" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"resource_manager_host" text NOT NULL,
+	"resource_manager_port" integer DEFAULT 8088 NOT NULL,
+	"enabled" boolean DEFAULT false NOT NULL
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "config_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_path" text NOT NULL,
+	"content" text NOT NULL,
+	"author" text NOT NULL,
+	"summary" text NOT NULL,
+	"created_at" text NOT NULL,
+	"restored_from_id" integer
+);
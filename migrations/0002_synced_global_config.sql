@@ -0,0 +1,4 @@
+CREATE TABLE "synced_global_config" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"data" jsonb NOT NULL
+);
@@ -0,0 +1,39 @@
+ALTER TABLE "queues" ADD COLUMN "path" text;--> statement-breakpoint
+-- Queues used to reference their parent by bare name. Derive the full path
+-- of every existing queue, then point parent at the parent's path.
+WITH RECURSIVE "tree" AS (
+	SELECT "id", "name", "parent", "name"::text AS "path", 0 AS "depth"
+	FROM "queues" WHERE "parent" IS NULL
+	UNION ALL
+	SELECT "child"."id", "child"."name", "child"."parent", "tree"."path" || '.' || "child"."name", "tree"."depth" + 1
+	FROM "queues" "child" JOIN "tree" ON "child"."parent" = "tree"."name"
+	WHERE "tree"."depth" < 32
+)
+UPDATE "queues" SET "path" = "tree"."path"
+FROM (SELECT DISTINCT ON ("id") "id", "path" FROM "tree" ORDER BY "id", "depth") AS "tree"
+WHERE "queues"."id" = "tree"."id";--> statement-breakpoint
+UPDATE "queues" SET "path" = COALESCE("parent" || '.', '') || "name" WHERE "path" IS NULL;--> statement-breakpoint
+UPDATE "queues" SET "parent" = "parent_queue"."path"
+FROM (SELECT DISTINCT ON ("name") "name", "path" FROM "queues" ORDER BY "name", "id") AS "parent_queue"
+WHERE "queues"."parent" = "parent_queue"."name";--> statement-breakpoint
+WITH RECURSIVE "tree" AS (
+	SELECT "queue_id", "data"->>'name' AS "name", "data"->>'name' AS "path", 0 AS "depth"
+	FROM "synced_queues" WHERE "data"->>'parent' IS NULL
+	UNION ALL
+	SELECT "child"."queue_id", "child"."data"->>'name', "tree"."path" || '.' || ("child"."data"->>'name'), "tree"."depth" + 1
+	FROM "synced_queues" "child" JOIN "tree" ON "child"."data"->>'parent' = "tree"."name"
+	WHERE "tree"."depth" < 32
+),
+"paths" AS (
+	SELECT DISTINCT ON ("queue_id") "queue_id", "name", "path" FROM "tree" ORDER BY "queue_id", "depth"
+)
+UPDATE "synced_queues" SET "data" = "synced_queues"."data"
+	|| jsonb_build_object('path', COALESCE("own"."path", COALESCE(("synced_queues"."data"->>'parent') || '.', '') || ("synced_queues"."data"->>'name')))
+	|| jsonb_build_object('parent', COALESCE("parent_queue"."path", "synced_queues"."data"->>'parent'))
+FROM "synced_queues" "source"
+LEFT JOIN "paths" "own" ON "own"."queue_id" = "source"."queue_id"
+LEFT JOIN (SELECT DISTINCT ON ("name") "name", "path" FROM "paths" ORDER BY "name", "queue_id") AS "parent_queue"
+	ON "parent_queue"."name" = "source"."data"->>'parent'
+WHERE "synced_queues"."queue_id" = "source"."queue_id" AND NOT ("synced_queues"."data" ? 'path');--> statement-breakpoint
+ALTER TABLE "queues" ALTER COLUMN "path" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "queues" ADD CONSTRAINT "queues_path_unique" UNIQUE("path");
@@ -0,0 +1,6 @@
+ALTER TABLE "global_config" ADD COLUMN "default_min_share_preemption_timeout" integer;--> statement-breakpoint
+ALTER TABLE "global_config" ADD COLUMN "default_fair_share_preemption_timeout" integer;--> statement-breakpoint
+ALTER TABLE "global_config" ADD COLUMN "default_fair_share_preemption_threshold" double precision;--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "min_share_preemption_timeout" integer;--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "fair_share_preemption_timeout" integer;--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "fair_share_preemption_threshold" double precision;
\ No newline at end of file
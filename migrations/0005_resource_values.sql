@@ -0,0 +1,19 @@
+ALTER TABLE "queues" ADD COLUMN "min_resources" jsonb;--> statement-breakpoint
+ALTER TABLE "queues" ADD COLUMN "max_resources" jsonb;--> statement-breakpoint
+-- Resources used to be stored as separate memory and vcores columns. Carry
+-- them over as absolute resource values before the columns are dropped.
+UPDATE "queues" SET "min_resources" = jsonb_strip_nulls(jsonb_build_object('kind', 'absolute', 'memoryMb', "min_memory", 'vcores', "min_vcores"))
+WHERE "min_memory" IS NOT NULL OR "min_vcores" IS NOT NULL;--> statement-breakpoint
+UPDATE "queues" SET "max_resources" = jsonb_strip_nulls(jsonb_build_object('kind', 'absolute', 'memoryMb', "max_memory", 'vcores', "max_vcores"))
+WHERE "max_memory" IS NOT NULL OR "max_vcores" IS NOT NULL;--> statement-breakpoint
+UPDATE "synced_queues" SET "data" = ("data" - 'minMemory' - 'minVcores' - 'maxMemory' - 'maxVcores') || jsonb_build_object(
+	'minResources', CASE WHEN jsonb_typeof("data"->'minMemory') = 'number' OR jsonb_typeof("data"->'minVcores') = 'number'
+		THEN jsonb_strip_nulls(jsonb_build_object('kind', 'absolute', 'memoryMb', "data"->'minMemory', 'vcores', "data"->'minVcores')) END,
+	'maxResources', CASE WHEN jsonb_typeof("data"->'maxMemory') = 'number' OR jsonb_typeof("data"->'maxVcores') = 'number'
+		THEN jsonb_strip_nulls(jsonb_build_object('kind', 'absolute', 'memoryMb', "data"->'maxMemory', 'vcores', "data"->'maxVcores')) END
+)
+WHERE "data" ?| array['minMemory', 'minVcores', 'maxMemory', 'maxVcores'];--> statement-breakpoint
+ALTER TABLE "queues" DROP COLUMN "min_memory";--> statement-breakpoint
+ALTER TABLE "queues" DROP COLUMN "min_vcores";--> statement-breakpoint
+ALTER TABLE "queues" DROP COLUMN "max_memory";--> statement-breakpoint
+ALTER TABLE "queues" DROP COLUMN "max_vcores";
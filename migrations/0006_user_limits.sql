@@ -0,0 +1,11 @@
+CREATE TABLE "synced_user_limits" (
+	"user_limit_id" integer PRIMARY KEY NOT NULL,
+	"data" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "user_limits" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"max_running_apps" integer NOT NULL,
+	CONSTRAINT "user_limits_name_unique" UNIQUE("name")
+);
@@ -0,0 +1,18 @@
+-- Placement rules used to be a string such as "specified:create=false,user,default".
+-- Convert each rule to {name, create, queue}. The string could not hold the
+-- nested rule of nestedUserQueue, which YARN requires; primaryGroup is assumed.
+CREATE FUNCTION pg_temp.legacy_placement_rules(rules text) RETURNS jsonb LANGUAGE sql IMMUTABLE AS $$
+	SELECT coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+		'name', split_part(btrim(rule), ':', 1),
+		'create', substring(rule from ':create=(true|false)')::boolean,
+		'queue', substring(rule from ':queue=([^:]+)'),
+		'nestedRule', CASE WHEN split_part(btrim(rule), ':', 1) = 'nestedUserQueue' THEN '{"name":"primaryGroup"}'::jsonb END
+	)) ORDER BY position), '[{"name":"specified"},{"name":"user"},{"name":"default"}]'::jsonb)
+	FROM unnest(string_to_array(rules, ',')) WITH ORDINALITY AS legacy(rule, position)
+	WHERE btrim(rule) <> ''
+$$;--> statement-breakpoint
+ALTER TABLE "global_config" ALTER COLUMN "queue_placement_rules" DROP DEFAULT;--> statement-breakpoint
+ALTER TABLE "global_config" ALTER COLUMN "queue_placement_rules" SET DATA TYPE jsonb USING pg_temp.legacy_placement_rules("queue_placement_rules");--> statement-breakpoint
+ALTER TABLE "global_config" ALTER COLUMN "queue_placement_rules" SET DEFAULT '[{"name":"specified"},{"name":"user"},{"name":"default"}]'::jsonb;--> statement-breakpoint
+UPDATE "synced_global_config" SET "data" = jsonb_set("data", '{queuePlacementRules}', pg_temp.legacy_placement_rules("data"->>'queuePlacementRules'))
+WHERE jsonb_typeof("data"->'queuePlacementRules') = 'string';
@@ -0,0 +1,8 @@
+CREATE TABLE "what_if_scenarios" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"cluster" jsonb,
+	"demands" jsonb NOT NULL,
+	CONSTRAINT "what_if_scenarios_name_unique" UNIQUE("name")
+);
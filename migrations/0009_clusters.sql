@@ -0,0 +1,7 @@
+CREATE TABLE "clusters" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"config_path" text NOT NULL,
+	"yarn_site_path" text,
+	CONSTRAINT "clusters_name_unique" UNIQUE("name")
+);
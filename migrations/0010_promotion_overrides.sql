@@ -0,0 +1 @@
+ALTER TABLE "clusters" ADD COLUMN "promotion_overrides" jsonb;
\ No newline at end of file
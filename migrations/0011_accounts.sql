@@ -0,0 +1,7 @@
+CREATE TABLE "accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password_hash" text NOT NULL,
+	"role" text DEFAULT 'viewer' NOT NULL,
+	CONSTRAINT "accounts_username_unique" UNIQUE("username")
+);
\ No newline at end of file
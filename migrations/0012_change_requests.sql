@@ -0,0 +1,23 @@
+CREATE TABLE "change_request_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"change_request_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"author" text NOT NULL,
+	"message" text,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "change_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"author" text NOT NULL,
+	"status" text DEFAULT 'open' NOT NULL,
+	"queue_ids" jsonb NOT NULL,
+	"global_config" boolean DEFAULT false NOT NULL,
+	"changes" jsonb NOT NULL,
+	"fingerprint" text NOT NULL,
+	"revision_id" integer,
+	"created_at" text NOT NULL,
+	"updated_at" text NOT NULL
+);
\ No newline at end of file
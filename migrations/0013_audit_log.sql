@@ -0,0 +1,13 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"created_at" text NOT NULL,
+	"actor" text NOT NULL,
+	"source_ip" text,
+	"method" text NOT NULL,
+	"endpoint" text NOT NULL,
+	"status_code" integer NOT NULL,
+	"cluster_id" integer,
+	"action" text NOT NULL,
+	"target" text,
+	"changes" jsonb NOT NULL
+);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "clusters" ADD COLUMN "post_apply_hook" jsonb;--> statement-breakpoint
+ALTER TABLE "config_revisions" ADD COLUMN "hook_result" jsonb;
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "synced_file" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"file_path" text NOT NULL,
+	"content" text NOT NULL,
+	"hash" text NOT NULL,
+	"modified_at" text NOT NULL,
+	"synced_at" text NOT NULL
+);
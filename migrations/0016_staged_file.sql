@@ -0,0 +1,10 @@
+CREATE TABLE "staged_file" (
+	"id" integer PRIMARY KEY NOT NULL,
+	"source" text NOT NULL,
+	"content" text NOT NULL,
+	"hash" text NOT NULL,
+	"queue_ids" jsonb NOT NULL,
+	"user_limit_ids" jsonb NOT NULL,
+	"author" text NOT NULL,
+	"staged_at" text NOT NULL
+);
@@ -0,0 +1,103 @@
+import type { Response, RequestHandler } from "express";
+import type { AuditAction } from "@shared/audit";
+import type { AuditEntry, FieldChange, QueueChange } from "@shared/schema";
+import { audit, type IStorage } from "./storage";
+
+/**
+ * The audit log: who changed what, when and from where. Every route that
+ * changes something is wrapped in audited(); once the response is sent an
+ * entry is appended with its status, and with the target and the values
+ * before and after that the route described with describeAudit().
+ */
+
+type AuditDetails = {
+  target: string | null;
+  changes: FieldChange[];
+  // For routes outside /api/clusters/:clusterId that change one cluster
+  clusterId?: number;
+};
+
+export function describeAudit(res: Response, details: { target: string | null; changes?: FieldChange[]; clusterId?: number }): void {
+  res.locals.audit = { ...details, changes: details.changes ?? [] } satisfies AuditDetails;
+}
+
+export function audited(action: AuditAction): RequestHandler {
+  return (req, res, next) => {
+    // Logging out removes the user before the response is sent
+    const user = req.user;
+    res.on("finish", () => {
+      const details = res.locals.audit as AuditDetails | undefined;
+      audit.appendAuditEntry({
+        createdAt: new Date().toISOString(),
+        actor: (req.user ?? user)?.username ?? "anonymous",
+        sourceIp: req.ip?.replace(/^::ffff:/, "") || null,
+        method: req.method,
+        endpoint: req.originalUrl.split("?")[0],
+        statusCode: res.statusCode,
+        clusterId: details?.clusterId ?? res.locals.cluster?.id ?? null,
+        action,
+        target: details?.target ?? null,
+        changes: details?.changes ?? [],
+      }).catch(error => console.error(`Failed to record ${action} in the audit log:`, error));
+    });
+    next();
+  };
+}
+
+/**
+ * Changes to many queues at once, such as loading a file, are recorded with
+ * queue settings named "<queue path>.<setting>", next to the global settings
+ * and the "users.<name>.maxRunningApps" user limits.
+ */
+export function flattenQueueChanges(queues: Pick<QueueChange, "queuePath" | "fields">[], globalConfig: FieldChange[] = []): FieldChange[] {
+  return [
+    ...queues.flatMap(queue => queue.fields.map(change => ({ ...change, field: `${queue.queuePath}.${change.field}` }))),
+    ...globalConfig,
+  ];
+}
+
+// Every setting of a cluster, named as flattenQueueChanges() names them.
+// Operations that replace the whole configuration diff the snapshots taken
+// before and after.
+export async function snapshotSettings(storage: IStorage): Promise<Record<string, unknown>> {
+  const [queues, globalConfig, userLimits] = await Promise.all([
+    storage.getQueues(),
+    storage.getGlobalConfig(),
+    storage.getUserLimits(),
+  ]);
+  const settings: Record<string, unknown> = { ...globalConfig };
+  for (const { id, name, path, ...queue } of queues) {
+    for (const [field, value] of Object.entries(queue)) {
+      settings[`${path}.${field}`] = value;
+    }
+  }
+  for (const user of userLimits) {
+    settings[`users.${user.name}.maxRunningApps`] = user.maxRunningApps;
+  }
+  return settings;
+}
+
+const CSV_COLUMNS = ["id", "createdAt", "actor", "sourceIp", "method", "endpoint", "statusCode", "clusterId", "action", "target", "field", "oldValue", "newValue"];
+
+function csvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per changed field, so that a spreadsheet can filter on fields;
+// entries without field changes get a single row
+export function formatAuditCsv(entries: AuditEntry[]): string {
+  const rows = entries.flatMap(({ changes, ...entry }) => {
+    const fields: (FieldChange | null)[] = changes.length > 0 ? changes : [null];
+    return fields.map(change => [
+      entry.id, entry.createdAt, entry.actor, entry.sourceIp, entry.method, entry.endpoint, entry.statusCode,
+      entry.clusterId, entry.action, entry.target, change?.field, change?.oldValue, change?.newValue,
+    ].map(csvValue).join(","));
+  });
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function formatAuditJsonl(entries: AuditEntry[]): string {
+  return entries.map(entry => JSON.stringify(entry) + "\n").join("");
+}
@@ -0,0 +1,265 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { z } from "zod";
+import { hasRole, loginSchema, passwordChangeSchema, roleSchema, type AuthUser, type Role } from "@shared/auth";
+import type { Account } from "@shared/schema";
+import { accounts } from "./storage";
+import { audited, describeAudit } from "./audit";
+
+/**
+ * Login and role checks for the API. Users are local accounts that log in
+ * with a password and keep a session, or are named by a reverse proxy in a
+ * request header.
+ */
+
+declare global {
+  namespace Express {
+    interface User extends AuthUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const KEY_LENGTH = 64;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, expected.length)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+function toAuthUser(account: Account): AuthUser {
+  return { id: account.id, username: account.username, role: account.role, source: "local" };
+}
+
+/**
+ * A way of telling who a request is from, besides a login session. Providers
+ * are asked in order and the first user found is taken.
+ */
+export interface AuthProvider {
+  name: string;
+  authenticate(req: Request): Promise<AuthUser | null>;
+}
+
+// Proxies are only trusted on the same host unless others are listed
+const LOOPBACK_ADDRESSES = ["127.0.0.1", "::1"];
+
+// IPv4 clients appear as ::ffff:10.0.0.1 on dual-stack sockets
+function normalizeAddress(address: string | undefined): string {
+  return (address ?? "").replace(/^::ffff:/, "");
+}
+
+/**
+ * Trusts a username set by a reverse proxy. The role comes from the role
+ * header when it names one, else from the local account of the same name,
+ * else `defaultRole`. Only requests from `trustedAddresses` are believed.
+ */
+export function proxyHeaderProvider(options: {
+  userHeader: string;
+  roleHeader?: string;
+  defaultRole: Role;
+  trustedAddresses: string[];
+}): AuthProvider {
+  return {
+    name: "proxy",
+    async authenticate(req) {
+      if (!options.trustedAddresses.includes(normalizeAddress(req.socket.remoteAddress))) {
+        return null;
+      }
+      const username = req.get(options.userHeader)?.trim();
+      if (!username) return null;
+
+      const headerRole = roleSchema.safeParse(options.roleHeader ? req.get(options.roleHeader)?.trim() : undefined);
+      const account = headerRole.success ? undefined : await accounts.getAccountByUsername(username);
+      return {
+        id: account?.id ?? null,
+        username,
+        role: headerRole.success ? headerRole.data : account?.role ?? options.defaultRole,
+        source: "proxy",
+      };
+    },
+  };
+}
+
+function configuredProviders(): AuthProvider[] {
+  const userHeader = process.env.AUTH_PROXY_HEADER;
+  if (!userHeader) return [];
+  const listed = (process.env.AUTH_PROXY_TRUSTED_ADDRESSES || "").split(",").map(address => address.trim()).filter(Boolean);
+  if (listed.length === 0) {
+    console.log(`AUTH_PROXY_TRUSTED_ADDRESSES is not set; ${userHeader} is only trusted from ${LOOPBACK_ADDRESSES.join(" and ")}`);
+  }
+  return [proxyHeaderProvider({
+    userHeader,
+    roleHeader: process.env.AUTH_PROXY_ROLE_HEADER || undefined,
+    defaultRole: roleSchema.parse(process.env.AUTH_PROXY_DEFAULT_ROLE || "viewer"),
+    trustedAddresses: listed.length > 0 ? listed : LOOPBACK_ADDRESSES,
+  })];
+}
+
+// Without any account nobody could log in, so the first start creates an
+// administrator. A generated password is printed once.
+async function ensureAdminAccount(): Promise<void> {
+  if ((await accounts.getAccounts()).length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME || "admin";
+  const password = process.env.ADMIN_PASSWORD || randomBytes(12).toString("base64url");
+  await accounts.createAccount({ username, passwordHash: await hashPassword(password), role: "admin" });
+  if (process.env.ADMIN_PASSWORD) {
+    console.log(`Created administrator account ${username}`);
+  } else {
+    console.log(`Created administrator account ${username} with password ${password} - change it after logging in`);
+  }
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  console.warn("SESSION_SECRET is not set; sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Sessions, the login routes under /api/auth and the check that every other
+ * /api request is from a known user. Routes registered afterwards add their
+ * role with requireRole().
+ */
+export async function setupAuth(app: Express): Promise<void> {
+  const providers = configuredProviders();
+  await ensureAdminAccount();
+
+  app.use(session({
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: accounts.sessionStore,
+    cookie: { httpOnly: true, sameSite: "lax", secure: "auto" },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const account = await accounts.getAccountByUsername(username);
+      if (!account || !(await verifyPassword(password, account.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, toAuthUser(account));
+    } catch (error) {
+      done(error);
+    }
+  }));
+  passport.serializeUser((user, done) => done(null, user.id));
+  // Role changes and removed accounts take effect on the next request
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const account = await accounts.getAccount(id);
+      done(null, account ? toAuthUser(account) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use("/api", async (req, res, next) => {
+    try {
+      for (const provider of providers) {
+        const user = await provider.authenticate(req);
+        if (user) {
+          req.user = user;
+          break;
+        }
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/login", audited("auth.login"), (req, res, next) => {
+    const credentials = loginSchema.safeParse(req.body);
+    if (!credentials.success) {
+      return res.status(400).json({ message: "Validation failed", errors: credentials.error.errors });
+    }
+    describeAudit(res, { target: credentials.data.username });
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        console.log(`User ${user.username} logged in`);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", audited("auth.logout"), (req, res, next) => {
+    describeAudit(res, { target: req.user?.username ?? null });
+    req.logout((error) => {
+      if (error) return next(error);
+      res.status(204).send();
+    });
+  });
+
+  app.get("/api/auth/user", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+
+  app.put("/api/auth/password", audited("auth.password"), async (req, res) => {
+    try {
+      if (!req.user || req.user.source !== "local" || req.user.id === null) {
+        return res.status(400).json({ message: "Only local accounts have a password" });
+      }
+      describeAudit(res, { target: req.user.username });
+      const { currentPassword, newPassword } = passwordChangeSchema.parse(req.body);
+      const account = await accounts.getAccount(req.user.id);
+      if (!account || !(await verifyPassword(currentPassword, account.passwordHash))) {
+        return res.status(400).json({ message: "The current password is not correct" });
+      }
+      await accounts.updateAccount(account.id, { passwordHash: await hashPassword(newPassword) });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    next();
+  });
+}
+
+/**
+ * Allows the request if the user has `role` or a more privileged one.
+ */
+export function requireRole(role: Role): RequestHandler {
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    if (!hasRole(req.user.role, role)) {
+      return res.status(403).json({ message: `This requires the ${role} role` });
+    }
+    next();
+  };
+}
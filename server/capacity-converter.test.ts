@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import type { GlobalConfig, Queue } from "@shared/schema";
+import { DEFAULT_PLACEMENT_RULES } from "@shared/placement";
+import { conversionReport, convertToCapacityScheduler } from "./capacity-converter";
+import { toQueueValues } from "./storage-utils";
+
+const PREFIX = "yarn.scheduler.capacity";
+
+const globalConfig: GlobalConfig = {
+  id: 1,
+  defaultQueueSchedulingPolicy: "fair",
+  userMaxAppsDefault: 5,
+  queueMaxAppsDefault: null,
+  queueMaxAMShareDefault: null,
+  defaultMinSharePreemptionTimeout: null,
+  defaultFairSharePreemptionTimeout: null,
+  defaultFairSharePreemptionThreshold: null,
+  queuePlacementRules: [{ name: "specified", create: false }, { name: "default" }],
+  defaultQueue: "default",
+};
+
+function queue(path: string, settings: Partial<Queue> = {}): Queue {
+  const segments = path.split(".");
+  const parent = segments.length > 1 ? segments.slice(0, -1).join(".") : null;
+  return { ...toQueueValues({ name: segments[segments.length - 1], path, parent }), id: 0, ...settings } as Queue;
+}
+
+function convert(queues: Queue[], options: { config?: Partial<GlobalConfig>; yarnSite?: Record<string, string>; mode?: "percentage" | "weight" } = {}) {
+  const { properties, issues } = convertToCapacityScheduler(
+    queues,
+    { ...globalConfig, ...options.config },
+    [],
+    options.yarnSite ?? {},
+    options.mode ?? "percentage",
+  );
+  return { properties: new Map(properties.map(property => [property.name, property.value])), issues };
+}
+
+describe("convertToCapacityScheduler", () => {
+  it("converts weights to capacities that add up to 100", () => {
+    const { properties } = convert([queue("root"), queue("root.a", { weight: 3 }), queue("root.b", { weight: 1 })]);
+
+    expect(properties.get(`${PREFIX}.root.queues`)).toBe("a,b");
+    expect(properties.get(`${PREFIX}.root.capacity`)).toBe("100");
+    expect(properties.get(`${PREFIX}.root.a.capacity`)).toBe("75");
+    expect(properties.get(`${PREFIX}.root.b.capacity`)).toBe("25");
+  });
+
+  it("gives the rounding leftover to the largest queue", () => {
+    const { properties } = convert([queue("root"), queue("root.a"), queue("root.b"), queue("root.c")]);
+
+    const capacities = ["a", "b", "c"].map(name => properties.get(`${PREFIX}.root.${name}.capacity`));
+    expect(capacities).toEqual(["33.334", "33.333", "33.333"]);
+  });
+
+  it("converts weights as weights in weight mode", () => {
+    const { properties } = convert([queue("root"), queue("root.a", { weight: 2.5 }), queue("root.a.x")], { mode: "weight" });
+
+    expect(properties.get(`${PREFIX}.root.capacity`)).toBe("1w");
+    expect(properties.get(`${PREFIX}.root.a.capacity`)).toBe("2.5w");
+    expect(properties.get(`${PREFIX}.root.a.queues`)).toBe("x");
+    expect(properties.get(`${PREFIX}.root.a.x.capacity`)).toBe("1w");
+  });
+
+  it("makes maximum capacities relative to the parent's maximum", () => {
+    const { properties, issues } = convert([
+      queue("root"),
+      queue("root.a", { maxResources: { kind: "percentage", percent: 50 } }),
+      queue("root.a.x", { maxResources: { kind: "percentage", percent: 25 } }),
+      queue("root.b", { maxResources: { kind: "absolute", memoryMb: 4096, vcores: 4 } }),
+      queue("root.b.y", { maxResources: { kind: "percentage", percent: 10 } }),
+    ]);
+
+    expect(properties.get(`${PREFIX}.root.a.maximum-capacity`)).toBe("50");
+    expect(properties.get(`${PREFIX}.root.a.x.maximum-capacity`)).toBe("50");
+    expect(properties.get(`${PREFIX}.root.b.maximum-capacity`)).toBe("[memory=4096,vcores=4]");
+    expect(properties.get(`${PREFIX}.root.b.y.maximum-capacity`)).toBe("10");
+    expect(issues).toEqual([expect.objectContaining({ queue: "root.b.y", setting: "maxResources" })]);
+  });
+
+  it("converts leaf queue limits and reports settings without an equivalent", () => {
+    const { properties, issues } = convert([
+      queue("root"),
+      queue("root.a", {
+        minResources: { kind: "absolute", memoryMb: 1024, vcores: 1 },
+        maxRunningApps: 10,
+        maxAMShare: -1,
+        allowPreemptionFrom: false,
+        aclSubmitApps: "alice",
+        fairSharePreemptionTimeout: 30,
+      }),
+    ]);
+
+    expect(properties.get(`${PREFIX}.root.a.max-parallel-apps`)).toBe("10");
+    expect(properties.get(`${PREFIX}.root.a.maximum-am-resource-percent`)).toBe("1");
+    expect(properties.get(`${PREFIX}.root.a.disable_preemption`)).toBe("true");
+    expect(properties.get(`${PREFIX}.root.a.acl_submit_applications`)).toBe("alice");
+    expect(properties.get(`${PREFIX}.root.a.ordering-policy`)).toBe("fair");
+    expect(properties.get(`${PREFIX}.root.a.user-limit-factor`)).toBe("-1");
+    expect(issues.map(issue => issue.setting)).toEqual(["minResources", "maxAMShare", "fairSharePreemptionTimeout"]);
+  });
+
+  it("uses the dominant resource calculator when any queue uses drf", () => {
+    const { properties, issues } = convert([queue("root"), queue("root.a", { schedulingPolicy: "drf" }), queue("root.b")]);
+
+    expect(properties.get(`${PREFIX}.resource-calculator`)).toBe("org.apache.hadoop.yarn.util.resource.DominantResourceCalculator");
+    expect(issues).toEqual([expect.objectContaining({ queue: null, setting: "schedulingPolicy" })]);
+  });
+
+  it("reports leaf queues that share a name", () => {
+    const { issues } = convert([queue("root"), queue("root.a"), queue("root.a.etl"), queue("root.b"), queue("root.b.etl")]);
+
+    expect(issues).toEqual([expect.objectContaining({ setting: "queue names" })]);
+  });
+
+  it("converts global settings and user limits", () => {
+    const { properties } = convertToCapacityScheduler(
+      [queue("root"), queue("root.a")],
+      { ...globalConfig, queueMaxAppsDefault: 20, queueMaxAMShareDefault: 0.4 },
+      [{ id: 1, name: "alice", maxRunningApps: 3 }],
+      {},
+      "percentage",
+    );
+    const byName = new Map(properties.map(property => [property.name, property.value]));
+
+    expect(byName.get(`${PREFIX}.max-parallel-apps`)).toBe("20");
+    expect(byName.get(`${PREFIX}.user.max-parallel-apps`)).toBe("5");
+    expect(byName.get(`${PREFIX}.user.alice.max-parallel-apps`)).toBe("3");
+    expect(byName.get(`${PREFIX}.maximum-am-resource-percent`)).toBe("0.4");
+  });
+
+  it("converts placement rules to JSON mapping rules", () => {
+    const { properties } = convert([queue("root"), queue("root.a")], {
+      config: { queuePlacementRules: [{ name: "specified", create: false }, { name: "reject" }] },
+    });
+
+    expect(properties.get(`${PREFIX}.mapping-rule-format`)).toBe("json");
+    expect(JSON.parse(properties.get(`${PREFIX}.mapping-rule-json`)!)).toEqual({
+      rules: [
+        { type: "user", matches: "*", policy: "specified", fallbackResult: "skip", create: false },
+        { type: "user", matches: "*", policy: "reject", fallbackResult: "reject" },
+      ],
+    });
+  });
+
+  it("enables queue creation for rules that create queues, with weights only", () => {
+    const queues = [queue("root"), queue("root.a")];
+    const percentage = convert(queues, { config: { queuePlacementRules: DEFAULT_PLACEMENT_RULES } });
+    const weight = convert(queues, { config: { queuePlacementRules: DEFAULT_PLACEMENT_RULES }, mode: "weight" });
+
+    expect(percentage.issues.map(issue => issue.setting)).toEqual(["queuePlacementPolicy", "queuePlacementPolicy"]);
+    expect(percentage.properties.has(`${PREFIX}.root.auto-queue-creation-v2.enabled`)).toBe(false);
+    expect(weight.issues).toEqual([]);
+    expect(weight.properties.get(`${PREFIX}.root.auto-queue-creation-v2.enabled`)).toBe("true");
+  });
+
+  it("converts scheduler-wide yarn-site.xml settings", () => {
+    const { properties, issues } = convert([queue("root"), queue("root.a")], {
+      yarnSite: {
+        "yarn.scheduler.fair.assignmultiple": "true",
+        "yarn.scheduler.fair.max.assign": "4",
+        "yarn.scheduler.fair.dynamic.max.assign": "false",
+        "yarn.scheduler.fair.sizebasedweight": "true",
+      },
+    });
+
+    expect(properties.get(`${PREFIX}.per-node-heartbeat.multiple-assignments-enabled`)).toBe("true");
+    expect(properties.get(`${PREFIX}.per-node-heartbeat.maximum-container-assignments`)).toBe("4");
+    expect(properties.get(`${PREFIX}.root.a.ordering-policy.fair.enable-size-based-weight`)).toBe("true");
+    expect(issues).toEqual([]);
+  });
+});
+
+describe("conversionReport", () => {
+  it("lists the settings that were not converted exactly", () => {
+    const lines = conversionReport({
+      capacities: "weight",
+      yarnSitePath: null,
+      properties: [],
+      issues: [{ queue: "root.a", setting: "minResources", message: "dropped" }],
+    });
+
+    expect(lines).toEqual([
+      "Converted from the Fair Scheduler configuration, with capacities as weights.",
+      "No yarn-site.xml was found; Fair Scheduler defaults were assumed for scheduler-wide settings.",
+      "",
+      "Settings that were not converted exactly:",
+      "- root.a minResources: dropped",
+    ]);
+  });
+});
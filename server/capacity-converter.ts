@@ -0,0 +1,422 @@
+import type { Queue, GlobalConfig, UserLimit, HadoopProperty, ConversionIssue, CapacitySchedulerConversion } from "@shared/schema";
+import { formatResourceValue } from "@shared/resources";
+import { formatPlacementRule, type PlacementRule } from "@shared/placement";
+
+/**
+ * Converts a Fair Scheduler configuration to capacity-scheduler.xml
+ * properties, the way YARN's fs2cs tool does:
+ *
+ *   weight                      capacity, as a share of the siblings' weights
+ *                               in percent or as "<weight>w"
+ *   maxResources                maximum-capacity, relative to the parent
+ *   maxRunningApps              max-parallel-apps
+ *   maxAMShare                  maximum-am-resource-percent
+ *   schedulingPolicy            ordering-policy and the resource calculator
+ *   aclSubmitApps, ...          acl_submit_applications, acl_administer_queue
+ *   allowPreemptionFrom=false   disable_preemption
+ *   queuePlacementPolicy        JSON mapping rules
+ *
+ * Settings without an exact equivalent are reported as issues.
+ */
+
+type CapacityMode = CapacitySchedulerConversion["capacities"];
+
+const PREFIX = "yarn.scheduler.capacity";
+
+const DEFAULT_RESOURCE_CALCULATOR = "org.apache.hadoop.yarn.util.resource.DefaultResourceCalculator";
+const DOMINANT_RESOURCE_CALCULATOR = "org.apache.hadoop.yarn.util.resource.DominantResourceCalculator";
+
+// The Fair Scheduler's default maxAMShare; the Capacity Scheduler's is 0.1
+const FAIR_SCHEDULER_MAX_AM_SHARE = 0.5;
+
+// Names of Fair Scheduler keyValue resources in Capacity Scheduler absolute values
+const CAPACITY_RESOURCE_NAMES: Record<string, string> = { "memory-mb": "memory", vcores: "vcores" };
+
+interface ConversionContext {
+  properties: HadoopProperty[];
+  issues: ConversionIssue[];
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(3)));
+}
+
+function set(context: ConversionContext, name: string, value: string | number | boolean) {
+  context.properties.push({ name, value: typeof value === "number" ? formatNumber(value) : String(value) });
+}
+
+function report(context: ConversionContext, queue: string | null, setting: string, message: string) {
+  context.issues.push({ queue, setting, message });
+}
+
+// Child capacities in percent of the parent. They add up to exactly 100:
+// rounding leftovers go to the largest child.
+function percentageCapacities(children: Queue[]): Map<string, number> {
+  const weights = children.map(child => Math.max(child.weight ?? 1, 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const capacities = weights.map(weight =>
+    Number((total > 0 ? weight / total * 100 : 100 / children.length).toFixed(3)));
+  const leftover = 100 - capacities.reduce((sum, capacity) => sum + capacity, 0);
+  const largest = capacities.indexOf(Math.max(...capacities));
+  capacities[largest] = Number((capacities[largest] + leftover).toFixed(3));
+  return new Map(children.map((child, index) => [child.path, capacities[index]]));
+}
+
+// maximum-capacity of a queue and its maximum in percent of the cluster,
+// null once an ancestor's maximum is absolute. Fair Scheduler percentages
+// are of the cluster; Capacity Scheduler percentages are of the parent.
+function maximumCapacity(
+  context: ConversionContext,
+  queue: Queue,
+  parentMaximum: number | null,
+): { value: string | null; absoluteMaximum: number | null } {
+  const value = queue.maxResources;
+  if (!value) return { value: null, absoluteMaximum: parentMaximum };
+
+  const relative = (percent: number) => {
+    if (parentMaximum === null) {
+      report(context, queue.path, "maxResources",
+        `${percent}% of the cluster cannot be made relative to a parent with an absolute maximum; converted as ${percent}% of the parent`);
+      return { value: formatNumber(percent), absoluteMaximum: null };
+    }
+    const capacity = parentMaximum > 0 ? Math.min(100, percent / parentMaximum * 100) : 0;
+    return { value: formatNumber(capacity), absoluteMaximum: Math.min(percent, parentMaximum) };
+  };
+
+  switch (value.kind) {
+    case "percentage":
+      return relative(value.percent);
+    case "resourcePercentages":
+      if (value.memoryPercent !== value.cpuPercent) {
+        report(context, queue.path, "maxResources",
+          `"${formatResourceValue(value)}" has no single-percentage equivalent; the memory percentage is used`);
+      }
+      return relative(value.memoryPercent);
+    case "absolute": {
+      const resources = [];
+      if (value.memoryMb !== undefined) resources.push(`memory=${value.memoryMb}`);
+      if (value.vcores !== undefined) resources.push(`vcores=${value.vcores}`);
+      if (value.memoryMb === undefined || value.vcores === undefined) {
+        report(context, queue.path, "maxResources",
+          `"${formatResourceValue(value)}" limits one resource only; the Capacity Scheduler expects every resource in an absolute maximum`);
+      }
+      return { value: `[${resources.join(",")}]`, absoluteMaximum: null };
+    }
+    case "keyValue": {
+      if (!value.percent) {
+        const resources = Object.entries(value.resources)
+          .map(([name, amount]) => `${CAPACITY_RESOURCE_NAMES[name] ?? name}=${amount}`);
+        return { value: `[${resources.join(",")}]`, absoluteMaximum: null };
+      }
+      const percentages = Object.values(value.resources);
+      const memory = value.resources["memory-mb"] ?? Math.max(...percentages);
+      if (percentages.some(percent => percent !== memory)) {
+        report(context, queue.path, "maxResources",
+          `"${formatResourceValue(value)}" has no single-percentage equivalent; ${memory}% is used`);
+      }
+      return relative(memory);
+    }
+  }
+}
+
+function effectivePolicy(queue: Queue | undefined, globalConfig: GlobalConfig): string {
+  return (queue?.schedulingPolicy || globalConfig.defaultQueueSchedulingPolicy || "fair").toLowerCase();
+}
+
+function convertQueue(
+  context: ConversionContext,
+  queue: Queue,
+  children: Queue[],
+  capacity: string,
+  parentMaximum: number | null,
+  globalConfig: GlobalConfig,
+  sizeBasedWeight: boolean,
+): number | null {
+  const key = `${PREFIX}.${queue.path}`;
+  const isLeaf = children.length === 0;
+  set(context, `${key}.capacity`, capacity);
+
+  const maximum = maximumCapacity(context, queue, parentMaximum);
+  if (maximum.value !== null) set(context, `${key}.maximum-capacity`, maximum.value);
+
+  if (queue.minResources) {
+    report(context, queue.path, "minResources",
+      `The Capacity Scheduler has no minimum share; "${formatResourceValue(queue.minResources)}" is dropped and the queue's capacity follows its weight`);
+  }
+  if (queue.maxRunningApps !== null && queue.maxRunningApps !== undefined) {
+    set(context, `${key}.max-parallel-apps`, queue.maxRunningApps);
+  }
+  if (isLeaf && queue.maxAMShare !== null && queue.maxAMShare !== undefined) {
+    if (queue.maxAMShare === -1) {
+      report(context, queue.path, "maxAMShare", "-1 (no check) is converted to 1.0, applications may use the whole queue");
+    }
+    set(context, `${key}.maximum-am-resource-percent`, queue.maxAMShare === -1 ? 1 : queue.maxAMShare);
+  }
+
+  const policy = effectivePolicy(queue, globalConfig);
+  if (isLeaf) {
+    set(context, `${key}.ordering-policy`, policy === "fifo" ? "fifo" : "fair");
+    if (policy !== "fifo" && sizeBasedWeight) {
+      set(context, `${key}.ordering-policy.fair.enable-size-based-weight`, true);
+    }
+    // Fair Scheduler users share the whole queue, up to its maximum
+    set(context, `${key}.user-limit-factor`, "-1");
+  } else if (policy === "fifo") {
+    report(context, queue.path, "schedulingPolicy",
+      "fifo on a parent queue has no equivalent; the Capacity Scheduler serves child queues by utilization");
+  }
+
+  if (queue.aclSubmitApps) set(context, `${key}.acl_submit_applications`, queue.aclSubmitApps);
+  if (queue.aclAdministerApps) set(context, `${key}.acl_administer_queue`, queue.aclAdministerApps);
+
+  if (queue.allowPreemptionFrom === false) set(context, `${key}.disable_preemption`, true);
+  if (queue.allowPreemptionTo) {
+    report(context, queue.path, "allowPreemptionTo", "There is no equivalent; every queue may preempt for its capacity");
+  }
+  for (const setting of ["minSharePreemptionTimeout", "fairSharePreemptionTimeout", "fairSharePreemptionThreshold"] as const) {
+    if (queue[setting] !== null && queue[setting] !== undefined) {
+      report(context, queue.path, setting, "Capacity Scheduler preemption is tuned cluster-wide in yarn-site.xml; the setting is dropped");
+    }
+  }
+  if (queue.reservation) set(context, `${key}.reservable`, true);
+
+  return maximum.absoluteMaximum;
+}
+
+function queuePath(queue: string): string {
+  return queue === "root" || queue.startsWith("root.") ? queue : `root.${queue}`;
+}
+
+// JSON mapping rules for the placement rules. Rules that cannot place an
+// application fall through to the next one, as in the Fair Scheduler.
+function convertPlacementRules(
+  context: ConversionContext,
+  rules: PlacementRule[],
+  defaultQueue: string,
+  mode: CapacityMode,
+  autoCreateParents: Set<string>,
+): object[] {
+  const mappings: object[] = [];
+  // `parent` is where the rule creates queues, null when it depends on the
+  // user's groups
+  const mapping = (rule: PlacementRule, policy: string, parent: string | null, extra: Record<string, unknown> = {}) => {
+    const create = rule.create !== false;
+    mappings.push({ type: "user", matches: "*", policy, ...extra, fallbackResult: "skip", create });
+    if (!create) return;
+    if (mode === "percentage") {
+      report(context, null, "queuePlacementPolicy",
+        `The ${rule.name} rule creates queues, which needs weight capacities (auto-queue-creation-v2); convert with weights or set create=false`);
+    } else if (parent) {
+      autoCreateParents.add(parent);
+    } else {
+      report(context, null, "queuePlacementPolicy",
+        `The ${rule.name} rule creates user queues under group queues; enable auto-queue-creation-v2 on each group queue`);
+    }
+  };
+
+  for (const rule of rules) {
+    switch (rule.name) {
+      case "specified":
+        mapping(rule, "specified", "root");
+        break;
+      case "user":
+        mapping(rule, "user", "root", { parentQueue: "root" });
+        break;
+      case "primaryGroup":
+        mapping(rule, "primaryGroup", "root", { parentQueue: "root" });
+        break;
+      case "secondaryGroupExistingQueue":
+        mappings.push({ type: "user", matches: "*", policy: "secondaryGroup", parentQueue: "root", fallbackResult: "skip", create: false });
+        break;
+      case "nestedUserQueue": {
+        const nested = rule.nestedRule!;
+        if (nested.name === "primaryGroup" || nested.name === "secondaryGroupExistingQueue") {
+          if (nested.name === "primaryGroup" && nested.create !== false) {
+            report(context, null, "queuePlacementPolicy",
+              `${formatPlacementRule(rule)}: the Capacity Scheduler does not create the group queue, it must exist`);
+          }
+          mapping(rule, nested.name === "primaryGroup" ? "primaryGroupUser" : "secondaryGroupUser", null);
+        } else if (nested.name === "default") {
+          const parent = queuePath(nested.queue ?? defaultQueue);
+          mapping(rule, "user", parent, { parentQueue: parent });
+        } else {
+          report(context, null, "queuePlacementPolicy",
+            `${formatPlacementRule(rule)} has no equivalent mapping rule and is dropped`);
+        }
+        break;
+      }
+      case "default": {
+        const target = queuePath(rule.queue ?? defaultQueue);
+        mappings.push(target === "root.default"
+          ? { type: "user", matches: "*", policy: "defaultQueue", fallbackResult: "skip" }
+          : { type: "user", matches: "*", policy: "custom", customPlacement: target, fallbackResult: "skip", create: rule.create !== false });
+        break;
+      }
+      case "reject":
+        mappings.push({ type: "user", matches: "*", policy: "reject", fallbackResult: "reject" });
+        break;
+    }
+  }
+  return mappings;
+}
+
+// Scheduler-wide yarn-site.xml settings of the Fair Scheduler
+function convertYarnSite(context: ConversionContext, yarnSite: Record<string, string>) {
+  const fair = "yarn.scheduler.fair";
+  const enabled = (name: string) => yarnSite[name]?.trim().toLowerCase() === "true";
+
+  // Off in the Fair Scheduler by default, on in the Capacity Scheduler
+  set(context, `${PREFIX}.per-node-heartbeat.multiple-assignments-enabled`, enabled(`${fair}.assignmultiple`));
+  if (enabled(`${fair}.assignmultiple`)) {
+    const maxAssign = yarnSite[`${fair}.max.assign`]?.trim();
+    if (maxAssign) set(context, `${PREFIX}.per-node-heartbeat.maximum-container-assignments`, maxAssign);
+    if (yarnSite[`${fair}.dynamic.max.assign`] === undefined || enabled(`${fair}.dynamic.max.assign`)) {
+      report(context, null, `${fair}.dynamic.max.assign`,
+        "The Capacity Scheduler assigns a fixed number of containers per heartbeat");
+    }
+  }
+
+  if (enabled(`${fair}.continuous-scheduling-enabled`)) {
+    set(context, `${PREFIX}.schedule-asynchronously.enable`, true);
+    const sleep = yarnSite[`${fair}.continuous-scheduling-sleep-ms`]?.trim();
+    if (sleep) set(context, `${PREFIX}.schedule-asynchronously.scheduling-interval-ms`, sleep);
+  }
+
+  for (const name of [`${fair}.locality.threshold.node`, `${fair}.locality.threshold.rack`]) {
+    if (yarnSite[name] !== undefined) {
+      report(context, null, name,
+        "The Capacity Scheduler delays by scheduling opportunities (node-locality-delay), not by a share of the cluster; the setting is dropped");
+    }
+  }
+
+  if (enabled(`${fair}.preemption`)) {
+    report(context, null, `${fair}.preemption`,
+      "Enable Capacity Scheduler preemption in yarn-site.xml with yarn.resourcemanager.scheduler.monitor.enable=true");
+    if (yarnSite[`${fair}.preemption.cluster-utilization-threshold`] !== undefined) {
+      report(context, null, `${fair}.preemption.cluster-utilization-threshold`,
+        "The Capacity Scheduler preempts regardless of cluster utilization; the setting is dropped");
+    }
+  }
+}
+
+/**
+ * capacity-scheduler.xml properties for the queues, global settings and
+ * user limits, plus the scheduler-wide settings of yarn-site.xml.
+ */
+export function convertToCapacityScheduler(
+  queues: Queue[],
+  globalConfig: GlobalConfig,
+  userLimits: UserLimit[],
+  yarnSite: Record<string, string>,
+  mode: CapacityMode,
+): Pick<CapacitySchedulerConversion, "properties" | "issues"> {
+  const context: ConversionContext = { properties: [], issues: [] };
+  const byPath = new Map(queues.map(queue => [queue.path, queue]));
+  const childrenOf = (path: string) => queues.filter(queue => queue.parent === path && queue.path !== "root");
+  const sizeBasedWeight = yarnSite["yarn.scheduler.fair.sizebasedweight"]?.trim().toLowerCase() === "true";
+  const autoCreateParents = new Set<string>();
+
+  // Resource calculator: one for the whole scheduler
+  const policies = new Map(queues.map(queue => [queue.path, effectivePolicy(queue, globalConfig)]));
+  const drf = Array.from(policies).filter(([, policy]) => policy === "drf").map(([path]) => path);
+  const fair = Array.from(policies).filter(([, policy]) => policy === "fair").map(([path]) => path);
+  set(context, `${PREFIX}.resource-calculator`, drf.length > 0 ? DOMINANT_RESOURCE_CALCULATOR : DEFAULT_RESOURCE_CALCULATOR);
+  if (drf.length > 0 && fair.length > 0) {
+    report(context, null, "schedulingPolicy",
+      `drf applies to every queue in the Capacity Scheduler, including the fair queues ${fair.join(", ")}`);
+  }
+
+  // Queue tree, root first
+  const root = byPath.get("root");
+  const rootChildren = childrenOf("root");
+  set(context, `${PREFIX}.root.queues`, rootChildren.map(child => child.name).join(","));
+  set(context, `${PREFIX}.root.capacity`, mode === "weight" ? "1w" : "100");
+  if (root?.aclSubmitApps) set(context, `${PREFIX}.root.acl_submit_applications`, root.aclSubmitApps);
+  if (root?.aclAdministerApps) set(context, `${PREFIX}.root.acl_administer_queue`, root.aclAdministerApps);
+  if (root?.allowPreemptionFrom === false) set(context, `${PREFIX}.root.disable_preemption`, true);
+  if (root?.maxRunningApps !== null && root?.maxRunningApps !== undefined) {
+    set(context, `${PREFIX}.root.max-parallel-apps`, root.maxRunningApps);
+  }
+
+  const convertChildren = (children: Queue[], parentMaximum: number | null) => {
+    if (children.length === 0) return;
+    const percentages = mode === "percentage" ? percentageCapacities(children) : null;
+    for (const child of children) {
+      const grandchildren = childrenOf(child.path);
+      if (grandchildren.length > 0) {
+        set(context, `${PREFIX}.${child.path}.queues`, grandchildren.map(grandchild => grandchild.name).join(","));
+      }
+      const capacity = percentages ? formatNumber(percentages.get(child.path)!) : `${formatNumber(Math.max(child.weight ?? 1, 0))}w`;
+      const maximum = convertQueue(context, child, grandchildren, capacity, parentMaximum, globalConfig, sizeBasedWeight);
+      convertChildren(grandchildren, maximum);
+    }
+  };
+  convertChildren(rootChildren, 100);
+
+  // Leaf queue names must be unique to submit to a queue by its name
+  const leafNames = new Map<string, string[]>();
+  queues.filter(queue => queue.path !== "root" && childrenOf(queue.path).length === 0).forEach(queue => {
+    leafNames.set(queue.name, [...(leafNames.get(queue.name) ?? []), queue.path]);
+  });
+  leafNames.forEach((paths, name) => {
+    if (paths.length > 1) {
+      report(context, null, "queue names",
+        `Leaf queues ${paths.join(", ")} share the name ${name}; applications must name them by full path`);
+    }
+  });
+
+  // Global settings
+  if (globalConfig.queueMaxAppsDefault !== null && globalConfig.queueMaxAppsDefault !== undefined) {
+    set(context, `${PREFIX}.max-parallel-apps`, globalConfig.queueMaxAppsDefault);
+  }
+  if (globalConfig.userMaxAppsDefault !== null && globalConfig.userMaxAppsDefault !== undefined) {
+    set(context, `${PREFIX}.user.max-parallel-apps`, globalConfig.userMaxAppsDefault);
+  }
+  userLimits.forEach(user => set(context, `${PREFIX}.user.${user.name}.max-parallel-apps`, user.maxRunningApps));
+
+  const maxAMShare = globalConfig.queueMaxAMShareDefault ?? FAIR_SCHEDULER_MAX_AM_SHARE;
+  if (maxAMShare === -1) {
+    report(context, null, "queueMaxAMShareDefault", "-1 (no check) is converted to 1.0, applications may use the whole queue");
+  }
+  set(context, `${PREFIX}.maximum-am-resource-percent`, maxAMShare === -1 ? 1 : maxAMShare);
+
+  for (const setting of ["defaultMinSharePreemptionTimeout", "defaultFairSharePreemptionTimeout", "defaultFairSharePreemptionThreshold"] as const) {
+    if (globalConfig[setting] !== null && globalConfig[setting] !== undefined) {
+      report(context, null, setting, "Capacity Scheduler preemption is tuned cluster-wide in yarn-site.xml; the setting is dropped");
+    }
+  }
+
+  // Placement
+  const rules = globalConfig.queuePlacementRules ?? [];
+  const mappings = convertPlacementRules(context, rules, globalConfig.defaultQueue || "default", mode, autoCreateParents);
+  if (mappings.length > 0) {
+    set(context, `${PREFIX}.mapping-rule-format`, "json");
+    set(context, `${PREFIX}.mapping-rule-json`, JSON.stringify({ rules: mappings }));
+  }
+  autoCreateParents.forEach(parent => set(context, `${PREFIX}.${parent}.auto-queue-creation-v2.enabled`, true));
+
+  convertYarnSite(context, yarnSite);
+  return context;
+}
+
+/**
+ * The conversion report, as comment lines for the top of
+ * capacity-scheduler.xml.
+ */
+export function conversionReport(conversion: CapacitySchedulerConversion): string[] {
+  const lines = [
+    `Converted from the Fair Scheduler configuration, with capacities as ${conversion.capacities === "weight" ? "weights" : "percentages"}.`,
+    conversion.yarnSitePath
+      ? `Scheduler-wide settings were read from ${conversion.yarnSitePath}.`
+      : "No yarn-site.xml was found; Fair Scheduler defaults were assumed for scheduler-wide settings.",
+  ];
+  if (conversion.issues.length === 0) {
+    lines.push("Every setting was converted.");
+    return lines;
+  }
+  lines.push("", "Settings that were not converted exactly:");
+  conversion.issues.forEach(issue => {
+    lines.push(`- ${issue.queue ? `${issue.queue} ` : ""}${issue.setting}: ${issue.message}`);
+  });
+  return lines;
+}
@@ -0,0 +1,361 @@
+import type { InsertQueue, InsertGlobalConfig, InsertUserLimit, ConversionIssue } from "@shared/schema";
+import type { ResourceValue } from "@shared/resources";
+import type { PlacementRule } from "@shared/placement";
+
+/**
+ * Imports capacity-scheduler.xml properties into the queue model, the
+ * reverse of capacity-converter.ts:
+ *
+ *   capacity                        weight (percentages and weights alike);
+ *                                   absolute capacities become minResources
+ *   maximum-capacity                maxResources, as a share of the cluster
+ *   max-parallel-apps               maxRunningApps
+ *   maximum-am-resource-percent     maxAMShare
+ *   ordering-policy                 schedulingPolicy
+ *   acl_submit_applications, ...    aclSubmitApps, aclAdministerApps
+ *   disable_preemption              allowPreemptionFrom
+ *   queue-mappings, mapping rules   queuePlacementPolicy
+ *
+ * Every other property is reported as an issue.
+ */
+
+export class CapacitySchedulerImportError extends Error {}
+
+export interface CapacitySchedulerImport {
+  queues: InsertQueue[];
+  globalConfig: Partial<InsertGlobalConfig>;
+  userLimits: InsertUserLimit[];
+  issues: ConversionIssue[];
+}
+
+const PREFIX = "yarn.scheduler.capacity";
+
+const DOMINANT_RESOURCE_CALCULATOR = "org.apache.hadoop.yarn.util.resource.DominantResourceCalculator";
+
+// Capacity Scheduler defaults the Fair Scheduler behaves like closely
+// enough to import silently
+const IGNORED_DEFAULTS: Record<string, string> = {
+  "state": "RUNNING",
+  "priority": "0",
+  "user-limit-factor": "1",
+  "minimum-user-limit-percent": "100",
+};
+
+// Why common properties are not imported, by the setting name without the
+// queue path
+const UNSUPPORTED_SETTINGS: Record<string, string> = {
+  "user-limit-factor": "The Fair Scheduler has no per-user share of a queue; users share it by fair share",
+  "minimum-user-limit-percent": "The Fair Scheduler has no per-user share of a queue; users share it by fair share",
+  "maximum-applications": "The Fair Scheduler only limits running applications (maxRunningApps), not pending ones",
+  "state": "The Fair Scheduler has no stopped queues",
+  "priority": "The Fair Scheduler has no queue priorities",
+  "node-locality-delay": "Set yarn.scheduler.fair.locality.threshold.node in yarn-site.xml instead",
+  "rack-locality-additional-delay": "Set yarn.scheduler.fair.locality.threshold.rack in yarn-site.xml instead",
+  "schedule-asynchronously.enable": "Set yarn.scheduler.fair.continuous-scheduling-enabled in yarn-site.xml instead",
+  "per-node-heartbeat.multiple-assignments-enabled": "Set yarn.scheduler.fair.assignmultiple in yarn-site.xml instead",
+  "per-node-heartbeat.maximum-container-assignments": "Set yarn.scheduler.fair.max.assign in yarn-site.xml instead",
+  "ordering-policy.fair.enable-size-based-weight": "Set yarn.scheduler.fair.sizebasedweight in yarn-site.xml instead",
+};
+
+class PropertyReader {
+  private consumed = new Set<string>();
+
+  constructor(private properties: Record<string, string>) {}
+
+  get(name: string): string | undefined {
+    return this.raw(name)?.trim();
+  }
+
+  // Untrimmed, for ACLs
+  raw(name: string): string | undefined {
+    if (!(name in this.properties)) return undefined;
+    this.consumed.add(name);
+    return this.properties[name];
+  }
+
+  names(): string[] {
+    return Object.keys(this.properties);
+  }
+
+  unconsumed(): [string, string][] {
+    return Object.entries(this.properties).filter(([name]) => !this.consumed.has(name));
+  }
+}
+
+function parseNumber(text: string | undefined): number | null {
+  if (text === undefined || text.trim() === "") return null;
+  const value = Number(text.trim());
+  return Number.isFinite(value) ? value : null;
+}
+
+// "[memory=10240,vcores=12,yarn.io/gpu=2]"
+function parseAbsoluteResources(text: string): Record<string, number> | null {
+  const match = text.trim().match(/^\[(.*)\]$/);
+  if (!match) return null;
+  const resources: Record<string, number> = {};
+  for (const part of match[1].split(",").map(part => part.trim()).filter(Boolean)) {
+    const [name, amount] = part.split("=").map(piece => piece.trim());
+    const value = parseNumber(amount);
+    if (!name || value === null) return null;
+    resources[name] = value;
+  }
+  return resources;
+}
+
+function toResourceValue(resources: Record<string, number>): ResourceValue {
+  const names = Object.keys(resources);
+  if (names.every(name => name === "memory" || name === "memory-mb" || name === "vcores")) {
+    return { kind: "absolute", memoryMb: resources.memory ?? resources["memory-mb"], vcores: resources.vcores };
+  }
+  return {
+    kind: "keyValue",
+    resources: Object.fromEntries(Object.entries(resources).map(([name, amount]) => [name === "memory" ? "memory-mb" : name, amount])),
+    percent: false,
+  };
+}
+
+function queuePath(parent: string, queue: string): string {
+  return queue.startsWith("root.") || queue === "root" ? queue : `${parent}.${queue}`;
+}
+
+// Placement rules for legacy queue mappings, e.g. "u:%user:%user,g:dev:root.dev"
+function importQueueMappings(mappings: string, autoCreateParents: Set<string>, report: (setting: string, message: string) => void): PlacementRule[] {
+  const rules: PlacementRule[] = [];
+  for (const mapping of mappings.split(",").map(entry => entry.trim()).filter(Boolean)) {
+    const [type, source, target] = mapping.split(":").map(part => part.trim());
+    if (type !== "u" || source !== "%user" || !target) {
+      report("queue-mappings", `"${mapping}" maps specific users or groups, which placement rules cannot express; it is dropped`);
+      continue;
+    }
+    const segments = target.split(".");
+    const leaf = segments[segments.length - 1];
+    const parent = segments.slice(0, -1).join(".");
+    if (target === "%user") {
+      rules.push({ name: "user", create: false });
+    } else if (target === "%primary_group") {
+      rules.push({ name: "primaryGroup", create: false });
+    } else if (target === "%secondary_group") {
+      rules.push({ name: "secondaryGroupExistingQueue" });
+    } else if (leaf === "%user" && parent === "%primary_group") {
+      rules.push({ name: "nestedUserQueue", create: false, nestedRule: { name: "primaryGroup", create: false } });
+    } else if (leaf === "%user" && parent === "%secondary_group") {
+      rules.push({ name: "nestedUserQueue", create: false, nestedRule: { name: "secondaryGroupExistingQueue" } });
+    } else if (leaf === "%user" && !parent.includes("%")) {
+      const parentPath = queuePath("root", parent);
+      rules.push({ name: "nestedUserQueue", create: autoCreateParents.has(parentPath), nestedRule: { name: "default", queue: parentPath } });
+    } else if (!target.includes("%")) {
+      rules.push({ name: "default", queue: queuePath("root", target) });
+    } else {
+      report("queue-mappings", `"${mapping}" has no placement rule equivalent; it is dropped`);
+    }
+  }
+  return rules;
+}
+
+// Placement rules for JSON mapping rules, as written by the converter and fs2cs
+function importMappingRules(json: string, report: (setting: string, message: string) => void): PlacementRule[] {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    report("mapping-rule-json", "The mapping rules are not valid JSON; they are dropped");
+    return [];
+  }
+  const rules: PlacementRule[] = [];
+  for (const mapping of Array.isArray(parsed?.rules) ? parsed.rules : []) {
+    const create = mapping.create === true;
+    const parent = typeof mapping.parentQueue === "string" ? mapping.parentQueue : "root";
+    if (mapping.matches !== "*") {
+      report("mapping-rule-json", `The ${mapping.policy} rule for ${mapping.type} ${mapping.matches} maps specific users or groups, which placement rules cannot express; it is dropped`);
+      continue;
+    }
+    switch (mapping.policy) {
+      case "specified":
+        rules.push({ name: "specified", create });
+        break;
+      case "user":
+        rules.push(parent === "root"
+          ? { name: "user", create }
+          : { name: "nestedUserQueue", create, nestedRule: { name: "default", queue: queuePath("root", parent) } });
+        break;
+      case "primaryGroup":
+        rules.push({ name: "primaryGroup", create });
+        break;
+      case "secondaryGroup":
+        rules.push({ name: "secondaryGroupExistingQueue" });
+        break;
+      case "primaryGroupUser":
+        rules.push({ name: "nestedUserQueue", create, nestedRule: { name: "primaryGroup", create: false } });
+        break;
+      case "secondaryGroupUser":
+        rules.push({ name: "nestedUserQueue", create, nestedRule: { name: "secondaryGroupExistingQueue" } });
+        break;
+      case "defaultQueue":
+        rules.push({ name: "default" });
+        break;
+      case "custom":
+        if (typeof mapping.customPlacement === "string" && !mapping.customPlacement.includes("%")) {
+          rules.push({ name: "default", queue: queuePath("root", mapping.customPlacement), create });
+        } else {
+          report("mapping-rule-json", `The custom placement "${mapping.customPlacement}" has no placement rule equivalent; it is dropped`);
+        }
+        break;
+      case "reject":
+        rules.push({ name: "reject" });
+        break;
+      default:
+        report("mapping-rule-json", `The ${mapping.policy} policy has no placement rule equivalent; it is dropped`);
+    }
+  }
+  return rules;
+}
+
+/**
+ * The queue tree, global settings and user limits of capacity-scheduler.xml
+ * properties. Throws CapacitySchedulerImportError without a root queue list.
+ */
+export function importCapacityScheduler(properties: Record<string, string>): CapacitySchedulerImport {
+  const reader = new PropertyReader(properties);
+  const issues: ConversionIssue[] = [];
+  const report = (queue: string | null, setting: string, message: string) => issues.push({ queue, setting, message });
+
+  if (reader.get(`${PREFIX}.root.queues`) === undefined) {
+    throw new CapacitySchedulerImportError(`Missing ${PREFIX}.root.queues; this is not a Capacity Scheduler configuration`);
+  }
+  const childNames = (path: string) =>
+    (reader.get(`${PREFIX}.${path}.queues`) ?? "").split(",").map(name => name.trim()).filter(Boolean);
+  const dominant = reader.get(`${PREFIX}.resource-calculator`) === DOMINANT_RESOURCE_CALCULATOR;
+
+  const queues: InsertQueue[] = [];
+  const autoCreateParents = new Set<string>();
+
+  // `parentMaximum` is the parent's maximum in percent of the cluster, null
+  // once an ancestor's maximum is absolute
+  const importQueue = (path: string, name: string, parent: string | null, parentMaximum: number | null, preemptionDisabled: boolean) => {
+    const key = `${PREFIX}.${path}`;
+    const children = childNames(path);
+    const queue: InsertQueue = { name, path, parent, weight: 1 };
+
+    const capacity = reader.get(`${key}.capacity`);
+    if (path !== "root") {
+      const weight = capacity?.trim().match(/^(\d+(?:\.\d+)?)w$/);
+      const absolute = capacity ? parseAbsoluteResources(capacity) : null;
+      if (weight) {
+        queue.weight = parseFloat(weight[1]);
+      } else if (absolute) {
+        queue.minResources = toResourceValue(absolute);
+        report(path, "capacity", `The absolute capacity ${capacity} is imported as minResources with weight 1`);
+      } else if (parseNumber(capacity) !== null) {
+        queue.weight = parseNumber(capacity)!;
+      } else {
+        queue.weight = 0;
+        report(path, "capacity", capacity === undefined ? "No capacity; imported with weight 0" : `"${capacity}" is not a capacity; imported with weight 0`);
+      }
+    }
+
+    let maximum = parentMaximum;
+    const maximumCapacity = reader.get(`${key}.maximum-capacity`);
+    if (maximumCapacity !== undefined && path !== "root") {
+      const absolute = parseAbsoluteResources(maximumCapacity);
+      const percent = parseNumber(maximumCapacity);
+      if (absolute) {
+        queue.maxResources = toResourceValue(absolute);
+        maximum = null;
+      } else if (percent !== null && (percent < 0 || percent >= 100)) {
+        // -1 and 100 are unlimited within the parent
+      } else if (percent !== null && parentMaximum !== null) {
+        maximum = Number((percent * parentMaximum / 100).toFixed(3));
+        queue.maxResources = { kind: "percentage", percent: maximum };
+      } else if (percent !== null) {
+        report(path, "maximum-capacity", `${percent}% of a parent with an absolute maximum cannot be made a share of the cluster; it is dropped`);
+      } else {
+        report(path, "maximum-capacity", `"${maximumCapacity}" is not a maximum capacity; it is dropped`);
+      }
+    }
+
+    const maxParallelApps = parseNumber(reader.get(`${key}.max-parallel-apps`));
+    if (maxParallelApps !== null) queue.maxRunningApps = Math.floor(maxParallelApps);
+    const maxAMShare = parseNumber(reader.get(`${key}.maximum-am-resource-percent`));
+    if (maxAMShare !== null) queue.maxAMShare = maxAMShare;
+
+    const orderingPolicy = reader.get(`${key}.ordering-policy`);
+    if (orderingPolicy === "fifo") {
+      queue.schedulingPolicy = "fifo";
+    } else if (orderingPolicy === "fair") {
+      queue.schedulingPolicy = dominant ? "drf" : "fair";
+    } else if (orderingPolicy !== undefined && children.length === 0) {
+      report(path, "ordering-policy", `The ${orderingPolicy} ordering policy has no Fair Scheduler equivalent`);
+    }
+
+    const aclSubmitApps = reader.raw(`${key}.acl_submit_applications`);
+    if (aclSubmitApps !== undefined) queue.aclSubmitApps = aclSubmitApps;
+    const aclAdministerApps = reader.raw(`${key}.acl_administer_queue`);
+    if (aclAdministerApps !== undefined) queue.aclAdministerApps = aclAdministerApps;
+
+    // disable_preemption is inherited, as is allowPreemptionFrom=false
+    const disabled = reader.get(`${key}.disable_preemption`);
+    const preemptionOff = disabled === undefined ? preemptionDisabled : disabled.toLowerCase() === "true";
+    queue.allowPreemptionFrom = !preemptionOff;
+
+    if (reader.get(`${key}.reservable`)?.toLowerCase() === "true") queue.reservation = true;
+    if (reader.get(`${key}.auto-queue-creation-v2.enabled`)?.toLowerCase() === "true"
+        || reader.get(`${key}.auto-create-child-queue.enabled`)?.toLowerCase() === "true") {
+      autoCreateParents.add(path);
+    }
+
+    queues.push(queue);
+    children.forEach(child => importQueue(`${path}.${child}`, child, path, maximum, preemptionOff));
+  };
+  importQueue("root", "root", null, 100, false);
+
+  // Global settings
+  const globalConfig: Partial<InsertGlobalConfig> = {
+    defaultQueueSchedulingPolicy: dominant ? "drf" : "fair",
+    defaultQueue: "default",
+  };
+  const maxAMShare = parseNumber(reader.get(`${PREFIX}.maximum-am-resource-percent`));
+  // The Capacity Scheduler's default is 0.1, the Fair Scheduler's 0.5
+  globalConfig.queueMaxAMShareDefault = maxAMShare ?? 0.1;
+  const queueMaxApps = parseNumber(reader.get(`${PREFIX}.max-parallel-apps`));
+  if (queueMaxApps !== null) globalConfig.queueMaxAppsDefault = Math.floor(queueMaxApps);
+  const userMaxApps = parseNumber(reader.get(`${PREFIX}.user.max-parallel-apps`));
+  if (userMaxApps !== null) globalConfig.userMaxAppsDefault = Math.floor(userMaxApps);
+
+  const userLimits: InsertUserLimit[] = [];
+  for (const name of reader.names()) {
+    const match = name.match(/^yarn\.scheduler\.capacity\.user\.([^.]+)\.max-parallel-apps$/);
+    const limit = match ? parseNumber(reader.get(name)) : null;
+    if (match && limit !== null) userLimits.push({ name: match[1], maxRunningApps: Math.floor(limit) });
+  }
+
+  // Placement: the mappings, with the queue the application asked for
+  // first unless mappings override it, and the default queue last
+  const globalReport = (setting: string, message: string) => report(null, setting, message);
+  const mappings = reader.get(`${PREFIX}.mapping-rule-format`) === "json"
+    ? importMappingRules(reader.get(`${PREFIX}.mapping-rule-json`) ?? "{}", globalReport)
+    : importQueueMappings(reader.get(`${PREFIX}.queue-mappings`) ?? "", autoCreateParents, globalReport);
+  const override = reader.get(`${PREFIX}.queue-mappings-override.enable`)?.toLowerCase() === "true";
+  const rules: PlacementRule[] = override ? mappings : [{ name: "specified", create: false }, ...mappings];
+  if (!rules.some(rule => rule.name === "specified")) {
+    rules.push({ name: "specified", create: false });
+  }
+  if (!["default", "reject"].includes(rules[rules.length - 1].name)) {
+    rules.push({ name: "default" });
+  }
+  globalConfig.queuePlacementRules = rules;
+
+  // Everything else
+  const paths = queues.map(queue => queue.path).sort((a, b) => b.length - a.length);
+  for (const [name, value] of reader.unconsumed()) {
+    if (!name.startsWith(`${PREFIX}.`)) {
+      report(null, name, "Not a Capacity Scheduler setting; it is ignored");
+      continue;
+    }
+    const queue = paths.find(path => name.startsWith(`${PREFIX}.${path}.`)) ?? null;
+    const setting = name.slice((queue ? `${PREFIX}.${queue}.` : `${PREFIX}.`).length);
+    if (IGNORED_DEFAULTS[setting] === value.trim()) continue;
+    report(queue, setting, UNSUPPORTED_SETTINGS[setting] ?? "Not supported by the Fair Scheduler; it is dropped");
+  }
+
+  return { queues, globalConfig, userLimits, issues };
+}
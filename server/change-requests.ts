@@ -0,0 +1,133 @@
+import { createHash } from "crypto";
+import type { ChangeRequest, ChangeRequestChanges, ChangeRequestSummary, PendingChangeSelection } from "@shared/schema";
+import { ACTIVE_CHANGE_REQUEST_STATUSES, type ChangeRequestEventType, type ChangeRequestStatus } from "@shared/change-requests";
+import type { IStorage } from "./storage";
+import { diffPendingQueues, diffGlobalConfig, diffUserLimits, diffStagedFile } from "./config-diff";
+import { resolvePendingSelection } from "./storage-utils";
+
+/**
+ * Change requests put pending changes up for review before they are written
+ * to the allocation file. A request names the pending queues and whether the
+ * global settings are included; only approved requests are applied.
+ */
+
+// Status each event moves a change request to; comments leave it as it is
+const EVENT_STATUSES: Partial<Record<ChangeRequestEventType, ChangeRequestStatus>> = {
+  approved: "approved",
+  rejected: "rejected",
+  withdrawn: "withdrawn",
+  applied: "applied",
+};
+
+// Statuses a change request may be in for each event
+const ALLOWED_FROM: Record<ChangeRequestEventType, readonly ChangeRequestStatus[]> = {
+  submitted: [],
+  commented: ["open", "approved", "rejected", "withdrawn", "applied"],
+  approved: ["open"],
+  rejected: ["open"],
+  withdrawn: ["open", "approved"],
+  applied: ["approved"],
+};
+
+export function isActiveChangeRequest(request: ChangeRequest): boolean {
+  return ACTIVE_CHANGE_REQUEST_STATUSES.includes(request.status);
+}
+
+export function canRecordEvent(request: ChangeRequest, type: ChangeRequestEventType): boolean {
+  return ALLOWED_FROM[type].includes(request.status);
+}
+
+// With CHANGE_REQUESTS_ALLOW_SELF_APPROVAL=true authors may approve their own
+// requests, for installations with a single approver
+export function mayReview(request: ChangeRequest, username: string): boolean {
+  return request.author !== username || process.env.CHANGE_REQUESTS_ALLOW_SELF_APPROVAL === "true";
+}
+
+/**
+ * The pending changes a selection covers, with queues whose edits were
+ * reverted left out. Without a selection every pending change is covered.
+ */
+export async function diffSelectedChanges(
+  storage: IStorage,
+  selection?: PendingChangeSelection,
+): Promise<{ queueIds: number[]; globalConfig: boolean; changes: ChangeRequestChanges }> {
+  const [pendingIds, queues, syncedQueues, globalConfig, syncedGlobalConfig, userLimits, syncedUserLimits, stagedFile] = await Promise.all([
+    storage.getPendingQueueIds(),
+    storage.getQueues(),
+    storage.getSyncedQueues(),
+    storage.getGlobalConfig(),
+    storage.getSyncedGlobalConfig(),
+    storage.getUserLimits(),
+    storage.getSyncedUserLimits(),
+    storage.getStagedFile(),
+  ]);
+
+  const globalConfigChanges = [
+    ...diffStagedFile(stagedFile),
+    ...diffGlobalConfig(syncedGlobalConfig, globalConfig),
+    ...diffUserLimits(syncedUserLimits, userLimits),
+  ];
+  const selected = resolvePendingSelection(selection, pendingIds, globalConfigChanges.length > 0);
+  const queueChanges = diffPendingQueues(selected.queueIds, queues, syncedQueues);
+
+  return {
+    queueIds: queueChanges.map(change => change.queueId).sort((a, b) => a - b),
+    globalConfig: selected.globalConfig,
+    changes: { queues: queueChanges, globalConfig: selected.globalConfig ? globalConfigChanges : [] },
+  };
+}
+
+export function fingerprintChanges(changes: ChangeRequestChanges): string {
+  return createHash("sha256").update(JSON.stringify(changes)).digest("hex");
+}
+
+// Whether the pending changes of an open or approved request differ from the
+// ones submitted, because they were edited, discarded or applied since
+export async function isOutdated(storage: IStorage, request: ChangeRequest): Promise<boolean> {
+  if (!isActiveChangeRequest(request)) return false;
+  const { changes } = await diffSelectedChanges(storage, { queueIds: request.queueIds, globalConfig: request.globalConfig });
+  return fingerprintChanges(changes) !== request.fingerprint;
+}
+
+export async function summarizeChangeRequest(storage: IStorage, request: ChangeRequest): Promise<ChangeRequestSummary> {
+  return { ...request, outdated: await isOutdated(storage, request) };
+}
+
+// The open or approved request that already includes one of the selected
+// changes, if any
+export function findClaimingRequest(
+  requests: ChangeRequest[],
+  selection: { queueIds: number[]; globalConfig: boolean },
+): ChangeRequest | undefined {
+  return requests.filter(isActiveChangeRequest).find(request =>
+    (selection.globalConfig && request.globalConfig) ||
+    request.queueIds.some(id => selection.queueIds.includes(id)));
+}
+
+/**
+ * Records an event in the history of a change request and moves the request
+ * to the status the event leads to.
+ */
+export async function recordChangeRequestEvent(
+  storage: IStorage,
+  request: ChangeRequest,
+  event: { type: ChangeRequestEventType; author: string; message?: string | null },
+  update: Partial<Pick<ChangeRequest, "revisionId">> = {},
+): Promise<ChangeRequest> {
+  const now = new Date().toISOString();
+  await storage.addChangeRequestEvent({
+    changeRequestId: request.id,
+    type: event.type,
+    author: event.author,
+    message: event.message ?? null,
+    createdAt: now,
+  });
+
+  const status = EVENT_STATUSES[event.type];
+  const updated = await storage.updateChangeRequest(request.id, {
+    ...update,
+    ...(status ? { status } : {}),
+    updatedAt: now,
+  });
+  return updated ?? request;
+}
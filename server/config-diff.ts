@@ -0,0 +1,185 @@
+import type { Queue, GlobalConfig, UserLimit, QueueChange, FieldChange, StagedFile } from "@shared/schema";
+
+/**
+ * Builds the review shown before pending changes are applied: which queue
+ * fields changed since the last apply, and how the allocation file changes.
+ */
+
+const CONTEXT_LINES = 3;
+
+// Resource values are objects, so compare by their JSON form
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Changed fields between two rows, ignoring the id column
+export function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.delete("id");
+
+  const changes: FieldChange[] = [];
+  fields.forEach(field => {
+    const oldValue = before[field] ?? null;
+    const newValue = after[field] ?? null;
+    if (!valuesEqual(oldValue, newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  });
+  return changes;
+}
+
+export function diffGlobalConfig(synced: GlobalConfig, current: GlobalConfig): FieldChange[] {
+  return diffFields(synced, current);
+}
+
+/**
+ * Changes to per-user limits, matched by user name and reported as
+ * `users.<name>.maxRunningApps` fields. They are listed with the global
+ * configuration because both are applied together.
+ */
+export function diffUserLimits(synced: UserLimit[], current: UserLimit[]): FieldChange[] {
+  const before = new Map(synced.map(user => [user.name, user.maxRunningApps]));
+  const after = new Map(current.map(user => [user.name, user.maxRunningApps]));
+  const names = Array.from(new Set(Array.from(before.keys()).concat(Array.from(after.keys())))).sort();
+
+  return names
+    .filter(name => !valuesEqual(before.get(name), after.get(name)))
+    .map(name => ({
+      field: `users.${name}.maxRunningApps`,
+      oldValue: before.get(name) ?? null,
+      newValue: after.get(name) ?? null,
+    }));
+}
+
+/**
+ * The staged allocation file as a change listed with the global settings,
+ * with which it is applied and discarded. Its hash tells files with the same
+ * source apart.
+ */
+export function diffStagedFile(stagedFile: StagedFile | undefined): FieldChange[] {
+  if (!stagedFile) return [];
+  return [{ field: "allocationFile", oldValue: null, newValue: `${stagedFile.source} (${stagedFile.hash.slice(0, 12)})` }];
+}
+
+/**
+ * Field-level changes for every pending queue id. Queues that were edited
+ * back to their applied values are left out.
+ */
+export function diffPendingQueues(pendingIds: number[], currentQueues: Queue[], syncedQueues: Queue[]): QueueChange[] {
+  const current = new Map(currentQueues.map(queue => [queue.id, queue]));
+  const synced = new Map(syncedQueues.map(queue => [queue.id, queue]));
+  const changes: QueueChange[] = [];
+
+  for (const queueId of pendingIds) {
+    const now = current.get(queueId);
+    const before = synced.get(queueId);
+
+    if (now && before) {
+      const fields = diffFields(before, now);
+      if (fields.length > 0) {
+        changes.push({ queueId, queuePath: now.path, type: "modified", fields });
+      }
+    } else if (now) {
+      changes.push({ queueId, queuePath: now.path, type: "added", fields: diffFields({}, now) });
+    } else if (before) {
+      changes.push({ queueId, queuePath: before.path, type: "removed", fields: diffFields(before, {}) });
+    }
+  }
+
+  return changes.sort((a, b) => a.queuePath.localeCompare(b.queuePath));
+}
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+// Longest-common-subsequence line diff. The shared prefix and suffix are
+// trimmed first so typical edits to large files stay cheap.
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) {
+    start++;
+  }
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = oldLines.slice(0, start).map(line => ({ type: " ", line }));
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ type: "-", line: a[i] });
+      i++;
+    } else {
+      ops.push({ type: "+", line: b[j] });
+      j++;
+    }
+  }
+  oldLines.slice(oldEnd).forEach(line => ops.push({ type: " ", line }));
+  return ops;
+}
+
+/**
+ * Unified diff of two XML documents, or an empty string when they are
+ * identical.
+ */
+export function createUnifiedXmlDiff(before: string, after: string, fileName: string = "fair-scheduler.xml"): string {
+  const ops = diffLines(before.split(/\r?\n/), after.split(/\r?\n/));
+  const changed = ops.map((op, index) => op.type !== " " ? index : -1).filter(index => index >= 0);
+  if (changed.length === 0) return "";
+
+  // Group changed lines that are close enough to share context into hunks
+  const ranges: Array<[number, number]> = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - CONTEXT_LINES);
+    const to = Math.min(ops.length, index + CONTEXT_LINES + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && from <= last[1]) {
+      last[1] = to;
+    } else {
+      ranges.push([from, to]);
+    }
+  }
+
+  // Line numbers before each op in the old and new file
+  const oldLineAt: number[] = [];
+  const newLineAt: number[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const op of ops) {
+    oldLineAt.push(oldLine);
+    newLineAt.push(newLine);
+    if (op.type !== "+") oldLine++;
+    if (op.type !== "-") newLine++;
+  }
+
+  const output = [`--- a/${fileName}`, `+++ b/${fileName}`];
+  for (const [from, to] of ranges) {
+    const hunk = ops.slice(from, to);
+    const oldCount = hunk.filter(op => op.type !== "+").length;
+    const newCount = hunk.filter(op => op.type !== "-").length;
+    const oldStart = oldCount > 0 ? oldLineAt[from] : oldLineAt[from] - 1;
+    const newStart = newCount > 0 ? newLineAt[from] : newLineAt[from] - 1;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    hunk.forEach(op => output.push(`${op.type}${op.line}`));
+  }
+  return output.join("\n");
+}
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import path from "path";
+import type { Cluster } from "@shared/schema";
+import { ConfigMergeError, mergeExternalChanges, previewMerge } from "./config-merge";
+import { MemStorage } from "./storage";
+
+const SYNCED = `<?xml version="1.0"?>
+<allocations>
+  <queue name="root">
+    <queue name="a">
+      <weight>1.0</weight>
+    </queue>
+    <queue name="b">
+      <maxRunningApps>5</maxRunningApps>
+    </queue>
+  </queue>
+  <user name="alice">
+    <maxRunningApps>3</maxRunningApps>
+  </user>
+</allocations>
+`;
+
+// b's limit changed and c added outside the configurator
+const EDITED = SYNCED
+  .replace("<maxRunningApps>5</maxRunningApps>", "<maxRunningApps>7</maxRunningApps>")
+  .replace("  </queue>\n  <user", "    <queue name=\"c\"/>\n  </queue>\n  <user");
+
+let dir: string;
+let cluster: Cluster;
+let storage: MemStorage;
+
+async function queueByPath(queuePath: string) {
+  return (await storage.getQueues()).find(queue => queue.path === queuePath);
+}
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "config-merge-"));
+  const configPath = path.join(dir, "fair-scheduler.xml");
+  await fs.writeFile(configPath, SYNCED);
+  cluster = { id: 1, name: "test", configPath, yarnSitePath: null } as Cluster;
+  storage = new MemStorage({ configPath, yarnSitePath: null });
+
+  // Pending: a's weight and b's limit
+  await storage.updateQueue((await queueByPath("root.a"))!.id, { weight: 2 });
+  await storage.updateQueue((await queueByPath("root.b"))!.id, { maxRunningApps: 10 });
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("previewMerge", () => {
+  it("refuses files that were not edited", async () => {
+    await expect(previewMerge(cluster, storage)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("takes settings only one side changed from that side and reports conflicts", async () => {
+    await fs.writeFile(cluster.configPath, EDITED);
+
+    const preview = await previewMerge(cluster, storage);
+
+    expect(preview.conflicts).toBe(1);
+    expect(preview.changes).toEqual([
+      expect.objectContaining({ key: "root.a.weight", base: 1, disk: 1, pending: 2, source: "pending", conflict: false }),
+      expect.objectContaining({ key: "root.b.maxRunningApps", base: 5, disk: 7, pending: 10, source: "both", conflict: true }),
+      expect.objectContaining({ key: "root.c", field: null, base: null, pending: null, source: "disk", conflict: false }),
+    ]);
+    expect(preview.xmlDiff).toContain('+    <queue name="c"/>');
+  });
+
+  it("is no conflict when both sides made the same change", async () => {
+    await fs.writeFile(cluster.configPath, SYNCED.replace("<maxRunningApps>5</maxRunningApps>", "<maxRunningApps>10</maxRunningApps>"));
+
+    const preview = await previewMerge(cluster, storage);
+
+    expect(preview.conflicts).toBe(0);
+    expect(preview.changes).toContainEqual(expect.objectContaining({ key: "root.b.maxRunningApps", source: "both", conflict: false }));
+  });
+
+  it("merges user limits as single values", async () => {
+    const alice = (await storage.getUserLimits()).find(user => user.name === "alice")!;
+    await storage.updateUserLimit(alice.id, { maxRunningApps: 4 });
+    await fs.writeFile(cluster.configPath, SYNCED.replace("<maxRunningApps>3</maxRunningApps>", "<maxRunningApps>6</maxRunningApps>"));
+
+    const preview = await previewMerge(cluster, storage);
+
+    expect(preview.changes).toContainEqual(expect.objectContaining({
+      key: "users.alice.maxRunningApps", scope: "user", base: 3, disk: 6, pending: 4, conflict: true,
+    }));
+  });
+
+  it("refuses to merge while an allocation file is staged", async () => {
+    await storage.stageFile({
+      source: "Uploaded fair-scheduler.xml",
+      content: SYNCED,
+      hash: "staged",
+      queueIds: {},
+      userLimitIds: {},
+      author: "admin",
+      stagedAt: new Date().toISOString(),
+    });
+    await fs.writeFile(cluster.configPath, EDITED);
+
+    await expect(previewMerge(cluster, storage)).rejects.toMatchObject({ status: 409 });
+  });
+});
+
+describe("mergeExternalChanges", () => {
+  it("refuses unresolved conflicts", async () => {
+    await fs.writeFile(cluster.configPath, EDITED);
+    const { file } = await previewMerge(cluster, storage);
+
+    const error = await mergeExternalChanges(cluster, storage, file.diskHash!, {}).catch(error => error);
+
+    expect(error).toBeInstanceOf(ConfigMergeError);
+    expect(error).toMatchObject({ status: 400, message: "Resolve the conflicts first: root.b.maxRunningApps" });
+  });
+
+  it("refuses a file that changed again since the preview", async () => {
+    await fs.writeFile(cluster.configPath, EDITED);
+    const { file } = await previewMerge(cluster, storage);
+    await fs.writeFile(cluster.configPath, `${EDITED}<!-- edited again -->\n`);
+
+    await expect(mergeExternalChanges(cluster, storage, file.diskHash!, { "root.b.maxRunningApps": "disk" }))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it("reloads the edited file and stages the pending side on it", async () => {
+    await fs.writeFile(cluster.configPath, EDITED);
+    const { file } = await previewMerge(cluster, storage);
+
+    await mergeExternalChanges(cluster, storage, file.diskHash!, { "root.b.maxRunningApps": "disk" });
+
+    expect((await queueByPath("root.a"))!.weight).toBe(2);
+    expect((await queueByPath("root.b"))!.maxRunningApps).toBe(7);
+    expect(await queueByPath("root.c")).toBeDefined();
+    expect(await storage.getPendingQueueIds()).toEqual([(await queueByPath("root.a"))!.id]);
+    expect((await storage.getSyncedFile())!.hash).toBe(file.diskHash);
+  });
+
+  it("stages the pending value of conflicts resolved to it", async () => {
+    await fs.writeFile(cluster.configPath, EDITED);
+    const { file } = await previewMerge(cluster, storage);
+
+    await mergeExternalChanges(cluster, storage, file.diskHash!, { "root.b.maxRunningApps": "pending" });
+
+    const b = (await queueByPath("root.b"))!;
+    expect(b.maxRunningApps).toBe(10);
+    expect(await storage.getPendingQueueIds()).toContain(b.id);
+  });
+});
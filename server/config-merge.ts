@@ -0,0 +1,310 @@
+import path from "path";
+import type { Cluster, ConfigMergeRequest, GlobalConfig, MergeChange, MergePreview, Queue, UserLimit, InsertQueue } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { diffFields, createUnifiedXmlDiff } from "./config-diff";
+import { inspectConfigFile } from "./config-watcher";
+import { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } from "./xml-utils";
+
+/**
+ * Three-way merge of pending changes with an allocation file that was edited
+ * outside the configurator. Against the file last synced, the edits on disk
+ * and the pending changes are compared setting by setting: settings only one
+ * side changed are taken from that side, settings both changed to different
+ * values are conflicts that are resolved by picking a side. Merging reloads
+ * the file from disk and stages the pending changes on top of it again.
+ */
+
+export class ConfigMergeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+type Settings = Record<string, unknown>;
+
+// A queue or user limit before and after one side's edits; null where it
+// was absent
+type Edit = { before: Settings | null; after: Settings | null };
+
+type ConfigState = {
+  queues: Settings[];
+  globalConfig: Settings;
+  userLimits: Array<{ name: string; maxRunningApps: number }>;
+};
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function recordsEqual(a: Settings | null, b: Settings | null): boolean {
+  if (!a || !b) return a === b;
+  return diffFields(a, b).length === 0;
+}
+
+function withoutId({ id, ...settings }: Settings): Settings {
+  return settings;
+}
+
+async function parseState(content: string): Promise<ConfigState> {
+  return {
+    queues: await parseQueuesFromXML(content),
+    globalConfig: await parseGlobalConfigFromXML(content),
+    userLimits: await parseUserLimitsFromXML(content),
+  };
+}
+
+// Queues that differ between two states, by path
+function diskQueueEdits(base: Settings[], disk: Settings[]): Map<string, Edit> {
+  const before = new Map(base.map(queue => [queue.path as string, queue]));
+  const after = new Map(disk.map(queue => [queue.path as string, queue]));
+  const edits = new Map<string, Edit>();
+  for (const queuePath of Array.from(new Set([...Array.from(before.keys()), ...Array.from(after.keys())]))) {
+    const edit = { before: before.get(queuePath) ?? null, after: after.get(queuePath) ?? null };
+    if (!recordsEqual(edit.before, edit.after)) {
+      edits.set(queuePath, edit);
+    }
+  }
+  return edits;
+}
+
+// Pending queues by the path they were applied with; renamed queues keep
+// their old path
+function pendingQueueEdits(pendingIds: number[], synced: Queue[], current: Queue[]): Map<string, Edit> {
+  const before = new Map(synced.map(queue => [queue.id, queue]));
+  const after = new Map(current.map(queue => [queue.id, queue]));
+  const edits = new Map<string, Edit>();
+  for (const id of pendingIds) {
+    const edit = {
+      before: before.has(id) ? withoutId(before.get(id)!) : null,
+      after: after.has(id) ? withoutId(after.get(id)!) : null,
+    };
+    if (!recordsEqual(edit.before, edit.after)) {
+      edits.set((edit.before ?? edit.after)!.path as string, edit);
+    }
+  }
+  return edits;
+}
+
+function changedFields(edit: Edit): string[] {
+  return diffFields(edit.before!, edit.after!).map(change => change.field);
+}
+
+function mergeQueues(base: ConfigState, disk: ConfigState, diskEdits: Map<string, Edit>, pendingEdits: Map<string, Edit>, current: Queue[]): MergeChange[] {
+  const baseQueues = new Map(base.queues.map(queue => [queue.path as string, queue]));
+  const diskQueues = new Map(disk.queues.map(queue => [queue.path as string, queue]));
+  const currentQueues = new Map(current.map(queue => [queue.path, withoutId(queue)]));
+  const paths = Array.from(new Set([...Array.from(diskEdits.keys()), ...Array.from(pendingEdits.keys())])).sort();
+
+  const changes: MergeChange[] = [];
+  for (const queuePath of paths) {
+    const diskEdit = diskEdits.get(queuePath);
+    const pendingEdit = pendingEdits.get(queuePath);
+    const modifiedOnDisk = diskEdit?.before && diskEdit.after;
+    const modifiedPending = pendingEdit?.before && pendingEdit.after;
+
+    // Both sides kept the queue: merge it field by field
+    if ((!diskEdit || modifiedOnDisk) && (!pendingEdit || modifiedPending)) {
+      const diskFields = diskEdit ? changedFields(diskEdit) : [];
+      const pendingFields = pendingEdit ? changedFields(pendingEdit) : [];
+      const baseQueue = baseQueues.get(queuePath) ?? pendingEdit?.before ?? {};
+      const diskQueue = diskEdit?.after ?? diskQueues.get(queuePath) ?? baseQueue;
+      const pendingQueue = pendingEdit?.after ?? currentQueues.get(queuePath) ?? baseQueue;
+      for (const field of Array.from(new Set([...diskFields, ...pendingFields])).sort()) {
+        const both = diskFields.includes(field) && pendingFields.includes(field);
+        changes.push({
+          key: `${queuePath}.${field}`,
+          scope: "queue",
+          name: queuePath,
+          field,
+          base: baseQueue[field] ?? null,
+          disk: diskQueue[field] ?? null,
+          pending: pendingQueue[field] ?? null,
+          source: both ? "both" : diskFields.includes(field) ? "disk" : "pending",
+          conflict: both && !valuesEqual(diskQueue[field], pendingQueue[field]),
+        });
+      }
+      continue;
+    }
+
+    // Added or removed on one side at least: the whole queue is at stake
+    const diskQueue = diskEdit ? diskEdit.after : diskQueues.get(queuePath) ?? null;
+    const pendingQueue = pendingEdit ? pendingEdit.after : currentQueues.get(queuePath) ?? null;
+    const both = diskEdit !== undefined && pendingEdit !== undefined;
+    changes.push({
+      key: queuePath,
+      scope: "queue",
+      name: queuePath,
+      field: null,
+      base: baseQueues.get(queuePath) ?? pendingEdit?.before ?? null,
+      disk: diskQueue,
+      pending: pendingQueue,
+      source: both ? "both" : diskEdit ? "disk" : "pending",
+      conflict: both && !recordsEqual(diskQueue, pendingQueue),
+    });
+  }
+  return changes;
+}
+
+function mergeGlobalConfig(base: ConfigState, disk: ConfigState, synced: GlobalConfig, current: GlobalConfig): MergeChange[] {
+  const diskFields = diffFields(base.globalConfig, disk.globalConfig).map(change => change.field);
+  const pendingFields = diffFields(synced, current).map(change => change.field);
+  const pending = current as Settings;
+
+  return Array.from(new Set([...diskFields, ...pendingFields])).sort().map(field => {
+    const both = diskFields.includes(field) && pendingFields.includes(field);
+    return {
+      key: field,
+      scope: "global" as const,
+      name: null,
+      field,
+      base: base.globalConfig[field] ?? null,
+      disk: disk.globalConfig[field] ?? null,
+      pending: pending[field] ?? null,
+      source: both ? "both" as const : diskFields.includes(field) ? "disk" as const : "pending" as const,
+      conflict: both && !valuesEqual(disk.globalConfig[field], pending[field]),
+    };
+  });
+}
+
+// User limits merge as single values, null where a user has no limit
+function mergeUserLimits(base: ConfigState, disk: ConfigState, synced: UserLimit[], current: UserLimit[]): MergeChange[] {
+  const limits = (users: Array<{ name: string; maxRunningApps: number }>) =>
+    new Map(users.map(user => [user.name, user.maxRunningApps]));
+  const baseLimits = limits(base.userLimits);
+  const diskLimits = limits(disk.userLimits);
+  const syncedLimits = limits(synced);
+  const currentLimits = limits(current);
+
+  const names = new Set([...Array.from(baseLimits.keys()), ...Array.from(diskLimits.keys()),
+    ...Array.from(syncedLimits.keys()), ...Array.from(currentLimits.keys())]);
+  const changes: MergeChange[] = [];
+  for (const name of Array.from(names).sort()) {
+    const onDisk = !valuesEqual(baseLimits.get(name), diskLimits.get(name));
+    const pending = !valuesEqual(syncedLimits.get(name), currentLimits.get(name));
+    if (!onDisk && !pending) continue;
+    changes.push({
+      key: `users.${name}.maxRunningApps`,
+      scope: "user",
+      name,
+      field: "maxRunningApps",
+      base: baseLimits.get(name) ?? null,
+      disk: diskLimits.get(name) ?? null,
+      pending: currentLimits.get(name) ?? null,
+      source: onDisk && pending ? "both" : onDisk ? "disk" : "pending",
+      conflict: onDisk && pending && !valuesEqual(diskLimits.get(name), currentLimits.get(name)),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Merges the pending changes of the cluster with its allocation file on
+ * disk. Fails when the file cannot be read or was not changed, or when an
+ * allocation file is staged.
+ */
+export async function previewMerge(cluster: Cluster, storage: IStorage): Promise<MergePreview> {
+  const { status, synced, diskContent } = await inspectConfigFile(cluster, storage);
+  if (status.status === "missing" || diskContent === null) {
+    throw new ConfigMergeError(`${cluster.configPath} cannot be read: ${status.error}`, 409);
+  }
+  if (status.status !== "changed" || !synced) {
+    throw new ConfigMergeError(`${cluster.configPath} was not changed outside the configurator`, 409);
+  }
+  // Merging reloads the file from disk, which would drop the staged file
+  const stagedFile = await storage.getStagedFile();
+  if (stagedFile) {
+    throw new ConfigMergeError(`${stagedFile.source} is staged as the base of the pending changes; discard it before merging with the edited file`, 409);
+  }
+
+  const [base, disk] = await Promise.all([parseState(synced.content), parseState(diskContent)]);
+  const [pendingIds, syncedQueues, currentQueues, syncedGlobalConfig, currentGlobalConfig, syncedUserLimits, currentUserLimits] = await Promise.all([
+    storage.getPendingQueueIds(),
+    storage.getSyncedQueues(),
+    storage.getQueues(),
+    storage.getSyncedGlobalConfig(),
+    storage.getGlobalConfig(),
+    storage.getSyncedUserLimits(),
+    storage.getUserLimits(),
+  ]);
+
+  const changes = [
+    ...mergeQueues(base, disk, diskQueueEdits(base.queues, disk.queues), pendingQueueEdits(pendingIds, syncedQueues, currentQueues), currentQueues),
+    ...mergeGlobalConfig(base, disk, syncedGlobalConfig, currentGlobalConfig),
+    ...mergeUserLimits(base, disk, syncedUserLimits, currentUserLimits),
+  ];
+  return {
+    file: status,
+    changes,
+    conflicts: changes.filter(change => change.conflict).length,
+    xmlDiff: createUnifiedXmlDiff(synced.content, diskContent, path.basename(cluster.configPath)),
+  };
+}
+
+/**
+ * Reloads the allocation file from disk and stages the pending side of the
+ * merge on top of it: changes only the pending changes made, and conflicts
+ * resolved to them. `diskHash` is the file the merge was previewed against;
+ * a file changed again since must be previewed again.
+ */
+export async function mergeExternalChanges(
+  cluster: Cluster,
+  storage: IStorage,
+  diskHash: string,
+  resolutions: ConfigMergeRequest["resolutions"],
+): Promise<MergePreview> {
+  const preview = await previewMerge(cluster, storage);
+  if (preview.file.diskHash !== diskHash) {
+    throw new ConfigMergeError(`${cluster.configPath} was changed again; review the merge again`, 409);
+  }
+  const unresolved = preview.changes.filter(change => change.conflict && !resolutions[change.key]);
+  if (unresolved.length > 0) {
+    throw new ConfigMergeError(`Resolve the conflicts first: ${unresolved.map(change => change.key).join(", ")}`, 400);
+  }
+
+  const staged = preview.changes.filter(change =>
+    change.conflict ? resolutions[change.key] === "pending" : change.source === "pending");
+
+  await storage.reloadFromDisk();
+  const queues = await storage.getQueues();
+  const queueIds = new Map(queues.map(queue => [queue.path, queue.id]));
+  const depth = (queuePath: string) => queuePath.split(".").length;
+
+  // Removed queues go first, deepest first; added queues parents first
+  const queueChanges = staged.filter(change => change.scope === "queue").sort((a, b) => depth(a.name!) - depth(b.name!));
+  for (const change of queueChanges.filter(change => change.field === null && change.pending === null).reverse()) {
+    const id = queueIds.get(change.name!);
+    if (id !== undefined) {
+      await storage.deleteQueue(id);
+    }
+  }
+  for (const change of queueChanges.filter(change => change.field !== null || change.pending !== null)) {
+    const id = queueIds.get(change.name!);
+    if (change.field !== null) {
+      if (id !== undefined) {
+        await storage.updateQueue(id, { [change.field]: change.pending });
+      }
+    } else if (id !== undefined) {
+      await storage.updateQueue(id, change.pending as Partial<InsertQueue>);
+    } else {
+      await storage.createQueue(change.pending as InsertQueue);
+    }
+  }
+
+  const globalConfig = Object.fromEntries(staged.filter(change => change.scope === "global").map(change => [change.field!, change.pending]));
+  await storage.updateGlobalConfig(globalConfig);
+
+  const userLimits = new Map((await storage.getUserLimits()).map(user => [user.name, user]));
+  for (const change of staged.filter(change => change.scope === "user")) {
+    const user = userLimits.get(change.name!);
+    const maxRunningApps = change.pending as number | null;
+    if (maxRunningApps === null) {
+      if (user) await storage.deleteUserLimit(user.id);
+    } else if (user) {
+      await storage.updateUserLimit(user.id, { maxRunningApps });
+    } else {
+      await storage.createUserLimit({ name: change.name!, maxRunningApps });
+    }
+  }
+
+  return preview;
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { assertValidConfiguration, ConfigValidationError, validateConfiguration } from "./config-validator";
+
+function allocations(body: string): string {
+  return `<?xml version="1.0"?>\n<allocations>\n${body}\n</allocations>\n`;
+}
+
+async function ruleIds(content: string) {
+  const validation = await validateConfiguration(content);
+  return {
+    errors: validation.errors.map(issue => issue.ruleId),
+    warnings: validation.warnings.map(issue => issue.ruleId),
+  };
+}
+
+describe("validateConfiguration", () => {
+  it("accepts a consistent file", async () => {
+    const validation = await validateConfiguration(allocations(`
+  <queue name="root">
+    <queue name="default"/>
+    <queue name="prod">
+      <minResources>1024 mb, 1 vcores</minResources>
+      <maxResources>4096 mb, 4 vcores</maxResources>
+      <maxAMShare>-1</maxAMShare>
+    </queue>
+  </queue>`));
+
+    expect(validation).toEqual({ isValid: true, errors: [], warnings: [] });
+  });
+
+  it("reports syntax errors with their line", async () => {
+    const validation = await validateConfiguration("<allocations>\n  <queue name=\"a\">\n</allocations>");
+
+    expect(validation.isValid).toBe(false);
+    expect(validation.errors).toHaveLength(1);
+    expect(validation.errors[0].ruleId).toBe("xml-syntax");
+    expect(validation.errors[0].location?.line).toBe(3);
+  });
+
+  it("requires an allocations root element", async () => {
+    expect((await ruleIds("<scheduler/>")).errors).toEqual(["allocations-root"]);
+  });
+
+  it("reports queues without a name and duplicate queues", async () => {
+    const { errors } = await ruleIds(allocations(`
+  <queue name="a"/>
+  <queue name="a"/>
+  <queue/>`));
+
+    expect(errors).toEqual(["duplicate-queue", "queue-name"]);
+  });
+
+  it("reports unrecognized resource values", async () => {
+    const validation = await validateConfiguration(allocations(`  <queue name="a">\n    <maxResources>lots</maxResources>\n  </queue>`));
+
+    expect(validation.errors).toMatchObject([{ ruleId: "resource-format", queuePath: "root.a", location: { line: 4 } }]);
+  });
+
+  it("reports a min share above the max share", async () => {
+    const validation = await validateConfiguration(allocations(`
+  <queue name="a">
+    <minResources>8192 mb, 1 vcores</minResources>
+    <maxResources>4096 mb, 4 vcores</maxResources>
+  </queue>`));
+
+    expect(validation.errors).toHaveLength(1);
+    expect(validation.errors[0]).toMatchObject({ ruleId: "min-exceeds-max", queuePath: "root.a" });
+    expect(validation.errors[0].message).toContain("memory");
+  });
+
+  it("reports a child's min share above its parent's max share", async () => {
+    const { errors } = await ruleIds(allocations(`
+  <queue name="p">
+    <maxResources>2048 mb, 4 vcores</maxResources>
+    <queue name="c">
+      <minResources>4096 mb, 1 vcores</minResources>
+    </queue>
+  </queue>`));
+
+    expect(errors).toContain("child-min-exceeds-parent-max");
+  });
+
+  it("reports children whose min shares add up to more than the parent's", async () => {
+    const overMax = await ruleIds(allocations(`
+  <queue name="p">
+    <maxResources>4096 mb, 8 vcores</maxResources>
+    <queue name="a"><minResources>3072 mb, 1 vcores</minResources></queue>
+    <queue name="b"><minResources>3072 mb, 1 vcores</minResources></queue>
+  </queue>`));
+    const overMin = await ruleIds(allocations(`
+  <queue name="p">
+    <minResources>4096 mb, 8 vcores</minResources>
+    <queue name="a"><minResources>3072 mb, 1 vcores</minResources></queue>
+    <queue name="b"><minResources>3072 mb, 1 vcores</minResources></queue>
+  </queue>`));
+
+    expect(overMax).toEqual({ errors: ["children-min-exceed-parent-max"], warnings: [] });
+    expect(overMin).toEqual({ errors: [], warnings: ["children-min-exceed-parent-min"] });
+  });
+
+  it("requires maxAMShare between 0 and 1 or -1", async () => {
+    const { errors } = await ruleIds(allocations(`
+  <queueMaxAMShareDefault>2</queueMaxAMShareDefault>
+  <queue name="a"><maxAMShare>1.5</maxAMShare></queue>
+  <queue name="b"><maxAMShare>0.5</maxAMShare></queue>`));
+
+    expect(errors).toEqual(["max-am-share-range", "max-am-share-range"]);
+  });
+
+  it("only allows fifo on leaf queues", async () => {
+    const { errors } = await ruleIds(allocations(`
+  <queue name="p">
+    <schedulingPolicy>fifo</schedulingPolicy>
+    <queue name="c"/>
+  </queue>`));
+
+    expect(errors).toEqual(["fifo-parent"]);
+  });
+
+  it("checks child policies against the parent's, including the default policy", async () => {
+    const drfUnderFair = await ruleIds(allocations(`
+  <queue name="p">
+    <queue name="c"><schedulingPolicy>drf</schedulingPolicy></queue>
+  </queue>`));
+    const fifoUnderDrf = await ruleIds(allocations(`
+  <defaultQueueSchedulingPolicy>drf</defaultQueueSchedulingPolicy>
+  <queue name="p">
+    <queue name="c"><schedulingPolicy>fifo</schedulingPolicy></queue>
+  </queue>`));
+
+    expect(drfUnderFair.errors).toEqual(["fair-parent-drf-child"]);
+    expect(fifoUnderDrf).toEqual({ errors: [], warnings: ["drf-parent-fifo-child"] });
+  });
+
+  it("checks the queue of default placement rules", async () => {
+    const queues = `
+  <queue name="eng"><queue name="etl"/></queue>
+  <queue name="adhoc"/>`;
+    const placement = (rules: string) => ruleIds(allocations(`${queues}\n  <queuePlacementPolicy>${rules}</queuePlacementPolicy>`));
+
+    expect(await placement(`<rule name="default"/>`)).toEqual({ errors: [], warnings: [] });
+    expect(await placement(`<rule name="default" queue="adhoc"/>`)).toEqual({ errors: [], warnings: [] });
+    expect((await placement(`<rule name="default" queue="eng"/>`)).errors).toEqual(["placement-default-queue"]);
+    expect(await placement(`<rule name="default" queue="missing"/>`)).toEqual({ errors: [], warnings: ["placement-default-queue"] });
+    expect((await placement(`<rule name="default" queue="missing" create="false"/>`)).errors).toEqual(["placement-default-queue"]);
+    expect(await placement(`<rule name="nestedUserQueue"><rule name="default" queue="eng"/></rule>`)).toEqual({ errors: [], warnings: [] });
+    expect((await placement(`<rule name="nestedUserQueue"><rule name="default" queue="adhoc"/></rule>`)).errors).toEqual(["placement-default-queue"]);
+  });
+});
+
+describe("assertValidConfiguration", () => {
+  it("throws the validation of files with errors", async () => {
+    const content = allocations(`  <queue name="a"><maxAMShare>2</maxAMShare></queue>`);
+
+    const error = await assertValidConfiguration(content).catch(error => error);
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect((error as ConfigValidationError).validation.errors[0].ruleId).toBe("max-am-share-range");
+    await expect(assertValidConfiguration(allocations(`  <queue name="a"/>`))).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,428 @@
+import { parseString } from "xml2js";
+import { DOMParser, type Element } from "@xmldom/xmldom";
+import type { ConfigValidation, GlobalConfig, ValidationIssue } from "@shared/schema";
+import { parseResourceValue, type ResourceValue } from "@shared/resources";
+import { DEFAULT_PLACEMENT_RULES, type PlacementRule, type NestedPlacementRule } from "@shared/placement";
+import { parseGlobalConfigFromXML } from "./xml-utils";
+
+/**
+ * Semantic checks of an allocation file, beyond it being well-formed XML.
+ * Each rule reports errors (the Fair Scheduler rejects the file or behaves
+ * differently than configured) or warnings (legal but likely unintended),
+ * with the queue and the line they concern.
+ */
+
+// A queue as declared in the file
+interface QueueNode {
+  path: string;
+  element: Element | null;
+  parent: QueueNode | null;
+  children: QueueNode[];
+}
+
+interface ValidationContext {
+  queues: Map<string, QueueNode>;
+  globalConfig: GlobalConfig;
+  allocations: Element;
+  report: (issue: Omit<ValidationIssue, "location"> & { element?: Element | null }) => void;
+}
+
+interface ValidationRule {
+  id: string;
+  check: (context: ValidationContext) => void;
+}
+
+export class ConfigValidationError extends Error {
+  constructor(public validation: ConfigValidation) {
+    super(`The configuration has ${validation.errors.length} validation error(s)`);
+  }
+}
+
+function childElements(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.children).filter(child => child.tagName === tagName);
+}
+
+function childText(element: Element | null, tagName: string): { text: string; element: Element } | null {
+  const child = element ? childElements(element, tagName)[0] : undefined;
+  return child ? { text: (child.textContent ?? "").trim(), element: child } : null;
+}
+
+function locationOf(element: Element | null | undefined): ValidationIssue["location"] {
+  const node = element as (Element & { lineNumber?: number; columnNumber?: number }) | null | undefined;
+  return node?.lineNumber ? { line: node.lineNumber, column: node.columnNumber ?? 1 } : null;
+}
+
+// The queue tree declared in the file. Without an explicit <queue name="root">
+// the top-level queues are children of an implicit root.
+function buildQueueTree(allocations: Element, report: ValidationContext["report"]): Map<string, QueueNode> {
+  const queues = new Map<string, QueueNode>();
+  const root: QueueNode = { path: "root", element: null, parent: null, children: [] };
+  queues.set("root", root);
+
+  const visit = (element: Element, parent: QueueNode | null) => {
+    const name = element.getAttribute("name");
+    if (!name) {
+      report({ ruleId: "queue-name", severity: "error", message: "Queue element without a name attribute", queuePath: parent?.path ?? null, element });
+      return;
+    }
+    const path = parent ? `${parent.path}.${name}` : name;
+    if (path === "root" && !parent) {
+      root.element = element;
+      childElements(element, "queue").forEach(child => visit(child, root));
+      return;
+    }
+    if (queues.has(path)) {
+      report({ ruleId: "duplicate-queue", severity: "error", message: `Queue ${path} is declared more than once`, queuePath: path, element });
+      return;
+    }
+    const node: QueueNode = { path, element, parent, children: [] };
+    queues.set(path, node);
+    parent?.children.push(node);
+    childElements(element, "queue").forEach(child => visit(child, node));
+  };
+  childElements(allocations, "queue").forEach(element => {
+    visit(element, element.getAttribute("name") === "root" ? null : root);
+  });
+  return queues;
+}
+
+function schedulingPolicy(queue: QueueNode, globalConfig: GlobalConfig): string {
+  return childText(queue.element, "schedulingPolicy")?.text.toLowerCase() || globalConfig.defaultQueueSchedulingPolicy || "fair";
+}
+
+// Resource amounts by resource name. Percentages and absolute values cannot
+// be compared with each other.
+interface ResourceAmounts {
+  percent: boolean;
+  amounts: Record<string, number>;
+}
+
+function resourceAmounts(value: ResourceValue): ResourceAmounts {
+  switch (value.kind) {
+    case "absolute": {
+      const amounts: Record<string, number> = {};
+      if (value.memoryMb !== undefined) amounts["memory-mb"] = value.memoryMb;
+      if (value.vcores !== undefined) amounts.vcores = value.vcores;
+      return { percent: false, amounts };
+    }
+    case "percentage":
+      return { percent: true, amounts: { "memory-mb": value.percent, vcores: value.percent } };
+    case "resourcePercentages":
+      return { percent: true, amounts: { "memory-mb": value.memoryPercent, vcores: value.cpuPercent } };
+    case "keyValue":
+      return { percent: value.percent, amounts: { ...value.resources } };
+  }
+}
+
+// Resources of `queue` set by minResources or maxResources; values that
+// cannot be parsed are reported by the resource-format rule
+function queueResources(queue: QueueNode, tagName: "minResources" | "maxResources"): ResourceAmounts | null {
+  const setting = childText(queue.element, tagName);
+  if (!setting) return null;
+  const value = parseResourceValue(setting.text);
+  return value ? resourceAmounts(value) : null;
+}
+
+// Resources where `a` is larger than `b`, when both use the same unit
+function exceeding(a: ResourceAmounts, b: ResourceAmounts): string[] {
+  if (a.percent !== b.percent) return [];
+  return Object.keys(a.amounts).filter(resource => resource in b.amounts && a.amounts[resource] > b.amounts[resource]);
+}
+
+function describe(resources: string[]): string {
+  return resources.join(" and ");
+}
+
+function qualify(queue: string): string {
+  return queue === "root" || queue.startsWith("root.") ? queue : `root.${queue}`;
+}
+
+const RULES: ValidationRule[] = [
+  {
+    id: "resource-format",
+    check: ({ queues, report }) => {
+      queues.forEach(queue => {
+        (["minResources", "maxResources"] as const).forEach(tagName => {
+          const setting = childText(queue.element, tagName);
+          if (setting && !parseResourceValue(setting.text)) {
+            report({
+              ruleId: "resource-format",
+              severity: "error",
+              message: `${tagName} of ${queue.path} is not a recognized resource value: "${setting.text}"`,
+              queuePath: queue.path,
+              element: setting.element,
+            });
+          }
+        });
+      });
+    },
+  },
+  {
+    id: "min-exceeds-max",
+    check: ({ queues, report }) => {
+      queues.forEach(queue => {
+        const min = queueResources(queue, "minResources");
+        const max = queueResources(queue, "maxResources");
+        const over = min && max ? exceeding(min, max) : [];
+        if (over.length > 0) {
+          report({
+            ruleId: "min-exceeds-max",
+            severity: "error",
+            message: `minResources of ${queue.path} exceed its maxResources for ${describe(over)}`,
+            queuePath: queue.path,
+            element: childText(queue.element, "minResources")?.element,
+          });
+        }
+      });
+    },
+  },
+  {
+    id: "child-min-exceeds-parent-max",
+    check: ({ queues, report }) => {
+      queues.forEach(queue => {
+        if (!queue.parent) return;
+        const min = queueResources(queue, "minResources");
+        const parentMax = queueResources(queue.parent, "maxResources");
+        const over = min && parentMax ? exceeding(min, parentMax) : [];
+        if (over.length > 0) {
+          report({
+            ruleId: "child-min-exceeds-parent-max",
+            severity: "error",
+            message: `minResources of ${queue.path} exceed the maxResources of its parent ${queue.parent.path} for ${describe(over)}`,
+            queuePath: queue.path,
+            element: childText(queue.element, "minResources")?.element,
+          });
+        }
+      });
+    },
+  },
+  {
+    // The children's guaranteed shares cannot all be met within the parent
+    id: "children-min-exceed-parent",
+    check: ({ queues, report }) => {
+      queues.forEach(queue => {
+        const childMins = queue.children
+          .map(child => queueResources(child, "minResources"))
+          .filter((min): min is ResourceAmounts => min !== null);
+        if (childMins.length < 2) return;
+
+        const total = (percent: boolean): ResourceAmounts => {
+          const amounts: Record<string, number> = {};
+          childMins.filter(min => min.percent === percent).forEach(min => {
+            Object.entries(min.amounts).forEach(([resource, amount]) => {
+              amounts[resource] = (amounts[resource] ?? 0) + amount;
+            });
+          });
+          return { percent, amounts };
+        };
+
+        const max = queueResources(queue, "maxResources");
+        const min = queueResources(queue, "minResources");
+        const overMax = max ? exceeding(total(max.percent), max) : [];
+        if (overMax.length > 0) {
+          report({
+            ruleId: "children-min-exceed-parent-max",
+            severity: "error",
+            message: `The minResources of the children of ${queue.path} add up to more than its maxResources for ${describe(overMax)}`,
+            queuePath: queue.path,
+            element: childText(queue.element, "maxResources")?.element ?? queue.element,
+          });
+          return;
+        }
+        const overMin = min ? exceeding(total(min.percent), min) : [];
+        if (overMin.length > 0) {
+          report({
+            ruleId: "children-min-exceed-parent-min",
+            severity: "warning",
+            message: `The minResources of the children of ${queue.path} add up to more than its own minResources for ${describe(overMin)}`,
+            queuePath: queue.path,
+            element: childText(queue.element, "minResources")?.element ?? queue.element,
+          });
+        }
+      });
+    },
+  },
+  {
+    // A fraction of the queue's fair share, or -1 to disable the check
+    id: "max-am-share-range",
+    check: ({ queues, allocations, report }) => {
+      const inRange = (text: string) => {
+        const value = Number(text);
+        return text !== "" && !Number.isNaN(value) && (value === -1 || (value >= 0 && value <= 1));
+      };
+      queues.forEach(queue => {
+        const setting = childText(queue.element, "maxAMShare");
+        if (setting && !inRange(setting.text)) {
+          report({
+            ruleId: "max-am-share-range",
+            severity: "error",
+            message: `maxAMShare of ${queue.path} must be between 0 and 1, or -1 to disable it (found "${setting.text}")`,
+            queuePath: queue.path,
+            element: setting.element,
+          });
+        }
+      });
+      const global = childText(allocations, "queueMaxAMShareDefault");
+      if (global && !inRange(global.text)) {
+        report({
+          ruleId: "max-am-share-range",
+          severity: "error",
+          message: `queueMaxAMShareDefault must be between 0 and 1, or -1 to disable it (found "${global.text}")`,
+          queuePath: null,
+          element: global.element,
+        });
+      }
+    },
+  },
+  {
+    // FIFO orders applications, so it only applies to leaf queues
+    id: "fifo-parent",
+    check: ({ queues, globalConfig, report }) => {
+      queues.forEach(queue => {
+        if (queue.children.length > 0 && schedulingPolicy(queue, globalConfig) === "fifo") {
+          report({
+            ruleId: "fifo-parent",
+            severity: "error",
+            message: `${queue.path} has child queues, but the fifo policy can only be used on leaf queues`,
+            queuePath: queue.path,
+            element: childText(queue.element, "schedulingPolicy")?.element ?? queue.element,
+          });
+        }
+      });
+    },
+  },
+  {
+    // A fair parent cannot have drf children; drf parents accept any child
+    // policy, but fifo children then ignore CPU when ordering their apps
+    id: "child-scheduling-policy",
+    check: ({ queues, globalConfig, report }) => {
+      queues.forEach(queue => {
+        if (!queue.parent) return;
+        const parentPolicy = schedulingPolicy(queue.parent, globalConfig);
+        const policy = schedulingPolicy(queue, globalConfig);
+        const element = childText(queue.element, "schedulingPolicy")?.element ?? queue.element;
+        if (parentPolicy === "fair" && policy === "drf") {
+          report({
+            ruleId: "fair-parent-drf-child",
+            severity: "error",
+            message: `${queue.path} uses drf, which is not allowed under ${queue.parent.path} using fair`,
+            queuePath: queue.path,
+            element,
+          });
+        } else if (parentPolicy === "drf" && policy === "fifo") {
+          report({
+            ruleId: "drf-parent-fifo-child",
+            severity: "warning",
+            message: `${queue.path} uses fifo under ${queue.parent.path} using drf; its applications are ordered by submission time only, not by dominant resource`,
+            queuePath: queue.path,
+            element,
+          });
+        }
+      });
+    },
+  },
+  {
+    // Queues targeted by default rules must be usable: a leaf queue for a
+    // top-level rule, a parent queue for the nested rule of nestedUserQueue
+    id: "placement-default-queue",
+    check: ({ queues, globalConfig, allocations, report }) => {
+      const policy = childElements(allocations, "queuePlacementPolicy")[0] ?? null;
+      const rules: PlacementRule[] = globalConfig.queuePlacementRules || DEFAULT_PLACEMENT_RULES;
+      const checkRule = (rule: PlacementRule | NestedPlacementRule, nested: boolean) => {
+        if (rule.name !== "default") return;
+        const target = qualify(rule.queue || globalConfig.defaultQueue || "default");
+        const queue = queues.get(target);
+        // The Fair Scheduler always creates root.default
+        if (!queue && target === "root.default") return;
+        if (!queue) {
+          report({
+            ruleId: "placement-default-queue",
+            severity: rule.create === false ? "error" : "warning",
+            message: rule.create === false
+              ? `The default placement rule targets ${target}, which does not exist and may not be created; applications reaching it are rejected`
+              : `The default placement rule targets ${target}, which does not exist and is created when first used`,
+            queuePath: target,
+            element: policy,
+          });
+        } else if (!nested && queue.children.length > 0) {
+          report({
+            ruleId: "placement-default-queue",
+            severity: "error",
+            message: `The default placement rule targets ${target}, which is a parent queue; applications can only run in leaf queues`,
+            queuePath: target,
+            element: policy,
+          });
+        } else if (nested && queue.children.length === 0 && queue.path !== "root") {
+          report({
+            ruleId: "placement-default-queue",
+            severity: "error",
+            message: `The nestedUserQueue rule places user queues under ${target}, which is a leaf queue`,
+            queuePath: target,
+            element: policy,
+          });
+        }
+      };
+      rules.forEach(rule => {
+        checkRule(rule, false);
+        if (rule.nestedRule) checkRule(rule.nestedRule, true);
+      });
+    },
+  },
+];
+
+function checkSyntax(content: string): Promise<ValidationIssue | null> {
+  return new Promise(resolve => {
+    parseString(content, { explicitArray: false }, (err: Error | null, result?: { allocations?: unknown }) => {
+      if (err) {
+        // sax reports 0-based positions as "Line: n\nColumn: n"
+        const position = String(err.message).match(/Line: (\d+)\s+Column: (\d+)/);
+        resolve({
+          ruleId: "xml-syntax",
+          severity: "error",
+          message: String(err.message).split("\n")[0],
+          queuePath: null,
+          location: position ? { line: parseInt(position[1]) + 1, column: parseInt(position[2]) + 1 } : null,
+        });
+      } else if (!result?.allocations) {
+        resolve({ ruleId: "allocations-root", severity: "error", message: "Missing root 'allocations' element", queuePath: null, location: null });
+      } else {
+        resolve(null);
+      }
+    });
+  });
+}
+
+function result(issues: ValidationIssue[]): ConfigValidation {
+  const errors = issues.filter(issue => issue.severity === "error");
+  return { isValid: errors.length === 0, errors, warnings: issues.filter(issue => issue.severity === "warning") };
+}
+
+export async function validateConfiguration(content: string): Promise<ConfigValidation> {
+  const syntaxIssue = await checkSyntax(content ?? "");
+  if (syntaxIssue) return result([syntaxIssue]);
+
+  const allocations = new DOMParser().parseFromString(content, "text/xml").documentElement!;
+  const issues: ValidationIssue[] = [];
+  const report: ValidationContext["report"] = ({ element, ...issue }) => {
+    issues.push({ ...issue, location: locationOf(element) });
+  };
+
+  const context: ValidationContext = {
+    queues: buildQueueTree(allocations, report),
+    globalConfig: await parseGlobalConfigFromXML(content),
+    allocations,
+    report,
+  };
+  RULES.forEach(rule => rule.check(context));
+  return result(issues);
+}
+
+/**
+ * Throws ConfigValidationError when `content` has validation errors.
+ */
+export async function assertValidConfiguration(content: string): Promise<void> {
+  const validation = await validateConfiguration(content);
+  if (!validation.isValid) {
+    throw new ConfigValidationError(validation);
+  }
+}
@@ -0,0 +1,127 @@
+import { watchFile, unwatchFile, type Stats } from "fs";
+import * as fs from "fs/promises";
+import type { Cluster, ExternalChangeStatus, SyncedFile } from "@shared/schema";
+import { hashConfigContent } from "./storage-utils";
+import type { IStorage } from "./storage";
+
+/**
+ * Edits made to allocation files outside the configurator, by hand or by
+ * configuration management. The file on disk is compared with the one its
+ * storage last read or wrote; pending changes are only applied to an edited
+ * file after they were merged with it (see config-merge).
+ */
+
+// How often watched files are polled for a new modification time or size
+const WATCH_INTERVAL_MS = 5000;
+
+type DiskFile = {
+  content: string;
+  hash: string;
+  modifiedAt: string;
+  mtimeMs: number;
+  size: number;
+};
+
+// The last read of each file; it is read again once its modification time
+// or size changes
+const diskFiles = new Map<string, DiskFile>();
+
+async function readDiskFile(filePath: string): Promise<DiskFile> {
+  const stats = await fs.stat(filePath);
+  const cached = diskFiles.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    return cached;
+  }
+  const content = await fs.readFile(filePath, "utf-8");
+  const file = {
+    content,
+    hash: hashConfigContent(content),
+    modifiedAt: stats.mtime.toISOString(),
+    mtimeMs: stats.mtimeMs,
+    size: stats.size,
+  };
+  diskFiles.set(filePath, file);
+  return file;
+}
+
+export type ConfigFileInspection = {
+  status: ExternalChangeStatus;
+  synced: SyncedFile | undefined;
+  // Content of the file on disk; null when it is missing
+  diskContent: string | null;
+};
+
+/**
+ * Compares the cluster's allocation file on disk with the one last synced.
+ * Without a synced file there is nothing to compare with and the file on
+ * disk counts as in sync.
+ */
+export async function inspectConfigFile(cluster: Cluster, storage: IStorage): Promise<ConfigFileInspection> {
+  const synced = await storage.getSyncedFile();
+  const status: ExternalChangeStatus = {
+    status: "in-sync",
+    filePath: cluster.configPath,
+    syncedHash: synced?.hash ?? null,
+    syncedAt: synced?.syncedAt ?? null,
+    diskHash: null,
+    diskModifiedAt: null,
+    checkedAt: new Date().toISOString(),
+    error: null,
+  };
+
+  let disk: DiskFile;
+  try {
+    disk = await readDiskFile(cluster.configPath);
+  } catch (error) {
+    diskFiles.delete(cluster.configPath);
+    return {
+      status: { ...status, status: "missing", error: error instanceof Error ? error.message : String(error) },
+      synced,
+      diskContent: null,
+    };
+  }
+
+  const changed = synced !== undefined && disk.hash !== synced.hash;
+  return {
+    status: { ...status, status: changed ? "changed" : "in-sync", diskHash: disk.hash, diskModifiedAt: disk.modifiedAt },
+    synced,
+    diskContent: disk.content,
+  };
+}
+
+export async function checkExternalChanges(cluster: Cluster, storage: IStorage): Promise<ExternalChangeStatus> {
+  return (await inspectConfigFile(cluster, storage)).status;
+}
+
+const watchers = new Map<number, { filePath: string; listener: (current: Stats, previous: Stats) => void }>();
+
+/**
+ * Polls the cluster's allocation file and logs edits made to it outside the
+ * configurator. The configurator's own writes are polled too; they leave the
+ * file in sync.
+ */
+export function watchConfigFile(cluster: Cluster, storage: IStorage): void {
+  unwatchConfigFile(cluster.id);
+
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) return;
+    checkExternalChanges(cluster, storage)
+      .then(({ status, error }) => {
+        if (status === "changed") {
+          console.warn(`Allocation file of ${cluster.name} was changed outside the configurator: ${cluster.configPath}`);
+        } else if (status === "missing") {
+          console.warn(`Allocation file of ${cluster.name} cannot be read: ${error}`);
+        }
+      })
+      .catch(error => console.error(`Failed to check ${cluster.configPath} for external changes:`, error));
+  };
+  watchFile(cluster.configPath, { interval: WATCH_INTERVAL_MS, persistent: false }, listener);
+  watchers.set(cluster.id, { filePath: cluster.configPath, listener });
+}
+
+export function unwatchConfigFile(clusterId: number): void {
+  const watcher = watchers.get(clusterId);
+  if (!watcher) return;
+  unwatchFile(watcher.filePath, watcher.listener);
+  watchers.delete(clusterId);
+}
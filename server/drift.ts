@@ -0,0 +1,222 @@
+import type { Queue, GlobalConfig, ClusterResources, DriftDifference, DriftReport, QueueDrift } from "@shared/schema";
+import type { PlacementRule } from "@shared/placement";
+import { resolveResources } from "./fair-share";
+import { YarnResourceManagerClient } from "./yarn-client";
+import type { IStorage } from "./storage";
+
+/**
+ * Drift between the applied configuration and the queues the ResourceManager
+ * runs with, as its scheduler REST API reports them. After an allocation file
+ * is written the Fair Scheduler reloads it within seconds; drift that stays
+ * means it rejected the file, reads another one, or was changed by hand.
+ */
+
+// A queue as the ResourceManager reports it; null where it reports nothing
+export type LiveQueue = {
+  path: string;
+  weight: number | null;
+  schedulingPolicy: string | null;
+  minResources: ClusterResources | null;
+  maxResources: ClusterResources | null;
+  maxApps: number | null;
+  clusterResources: ClusterResources | null;
+};
+
+const DRIFT_FIELDS: DriftDifference["field"][] = ["weight", "schedulingPolicy", "minResources", "maxResources", "maxRunningApps"];
+
+// Integer.MAX_VALUE, the maxApps of queues without a limit
+const UNLIMITED_APPS = 2147483647;
+
+// Percentages resolve to whole MB and vcores; rounding may differ by one
+const RESOURCE_TOLERANCE = 1;
+
+function optionalNumber(value: unknown): number | null {
+  const number = typeof value === "string" ? parseFloat(value) : value;
+  return typeof number === "number" && Number.isFinite(number) ? number : null;
+}
+
+function toResources(info: any): ClusterResources | null {
+  const memoryMb = optionalNumber(info?.memory);
+  const vcores = optionalNumber(info?.vCores);
+  return memoryMb === null || vcores === null ? null : { memoryMb, vcores };
+}
+
+/**
+ * The queues of a fairScheduler schedulerInfo, root first. ResourceManagers
+ * nest them under rootQueue and childQueues; the mock ResourceManager lists
+ * them under queues.
+ */
+export function parseLiveQueues(schedulerInfo: any): LiveQueue[] {
+  if (schedulerInfo?.type && schedulerInfo.type !== "fairScheduler") {
+    throw new Error(`The ResourceManager runs the ${schedulerInfo.type}, not the Fair Scheduler`);
+  }
+
+  const queues: LiveQueue[] = [];
+  const visit = (info: any, parentPath: string | null) => {
+    const name: string | undefined = info.queueName ?? info.name;
+    if (!name) return;
+    const path = parentPath === null || name.startsWith(`${parentPath}.`) ? name : `${parentPath}.${name}`;
+    queues.push({
+      path,
+      weight: optionalNumber(info.weight),
+      schedulingPolicy: typeof info.schedulingPolicy === "string" ? info.schedulingPolicy.toLowerCase() : null,
+      minResources: toResources(info.minResources),
+      maxResources: toResources(info.maxResources),
+      maxApps: optionalNumber(info.maxApps),
+      clusterResources: toResources(info.clusterResources),
+    });
+    const children = info.childQueues?.queue ?? info.queues?.queue ?? [];
+    for (const child of Array.isArray(children) ? children : [children]) {
+      if (child) visit(child, path);
+    }
+  };
+
+  const root = schedulerInfo?.rootQueue ?? schedulerInfo;
+  if (root) visit(root, null);
+  return queues;
+}
+
+// Whether applications can end up in queues the configuration does not
+// list. Rules create their queue unless create="false".
+export function placementCreatesQueues(rules: PlacementRule[]): boolean {
+  return rules.some(rule =>
+    rule.name !== "reject" && ((rule.create ?? true) || (rule.nestedRule !== undefined && (rule.nestedRule.create ?? true))));
+}
+
+function resourcesDiffer(expected: ClusterResources, actual: ClusterResources): boolean {
+  return Math.abs(expected.memoryMb - actual.memoryMb) > RESOURCE_TOLERANCE
+    || Math.abs(expected.vcores - actual.vcores) > RESOURCE_TOLERANCE;
+}
+
+/**
+ * Compares the applied queues with the live ones. Only settings the
+ * ResourceManager reports are compared, with unset settings taking the
+ * values it reports for them: the global defaults, no minimum, the whole
+ * cluster as maximum (it caps larger maximums at the cluster) and
+ * unlimited applications.
+ */
+export function compareQueues(
+  applied: Queue[],
+  globalConfig: GlobalConfig,
+  live: LiveQueue[],
+  cluster: ClusterResources | null,
+): { queues: QueueDrift[]; notReported: DriftDifference["field"][] } {
+  const liveByPath = new Map(live.map(queue => [queue.path, queue]));
+  const appliedPaths = new Set(applied.map(queue => queue.path));
+
+  const drift: QueueDrift[] = [];
+  for (const queue of applied) {
+    const liveQueue = liveByPath.get(queue.path);
+    if (!liveQueue) {
+      drift.push({ path: queue.path, kind: "missing", differences: [] });
+      continue;
+    }
+
+    const differences: DriftDifference[] = [];
+    if (liveQueue.weight !== null) {
+      const expected = queue.weight ?? 1;
+      if (Math.abs(expected - liveQueue.weight) > 1e-6) {
+        differences.push({ field: "weight", expected, actual: liveQueue.weight });
+      }
+    }
+    if (liveQueue.schedulingPolicy !== null) {
+      const expected = (queue.schedulingPolicy ?? globalConfig.defaultQueueSchedulingPolicy ?? "fair").toLowerCase();
+      if (expected !== liveQueue.schedulingPolicy) {
+        differences.push({ field: "schedulingPolicy", expected, actual: liveQueue.schedulingPolicy });
+      }
+    }
+    if (liveQueue.maxApps !== null) {
+      const expected = queue.maxRunningApps ?? globalConfig.queueMaxAppsDefault ?? null;
+      const actual = liveQueue.maxApps >= UNLIMITED_APPS ? null : liveQueue.maxApps;
+      if (expected !== actual) {
+        differences.push({ field: "maxRunningApps", expected, actual });
+      }
+    }
+    const queueCluster = liveQueue.clusterResources ?? cluster;
+    if (queueCluster && liveQueue.minResources) {
+      const expected = resolveResources(queue.minResources, queueCluster, 0);
+      if (resourcesDiffer(expected, liveQueue.minResources)) {
+        differences.push({ field: "minResources", expected, actual: liveQueue.minResources });
+      }
+    }
+    if (queueCluster && liveQueue.maxResources) {
+      const configured = resolveResources(queue.maxResources, queueCluster, Infinity);
+      const expected = {
+        memoryMb: Math.min(configured.memoryMb, queueCluster.memoryMb),
+        vcores: Math.min(configured.vcores, queueCluster.vcores),
+      };
+      if (resourcesDiffer(expected, liveQueue.maxResources)) {
+        differences.push({ field: "maxResources", expected, actual: liveQueue.maxResources });
+      }
+    }
+    if (differences.length > 0) {
+      drift.push({ path: queue.path, kind: "changed", differences });
+    }
+  }
+
+  for (const liveQueue of live) {
+    if (!appliedPaths.has(liveQueue.path)) {
+      drift.push({ path: liveQueue.path, kind: "unconfigured", differences: [] });
+    }
+  }
+
+  const reported: Record<DriftDifference["field"], boolean> = {
+    weight: live.some(queue => queue.weight !== null),
+    schedulingPolicy: live.some(queue => queue.schedulingPolicy !== null),
+    minResources: live.some(queue => queue.minResources !== null),
+    maxResources: live.some(queue => queue.maxResources !== null),
+    maxRunningApps: live.some(queue => queue.maxApps !== null),
+  };
+  return {
+    queues: drift,
+    notReported: DRIFT_FIELDS.filter(field => !reported[field]),
+  };
+}
+
+/**
+ * Checks the cluster's applied configuration against its ResourceManager.
+ * Queues missing on either side or with other settings are drift, except
+ * queues only the ResourceManager has where placement rules create queues.
+ */
+export async function checkDrift(storage: IStorage): Promise<DriftReport> {
+  const [connection, applied, globalConfig, [revision]] = await Promise.all([
+    storage.getYarnConnection(),
+    storage.getSyncedQueues(),
+    storage.getSyncedGlobalConfig(),
+    storage.getConfigRevisions(),
+  ]);
+  const createsQueues = placementCreatesQueues(globalConfig.queuePlacementRules ?? []);
+  const report = (status: DriftReport["status"], details: Partial<DriftReport> = {}): DriftReport => ({
+    status,
+    checkedAt: new Date().toISOString(),
+    revisionId: revision?.id ?? null,
+    queues: [],
+    placementCreatesQueues: createsQueues,
+    notReported: [],
+    error: null,
+    ...details,
+  });
+
+  if (!connection.enabled) {
+    return report("disabled");
+  }
+
+  const client = new YarnResourceManagerClient(connection);
+  let live: LiveQueue[];
+  let cluster: ClusterResources | null = null;
+  try {
+    live = parseLiveQueues(await client.getSchedulerInfo());
+    // Resources are compared against the cluster size the queues report,
+    // else the cluster metrics
+    if (!live.some(queue => queue.clusterResources)) {
+      const metrics = await client.getClusterMetrics();
+      cluster = { memoryMb: metrics.totalMB, vcores: metrics.totalVirtualCores };
+    }
+  } catch (error) {
+    return report("unavailable", { error: error instanceof Error ? error.message : String(error) });
+  }
+
+  const { queues, notReported } = compareQueues(applied, globalConfig, live, cluster);
+  const drifted = queues.some(queue => queue.kind !== "unconfigured" || !createsQueues);
+  return report(drifted ? "drifted" : "in-sync", { queues, notReported });
+}
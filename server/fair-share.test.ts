@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { ClusterResources, Queue } from "@shared/schema";
+import { calculateAllocations, calculateFairShares, resolveResources } from "./fair-share";
+import { toQueueValues } from "./storage-utils";
+
+const cluster: ClusterResources = { memoryMb: 10000, vcores: 10 };
+
+function queue(path: string, settings: Partial<Queue> = {}): Queue {
+  const segments = path.split(".");
+  const parent = segments.length > 1 ? segments.slice(0, -1).join(".") : null;
+  return { ...toQueueValues({ name: segments[segments.length - 1], path, parent }), id: 0, ...settings } as Queue;
+}
+
+function sharesByPath(queues: Queue[], defaultPolicy = "fair", activeLeaves: string[] | null = null) {
+  return new Map(calculateFairShares(queues, defaultPolicy, cluster, activeLeaves).map(share => [share.path, share]));
+}
+
+describe("calculateFairShares", () => {
+  it("divides memory among siblings by weight", () => {
+    const shares = sharesByPath([queue("root"), queue("root.a", { weight: 3 }), queue("root.b", { weight: 1 })]);
+
+    expect(shares.get("root")!.steadyFairShare).toEqual({ memoryMb: 10000, vcores: 10 });
+    expect(shares.get("root.a")!.steadyFairShare).toEqual({ memoryMb: 7500, vcores: null });
+    expect(shares.get("root.b")!.steadyFairShare).toEqual({ memoryMb: 2500, vcores: null });
+  });
+
+  it("raises a queue to its min share and gives the rest to its siblings", () => {
+    const shares = sharesByPath([
+      queue("root"),
+      queue("root.a", { minResources: { kind: "absolute", memoryMb: 6000, vcores: 1 } }),
+      queue("root.b"),
+    ]);
+
+    expect(shares.get("root.a")!.steadyFairShare.memoryMb).toBe(6000);
+    expect(shares.get("root.b")!.steadyFairShare.memoryMb).toBe(4000);
+  });
+
+  it("caps a queue at its max share and gives the rest to its siblings", () => {
+    const shares = sharesByPath([
+      queue("root"),
+      queue("root.a", { maxResources: { kind: "percentage", percent: 20 } }),
+      queue("root.b"),
+    ]);
+
+    expect(shares.get("root.a")!.steadyFairShare.memoryMb).toBe(2000);
+    expect(shares.get("root.b")!.steadyFairShare.memoryMb).toBe(8000);
+    expect(shares.get("root.a")!.maxShare).toEqual({ memoryMb: 2000, vcores: 2 });
+  });
+
+  it("divides a parent's share among its children", () => {
+    const shares = sharesByPath([
+      queue("root"),
+      queue("root.p"),
+      queue("root.p.x", { weight: 1 }),
+      queue("root.p.y", { weight: 4 }),
+      queue("root.q"),
+    ]);
+
+    expect(shares.get("root.p")!.steadyFairShare.memoryMb).toBe(5000);
+    expect(shares.get("root.p.x")!.steadyFairShare.memoryMb).toBe(1000);
+    expect(shares.get("root.p.y")!.steadyFairShare.memoryMb).toBe(4000);
+  });
+
+  it("divides vcores too under drf", () => {
+    const shares = sharesByPath([queue("root"), queue("root.a"), queue("root.b")], "drf");
+
+    expect(shares.get("root.a")!.steadyFairShare).toEqual({ memoryMb: 5000, vcores: 5 });
+  });
+
+  it("gives fifo children no share", () => {
+    const shares = sharesByPath([queue("root", { schedulingPolicy: "fifo" }), queue("root.a")]);
+
+    expect(shares.get("root.a")!.steadyFairShare).toEqual({ memoryMb: null, vcores: null });
+  });
+
+  it("divides instantaneous shares among active queues only", () => {
+    const shares = sharesByPath([queue("root"), queue("root.a"), queue("root.b")], "fair", ["root.a"]);
+
+    expect(shares.get("root.a")!.instantaneousFairShare.memoryMb).toBe(10000);
+    expect(shares.get("root.b")!.instantaneousFairShare.memoryMb).toBe(0);
+    expect(shares.get("root.b")!.steadyFairShare.memoryMb).toBe(5000);
+    expect(shares.get("root.b")!.active).toBe(false);
+  });
+
+  it("ends the search when the shares cannot use up the cluster", () => {
+    const shares = sharesByPath([
+      queue("root"),
+      queue("root.a", { maxResources: { kind: "absolute", memoryMb: 1000, vcores: 1 } }),
+      queue("root.b", { maxResources: { kind: "absolute", memoryMb: 1500, vcores: 1 } }),
+    ]);
+
+    expect(shares.get("root.a")!.steadyFairShare.memoryMb).toBe(1000);
+    expect(shares.get("root.b")!.steadyFairShare.memoryMb).toBe(1500);
+  });
+
+  it("gives a queue with weight 0 its min share only", () => {
+    const shares = sharesByPath([
+      queue("root"),
+      queue("root.a", { weight: 0, minResources: { kind: "absolute", memoryMb: 500, vcores: 1 } }),
+      queue("root.b"),
+    ]);
+
+    expect(shares.get("root.a")!.steadyFairShare.memoryMb).toBe(500);
+    expect(shares.get("root.b")!.steadyFairShare.memoryMb).toBe(9500);
+  });
+});
+
+describe("calculateAllocations", () => {
+  it("gives resources a queue does not ask for to the others", () => {
+    const allocations = calculateAllocations(
+      [queue("root"), queue("root.a"), queue("root.b")],
+      "fair",
+      cluster,
+      new Map([
+        ["root.a", { memoryMb: 2000, vcores: 2 }],
+        ["root.b", { memoryMb: 20000, vcores: 20 }],
+      ]),
+    );
+
+    expect(allocations.get("root.a")!.instantaneousFairShare.memoryMb).toBe(5000);
+    expect(allocations.get("root.a")!.allocation.memoryMb).toBe(2000);
+    expect(allocations.get("root.b")!.allocation.memoryMb).toBe(8000);
+  });
+
+  it("caps a parent's demand at its max share", () => {
+    const allocations = calculateAllocations(
+      [queue("root"), queue("root.p", { maxResources: { kind: "absolute", memoryMb: 3000, vcores: 3 } }), queue("root.p.x")],
+      "fair",
+      cluster,
+      new Map([["root.p.x", { memoryMb: 9000, vcores: 9 }]]),
+    );
+
+    expect(allocations.get("root.p")!.demand).toEqual({ memoryMb: 3000, vcores: 3 });
+    expect(allocations.get("root.p.x")!.allocation.memoryMb).toBe(3000);
+  });
+});
+
+describe("resolveResources", () => {
+  it("resolves percentages of the cluster and falls back for missing resources", () => {
+    expect(resolveResources({ kind: "percentage", percent: 25 }, cluster, 0)).toEqual({ memoryMb: 2500, vcores: 2 });
+    expect(resolveResources({ kind: "absolute", memoryMb: 1024 }, cluster, 7)).toEqual({ memoryMb: 1024, vcores: 7 });
+    expect(resolveResources(null, cluster, Infinity)).toEqual({ memoryMb: Infinity, vcores: Infinity });
+  });
+});
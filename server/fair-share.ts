@@ -0,0 +1,307 @@
+import type { Queue, ClusterResources, ResourceShare, QueueFairShare } from "@shared/schema";
+import type { ResourceValue } from "@shared/resources";
+
+/**
+ * Computes fair shares the way the Fair Scheduler does (ComputeFairShares):
+ * each parent divides its own share among its children by finding the
+ * weight-to-resource ratio R where every child gets weight * R, clamped to
+ * its min and max share, and the children together use the parent's share.
+ *
+ * Steady fair shares divide among all queues; instantaneous fair shares
+ * only among active queues (with running applications). Allocations divide
+ * the same way with every queue also capped by its demand, so resources a
+ * queue does not ask for go to the others.
+ */
+
+type ResourceType = keyof ClusterResources;
+
+type ShareKind = "steady" | "instantaneous" | "allocation";
+
+// Binary search iterations, as in ComputeFairShares
+const COMPUTE_FAIR_SHARES_ITERATIONS = 25;
+
+// Times the upper bound for R is doubled at most, so the search ends even
+// when the shares cannot add up to the resource available
+const MAX_RATIO_DOUBLINGS = 64;
+
+interface ShareNode {
+  path: string;
+  name: string;
+  parent: string | null;
+  weight: number;
+  policy: string;
+  min: ClusterResources;
+  // Infinity when unlimited
+  max: ClusterResources;
+  children: ShareNode[];
+  active: boolean;
+  demand: ClusterResources;
+  steady: ResourceShare;
+  instantaneous: ResourceShare;
+  allocation: ResourceShare;
+}
+
+// Resources each policy divides among child queues. fifo only orders
+// applications and divides nothing.
+const POLICY_RESOURCES: Record<string, ResourceType[]> = {
+  fair: ["memoryMb"],
+  drf: ["memoryMb", "vcores"],
+  fifo: [],
+};
+
+// Resolves a minResources/maxResources value against the cluster. Resources
+// the value does not mention get `fallback`.
+export function resolveResources(value: ResourceValue | null | undefined, cluster: ClusterResources, fallback: number): ClusterResources {
+  if (!value) return { memoryMb: fallback, vcores: fallback };
+  const ofCluster = (percent: number, type: ResourceType) => Math.floor(cluster[type] * percent / 100);
+  switch (value.kind) {
+    case "absolute":
+      return { memoryMb: value.memoryMb ?? fallback, vcores: value.vcores ?? fallback };
+    case "percentage":
+      return { memoryMb: ofCluster(value.percent, "memoryMb"), vcores: ofCluster(value.percent, "vcores") };
+    case "resourcePercentages":
+      return { memoryMb: ofCluster(value.memoryPercent, "memoryMb"), vcores: ofCluster(value.cpuPercent, "vcores") };
+    case "keyValue": {
+      const resolve = (key: string, type: ResourceType) => {
+        const amount = value.resources[key];
+        if (amount === undefined) return fallback;
+        return value.percent ? ofCluster(amount, type) : amount;
+      };
+      return { memoryMb: resolve("memory-mb", "memoryMb"), vcores: resolve("vcores", "vcores") };
+    }
+  }
+}
+
+// Min and max share of a queue; allocations never exceed the demand
+function bounds(node: ShareNode, type: ResourceType, kind: ShareKind): { min: number; max: number } {
+  if (kind !== "allocation") return { min: node.min[type], max: node.max[type] };
+  return { min: Math.min(node.min[type], node.demand[type]), max: Math.min(node.max[type], node.demand[type]) };
+}
+
+function computeShare(node: ShareNode, ratio: number, type: ResourceType, kind: ShareKind): number {
+  const { min, max } = bounds(node, type, kind);
+  let share = node.weight * ratio;
+  share = Math.max(share, min);
+  share = Math.min(share, max);
+  return Math.floor(share);
+}
+
+function resourceUsed(ratio: number, nodes: ShareNode[], type: ResourceType, kind: ShareKind): number {
+  return nodes.reduce((total, node) => total + computeShare(node, ratio, type, kind), 0);
+}
+
+// Share of a queue that does not depend on R: none without a max share or,
+// unless steady, without running applications; the min share when its
+// weight is zero. Null when the queue takes part in the search.
+function fixedShare(node: ShareNode, type: ResourceType, kind: ShareKind): number | null {
+  const { min, max } = bounds(node, type, kind);
+  if (max <= 0) return 0;
+  if (kind !== "steady" && !node.active) return 0;
+  if (node.weight <= 0) return Math.max(min, 0);
+  return null;
+}
+
+// Divides `total` of one resource among `nodes`
+function computeShares(nodes: ShareNode[], total: number, type: ResourceType, kind: ShareKind): Map<ShareNode, number> {
+  const shares = new Map<ShareNode, number>();
+  const flexible: ShareNode[] = [];
+  let taken = 0;
+  for (const node of nodes) {
+    const fixed = fixedShare(node, type, kind);
+    if (fixed === null) {
+      flexible.push(node);
+    } else {
+      shares.set(node, fixed);
+      taken += fixed;
+    }
+  }
+  if (flexible.length === 0) return shares;
+
+  const totalMaxShare = flexible.reduce((sum, node) => sum + bounds(node, type, kind).max, 0);
+  // Shares are whole amounts, so only whole amounts can be used up
+  const available = Math.floor(Math.min(totalMaxShare, Math.max(total - taken, 0)));
+
+  // Upper bound for R: double it until the resource is used up or every
+  // queue is at its max share
+  let rMax = 1.0;
+  for (let i = 0; i < MAX_RATIO_DOUBLINGS && resourceUsed(rMax, flexible, type, kind) < available; i++) {
+    rMax *= 2.0;
+  }
+  let left = 0;
+  let right = rMax;
+  for (let i = 0; i < COMPUTE_FAIR_SHARES_ITERATIONS; i++) {
+    const mid = (left + right) / 2.0;
+    const used = resourceUsed(mid, flexible, type, kind);
+    if (used === available) {
+      right = mid;
+      break;
+    } else if (used < available) {
+      left = mid;
+    } else {
+      right = mid;
+    }
+  }
+  flexible.forEach(node => shares.set(node, computeShare(node, right, type, kind)));
+  return shares;
+}
+
+function divide(parent: ShareNode, kind: ShareKind) {
+  for (const child of parent.children) {
+    child[kind] = { memoryMb: null, vcores: null };
+  }
+  for (const type of POLICY_RESOURCES[parent.policy] ?? POLICY_RESOURCES.fair) {
+    const total = parent[kind][type];
+    if (total === null) continue;
+    computeShares(parent.children, total, type, kind).forEach((share, child) => {
+      child[kind][type] = share;
+    });
+  }
+  parent.children.forEach(child => divide(child, kind));
+}
+
+function markActive(node: ShareNode, activeLeaves: Set<string> | null): boolean {
+  const activeChildren = node.children.map(child => markActive(child, activeLeaves));
+  node.active = node.children.length > 0
+    ? activeChildren.some(Boolean)
+    : activeLeaves === null || activeLeaves.has(node.path);
+  return node.active;
+}
+
+function wholeResources(resources: ClusterResources): ClusterResources {
+  return { memoryMb: Math.floor(resources.memoryMb), vcores: Math.floor(resources.vcores) };
+}
+
+function buildTree(queues: Queue[], defaultPolicy: string, cluster: ClusterResources): ShareNode {
+  const unlimited = Number.POSITIVE_INFINITY;
+  const nodes = new Map<string, ShareNode>();
+  const toNode = (queue: Queue | null, path: string): ShareNode => {
+    // The Fair Scheduler reads resource amounts as whole numbers
+    const min = wholeResources(resolveResources(queue?.minResources, cluster, 0));
+    const max = wholeResources(resolveResources(queue?.maxResources, cluster, unlimited));
+    return {
+      path,
+      name: queue?.name ?? path,
+      parent: queue?.parent ?? null,
+      weight: queue?.weight ?? 1,
+      policy: (queue?.schedulingPolicy || defaultPolicy).toLowerCase(),
+      min,
+      // The Fair Scheduler raises a max share below the min share to it
+      max: { memoryMb: Math.max(max.memoryMb, min.memoryMb), vcores: Math.max(max.vcores, min.vcores) },
+      children: [],
+      active: false,
+      demand: { memoryMb: 0, vcores: 0 },
+      steady: { memoryMb: null, vcores: null },
+      instantaneous: { memoryMb: null, vcores: null },
+      allocation: { memoryMb: null, vcores: null },
+    };
+  };
+
+  queues.forEach(queue => nodes.set(queue.path, toNode(queue, queue.path)));
+  if (!nodes.has("root")) {
+    nodes.set("root", toNode(null, "root"));
+  }
+  queues.forEach(queue => {
+    const parent = queue.parent ? nodes.get(queue.parent) : undefined;
+    if (parent && queue.path !== "root") parent.children.push(nodes.get(queue.path)!);
+  });
+  return nodes.get("root")!;
+}
+
+function toQueueFairShare(node: ShareNode): QueueFairShare {
+  const limit = (amount: number) => (Number.isFinite(amount) ? amount : null);
+  return {
+    path: node.path,
+    name: node.name,
+    parent: node.path === "root" ? null : node.parent,
+    weight: node.weight,
+    schedulingPolicy: node.policy,
+    minShare: node.min,
+    maxShare: { memoryMb: limit(node.max.memoryMb), vcores: limit(node.max.vcores) },
+    active: node.active,
+    steadyFairShare: node.steady,
+    instantaneousFairShare: node.instantaneous,
+  };
+}
+
+/**
+ * Steady and instantaneous fair shares of every queue in the tree, root
+ * first. `activeLeaves` lists the leaf queues with running applications;
+ * null makes every leaf queue active.
+ */
+export function calculateFairShares(
+  queues: Queue[],
+  defaultPolicy: string,
+  cluster: ClusterResources,
+  activeLeaves: string[] | null = null,
+): QueueFairShare[] {
+  const root = buildTree(queues, defaultPolicy || "fair", cluster);
+  markActive(root, activeLeaves && new Set(activeLeaves));
+
+  // The root's share is the whole cluster
+  root.steady = { ...cluster };
+  root.instantaneous = { ...cluster };
+  divide(root, "steady");
+  divide(root, "instantaneous");
+
+  const result: QueueFairShare[] = [];
+  const visit = (node: ShareNode) => {
+    result.push(toQueueFairShare(node));
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return result;
+}
+
+export interface QueueAllocation {
+  minShare: ClusterResources;
+  demand: ClusterResources;
+  instantaneousFairShare: ResourceShare;
+  allocation: ResourceShare;
+}
+
+// Demand of every queue: its leaves' demand, capped at its max share as
+// the Fair Scheduler does
+function aggregateDemand(node: ShareNode, leafDemands: Map<string, ClusterResources>): ClusterResources {
+  const total = node.children.length > 0
+    ? node.children.map(child => aggregateDemand(child, leafDemands)).reduce(
+        (sum, demand) => ({ memoryMb: sum.memoryMb + demand.memoryMb, vcores: sum.vcores + demand.vcores }),
+        { memoryMb: 0, vcores: 0 })
+    : leafDemands.get(node.path) ?? { memoryMb: 0, vcores: 0 };
+  node.demand = wholeResources({ memoryMb: Math.min(total.memoryMb, node.max.memoryMb), vcores: Math.min(total.vcores, node.max.vcores) });
+  return node.demand;
+}
+
+/**
+ * Instantaneous fair shares and allocations of every queue, by path, when
+ * the leaf queues ask for `leafDemands`. Leaf queues with a demand are the
+ * active ones.
+ */
+export function calculateAllocations(
+  queues: Queue[],
+  defaultPolicy: string,
+  cluster: ClusterResources,
+  leafDemands: Map<string, ClusterResources>,
+): Map<string, QueueAllocation> {
+  const root = buildTree(queues, defaultPolicy || "fair", cluster);
+  aggregateDemand(root, leafDemands);
+  const activeLeaves = Array.from(leafDemands)
+    .filter(([, demand]) => demand.memoryMb > 0 || demand.vcores > 0)
+    .map(([path]) => path);
+  markActive(root, new Set(activeLeaves));
+
+  root.instantaneous = { ...cluster };
+  root.allocation = {
+    memoryMb: Math.min(cluster.memoryMb, root.demand.memoryMb),
+    vcores: Math.min(cluster.vcores, root.demand.vcores),
+  };
+  divide(root, "instantaneous");
+  divide(root, "allocation");
+
+  const result = new Map<string, QueueAllocation>();
+  const visit = (node: ShareNode) => {
+    result.set(node.path, { minShare: node.min, demand: node.demand, instantaneousFairShare: node.instantaneous, allocation: node.allocation });
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return result;
+}
@@ -90,20 +90,91 @@ export async function readYarnSiteConfig(configPath: string = '/etc/hadoop/conf/
   }
 }
 
+// Common locations of yarn-site.xml
+const YARN_SITE_PATHS = [
+  '/etc/hadoop/conf/yarn-site.xml',
+  '/opt/hadoop/etc/hadoop/yarn-site.xml',
+  '/usr/local/hadoop/etc/hadoop/yarn-site.xml',
+  './conf/yarn-site.xml',
+  './etc/hadoop/yarn-site.xml'
+];
+
+/**
+ * Parses the <property> name/value pairs of a Hadoop configuration file
+ * (yarn-site.xml, capacity-scheduler.xml). Throws when the content is not a
+ * <configuration> document.
+ */
+export async function parseHadoopProperties(content: string): Promise<Record<string, string>> {
+  const parsed = await parseStringPromise(content);
+  if (!parsed || !('configuration' in parsed)) {
+    throw new Error('Missing <configuration> root element');
+  }
+
+  const properties: Record<string, string> = {};
+  for (const prop of parsed.configuration?.property ?? []) {
+    const name = prop.name?.[0];
+    const value = prop.value?.[0];
+    if (typeof name !== 'string' || !name.trim()) continue;
+    // Values are kept as they are: an ACL of a single space means nobody
+    properties[name.trim()] = typeof value === 'string' ? value : '';
+  }
+  return properties;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Writes properties as a Hadoop configuration file. `comments` go at the
+ * top of the file, one per line.
+ */
+export function formatHadoopConfiguration(properties: { name: string; value: string }[], comments: string[] = []): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  if (comments.length > 0) {
+    lines.push('<!--');
+    // "--" may not appear inside a comment
+    comments.forEach(comment => lines.push(`  ${comment.replace(/--/g, '- -')}`));
+    lines.push('-->');
+  }
+  lines.push('<configuration>');
+  for (const property of properties) {
+    lines.push('  <property>');
+    lines.push(`    <name>${escapeXml(property.name)}</name>`);
+    lines.push(`    <value>${escapeXml(property.value)}</value>`);
+    lines.push('  </property>');
+  }
+  lines.push('</configuration>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Properties of the first yarn-site.xml found in the common locations, or
+ * null when there is none. With `yarnSitePath` only that file is read.
+ */
+export async function findYarnSiteProperties(yarnSitePath?: string | null): Promise<{ path: string; properties: Record<string, string> } | null> {
+  for (const configPath of yarnSitePath ? [yarnSitePath] : YARN_SITE_PATHS) {
+    if (!fs.existsSync(configPath)) continue;
+    try {
+      return { path: path.resolve(configPath), properties: await parseHadoopProperties(fs.readFileSync(configPath, 'utf-8')) };
+    } catch (error) {
+      console.error(`Error reading ${configPath}:`, error);
+    }
+  }
+  return null;
+}
+
 /**
- * Try to auto-configure YARN connection from Hadoop configuration files
+ * Try to auto-configure YARN connection from Hadoop configuration files.
+ * With `yarnSitePath` only that file is read.
  */
-export async function autoConfigureYarn(): Promise<{ host: string; port: number } | null> {
+export async function autoConfigureYarn(yarnSitePath?: string | null): Promise<{ host: string; port: number } | null> {
   // Try common Hadoop configuration locations
-  const configPaths = [
-    '/etc/hadoop/conf/yarn-site.xml',
-    '/opt/hadoop/etc/hadoop/yarn-site.xml',
-    '/usr/local/hadoop/etc/hadoop/yarn-site.xml',
-    './conf/yarn-site.xml',
-    './etc/hadoop/yarn-site.xml'
-  ];
-
-  for (const configPath of configPaths) {
+  for (const configPath of yarnSitePath ? [yarnSitePath] : YARN_SITE_PATHS) {
     const config = await readYarnSiteConfig(configPath);
     if (config?.resourceManagerHost && config?.resourceManagerPort) {
       console.log(`Auto-configured YARN from: ${configPath}`);
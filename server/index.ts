@@ -4,6 +4,12 @@ import { createMockYarnEndpoints } from "./mock-yarn";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Behind a reverse proxy the client address comes from X-Forwarded-For, for
+// the proxies TRUST_PROXY names ("true", a hop count or a list of addresses)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set("trust proxy", trustProxy === "true" ? true : /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy);
+}
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -74,7 +74,7 @@ export function createMockYarnEndpoints(app: express.Application) {
         queues: {
           queue: [
             {
-              queueName: "default",
+              queueName: "root.default",
               capacity: 40.0,
               usedCapacity: 15.2,
               maxCapacity: 40.0,
@@ -103,7 +103,7 @@ export function createMockYarnEndpoints(app: express.Application) {
               }
             },
             {
-              queueName: "production",
+              queueName: "root.production",
               capacity: 35.0,
               usedCapacity: 8.7,
               maxCapacity: 35.0,
@@ -132,7 +132,7 @@ export function createMockYarnEndpoints(app: express.Application) {
               }
             },
             {
-              queueName: "development",
+              queueName: "root.development",
               capacity: 15.0,
               usedCapacity: 2.1,
               maxCapacity: 15.0,
@@ -161,7 +161,7 @@ export function createMockYarnEndpoints(app: express.Application) {
               }
             },
             {
-              queueName: "analytics",
+              queueName: "root.analytics",
               capacity: 10.0,
               usedCapacity: 1.8,
               maxCapacity: 10.0,
@@ -204,7 +204,7 @@ export function createMockYarnEndpoints(app: express.Application) {
         id: "application_1640995200000_0001",
         user: "hadoop",
         name: "Spark SQL Query",
-        queue: "default",
+        queue: "root.default",
         state: "RUNNING",
         finalStatus: "UNDEFINED",
         progress: 75.5,
@@ -230,7 +230,7 @@ export function createMockYarnEndpoints(app: express.Application) {
         id: "application_1640995200000_0002",
         user: "analytics",
         name: "Data Processing Job",
-        queue: "production",
+        queue: "root.production",
         state: "RUNNING",
         finalStatus: "UNDEFINED",
         progress: 45.2,
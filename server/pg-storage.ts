@@ -0,0 +1,970 @@
+import pg from "pg";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { eq, desc, count, sql, inArray, getTableColumns, and, gte, lte, type SQL } from "drizzle-orm";
+import {
+  pgQueues as queues,
+  pgGlobalConfig as globalConfig,
+  pgConfigFiles as configFiles,
+  pgConfigRevisions as configRevisions,
+  pgYarnConnections as yarnConnections,
+  pgPendingChanges as pendingChanges,
+  pgSyncedQueues as syncedQueues,
+  pgSyncedGlobalConfig as syncedGlobalConfig,
+  pgUserLimits as userLimits,
+  pgSyncedUserLimits as syncedUserLimits,
+  pgSyncedFile as syncedFile,
+  pgStagedFile as stagedFile,
+  pgWhatIfScenarios as whatIfScenarios,
+  pgChangeRequests as changeRequests,
+  pgChangeRequestEvents as changeRequestEvents,
+  pgClusters as clusters,
+  pgAccounts as accounts,
+  pgAuditLog as auditLog,
+} from "@shared/pg-schema";
+import type {
+  Queue,
+  InsertQueue,
+  ConfigFile,
+  InsertConfigFile,
+  GlobalConfig,
+  InsertGlobalConfig,
+  YarnConnection,
+  ConfigRevision,
+  InsertConfigRevision,
+  ConfigRevisionSummary,
+  PendingChangeSelection,
+  UserLimit,
+  InsertUserLimit,
+  WhatIfScenario,
+  InsertWhatIfScenario,
+  ChangeRequest,
+  InsertChangeRequest,
+  ChangeRequestEvent,
+  InsertChangeRequestEvent,
+  Cluster,
+  InsertCluster,
+  Account,
+  InsertAccount,
+  AuditEntry,
+  InsertAuditEntry,
+  SyncedFile,
+  StagedFile,
+} from "@shared/schema";
+import type { AuditFilter } from "@shared/audit";
+import type { PostApplyHookResult } from "@shared/post-apply-hook";
+import type { IStorage, IClusterStore, IAccountStore, IAuditLog, ClusterSettings } from "./storage";
+import {
+  DEFAULT_CLUSTER_ID,
+  getDefaultXMLContent,
+  getDefaultYarnConnection,
+  detectYarnConnection,
+  getFileModTime,
+  readConfigFile,
+  readOrCreateConfigFile,
+  writeConfigFile,
+  dedupeQueuesByPath,
+  toQueueValues,
+  summarizePendingChanges,
+  resolvePendingSelection,
+  overlayQueueChanges,
+  fingerprintConfigFile,
+  findSyncedRevision,
+  isSameConfigPath,
+  resolveAllocationBase,
+} from "./storage-utils";
+import { diffGlobalConfig, diffUserLimits } from "./config-diff";
+
+// Advisory lock keys used to serialize startup and apply/discard across
+// configurator instances sharing one database.
+const INIT_LOCK_KEY = 874201;
+const CHANGES_LOCK_KEY = 874202;
+
+const PostgresSessionStore = connectPg(session);
+
+const MIGRATIONS_FOLDER = process.env.MIGRATIONS_PATH || './migrations';
+
+type PgDatabase = NodePgDatabase<Record<string, never>>;
+type PgTransaction = Parameters<Parameters<PgDatabase["transaction"]>[0]>[0];
+
+// Schema holding the tables of a cluster other than the first
+function clusterSchema(id: number): string {
+  return `cluster_${id}`;
+}
+
+/**
+ * PostgreSQL-backed storage. All state, including pending changes and the
+ * last applied queue snapshot, lives in the database so several configurator
+ * instances behind a load balancer see the same queues and pending changes.
+ * The first cluster's tables are in the default schema, those of every other
+ * cluster in a schema of its own.
+ */
+export class PostgresStorage implements IStorage {
+  private pool: pg.Pool;
+  private db: PgDatabase;
+  private defaultConfigPath: string;
+  private yarnSitePath: string | null;
+  private ready: Promise<void>;
+
+  constructor(connectionString: string, settings: ClusterSettings, private schema: string | null = null) {
+    this.pool = new pg.Pool(schema ? { connectionString, options: `-c search_path=${schema}` } : { connectionString });
+    this.db = drizzle(this.pool);
+    this.defaultConfigPath = settings.configPath;
+    this.yarnSitePath = settings.yarnSitePath;
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    // Hold a session lock so that only one instance migrates and seeds the
+    // database at a time.
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [INIT_LOCK_KEY]);
+      if (this.schema) {
+        await client.query(`CREATE SCHEMA IF NOT EXISTS "${this.schema}"`);
+        await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER, migrationsSchema: this.schema });
+      } else {
+        await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER });
+      }
+
+      const [existingConfig] = await this.db.select().from(configFiles).limit(1);
+      if (existingConfig) {
+        console.log(`Restored configuration state from PostgreSQL (${existingConfig.filePath})`);
+        await this.ensureUserLimits();
+      } else {
+        await this.loadConfigFromDisk();
+      }
+      await this.ensureInitialRevision();
+      await this.ensureSyncedFile();
+
+      const [existingGlobalConfig] = await this.db.select().from(globalConfig).limit(1);
+      if (!existingGlobalConfig) {
+        await this.db.insert(globalConfig).values({});
+      }
+      const [existingSyncedGlobalConfig] = await this.db.select().from(syncedGlobalConfig).limit(1);
+      if (!existingSyncedGlobalConfig) {
+        await this.db.transaction(async (tx) => this.saveSyncedGlobalConfig(tx));
+      }
+
+      const [existingConnection] = await this.db.select().from(yarnConnections).limit(1);
+      if (!existingConnection) {
+        const detected = await detectYarnConnection(this.yarnSitePath);
+        await this.db.insert(yarnConnections).values(detected ?? getDefaultYarnConnection());
+      }
+    } catch (error) {
+      console.error('Failed to initialize PostgreSQL storage:', error);
+      throw error;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [INIT_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  // Record the configuration found at startup as the first revision
+  private async ensureInitialRevision(): Promise<void> {
+    const [existingRevision] = await this.db.select({ id: configRevisions.id }).from(configRevisions).limit(1);
+    if (existingRevision) return;
+
+    const [configFile] = await this.db.select().from(configFiles).orderBy(desc(configFiles.id)).limit(1);
+    if (configFile) {
+      await this.createConfigRevision({
+        filePath: configFile.filePath,
+        content: configFile.content,
+        author: "system",
+        summary: `Loaded from ${configFile.filePath}`,
+        createdAt: configFile.lastModified ?? new Date().toISOString(),
+        restoredFromId: null,
+      });
+    }
+  }
+
+  // Databases from before the synced file was recorded take it from the
+  // latest revision
+  private async ensureSyncedFile(): Promise<void> {
+    const [existing] = await this.db.select({ id: syncedFile.id }).from(syncedFile).limit(1);
+    if (existing) return;
+    const revisions = await this.db.select().from(configRevisions).orderBy(desc(configRevisions.id));
+    const synced = findSyncedRevision(revisions, this.defaultConfigPath);
+    if (synced) {
+      await this.recordSyncedFile(synced);
+    }
+  }
+
+  // Databases created before per-user limits were modelled have none; take
+  // them from the stored allocation file.
+  private async ensureUserLimits(): Promise<void> {
+    const [current] = await this.db.select({ id: userLimits.id }).from(userLimits).limit(1);
+    const [snapshot] = await this.db.select({ id: syncedUserLimits.userLimitId }).from(syncedUserLimits).limit(1);
+    if (current || snapshot) return;
+
+    const [configFile] = await this.db.select().from(configFiles).orderBy(desc(configFiles.id)).limit(1);
+    if (!configFile) return;
+    try {
+      const { parseUserLimitsFromXML } = await import('./xml-utils');
+      const parsedUserLimits = await parseUserLimitsFromXML(configFile.content);
+      await this.db.transaction(async (tx) => {
+        await this.replaceUserLimits(tx, parsedUserLimits);
+        await this.saveSyncedGlobalConfig(tx);
+      });
+    } catch (parseError) {
+      console.error('Failed to parse user limits from stored configuration:', parseError);
+    }
+  }
+
+  private async lockChanges(tx: PgTransaction): Promise<void> {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(${CHANGES_LOCK_KEY})`);
+  }
+
+  private async saveSyncedSnapshot(tx: PgTransaction): Promise<void> {
+    await tx.delete(syncedQueues);
+    const currentQueues = await tx.select().from(queues);
+    if (currentQueues.length > 0) {
+      await tx.insert(syncedQueues).values(currentQueues.map(queue => ({ queueId: queue.id, data: queue })));
+    }
+    await this.saveSyncedGlobalConfig(tx);
+  }
+
+  // Snapshots the global configuration together with the per-user limits,
+  // which are applied with it
+  private async saveSyncedGlobalConfig(tx: PgTransaction): Promise<void> {
+    const [current] = await tx.select().from(globalConfig).orderBy(globalConfig.id).limit(1);
+    if (!current) return;
+    await tx.insert(syncedGlobalConfig).values({ id: 1, data: current })
+      .onConflictDoUpdate({ target: syncedGlobalConfig.id, set: { data: current } });
+
+    await tx.delete(syncedUserLimits);
+    const currentUserLimits = await tx.select().from(userLimits);
+    if (currentUserLimits.length > 0) {
+      await tx.insert(syncedUserLimits).values(currentUserLimits.map(user => ({ userLimitId: user.id, data: user })));
+    }
+  }
+
+  // Move the given queue ids from pending to the synced snapshot
+  private async markSynced(tx: PgTransaction, queueIds: number[]): Promise<void> {
+    if (queueIds.length === 0) return;
+    await tx.delete(syncedQueues).where(inArray(syncedQueues.queueId, queueIds));
+    const appliedQueues = await tx.select().from(queues).where(inArray(queues.id, queueIds));
+    if (appliedQueues.length > 0) {
+      await tx.insert(syncedQueues).values(appliedQueues.map(queue => ({ queueId: queue.id, data: queue })));
+    }
+    await tx.delete(pendingChanges).where(inArray(pendingChanges.queueId, queueIds));
+  }
+
+  // Pending queue ids plus the current and last applied global configuration
+  // and per-user limits
+  private async readPendingState(tx: PgTransaction) {
+    const pendingIds = (await tx.select().from(pendingChanges)).map(change => change.queueId);
+    const [currentGlobalConfig] = await tx.select().from(globalConfig).orderBy(globalConfig.id).limit(1);
+    const [synced] = await tx.select().from(syncedGlobalConfig).limit(1);
+    const syncedGlobal = synced?.data ?? currentGlobalConfig;
+    const currentUsers = await tx.select().from(userLimits).orderBy(userLimits.name);
+    const syncedUsers = (await tx.select().from(syncedUserLimits).orderBy(syncedUserLimits.userLimitId)).map(row => row.data);
+    const [staged] = await tx.select().from(stagedFile).limit(1);
+    const globalConfigChanged = !!staged
+      || diffGlobalConfig(syncedGlobal, currentGlobalConfig).length > 0
+      || diffUserLimits(syncedUsers, currentUsers).length > 0;
+    return { pendingIds, currentGlobalConfig, syncedGlobal, currentUsers, syncedUsers, staged, globalConfigChanged };
+  }
+
+  private async markPending(queueId: number): Promise<void> {
+    await this.db.insert(pendingChanges).values({ queueId }).onConflictDoNothing();
+  }
+
+  private async replaceQueues(tx: PgTransaction, newQueues: InsertQueue[]): Promise<void> {
+    // Restart ids at 1, matching the in-memory storage
+    await tx.execute(sql`TRUNCATE TABLE queues RESTART IDENTITY`);
+    if (newQueues.length > 0) {
+      await tx.insert(queues).values(newQueues.map(toQueueValues));
+    }
+  }
+
+  private async replaceUserLimits(tx: PgTransaction, newUserLimits: InsertUserLimit[]): Promise<void> {
+    await tx.execute(sql`TRUNCATE TABLE user_limits RESTART IDENTITY`);
+    if (newUserLimits.length > 0) {
+      await tx.insert(userLimits).values(newUserLimits.map(user => ({ name: user.name, maxRunningApps: user.maxRunningApps })));
+    }
+  }
+
+  private async loadConfigFromDisk(): Promise<void> {
+    const xmlContent = await readOrCreateConfigFile(this.defaultConfigPath);
+    const actualModTime = await getFileModTime(this.defaultConfigPath);
+    await this.recordSyncedFile(await fingerprintConfigFile(this.defaultConfigPath, xmlContent));
+
+    await this.saveConfigFile({
+      filePath: this.defaultConfigPath,
+      content: xmlContent,
+      isValid: true,
+      lastModified: actualModTime,
+      validationErrors: null,
+    });
+
+    try {
+      const { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } = await import('./xml-utils');
+
+      const { id, ...parsedGlobalConfig } = await parseGlobalConfigFromXML(xmlContent);
+      const parsedQueues = await parseQueuesFromXML(xmlContent);
+      const parsedUserLimits = await parseUserLimitsFromXML(xmlContent);
+
+      await this.db.transaction(async (tx) => {
+        await tx.delete(globalConfig);
+        await tx.insert(globalConfig).values(parsedGlobalConfig);
+        await this.replaceQueues(tx, dedupeQueuesByPath(parsedQueues));
+        await this.replaceUserLimits(tx, parsedUserLimits);
+        await this.saveSyncedSnapshot(tx);
+      });
+
+      console.log(`Synchronized ${parsedQueues.length} queues from XML file`);
+    } catch (parseError) {
+      console.error('Failed to parse XML, keeping existing queues:', parseError);
+    }
+  }
+
+  async getQueues(): Promise<Queue[]> {
+    await this.ready;
+    return this.db.select().from(queues).orderBy(queues.id);
+  }
+
+  async getQueue(id: number): Promise<Queue | undefined> {
+    await this.ready;
+    const [queue] = await this.db.select().from(queues).where(eq(queues.id, id));
+    return queue;
+  }
+
+  async createQueue(insertQueue: InsertQueue): Promise<Queue> {
+    await this.ready;
+    const [queue] = await this.db.insert(queues).values(toQueueValues(insertQueue)).returning();
+    await this.markPending(queue.id);
+    return queue;
+  }
+
+  async updateQueue(id: number, updateData: Partial<InsertQueue>): Promise<Queue | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getQueue(id);
+    }
+
+    const [queue] = await this.db.update(queues).set(updateData).where(eq(queues.id, id)).returning();
+    if (!queue) return undefined;
+
+    await this.markPending(id);
+    return queue;
+  }
+
+  async deleteQueue(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(queues).where(eq(queues.id, id)).returning();
+    if (deleted.length > 0) {
+      await this.markPending(id);
+    }
+    return deleted.length > 0;
+  }
+
+  async getConfigFile(): Promise<ConfigFile | undefined> {
+    await this.ready;
+    const [configFile] = await this.db.select().from(configFiles).orderBy(desc(configFiles.id)).limit(1);
+    return configFile;
+  }
+
+  async saveConfigFile(config: InsertConfigFile): Promise<ConfigFile> {
+    const [configFile] = await this.db.insert(configFiles).values({
+      ...config,
+      isValid: config.isValid ?? null,
+      lastModified: config.lastModified ?? null,
+      validationErrors: config.validationErrors ?? null,
+    }).returning();
+    return configFile;
+  }
+
+  async readConfigFromDisk(filePath: string): Promise<string> {
+    return readConfigFile(filePath);
+  }
+
+  async writeConfigToDisk(filePath: string, content: string): Promise<void> {
+    await writeConfigFile(filePath, content);
+    if (isSameConfigPath(filePath, this.defaultConfigPath)) {
+      await this.recordSyncedFile(await fingerprintConfigFile(filePath, content));
+    }
+  }
+
+  async getSyncedFile(): Promise<SyncedFile | undefined> {
+    await this.ready;
+    const [row] = await this.db.select().from(syncedFile).limit(1);
+    if (!row) return undefined;
+    const { id, ...file } = row;
+    return file;
+  }
+
+  private async recordSyncedFile(file: SyncedFile): Promise<void> {
+    await this.db.insert(syncedFile).values({ id: 1, ...file })
+      .onConflictDoUpdate({ target: syncedFile.id, set: file });
+  }
+
+  async getStagedFile(): Promise<StagedFile | undefined> {
+    await this.ready;
+    const [row] = await this.db.select().from(stagedFile).limit(1);
+    if (!row) return undefined;
+    const { id, ...file } = row;
+    return file;
+  }
+
+  async stageFile(file: StagedFile): Promise<void> {
+    await this.ready;
+    await this.db.insert(stagedFile).values({ id: 1, ...file })
+      .onConflictDoUpdate({ target: stagedFile.id, set: file });
+  }
+
+  getDefaultXMLContent(): string {
+    return getDefaultXMLContent();
+  }
+
+  async syncQueuesFromXML(xmlQueues: any[]): Promise<void> {
+    await this.ready;
+    console.log(`Syncing ${xmlQueues.length} queues from XML to PostgreSQL storage`);
+    const uniqueQueues = dedupeQueuesByPath(xmlQueues);
+
+    await this.db.transaction(async (tx) => {
+      await this.replaceQueues(tx, uniqueQueues);
+    });
+
+    console.log(`Synchronized ${uniqueQueues.length} unique queues to PostgreSQL storage`);
+  }
+
+  async reloadFromDisk(): Promise<void> {
+    await this.ready;
+    console.log(`Reloading configuration from disk: ${this.defaultConfigPath}`);
+
+    try {
+      const xmlContent = await readConfigFile(this.defaultConfigPath);
+      const actualModTime = await getFileModTime(this.defaultConfigPath);
+
+      const { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } = await import('./xml-utils');
+      const { id, ...parsedGlobalConfig } = await parseGlobalConfigFromXML(xmlContent);
+      const parsedQueues = await parseQueuesFromXML(xmlContent);
+      const parsedUserLimits = await parseUserLimitsFromXML(xmlContent);
+
+      await this.saveConfigFile({
+        filePath: this.defaultConfigPath,
+        content: xmlContent,
+        isValid: true,
+        lastModified: actualModTime,
+        validationErrors: null,
+      });
+      await this.updateGlobalConfig(parsedGlobalConfig);
+
+      await this.db.transaction(async (tx) => {
+        await this.lockChanges(tx);
+        await this.replaceQueues(tx, dedupeQueuesByPath(parsedQueues));
+        await this.replaceUserLimits(tx, parsedUserLimits);
+        await tx.delete(pendingChanges);
+        await tx.delete(stagedFile);
+        await this.saveSyncedSnapshot(tx);
+      });
+      await this.recordSyncedFile(await fingerprintConfigFile(this.defaultConfigPath, xmlContent));
+
+      console.log(`Successfully reloaded ${parsedQueues.length} queues from disk`);
+    } catch (error) {
+      console.error('Failed to reload from disk:', error);
+      throw new Error(`Failed to reload configuration from disk: ${error}`);
+    }
+  }
+
+  async getGlobalConfig(): Promise<GlobalConfig> {
+    await this.ready;
+    const [config] = await this.db.select().from(globalConfig).orderBy(globalConfig.id).limit(1);
+    if (config) return config;
+    const [created] = await this.db.insert(globalConfig).values({}).returning();
+    return created;
+  }
+
+  async updateGlobalConfig(config: Partial<InsertGlobalConfig>): Promise<GlobalConfig> {
+    const current = await this.getGlobalConfig();
+    if (Object.keys(config).length === 0) return current;
+    const [updated] = await this.db.update(globalConfig).set(config).where(eq(globalConfig.id, current.id)).returning();
+    return updated;
+  }
+
+  async getUserLimits(): Promise<UserLimit[]> {
+    await this.ready;
+    return this.db.select().from(userLimits).orderBy(userLimits.name);
+  }
+
+  async getUserLimit(id: number): Promise<UserLimit | undefined> {
+    await this.ready;
+    const [userLimit] = await this.db.select().from(userLimits).where(eq(userLimits.id, id));
+    return userLimit;
+  }
+
+  async createUserLimit(insertUserLimit: InsertUserLimit): Promise<UserLimit> {
+    await this.ready;
+    const [userLimit] = await this.db.insert(userLimits).values(insertUserLimit).returning();
+    return userLimit;
+  }
+
+  async updateUserLimit(id: number, updateData: Partial<InsertUserLimit>): Promise<UserLimit | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getUserLimit(id);
+    }
+    const [userLimit] = await this.db.update(userLimits).set(updateData).where(eq(userLimits.id, id)).returning();
+    return userLimit;
+  }
+
+  async deleteUserLimit(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(userLimits).where(eq(userLimits.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async syncUserLimitsFromXML(xmlUserLimits: any[]): Promise<void> {
+    await this.ready;
+    await this.db.transaction(async (tx) => {
+      await this.replaceUserLimits(tx, xmlUserLimits);
+    });
+  }
+
+  async getPendingChangesCount(): Promise<number> {
+    await this.ready;
+    const [result] = await this.db.select({ total: count() }).from(pendingChanges);
+    const globalConfigChanged = !!(await this.getStagedFile())
+      || diffGlobalConfig(await this.getSyncedGlobalConfig(), await this.getGlobalConfig()).length > 0
+      || diffUserLimits(await this.getSyncedUserLimits(), await this.getUserLimits()).length > 0;
+    return (result?.total ?? 0) + (globalConfigChanged ? 1 : 0);
+  }
+
+  async hasPendingChanges(): Promise<boolean> {
+    return (await this.getPendingChangesCount()) > 0;
+  }
+
+  async getPendingQueueIds(): Promise<number[]> {
+    await this.ready;
+    return (await this.db.select().from(pendingChanges)).map(change => change.queueId);
+  }
+
+  async getSyncedQueues(): Promise<Queue[]> {
+    await this.ready;
+    return (await this.db.select().from(syncedQueues).orderBy(syncedQueues.queueId)).map(row => row.data);
+  }
+
+  async getSyncedGlobalConfig(): Promise<GlobalConfig> {
+    await this.ready;
+    const [synced] = await this.db.select().from(syncedGlobalConfig).limit(1);
+    return synced?.data ?? this.getGlobalConfig();
+  }
+
+  async getSyncedUserLimits(): Promise<UserLimit[]> {
+    await this.ready;
+    return (await this.db.select().from(syncedUserLimits).orderBy(syncedUserLimits.userLimitId)).map(row => row.data);
+  }
+
+  async applyPendingChanges(author: string = "anonymous", selection?: PendingChangeSelection): Promise<ConfigRevision | undefined> {
+    await this.ready;
+
+    try {
+      const { updateAllocationsXML } = await import('./xml-document');
+      const { assertValidConfiguration } = await import('./config-validator');
+
+      return await this.db.transaction(async (tx) => {
+        await this.lockChanges(tx);
+
+        const { pendingIds, currentGlobalConfig, syncedGlobal, currentUsers, syncedUsers, staged, globalConfigChanged } = await this.readPendingState(tx);
+        const { queueIds, globalConfig: applyGlobalConfig } = resolvePendingSelection(selection, pendingIds, globalConfigChanged);
+        if (queueIds.length === 0 && !applyGlobalConfig) return undefined;
+
+        // Write the last synced state plus the chosen changes into the file last
+        // synced, or into the staged file when the global settings are applied
+        const allQueues = await tx.select().from(queues).orderBy(queues.id);
+        const snapshot = (await tx.select().from(syncedQueues).orderBy(syncedQueues.queueId)).map(row => row.data);
+        const [synced] = await tx.select().from(syncedFile).limit(1);
+        const base = await resolveAllocationBase(synced, snapshot, syncedUsers, applyGlobalConfig ? staged : undefined);
+        const xmlContent = await updateAllocationsXML(
+          base.content,
+          overlayQueueChanges(snapshot, allQueues, queueIds),
+          applyGlobalConfig ? currentGlobalConfig : syncedGlobal,
+          base.queues,
+          applyGlobalConfig ? currentUsers : syncedUsers,
+          base.userLimits,
+        );
+        await assertValidConfiguration(xmlContent);
+
+        await tx.insert(configFiles).values({
+          filePath: this.defaultConfigPath,
+          content: xmlContent,
+          isValid: true,
+          lastModified: new Date().toISOString(),
+          validationErrors: null,
+        });
+
+        await this.writeConfigToDisk(this.defaultConfigPath, xmlContent);
+        console.log(`Applied ${queueIds.length} pending queue changes to XML file`);
+
+        const [revision] = await tx.insert(configRevisions).values({
+          filePath: this.defaultConfigPath,
+          content: xmlContent,
+          author,
+          summary: summarizePendingChanges(queueIds, allQueues, snapshot, applyGlobalConfig),
+          createdAt: new Date().toISOString(),
+          restoredFromId: null,
+        }).returning();
+
+        await this.markSynced(tx, queueIds);
+        if (applyGlobalConfig) {
+          await this.saveSyncedGlobalConfig(tx);
+          await tx.delete(stagedFile);
+        }
+        return revision;
+      });
+    } catch (error) {
+      console.error('Failed to apply pending changes:', error);
+      throw error;
+    }
+  }
+
+  async discardPendingChanges(selection?: PendingChangeSelection): Promise<void> {
+    await this.ready;
+    await this.db.transaction(async (tx) => {
+      await this.lockChanges(tx);
+
+      const { pendingIds, currentGlobalConfig, syncedGlobal, syncedUsers, globalConfigChanged } = await this.readPendingState(tx);
+      const { queueIds, globalConfig: discardGlobalConfig } = resolvePendingSelection(selection, pendingIds, globalConfigChanged);
+
+      if (queueIds.length > 0) {
+        const snapshot = await tx.select().from(syncedQueues).where(inArray(syncedQueues.queueId, queueIds));
+        await tx.delete(queues).where(inArray(queues.id, queueIds));
+        if (snapshot.length > 0) {
+          await tx.insert(queues).values(snapshot.map(({ data }) => data));
+        }
+        // Restored rows keep their ids; move the sequence past them
+        await tx.execute(sql`SELECT setval(pg_get_serial_sequence('queues', 'id'), COALESCE((SELECT MAX(id) FROM queues), 0) + 1, false)`);
+        await tx.delete(pendingChanges).where(inArray(pendingChanges.queueId, queueIds));
+      }
+
+      if (discardGlobalConfig) {
+        const { id, ...syncedValues } = syncedGlobal;
+        await tx.update(globalConfig).set(syncedValues).where(eq(globalConfig.id, currentGlobalConfig.id));
+        await tx.delete(userLimits);
+        if (syncedUsers.length > 0) {
+          await tx.insert(userLimits).values(syncedUsers);
+        }
+        await tx.execute(sql`SELECT setval(pg_get_serial_sequence('user_limits', 'id'), COALESCE((SELECT MAX(id) FROM user_limits), 0) + 1, false)`);
+        await tx.delete(stagedFile);
+      }
+      console.log(`Discarded ${queueIds.length} pending queue changes${discardGlobalConfig ? ' and global settings changes' : ''}`);
+    });
+  }
+
+  async getConfigRevisions(): Promise<ConfigRevisionSummary[]> {
+    await this.ready;
+    const { content, ...summaryColumns } = getTableColumns(configRevisions);
+    return this.db.select(summaryColumns).from(configRevisions).orderBy(desc(configRevisions.id));
+  }
+
+  async getConfigRevision(id: number): Promise<ConfigRevision | undefined> {
+    await this.ready;
+    const [revision] = await this.db.select().from(configRevisions).where(eq(configRevisions.id, id));
+    return revision;
+  }
+
+  async createConfigRevision(revision: InsertConfigRevision): Promise<ConfigRevision> {
+    const [created] = await this.db.insert(configRevisions).values({
+      ...revision,
+      restoredFromId: revision.restoredFromId ?? null,
+    }).returning();
+    return created;
+  }
+
+  async setConfigRevisionHookResult(id: number, hookResult: PostApplyHookResult): Promise<ConfigRevision | undefined> {
+    await this.ready;
+    const [updated] = await this.db.update(configRevisions).set({ hookResult }).where(eq(configRevisions.id, id)).returning();
+    return updated;
+  }
+
+  async getWhatIfScenarios(): Promise<WhatIfScenario[]> {
+    await this.ready;
+    return this.db.select().from(whatIfScenarios).orderBy(whatIfScenarios.name);
+  }
+
+  async getWhatIfScenario(id: number): Promise<WhatIfScenario | undefined> {
+    await this.ready;
+    const [scenario] = await this.db.select().from(whatIfScenarios).where(eq(whatIfScenarios.id, id));
+    return scenario;
+  }
+
+  async createWhatIfScenario(insertScenario: InsertWhatIfScenario): Promise<WhatIfScenario> {
+    await this.ready;
+    const [scenario] = await this.db.insert(whatIfScenarios).values(insertScenario).returning();
+    return scenario;
+  }
+
+  async updateWhatIfScenario(id: number, updateData: Partial<InsertWhatIfScenario>): Promise<WhatIfScenario | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getWhatIfScenario(id);
+    }
+    const [scenario] = await this.db.update(whatIfScenarios).set(updateData).where(eq(whatIfScenarios.id, id)).returning();
+    return scenario;
+  }
+
+  async deleteWhatIfScenario(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(whatIfScenarios).where(eq(whatIfScenarios.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getChangeRequests(): Promise<ChangeRequest[]> {
+    await this.ready;
+    return this.db.select().from(changeRequests).orderBy(desc(changeRequests.id));
+  }
+
+  async getChangeRequest(id: number): Promise<ChangeRequest | undefined> {
+    await this.ready;
+    const [request] = await this.db.select().from(changeRequests).where(eq(changeRequests.id, id));
+    return request;
+  }
+
+  async createChangeRequest(insertRequest: InsertChangeRequest): Promise<ChangeRequest> {
+    await this.ready;
+    const [request] = await this.db.insert(changeRequests).values(insertRequest).returning();
+    return request;
+  }
+
+  async updateChangeRequest(id: number, updateData: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getChangeRequest(id);
+    }
+    const [request] = await this.db.update(changeRequests).set(updateData).where(eq(changeRequests.id, id)).returning();
+    return request;
+  }
+
+  async getChangeRequestEvents(changeRequestId: number): Promise<ChangeRequestEvent[]> {
+    await this.ready;
+    return this.db.select().from(changeRequestEvents)
+      .where(eq(changeRequestEvents.changeRequestId, changeRequestId))
+      .orderBy(changeRequestEvents.id);
+  }
+
+  async addChangeRequestEvent(insertEvent: InsertChangeRequestEvent): Promise<ChangeRequestEvent> {
+    await this.ready;
+    const [event] = await this.db.insert(changeRequestEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getYarnConnection(): Promise<YarnConnection> {
+    await this.ready;
+    const [row] = await this.db.select().from(yarnConnections).orderBy(yarnConnections.id).limit(1);
+    if (!row) return getDefaultYarnConnection();
+    const { id, ...connection } = row;
+    return connection;
+  }
+
+  async updateYarnConnection(connection: Partial<YarnConnection>): Promise<YarnConnection> {
+    const updated = { ...(await this.getYarnConnection()), ...connection };
+    await this.db.transaction(async (tx) => {
+      await tx.delete(yarnConnections);
+      await tx.insert(yarnConnections).values(updated);
+    });
+    return updated;
+  }
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => undefined);
+    await this.pool.end();
+  }
+}
+
+/**
+ * Clusters kept in the default schema. Removing a cluster drops its schema.
+ */
+export class PostgresClusterStore implements IClusterStore {
+  private pool: pg.Pool;
+  private db: PgDatabase;
+  private ready: Promise<void>;
+
+  constructor(private connectionString: string, defaultCluster: InsertCluster) {
+    this.pool = new pg.Pool({ connectionString });
+    this.db = drizzle(this.pool);
+    this.ready = this.initialize(defaultCluster);
+  }
+
+  private async initialize(defaultCluster: InsertCluster): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [INIT_LOCK_KEY]);
+      await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER });
+      const [existing] = await drizzle(client).select().from(clusters).limit(1);
+      if (!existing) {
+        await drizzle(client).insert(clusters).values(defaultCluster);
+      }
+    } catch (error) {
+      console.error('Failed to initialize PostgreSQL cluster list:', error);
+      throw error;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [INIT_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  async getClusters(): Promise<Cluster[]> {
+    await this.ready;
+    return this.db.select().from(clusters).orderBy(clusters.id);
+  }
+
+  async getCluster(id: number): Promise<Cluster | undefined> {
+    await this.ready;
+    const [cluster] = await this.db.select().from(clusters).where(eq(clusters.id, id));
+    return cluster;
+  }
+
+  async createCluster(cluster: InsertCluster): Promise<Cluster> {
+    await this.ready;
+    const [created] = await this.db.insert(clusters).values(cluster).returning();
+    return created;
+  }
+
+  async updateCluster(id: number, updateData: Partial<InsertCluster>): Promise<Cluster | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getCluster(id);
+    }
+    const [updated] = await this.db.update(clusters).set(updateData).where(eq(clusters.id, id)).returning();
+    return updated;
+  }
+
+  async deleteCluster(id: number): Promise<boolean> {
+    await this.ready;
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx.delete(clusters).where(eq(clusters.id, id)).returning();
+      if (deleted.length > 0 && id !== DEFAULT_CLUSTER_ID) {
+        await tx.execute(sql.raw(`DROP SCHEMA IF EXISTS "${clusterSchema(id)}" CASCADE`));
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  openStorage(cluster: Cluster): IStorage {
+    return new PostgresStorage(this.connectionString, cluster, cluster.id === DEFAULT_CLUSTER_ID ? null : clusterSchema(cluster.id));
+  }
+}
+
+// Accounts and login sessions live in the public schema, so that every
+// configurator instance sharing the database knows the same users
+export class PostgresAccountStore implements IAccountStore {
+  sessionStore: session.Store;
+  private pool: pg.Pool;
+  private db: PgDatabase;
+  private ready: Promise<void>;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    this.db = drizzle(this.pool);
+    this.sessionStore = new PostgresSessionStore({ pool: this.pool, createTableIfMissing: true });
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [INIT_LOCK_KEY]);
+      await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER });
+    } catch (error) {
+      console.error('Failed to initialize PostgreSQL accounts:', error);
+      throw error;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [INIT_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    await this.ready;
+    return this.db.select().from(accounts).orderBy(accounts.username);
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    await this.ready;
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.id, id));
+    return account;
+  }
+
+  async getAccountByUsername(username: string): Promise<Account | undefined> {
+    await this.ready;
+    const [account] = await this.db.select().from(accounts).where(eq(accounts.username, username));
+    return account;
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    await this.ready;
+    const [created] = await this.db.insert(accounts).values(account).returning();
+    return created;
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getAccount(id);
+    }
+    const [updated] = await this.db.update(accounts).set(updateData).where(eq(accounts.id, id)).returning();
+    return updated;
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = await this.db.delete(accounts).where(eq(accounts.id, id)).returning();
+    return deleted.length > 0;
+  }
+}
+
+export class PostgresAuditLog implements IAuditLog {
+  private pool: pg.Pool;
+  private db: PgDatabase;
+  private ready: Promise<void>;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    this.db = drizzle(this.pool);
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [INIT_LOCK_KEY]);
+      await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER });
+    } catch (error) {
+      console.error('Failed to initialize PostgreSQL audit log:', error);
+      throw error;
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [INIT_LOCK_KEY]).catch(() => undefined);
+      client.release();
+    }
+  }
+
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    await this.ready;
+    const [created] = await this.db.insert(auditLog).values(entry).returning();
+    return created;
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+    await this.ready;
+    const conditions: SQL[] = [];
+    if (filter.actor !== undefined) conditions.push(eq(auditLog.actor, filter.actor));
+    if (filter.action !== undefined) conditions.push(eq(auditLog.action, filter.action));
+    if (filter.clusterId !== undefined) conditions.push(eq(auditLog.clusterId, filter.clusterId));
+    if (filter.target !== undefined) conditions.push(sql`strpos(${auditLog.target}, ${filter.target}) > 0`);
+    if (filter.field !== undefined) {
+      const suffix = `.${filter.field}`;
+      conditions.push(sql`exists (select 1 from jsonb_array_elements(${auditLog.changes}) as change where change->>'field' = ${filter.field}
+        or right(change->>'field', ${suffix.length}::int) = ${suffix})`);
+    }
+    if (filter.since !== undefined) conditions.push(gte(auditLog.createdAt, filter.since));
+    if (filter.until !== undefined) conditions.push(lte(auditLog.createdAt, filter.until));
+
+    return this.db.select().from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.id))
+      .limit(filter.limit);
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import type { Queue } from "@shared/schema";
+import { DEFAULT_PLACEMENT_RULES, type PlacementRule } from "@shared/placement";
+import { simulatePlacement } from "./placement-simulator";
+import { toQueueValues } from "./storage-utils";
+
+function queue(path: string): Queue {
+  const segments = path.split(".");
+  const parent = segments.length > 1 ? segments.slice(0, -1).join(".") : null;
+  return { ...toQueueValues({ name: segments[segments.length - 1], path, parent }), id: 0 } as Queue;
+}
+
+// root.eng is a parent queue; the others are leaves
+const queues = ["root", "root.default", "root.eng", "root.eng.etl", "root.bob"].map(queue);
+
+function simulate(rules: PlacementRule[], request: { user: string; groups?: string[]; requestedQueue?: string }) {
+  return simulatePlacement(rules, "default", queues, { groups: [], ...request });
+}
+
+describe("simulatePlacement", () => {
+  it("places an application in the queue it asks for", () => {
+    const result = simulate(DEFAULT_PLACEMENT_RULES, { user: "alice", requestedQueue: "eng.etl" });
+
+    expect(result).toMatchObject({ queue: "root.eng.etl", ruleIndex: 0, rejected: false, createdQueues: [] });
+  });
+
+  it("skips the specified rule without a requested queue and creates the user's queue", () => {
+    const result = simulate(DEFAULT_PLACEMENT_RULES, { user: "alice" });
+
+    expect(result).toMatchObject({ queue: "root.alice", ruleIndex: 1, createdQueues: ["root.alice"] });
+    expect(result.trace.map(step => step.outcome)).toEqual(["skipped", "placed"]);
+  });
+
+  it("skips a rule that may not create its queue", () => {
+    const result = simulate([{ name: "user", create: false }, { name: "default" }], { user: "alice" });
+
+    expect(result.queue).toBe("root.default");
+    expect(result.trace[0]).toMatchObject({ outcome: "skipped", reason: "root.alice does not exist and the rule may not create it" });
+  });
+
+  it("escapes dots in user names", () => {
+    expect(simulate([{ name: "user" }], { user: "first.last" }).queue).toBe("root.first_dot_last");
+  });
+
+  it("rejects applications for a parent queue", () => {
+    const result = simulate(DEFAULT_PLACEMENT_RULES, { user: "alice", requestedQueue: "root.eng" });
+
+    expect(result).toMatchObject({ queue: null, rejected: true, ruleIndex: 0 });
+    expect(result.reason).toContain("parent queue");
+  });
+
+  it("rejects queues created under a leaf queue", () => {
+    const result = simulate([{ name: "specified" }], { user: "alice", requestedQueue: "bob.child" });
+
+    expect(result.rejected).toBe(true);
+    expect(result.reason).toBe("root.bob.child cannot be created under root.bob, which is a leaf queue");
+  });
+
+  it("places user queues under the queue of the nested rule", () => {
+    const result = simulate([{ name: "nestedUserQueue", nestedRule: { name: "primaryGroup" } }], { user: "alice", groups: ["eng"] });
+
+    expect(result).toMatchObject({ queue: "root.eng.alice", createdQueues: ["root.eng.alice"] });
+  });
+
+  it("skips a nested rule that picks a leaf queue", () => {
+    const result = simulate(
+      [{ name: "nestedUserQueue", nestedRule: { name: "primaryGroup" } }, { name: "default" }],
+      { user: "alice", groups: ["bob"] },
+    );
+
+    expect(result.queue).toBe("root.default");
+    expect(result.trace[0].reason).toBe("Nested primaryGroup rule picked root.bob, which is a leaf queue");
+  });
+
+  it("uses the first secondary group with an existing queue", () => {
+    const result = simulate([{ name: "secondaryGroupExistingQueue" }], { user: "alice", groups: ["primary", "missing", "bob"] });
+
+    expect(result.queue).toBe("root.bob");
+  });
+
+  it("stops at the reject rule", () => {
+    const result = simulate([{ name: "user", create: false }, { name: "reject" }, { name: "default" }], { user: "alice" });
+
+    expect(result).toMatchObject({ queue: null, rejected: true, ruleIndex: 1 });
+    expect(result.trace).toHaveLength(2);
+  });
+
+  it("rejects applications no rule places", () => {
+    const result = simulate([{ name: "user", create: false }], { user: "alice" });
+
+    expect(result).toMatchObject({ queue: null, rejected: true, ruleIndex: null, rule: null, reason: "No rule placed the application" });
+  });
+});
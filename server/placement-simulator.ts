@@ -0,0 +1,166 @@
+import type { Queue, PlacementRuleTrace, PlacementSimulation } from "@shared/schema";
+import type { PlacementRule, NestedPlacementRule } from "@shared/placement";
+
+/**
+ * Evaluates a queue placement policy the way the Fair Scheduler does
+ * (QueuePlacementPolicy): rules are tried in order, a rule whose queue does
+ * not exist is skipped unless it may create it, and the first queue found
+ * is where the application is submitted.
+ */
+
+// The queue the client asks for when it does not name one
+const DEFAULT_REQUESTED_QUEUE = "default";
+
+interface Submission {
+  user: string;
+  groups: string[];
+  requestedQueue: string;
+}
+
+// Existing queue paths, and which of them are leaves
+interface QueueTree {
+  queues: Set<string>;
+  leaves: Set<string>;
+}
+
+type RuleResult = { queue: string | null; reason: string; rejected?: boolean };
+
+function buildQueueTree(queues: Queue[]): QueueTree {
+  const paths = new Set(queues.map(queue => queue.path));
+  const parents = new Set(queues.map(queue => queue.parent).filter((parent): parent is string => !!parent));
+  const leaves = new Set(Array.from(paths).filter(path => path !== "root" && !parents.has(path)));
+  return { queues: paths, leaves };
+}
+
+function qualify(queue: string): string {
+  return queue === "root" || queue.startsWith("root.") ? queue : `root.${queue}`;
+}
+
+// User and group names become queue names with dots escaped, as YARN does
+function cleanName(name: string): string {
+  return name.trim().replace(/\./g, "_dot_");
+}
+
+// The queue a rule picks before its create flag is considered
+function ruleQueue(rule: PlacementRule | NestedPlacementRule, submission: Submission, tree: QueueTree, defaultQueue: string): RuleResult {
+  switch (rule.name) {
+    case "specified":
+      if (submission.requestedQueue === DEFAULT_REQUESTED_QUEUE) {
+        return { queue: null, reason: "No queue was requested" };
+      }
+      return { queue: qualify(submission.requestedQueue), reason: "Requested queue" };
+    case "user":
+      return { queue: `root.${cleanName(submission.user)}`, reason: "Queue named after the user" };
+    case "primaryGroup":
+      if (submission.groups.length === 0) {
+        return { queue: null, reason: "The user has no groups" };
+      }
+      return { queue: `root.${cleanName(submission.groups[0])}`, reason: "Queue named after the primary group" };
+    case "secondaryGroupExistingQueue": {
+      const queue = submission.groups.slice(1).map(group => `root.${cleanName(group)}`).find(path => tree.queues.has(path));
+      return queue
+        ? { queue, reason: "Existing queue named after a secondary group" }
+        : { queue: null, reason: "No secondary group has an existing queue" };
+    }
+    case "nestedUserQueue": {
+      const parent = evaluateRule(rule.nestedRule!, submission, tree, defaultQueue);
+      if (!parent.queue) {
+        return { queue: null, reason: `Nested ${rule.nestedRule!.name} rule: ${parent.reason}` };
+      }
+      if (tree.leaves.has(parent.queue)) {
+        return { queue: null, reason: `Nested ${rule.nestedRule!.name} rule picked ${parent.queue}, which is a leaf queue` };
+      }
+      return { queue: `${parent.queue}.${cleanName(submission.user)}`, reason: `User queue under ${parent.queue}` };
+    }
+    case "default":
+      return { queue: qualify(rule.queue || defaultQueue), reason: "Default queue" };
+    case "reject":
+      return { queue: null, reason: "The reject rule rejects every application", rejected: true };
+  }
+}
+
+// Applies the create flag: a rule may only pick a missing queue if it can
+// create it (YARN's default)
+function evaluateRule(rule: PlacementRule | NestedPlacementRule, submission: Submission, tree: QueueTree, defaultQueue: string): RuleResult {
+  const result = ruleQueue(rule, submission, tree, defaultQueue);
+  if (result.queue && rule.create === false && !tree.queues.has(result.queue)) {
+    return { queue: null, reason: `${result.queue} does not exist and the rule may not create it` };
+  }
+  return result;
+}
+
+// Missing queues on the way to `queue`, outermost first
+function missingQueues(queue: string, tree: QueueTree): string[] {
+  const segments = queue.split(".");
+  const missing: string[] = [];
+  for (let i = 1; i <= segments.length; i++) {
+    const path = segments.slice(0, i).join(".");
+    if (!tree.queues.has(path)) missing.push(path);
+  }
+  return missing;
+}
+
+export function simulatePlacement(
+  rules: PlacementRule[],
+  defaultQueue: string,
+  queues: Queue[],
+  request: { user: string; groups: string[]; requestedQueue?: string },
+): PlacementSimulation {
+  const tree = buildQueueTree(queues);
+  const submission: Submission = {
+    user: request.user,
+    groups: request.groups,
+    requestedQueue: request.requestedQueue || DEFAULT_REQUESTED_QUEUE,
+  };
+  const trace: PlacementRuleTrace[] = [];
+  const rejection = (reason: string, ruleIndex: number | null = null): PlacementSimulation => ({
+    queue: null,
+    ruleIndex,
+    rule: ruleIndex === null ? null : rules[ruleIndex],
+    rejected: true,
+    reason,
+    createdQueues: [],
+    trace,
+  });
+
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    const result = evaluateRule(rule, submission, tree, defaultQueue);
+
+    if (result.rejected) {
+      trace.push({ index, rule, outcome: "rejected", queue: null, reason: result.reason });
+      return rejection(result.reason, index);
+    }
+    if (!result.queue) {
+      trace.push({ index, rule, outcome: "skipped", queue: null, reason: result.reason });
+      continue;
+    }
+
+    const queue = result.queue;
+    const createdQueues = missingQueues(queue, tree);
+    const closestExisting = queue.split(".").slice(0, -createdQueues.length || undefined).join(".");
+    let problem: string | null = null;
+    if (createdQueues.length === 0 && !tree.leaves.has(queue)) {
+      problem = `${queue} is a parent queue; applications can only be submitted to leaf queues`;
+    } else if (createdQueues.length > 0 && tree.leaves.has(closestExisting)) {
+      problem = `${queue} cannot be created under ${closestExisting}, which is a leaf queue`;
+    }
+    if (problem) {
+      trace.push({ index, rule, outcome: "rejected", queue, reason: problem });
+      return rejection(problem, index);
+    }
+    trace.push({ index, rule, outcome: "placed", queue, reason: result.reason });
+
+    return {
+      queue,
+      ruleIndex: index,
+      rule,
+      rejected: false,
+      reason: result.reason,
+      createdQueues,
+      trace,
+    };
+  }
+
+  return rejection("No rule placed the application");
+}
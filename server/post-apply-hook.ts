@@ -0,0 +1,189 @@
+import { spawn } from "child_process";
+import type { Readable } from "stream";
+import type { Cluster, ConfigRevisionSummary } from "@shared/schema";
+import { postApplyHookSchema, describeHookFailure, type PostApplyHook, type PostApplyHookResult } from "@shared/post-apply-hook";
+import type { IStorage } from "./storage";
+
+/**
+ * Post-apply hooks tell the ResourceManager about a newly written allocation
+ * file, e.g. with `yarn rmadmin -refreshQueues`, instead of waiting for its
+ * reload interval. A cluster's own hook takes precedence over the server
+ * default from POST_APPLY_COMMAND or POST_APPLY_WEBHOOK_URL. A hook that
+ * fails leaves the written file in place; the failure is reported with the
+ * revision.
+ */
+
+// Output kept of each stream; longer output is cut off
+const OUTPUT_LIMIT = 64 * 1024;
+
+function configuredDefaultHook(): PostApplyHook | null {
+  const timeoutSeconds = process.env.POST_APPLY_TIMEOUT_SECONDS ? parseInt(process.env.POST_APPLY_TIMEOUT_SECONDS) : undefined;
+  if (process.env.POST_APPLY_COMMAND) {
+    return postApplyHookSchema.parse({ type: "command", command: process.env.POST_APPLY_COMMAND, timeoutSeconds });
+  }
+  if (process.env.POST_APPLY_WEBHOOK_URL) {
+    return postApplyHookSchema.parse({ type: "webhook", url: process.env.POST_APPLY_WEBHOOK_URL, timeoutSeconds });
+  }
+  return null;
+}
+
+const defaultHook = configuredDefaultHook();
+
+// The hook of clusters that have none of their own
+export function getDefaultPostApplyHook(): PostApplyHook | null {
+  return defaultHook;
+}
+
+// The hook run for a cluster, or null when nothing runs
+export function resolvePostApplyHook(cluster: Cluster): Exclude<PostApplyHook, { type: "none" }> | null {
+  const hook = cluster.postApplyHook ?? defaultHook;
+  return hook && hook.type !== "none" ? hook : null;
+}
+
+function truncate(output: string): string {
+  return output.length > OUTPUT_LIMIT ? `${output.slice(0, OUTPUT_LIMIT)}\n[output truncated]` : output;
+}
+
+// Keeps the first OUTPUT_LIMIT bytes written to a stream and drops the rest,
+// so that verbose commands neither fill memory nor get killed for it
+function captureOutput(stream: Readable) {
+  const chunks: Buffer[] = [];
+  let kept = 0;
+  let truncated = false;
+  stream.on("data", (chunk: Buffer) => {
+    const room = OUTPUT_LIMIT - kept;
+    if (chunk.length > room) truncated = true;
+    if (room <= 0) return;
+    const part = chunk.length > room ? chunk.subarray(0, room) : chunk;
+    chunks.push(part);
+    kept += part.length;
+  });
+  return () => {
+    const output = Buffer.concat(chunks).toString("utf8");
+    return truncated ? `${output}\n[output truncated]` : output;
+  };
+}
+
+// The command runs in a shell, with the cluster and revision in its
+// environment. It succeeds when it exits with 0 before the timeout.
+function runCommand(command: string, timeoutSeconds: number, cluster: Cluster, revision: ConfigRevisionSummary) {
+  return new Promise<Pick<PostApplyHookResult, "success" | "exitCode" | "stdout" | "stderr" | "error">>(resolve => {
+    const child = spawn(command, {
+      shell: true,
+      // Its own process group, so that a timeout also stops what the shell started
+      detached: true,
+      stdio: ["ignore", "pipe", "pipe"],
+      env: {
+        ...process.env,
+        HOOK_CLUSTER_ID: String(cluster.id),
+        HOOK_CLUSTER_NAME: cluster.name,
+        HOOK_ALLOCATION_FILE: revision.filePath,
+        HOOK_REVISION_ID: String(revision.id),
+        HOOK_AUTHOR: revision.author,
+      },
+    });
+    const stdout = captureOutput(child.stdout!);
+    const stderr = captureOutput(child.stderr!);
+
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, timeoutSeconds * 1000);
+
+    child.on("error", error => {
+      clearTimeout(timeoutId);
+      resolve({ stdout: stdout(), stderr: stderr(), success: false, exitCode: null, error: error.message });
+    });
+    child.on("close", (code: number | null, signal: NodeJS.Signals | null) => {
+      clearTimeout(timeoutId);
+      const output = { stdout: stdout(), stderr: stderr() };
+      if (timedOut) {
+        return resolve({ ...output, success: false, exitCode: null, error: `Timed out after ${timeoutSeconds}s` });
+      }
+      if (code === null) {
+        return resolve({ ...output, success: false, exitCode: null, error: `Killed by ${signal}` });
+      }
+      resolve({ ...output, success: code === 0, exitCode: code, error: null });
+    });
+  });
+}
+
+// fetch() reports network errors as "fetch failed", with the reason as the cause
+function fetchErrorMessage(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  return error.cause instanceof Error ? `${error.message}: ${error.cause.message}` : error.message;
+}
+
+// POSTs the revision as JSON; the response body is kept as stdout
+async function callWebhook(url: string, timeoutSeconds: number, cluster: Cluster, revision: ConfigRevisionSummary) {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        cluster: { id: cluster.id, name: cluster.name },
+        revision: {
+          id: revision.id,
+          filePath: revision.filePath,
+          author: revision.author,
+          summary: revision.summary,
+          createdAt: revision.createdAt,
+        },
+      }),
+    });
+    return {
+      success: response.ok,
+      statusCode: response.status,
+      stdout: truncate(await response.text()),
+      error: null,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      statusCode: null,
+      stdout: "",
+      error: controller.signal.aborted ? `Timed out after ${timeoutSeconds}s` : fetchErrorMessage(error),
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Runs the cluster's hook after `revision` was written to its allocation
+ * file and keeps the result with the revision. Returns null when the
+ * cluster has no hook.
+ */
+export async function runPostApplyHook(cluster: Cluster, storage: IStorage, revision: ConfigRevisionSummary): Promise<PostApplyHookResult | null> {
+  const hook = resolvePostApplyHook(cluster);
+  if (!hook) return null;
+
+  const ranAt = new Date().toISOString();
+  const start = Date.now();
+  let result: PostApplyHookResult;
+  if (hook.type === "command") {
+    const outcome = await runCommand(hook.command, hook.timeoutSeconds, cluster, revision);
+    result = { type: "command", target: hook.command, statusCode: null, ...outcome, durationMs: Date.now() - start, ranAt };
+  } else {
+    const outcome = await callWebhook(hook.url, hook.timeoutSeconds, cluster, revision);
+    result = { type: "webhook", target: hook.url, exitCode: null, stderr: "", ...outcome, durationMs: Date.now() - start, ranAt };
+  }
+
+  if (result.success) {
+    console.log(`Post-apply hook for ${cluster.name} succeeded in ${result.durationMs}ms: ${result.target}`);
+  } else {
+    console.warn(`Post-apply hook for ${cluster.name} failed: ${result.target} (${describeHookFailure(result)})`);
+  }
+  await storage.setConfigRevisionHookResult(revision.id, result);
+  return result;
+}
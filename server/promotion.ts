@@ -0,0 +1,280 @@
+import path from "path";
+import type { Cluster, ClusterResources, FieldChange, GlobalConfig, PromotionPreview, Queue, QueueChange, UserLimit } from "@shared/schema";
+import type { PromotionOverrides, PromotionRequest } from "@shared/promotion";
+import type { ResourceValue } from "@shared/resources";
+import type { IStorage } from "./storage";
+import { diffGlobalConfig, diffPendingQueues, diffStagedFile, diffUserLimits, createUnifiedXmlDiff } from "./config-diff";
+import { validateConfiguration } from "./config-validator";
+import { updateAllocationsXML } from "./xml-document";
+import { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } from "./xml-utils";
+import { dedupeQueuesByPath, hashConfigContent, resolveAllocationBase, toQueueValues } from "./storage-utils";
+
+/**
+ * Promotion of one cluster's configuration into another (dev -> staging ->
+ * prod). The source queues are adjusted by the target's overrides, matched
+ * to the target's queues by path and staged there as pending changes.
+ * Uploaded allocation files are staged the same way.
+ */
+
+export type ResourceScale = {
+  source: ClusterResources;
+  target: ClusterResources;
+};
+
+// Promoted queues, global settings and user limits with the ids of the
+// target's rows where they match, so that they stage and diff as updates
+export interface PromotionPlan {
+  queues: Queue[];
+  globalConfig: GlobalConfig;
+  userLimits: UserLimit[];
+  preview: PromotionPreview;
+}
+
+interface PromotionCluster {
+  cluster: Cluster;
+  storage: IStorage;
+}
+
+function scaleResourceValue(value: ResourceValue | null, scale: ResourceScale): ResourceValue | null {
+  const memory = (memoryMb: number) => Math.round(memoryMb * scale.target.memoryMb / scale.source.memoryMb);
+  const vcores = (count: number) => Math.round(count * scale.target.vcores / scale.source.vcores);
+
+  // Percentages are relative to the cluster already
+  if (value?.kind === "absolute") {
+    const scaled: ResourceValue = { kind: "absolute" };
+    if (value.memoryMb !== undefined) scaled.memoryMb = memory(value.memoryMb);
+    if (value.vcores !== undefined) scaled.vcores = vcores(value.vcores);
+    return scaled;
+  }
+  if (value?.kind === "keyValue" && !value.percent) {
+    const resources = { ...value.resources };
+    if (resources["memory-mb"] !== undefined) resources["memory-mb"] = memory(resources["memory-mb"]);
+    if (resources.vcores !== undefined) resources.vcores = vcores(resources.vcores);
+    return { ...value, resources };
+  }
+  return value;
+}
+
+/**
+ * Queues adjusted for the target cluster: resources scaled when asked for,
+ * then the queue overrides applied. Warns about overrides for queues that
+ * are not promoted.
+ */
+export function applyPromotionOverrides(
+  queues: Queue[],
+  overrides: PromotionOverrides,
+  scale: ResourceScale | null,
+): { queues: Queue[]; warnings: string[] } {
+  const byPath = new Map(queues.map(queue => [queue.path, queue]));
+  const warnings: string[] = [];
+
+  if (scale) {
+    byPath.forEach((queue, queuePath) => byPath.set(queuePath, {
+      ...queue,
+      minResources: scaleResourceValue(queue.minResources, scale),
+      maxResources: scaleResourceValue(queue.maxResources, scale),
+    }));
+  }
+
+  for (const { queue: queuePath, ...settings } of overrides.queues) {
+    const queue = byPath.get(queuePath);
+    if (!queue) {
+      warnings.push(`The override for ${queuePath} matches no promoted queue`);
+      continue;
+    }
+    const defined = Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+    byPath.set(queuePath, { ...queue, ...defined });
+  }
+
+  return { queues: queues.map(queue => byPath.get(queue.path)!), warnings };
+}
+
+// `promoted` rows take the id of the target row with the same key. Rows the
+// target does not have get ids past the target's, so they count as added.
+function matchTargetIds<T extends { id: number }>(promoted: T[], target: T[], key: (row: T) => string): T[] {
+  const targetIds = new Map(target.map(row => [key(row), row.id]));
+  let nextId = Math.max(0, ...target.map(row => row.id)) + 1;
+  return promoted.map(row => ({ ...row, id: targetIds.get(key(row)) ?? nextId++ }));
+}
+
+/**
+ * What promoting `source` into `target` would stage there, with the preview
+ * of the changes and of the resulting allocation file.
+ */
+export async function planPromotion(
+  source: PromotionCluster,
+  target: PromotionCluster,
+  request: PromotionRequest,
+  overrides: PromotionOverrides,
+  scale: ResourceScale | null,
+): Promise<PromotionPlan> {
+  const applied = request.config === "applied";
+  const [sourceQueues, sourceGlobalConfig, sourceUserLimits] = await Promise.all([
+    applied ? source.storage.getSyncedQueues() : source.storage.getQueues(),
+    applied ? source.storage.getSyncedGlobalConfig() : source.storage.getGlobalConfig(),
+    applied ? source.storage.getSyncedUserLimits() : source.storage.getUserLimits(),
+  ]);
+  const [queues, syncedQueues, globalConfig, userLimits, syncedUserLimits, syncedFile, stagedFile] = await Promise.all([
+    target.storage.getQueues(),
+    target.storage.getSyncedQueues(),
+    target.storage.getGlobalConfig(),
+    target.storage.getUserLimits(),
+    target.storage.getSyncedUserLimits(),
+    target.storage.getSyncedFile(),
+    target.storage.getStagedFile(),
+  ]);
+
+  const adjusted = applyPromotionOverrides(sourceQueues, overrides, scale);
+  const promotedQueues = matchTargetIds(adjusted.queues, queues, queue => queue.path);
+  const promotedGlobalConfig = request.includeGlobalConfig ? { ...sourceGlobalConfig, id: globalConfig.id } : globalConfig;
+  const promotedUserLimits = request.includeGlobalConfig ? matchTargetIds(sourceUserLimits, userLimits, user => user.name) : userLimits;
+
+  const targetIds = new Set(queues.map(queue => queue.id));
+  const changedIds = Array.from(new Set([...queues, ...promotedQueues].map(queue => queue.id)));
+  const content = syncedFile?.content ?? "";
+  const base = await resolveAllocationBase(syncedFile, syncedQueues, syncedUserLimits, stagedFile);
+  const updatedContent = await updateAllocationsXML(
+    base.content,
+    promotedQueues,
+    promotedGlobalConfig,
+    base.queues,
+    promotedUserLimits,
+    base.userLimits,
+  );
+
+  return {
+    queues: promotedQueues,
+    globalConfig: promotedGlobalConfig,
+    userLimits: promotedUserLimits,
+    preview: {
+      source: { id: source.cluster.id, name: source.cluster.name, config: request.config },
+      target: { id: target.cluster.id, name: target.cluster.name },
+      scaling: scale,
+      queues: diffPendingQueues(changedIds, promotedQueues, queues).map(change => ({
+        ...change,
+        queueId: targetIds.has(change.queueId) ? change.queueId : null,
+      })),
+      globalConfig: [
+        ...diffGlobalConfig(globalConfig, promotedGlobalConfig),
+        ...diffUserLimits(userLimits, promotedUserLimits),
+      ],
+      xmlDiff: createUnifiedXmlDiff(content, updatedContent, path.basename(syncedFile?.filePath || "fair-scheduler.xml")),
+      validation: await validateConfiguration(updatedContent),
+      warnings: adjusted.warnings,
+    },
+  };
+}
+
+// A whole configuration, with the ids of the storage's rows where they match
+type MatchedConfiguration = Pick<PromotionPlan, "queues" | "globalConfig" | "userLimits">;
+
+// Removed queues go first, deepest first; added queues parents first
+async function stageChanges(
+  storage: IStorage,
+  configuration: MatchedConfiguration,
+  queueChanges: PromotionPreview["queues"],
+  globalConfigChanged: boolean,
+): Promise<void> {
+  const promoted = new Map(configuration.queues.map(queue => [queue.path, queue]));
+  const depth = (queuePath: string) => queuePath.split(".").length;
+  const changes = [...queueChanges].sort((a, b) => depth(a.queuePath) - depth(b.queuePath));
+
+  for (const change of changes.filter(change => change.type === "removed").reverse()) {
+    await storage.deleteQueue(change.queueId!);
+  }
+  for (const change of changes.filter(change => change.type !== "removed")) {
+    const { id, ...queue } = promoted.get(change.queuePath)!;
+    if (change.type === "added") {
+      await storage.createQueue(queue);
+    } else {
+      await storage.updateQueue(id, queue);
+    }
+  }
+
+  if (!globalConfigChanged) return;
+
+  const { id, ...globalConfig } = configuration.globalConfig;
+  await storage.updateGlobalConfig(globalConfig);
+
+  const userLimits = await storage.getUserLimits();
+  const promotedUsers = new Map(configuration.userLimits.map(user => [user.name, user]));
+  for (const user of userLimits) {
+    const promotedUser = promotedUsers.get(user.name);
+    if (!promotedUser) {
+      await storage.deleteUserLimit(user.id);
+    } else if (promotedUser.maxRunningApps !== user.maxRunningApps) {
+      await storage.updateUserLimit(user.id, { maxRunningApps: promotedUser.maxRunningApps });
+    }
+    promotedUsers.delete(user.name);
+  }
+  for (const user of Array.from(promotedUsers.values())) {
+    await storage.createUserLimit({ name: user.name, maxRunningApps: user.maxRunningApps });
+  }
+}
+
+/**
+ * Stages a promotion in the target's storage as pending changes.
+ */
+export async function stagePromotion(storage: IStorage, plan: PromotionPlan): Promise<void> {
+  await stageChanges(storage, plan, plan.preview.queues, plan.preview.globalConfig.length > 0);
+}
+
+/**
+ * Stages an allocation file in a storage as pending changes: its queues,
+ * global settings and user limits take the place of the current ones, and
+ * the file itself becomes the document they are written into, so that its
+ * comments and elements the model does not know are kept. Returns the
+ * changes staged.
+ */
+export async function stageAllocationFile(
+  storage: IStorage,
+  content: string,
+  source: string,
+  author: string,
+): Promise<{ queues: QueueChange[]; globalConfig: FieldChange[] }> {
+  const [queues, globalConfig, userLimits] = await Promise.all([
+    storage.getQueues(),
+    storage.getGlobalConfig(),
+    storage.getUserLimits(),
+  ]);
+  const { id, ...fileGlobalConfig } = await parseGlobalConfigFromXML(content);
+  const configuration: MatchedConfiguration = {
+    queues: matchTargetIds(
+      dedupeQueuesByPath(await parseQueuesFromXML(content)).map(queue => ({ ...toQueueValues(queue), id: 0 }) as Queue),
+      queues,
+      queue => queue.path,
+    ),
+    globalConfig: { ...globalConfig, ...fileGlobalConfig },
+    userLimits: matchTargetIds(
+      (await parseUserLimitsFromXML(content)).map(user => ({ id: 0, name: user.name, maxRunningApps: user.maxRunningApps })),
+      userLimits,
+      user => user.name,
+    ),
+  };
+
+  const changedIds = Array.from(new Set([...queues, ...configuration.queues].map(queue => queue.id)));
+  const changes = {
+    queues: diffPendingQueues(changedIds, configuration.queues, queues),
+    globalConfig: [
+      ...diffGlobalConfig(globalConfig, configuration.globalConfig),
+      ...diffUserLimits(userLimits, configuration.userLimits),
+    ],
+  };
+  await stageChanges(storage, configuration, changes.queues, changes.globalConfig.length > 0);
+
+  // The ids the file's queues and users were staged as, to write them back by
+  const [stagedQueues, stagedUserLimits] = await Promise.all([storage.getQueues(), storage.getUserLimits()]);
+  const fileQueuePaths = new Set(configuration.queues.map(queue => queue.path));
+  const fileUserNames = new Set(configuration.userLimits.map(user => user.name));
+  const stagedFile = {
+    source,
+    content,
+    hash: hashConfigContent(content),
+    queueIds: Object.fromEntries(stagedQueues.filter(queue => fileQueuePaths.has(queue.path)).map(queue => [queue.path, queue.id])),
+    userLimitIds: Object.fromEntries(stagedUserLimits.filter(user => fileUserNames.has(user.name)).map(user => [user.name, user.id])),
+    author,
+    stagedAt: new Date().toISOString(),
+  };
+  await storage.stageFile(stagedFile);
+  return { ...changes, globalConfig: [...diffStagedFile(stagedFile), ...changes.globalConfig] };
+}
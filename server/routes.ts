@@ -1,13 +1,55 @@
-import type { Express, Request } from "express";
+import { Router, type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { queueFormSchema, insertConfigFileSchema, yarnConnectionSchema } from "@shared/schema";
+import * as fs from "fs/promises";
+import { clusters, accounts, audit, type IStorage } from "./storage";
+import { setupAuth, requireRole, hashPassword } from "./auth";
+import { audited, describeAudit, flattenQueueChanges, snapshotSettings, formatAuditCsv, formatAuditJsonl } from "./audit";
+import { runPostApplyHook, resolvePostApplyHook, getDefaultPostApplyHook } from "./post-apply-hook";
+import { hasRole } from "@shared/auth";
+import { queueFormSchema, userLimitFormSchema, clusterFormSchema, accountFormSchema, insertConfigFileSchema, yarnConnectionSchema, pendingChangeSelectionSchema, configMergeRequestSchema, placementSimulationRequestSchema, fairShareQuerySchema, capacitySchedulerConversionQuerySchema, insertWhatIfScenarioSchema, whatIfRequestSchema, type Queue, type FairShareAnalysis, type WhatIfAnalysis, type CapacitySchedulerConversion, type ClusterResources, type PendingChangesDiff, type PendingChangeSelection, type Cluster, type ClusterForm, type Account, type AccountSummary, type ChangeRequestDetail } from "@shared/schema";
 import { z } from "zod";
 import multer, { FileFilterCallback } from "multer";
 import * as path from "path";
 import { parseString, Builder } from "xml2js";
-import { parseQueuesFromXML, generateXMLFromQueues } from "./xml-utils";
+import { generateXMLFromQueues } from "./xml-utils";
+import { updateAllocationsXML } from "./xml-document";
 import { YarnResourceManagerClient } from "./yarn-client";
+import { diffFields, diffPendingQueues, diffGlobalConfig, diffUserLimits, diffStagedFile, createUnifiedXmlDiff } from "./config-diff";
+import { simulatePlacement } from "./placement-simulator";
+import { calculateFairShares } from "./fair-share";
+import { checkDrift } from "./drift";
+import { checkExternalChanges } from "./config-watcher";
+import { previewMerge, mergeExternalChanges, ConfigMergeError } from "./config-merge";
+import { analyzeScenario, unknownScenarioQueues } from "./what-if";
+import { convertToCapacityScheduler, conversionReport } from "./capacity-converter";
+import { importCapacityScheduler, type CapacitySchedulerImport } from "./capacity-importer";
+import { findYarnSiteProperties, formatHadoopConfiguration, parseHadoopProperties } from "./hadoop-config";
+import { validateConfiguration, ConfigValidationError } from "./config-validator";
+import { DEFAULT_PLACEMENT_RULES } from "@shared/placement";
+import { promotionOverridesSchema, promotionRequestSchema } from "@shared/promotion";
+import { planPromotion, stagePromotion, stageAllocationFile, type PromotionPlan, type ResourceScale } from "./promotion";
+import { changeRequestFormSchema, changeRequestCommentSchema, changeRequestDecisionSchema } from "@shared/change-requests";
+import { auditQuerySchema } from "@shared/audit";
+import {
+  diffSelectedChanges,
+  fingerprintChanges,
+  isOutdated,
+  summarizeChangeRequest,
+  findClaimingRequest,
+  recordChangeRequestEvent,
+  canRecordEvent,
+  mayReview,
+} from "./change-requests";
+import {
+  DEFAULT_CLUSTER_ID,
+  resolvePendingSelection,
+  overlayQueueChanges,
+  findOrphanedQueues,
+  findDuplicateQueuePaths,
+  buildQueuePath,
+  isSameOrDescendantPath,
+  resolveAllocationBase,
+} from "./storage-utils";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
@@ -20,10 +62,314 @@ const upload = multer({
   }
 });
 
+// The cluster a request under /api/clusters/:clusterId is for, and its
+// storage. Requests to the unscoped /api paths are for the default cluster.
+interface ClusterContext {
+  cluster: Cluster;
+  storage: IStorage;
+}
+
+function clusterContext(res: Response): ClusterContext {
+  return res.locals as ClusterContext;
+}
+
+async function resolveCluster(req: Request, res: Response, next: NextFunction) {
+  try {
+    const id = req.params.clusterId === undefined ? DEFAULT_CLUSTER_ID : parseInt(req.params.clusterId);
+    const cluster = await clusters.getCluster(id);
+    if (!cluster) {
+      return res.status(404).json({ message: "Cluster not found" });
+    }
+    res.locals.cluster = cluster;
+    res.locals.storage = clusters.getStorage(cluster);
+    next();
+  } catch (error) {
+    console.error("Failed to open cluster storage:", error);
+    res.status(500).json({ message: "Failed to open cluster storage" });
+  }
+}
+
+// Cluster resources given by the user, or else the cluster's from YARN
+async function resolveClusterResources(
+  storage: IStorage,
+  manual: ClusterResources | null,
+): Promise<{ cluster: ClusterResources; source: "manual" | "yarn" } | { error: string }> {
+  if (manual) return { cluster: manual, source: "manual" };
+  try {
+    const client = new YarnResourceManagerClient(await storage.getYarnConnection());
+    const metrics = await client.getClusterMetrics();
+    return { cluster: { memoryMb: metrics.totalMB, vcores: metrics.totalVirtualCores }, source: "yarn" };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// The plan for promoting the cluster named in the request body into the
+// target cluster. Without overrides in the body the target's saved ones apply.
+async function resolvePromotion(
+  target: ClusterContext,
+  body: unknown,
+): Promise<{ plan: PromotionPlan } | { status: number; message: string; error?: string }> {
+  const request = promotionRequestSchema.parse(body);
+  if (request.sourceClusterId === target.cluster.id) {
+    return { status: 400, message: "A cluster cannot be promoted into itself" };
+  }
+  const sourceCluster = await clusters.getCluster(request.sourceClusterId);
+  if (!sourceCluster) {
+    return { status: 404, message: "Source cluster not found" };
+  }
+  const source = { cluster: sourceCluster, storage: clusters.getStorage(sourceCluster) };
+  const overrides = request.overrides ?? target.cluster.promotionOverrides ?? promotionOverridesSchema.parse({});
+
+  let scale: ResourceScale | null = null;
+  if (overrides.scaleResources) {
+    const sourceResources = await resolveClusterResources(source.storage, request.sourceResources ?? null);
+    if ("error" in sourceResources) {
+      return { status: 400, message: `Enter the resources of ${sourceCluster.name} or enable its YARN connection`, error: sourceResources.error };
+    }
+    const targetResources = await resolveClusterResources(target.storage, request.targetResources ?? null);
+    if ("error" in targetResources) {
+      return { status: 400, message: `Enter the resources of ${target.cluster.name} or enable its YARN connection`, error: targetResources.error };
+    }
+    scale = { source: sourceResources.cluster, target: targetResources.cluster };
+  }
+
+  return { plan: await planPromotion(source, target, request, overrides, scale) };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Every route below is for logged-in users only
+  await setupAuth(app);
+
+  // Clusters
+  app.get("/api/clusters", async (req, res) => {
+    try {
+      const allClusters = await clusters.getClusters();
+      res.json(allClusters);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch clusters" });
+    }
+  });
+
+  app.get("/api/clusters/:clusterId", async (req, res) => {
+    try {
+      const cluster = await clusters.getCluster(parseInt(req.params.clusterId));
+      if (!cluster) {
+        return res.status(404).json({ message: "Cluster not found" });
+      }
+      res.json(cluster);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch cluster" });
+    }
+  });
+
+  app.post("/api/clusters", audited("cluster.create"), requireRole("admin"), async (req, res) => {
+    try {
+      const { connection, ...validatedData } = clusterFormSchema.parse(req.body);
+      const allClusters = await clusters.getClusters();
+      if (allClusters.some(cluster => cluster.name === validatedData.name)) {
+        return res.status(409).json({ message: `A cluster named ${validatedData.name} already exists` });
+      }
+      const cluster = await clusters.createCluster(validatedData);
+      if (connection) {
+        await clusters.getStorage(cluster).updateYarnConnection(connection);
+      }
+      describeAudit(res, { target: cluster.name, clusterId: cluster.id, changes: diffFields({}, { ...cluster, ...connection }) });
+      console.log(`Created cluster: ${cluster.name} (${cluster.configPath})`);
+      res.status(201).json(cluster);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to create cluster:", error);
+      res.status(500).json({ message: "Failed to create cluster" });
+    }
+  });
+
+  // Moving a cluster to another allocation file loads that file, so the
+  // pending changes of the cluster have to be applied or discarded first
+  app.put("/api/clusters/:clusterId", audited("cluster.update"), requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.clusterId);
+      const { connection, ...validatedData }: Partial<ClusterForm> = clusterFormSchema.partial().parse(req.body);
+      const allClusters = await clusters.getClusters();
+      const existing = allClusters.find(cluster => cluster.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Cluster not found" });
+      }
+      if (validatedData.name && allClusters.some(cluster => cluster.id !== id && cluster.name === validatedData.name)) {
+        return res.status(409).json({ message: `A cluster named ${validatedData.name} already exists` });
+      }
+      if (validatedData.configPath && validatedData.configPath !== existing.configPath) {
+        if (await clusters.getStorage(existing).hasPendingChanges()) {
+          return res.status(409).json({ message: `Apply or discard the pending changes of ${existing.name} before changing its allocation file` });
+        }
+        try {
+          await fs.access(validatedData.configPath);
+        } catch {
+          return res.status(400).json({ message: `Cannot read ${validatedData.configPath}` });
+        }
+      }
+
+      const previousConnection = connection ? await clusters.getStorage(existing).getYarnConnection() : undefined;
+      const cluster = await clusters.updateCluster(id, validatedData);
+      if (!cluster) {
+        return res.status(404).json({ message: "Cluster not found" });
+      }
+      if (connection) {
+        await clusters.getStorage(cluster).updateYarnConnection(connection);
+      }
+      describeAudit(res, {
+        target: existing.name,
+        clusterId: id,
+        changes: diffFields({ ...existing, ...previousConnection }, { ...cluster, ...(connection ?? previousConnection) }),
+      });
+      res.json(cluster);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to update cluster:", error);
+      res.status(500).json({ message: "Failed to update cluster" });
+    }
+  });
+
+  // Removes the cluster and its stored state; the allocation file stays
+  app.delete("/api/clusters/:clusterId", audited("cluster.delete"), requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.clusterId);
+      if (id === DEFAULT_CLUSTER_ID) {
+        return res.status(409).json({ message: "The default cluster cannot be removed" });
+      }
+      const existing = await clusters.getCluster(id);
+      const success = await clusters.deleteCluster(id);
+      if (!existing || !success) {
+        return res.status(404).json({ message: "Cluster not found" });
+      }
+      describeAudit(res, { target: existing.name, clusterId: id, changes: diffFields(existing, {}) });
+      console.log(`Deleted cluster ID: ${id}`);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Failed to delete cluster:", error);
+      res.status(500).json({ message: "Failed to delete cluster" });
+    }
+  });
+
+  // Accounts of local users. The last administrator cannot be removed or
+  // demoted, so that somebody can still manage the configurator.
+  app.get("/api/accounts", requireRole("admin"), async (req, res) => {
+    try {
+      const allAccounts = await accounts.getAccounts();
+      res.json(allAccounts.map(toAccountSummary));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", audited("account.create"), requireRole("admin"), async (req, res) => {
+    try {
+      const { password, ...validatedData } = accountFormSchema.parse(req.body);
+      if (await accounts.getAccountByUsername(validatedData.username)) {
+        return res.status(409).json({ message: `An account named ${validatedData.username} already exists` });
+      }
+      const account = await accounts.createAccount({ ...validatedData, passwordHash: await hashPassword(password) });
+      describeAudit(res, { target: account.username, changes: diffFields({}, toAccountSummary(account)) });
+      console.log(`Created account: ${account.username} (${account.role})`);
+      res.status(201).json(toAccountSummary(account));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create account" });
+    }
+  });
+
+  // Changes the role and/or resets the password; the username stays
+  app.put("/api/accounts/:id", audited("account.update"), requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { password, role } = accountFormSchema.pick({ password: true, role: true }).partial().parse(req.body);
+      const allAccounts = await accounts.getAccounts();
+      const existing = allAccounts.find(account => account.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (existing.role === "admin" && role && role !== "admin" && isLastAdmin(allAccounts, existing)) {
+        return res.status(409).json({ message: "The last administrator cannot be demoted" });
+      }
+
+      const account = await accounts.updateAccount(id, {
+        ...(role ? { role } : {}),
+        ...(password ? { passwordHash: await hashPassword(password) } : {}),
+      });
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      describeAudit(res, {
+        target: account.username,
+        changes: [
+          ...diffFields(toAccountSummary(existing), toAccountSummary(account)),
+          ...(password ? [{ field: "password", oldValue: "[redacted]", newValue: "[redacted]" }] : []),
+        ],
+      });
+      res.json(toAccountSummary(account));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update account" });
+    }
+  });
+
+  app.delete("/api/accounts/:id", audited("account.delete"), requireRole("admin"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const allAccounts = await accounts.getAccounts();
+      const existing = allAccounts.find(account => account.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      if (existing.role === "admin" && isLastAdmin(allAccounts, existing)) {
+        return res.status(409).json({ message: "The last administrator cannot be removed" });
+      }
+      await accounts.deleteAccount(id);
+      describeAudit(res, { target: existing.username, changes: diffFields(toAccountSummary(existing), {}) });
+      console.log(`Deleted account: ${existing.username}`);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Audit log of every change made through the API, for all clusters.
+  // ?format=csv or ?format=jsonl downloads the entries instead.
+  app.get("/api/audit", requireRole("approver"), async (req, res) => {
+    try {
+      const { format, ...filter } = auditQuerySchema.parse(req.query);
+      const entries = await audit.getAuditEntries(filter);
+      if (format === "json") {
+        return res.json(entries);
+      }
+      res.setHeader('Content-Type', format === "csv" ? 'text/csv' : 'application/x-ndjson');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log.${format}"`);
+      res.send(format === "csv" ? formatAuditCsv(entries) : formatAuditJsonl(entries));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid audit log query", errors: error.errors });
+      }
+      console.error("Failed to fetch audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
+  // Everything else is per cluster
+  const router = Router();
+  app.use("/api/clusters/:clusterId", resolveCluster, router);
+  app.use("/api", resolveCluster, router);
   
   // Get all queues
-  app.get("/api/queues", async (req, res) => {
+  router.get("/queues", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const queues = await storage.getQueues();
       res.json(queues);
@@ -32,8 +378,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get queue by full path, e.g. /api/queues/by-path/root.production
+  router.get("/queues/by-path/:path", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const queues = await storage.getQueues();
+      const queue = queues.find(q => q.path === req.params.path);
+      if (!queue) {
+        return res.status(404).json({ message: "Queue not found" });
+      }
+      res.json(queue);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch queue" });
+    }
+  });
+
   // Get single queue
-  app.get("/api/queues/:id", async (req, res) => {
+  router.get("/queues/:id", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const id = parseInt(req.params.id);
       const queue = await storage.getQueue(id);
@@ -47,13 +409,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create queue
-  app.post("/api/queues", async (req, res) => {
+  router.post("/queues", audited("queue.create"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const validatedData = queueFormSchema.parse(req.body);
-      const queue = await storage.createQueue(validatedData);
+      const placement = resolveQueuePlacement(await storage.getQueues(), validatedData.name, validatedData.parent);
+      if ("message" in placement) {
+        return res.status(placement.status).json({ message: placement.message });
+      }
+      const queue = await storage.createQueue({ ...validatedData, ...placement });
+      describeAudit(res, { target: queue.path, changes: diffFields({}, queue) });
       
       // Note: XML sync will happen when changes are applied
-      console.log(`Created queue: ${queue.name} (pending sync)`);
+      console.log(`Created queue: ${queue.path} (pending sync)`);
       
       res.status(201).json(queue);
     } catch (error) {
@@ -65,17 +433,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update queue
-  app.put("/api/queues/:id", async (req, res) => {
+  router.put("/queues/:id", audited("queue.update"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const id = parseInt(req.params.id);
       const validatedData = queueFormSchema.partial().parse(req.body);
-      const queue = await storage.updateQueue(id, validatedData);
+      const queues = await storage.getQueues();
+      const existing = queues.find(q => q.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Queue not found" });
+      }
+
+      // Renaming or moving a queue changes its path and those of its descendants
+      const placement = resolveQueuePlacement(
+        queues,
+        validatedData.name ?? existing.name,
+        "parent" in validatedData ? validatedData.parent : existing.parent,
+        existing,
+      );
+      if ("message" in placement) {
+        return res.status(placement.status).json({ message: placement.message });
+      }
+      const queue = await storage.updateQueue(id, { ...validatedData, ...placement });
       if (!queue) {
         return res.status(404).json({ message: "Queue not found" });
       }
+      describeAudit(res, { target: existing.path, changes: diffFields(existing, queue) });
+      if (placement.path !== existing.path) {
+        const rebase = (queuePath: string) => placement.path + queuePath.slice(existing.path.length);
+        for (const descendant of queues.filter(q => q.id !== id && isSameOrDescendantPath(q.path, existing.path))) {
+          await storage.updateQueue(descendant.id, {
+            path: rebase(descendant.path),
+            parent: descendant.parent ? rebase(descendant.parent) : null,
+          });
+        }
+      }
       
       // Note: XML sync will happen when changes are applied
-      console.log(`Updated queue: ${queue.name} (pending sync)`);
+      console.log(`Updated queue: ${queue.path} (pending sync)`);
       
       res.json(queue);
     } catch (error) {
@@ -87,13 +482,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete queue
-  app.delete("/api/queues/:id", async (req, res) => {
+  router.delete("/queues/:id", audited("queue.delete"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const id = parseInt(req.params.id);
+      const queues = await storage.getQueues();
+      const existing = queues.find(q => q.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Queue not found" });
+      }
+      // Children would be left under a parent that no longer exists
+      const children = queues.filter(q => q.parent === existing.path);
+      if (children.length > 0) {
+        return res.status(409).json({
+          message: `${existing.path} has child queues (${children.map(q => q.name).join(", ")}); delete or move them first`,
+        });
+      }
       const success = await storage.deleteQueue(id);
       if (!success) {
         return res.status(404).json({ message: "Queue not found" });
       }
+      describeAudit(res, { target: existing.path, changes: diffFields(existing, {}) });
       
       // Note: XML sync will happen when changes are applied
       console.log(`Deleted queue ID: ${id} (pending sync)`);
@@ -105,18 +514,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get current config file
-  app.get("/api/config", async (req, res) => {
+  router.get("/config", async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
     try {
       const configFile = await storage.getConfigFile();
       if (!configFile) {
         // Try to read from configured path
-        const configPath = process.env.FAIR_SCHEDULER_XML_PATH || '/etc/hadoop/conf/fair-scheduler.xml';
+        const configPath = cluster.configPath;
         
         try {
           console.log(`Attempting to read config from: ${configPath}`);
           const content = await storage.readConfigFromDisk(configPath);
           const validation = await validateXML(content);
-          
+
+          // A valid file is loaded the way a reload does, which also resets
+          // the synced state and the pending changes
+          if (validation.isValid) {
+            await storage.reloadFromDisk();
+            console.log(`Successfully loaded config from disk: ${configPath}`);
+            return res.json(await storage.getConfigFile());
+          }
+
           const newConfig = await storage.saveConfigFile({
             filePath: configPath,
             content,
@@ -124,19 +542,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
             lastModified: new Date().toISOString(),
             validationErrors: validation.errors ? JSON.stringify(validation.errors) : null,
           });
-          
-          // Parse and sync queues from XML if valid
-          if (validation.isValid) {
-            try {
-              const queuesFromXml = await parseQueuesFromXML(content);
-              await storage.syncQueuesFromXML(queuesFromXml);
-              console.log(`Synchronized ${queuesFromXml.length} queues from XML`);
-            } catch (parseError) {
-              console.warn("Failed to parse queues from XML:", parseError);
-            }
-          }
-          
-          console.log(`Successfully loaded config from disk: ${configPath}`);
           return res.json(newConfig);
         } catch (diskError) {
           console.warn(`Failed to read config from disk (${configPath}):`, diskError);
@@ -159,83 +564,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Save config file
-  app.post("/api/config", async (req, res) => {
+  // Save config file from the XML editor; like an upload it is staged as
+  // pending changes, to be applied through a change request
+  router.post("/config", audited("config.save"), requireRole("editor"), async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
     try {
-      const { content, filePath } = req.body;
-      
-      // Use configured path if no filePath provided
-      const targetPath = filePath || process.env.FAIR_SCHEDULER_XML_PATH || '/etc/hadoop/conf/fair-scheduler.xml';
-      
-      // Validate XML
-      const validation = await validateXML(content);
-      
-      // Save to memory
-      const configFile = await storage.saveConfigFile({
-        filePath: targetPath,
-        content,
-        isValid: validation.isValid,
-        lastModified: new Date().toISOString(),
-        validationErrors: validation.errors ? JSON.stringify(validation.errors) : null,
-      });
+      const { content } = req.body;
+      if (typeof content !== "string") {
+        return res.status(400).json({ message: "content is required" });
+      }
+      describeAudit(res, { target: cluster.configPath });
 
-      // Save to disk and sync queues if valid
-      if (validation.isValid) {
-        try {
-          console.log(`Writing config to disk: ${targetPath}`);
-          await storage.writeConfigToDisk(targetPath, content);
-          console.log(`Successfully wrote config to: ${targetPath}`);
-          
-          // Parse and sync queues from XML
-          try {
-            const queuesFromXml = await parseQueuesFromXML(content);
-            await storage.syncQueuesFromXML(queuesFromXml);
-            console.log(`Synchronized ${queuesFromXml.length} queues from saved XML`);
-          } catch (parseError) {
-            console.warn("Failed to parse queues from saved XML:", parseError);
-          }
-        } catch (diskError) {
-          console.error("Failed to write to disk:", diskError);
-          return res.status(500).json({ 
-            message: "Failed to write configuration to disk", 
-            error: diskError instanceof Error ? diskError.message : String(diskError)
-          });
-        }
+      const externalChanges = await checkExternalChanges(cluster, storage);
+      if (externalChanges.status === "changed") {
+        return res.status(409).json({
+          message: `${cluster.configPath} was changed outside the configurator; reload it before saving`,
+          externalChanges,
+        });
       }
 
-      res.json(configFile);
+      const validation = await validateXML(content);
+      if (!validation.isValid) {
+        return res.status(400).json({ message: "Not a valid allocation file", errors: validation.errors });
+      }
+
+      const settingsBefore = await snapshotSettings(storage);
+      const staged = await stageAllocationFile(storage, content, "Saved from XML editor", getRequestAuthor(req));
+      describeAudit(res, { target: cluster.configPath, changes: diffFields(settingsBefore, await snapshotSettings(storage)) });
+      console.log(`Staged the XML editor's file as ${staged.queues.length} pending queue changes`);
+
+      res.json(staged);
     } catch (error) {
       console.error("Failed to save configuration:", error);
       res.status(500).json({ message: "Failed to save configuration" });
     }
   });
 
-  // Upload config file
-  app.post("/api/config/upload", upload.single('configFile'), async (req, res) => {
+  // Upload config file; its queues, global settings and user limits are
+  // staged as pending changes, to be applied through a change request
+  router.post("/config/upload", audited("config.upload"), requireRole("editor"), upload.single('configFile'), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
       }
 
-      const content = req.file.buffer.toString('utf-8');
+      let content = req.file.buffer.toString('utf-8');
+      let issues: CapacitySchedulerImport["issues"] | undefined;
+
+      // capacity-scheduler.xml is imported as the equivalent allocation file,
+      // with the settings that could not be imported
+      if (req.body.format === 'capacity-scheduler') {
+        let imported: CapacitySchedulerImport;
+        try {
+          imported = importCapacityScheduler(await parseHadoopProperties(content));
+        } catch (error) {
+          return res.status(400).json({
+            message: "Not a valid capacity-scheduler.xml",
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        content = generateXMLFromQueues(imported.queues, imported.globalConfig, imported.userLimits);
+        issues = imported.issues;
+      }
+
       const validation = await validateXML(content);
+      if (!validation.isValid) {
+        return res.status(400).json({ message: "Not a valid allocation file", errors: validation.errors });
+      }
 
-      const configFile = await storage.saveConfigFile({
-        filePath: req.file.originalname,
-        content,
-        isValid: validation.isValid,
-        lastModified: new Date().toISOString(),
-        validationErrors: validation.errors ? JSON.stringify(validation.errors) : null,
-      });
+      const settingsBefore = await snapshotSettings(storage);
+      const staged = await stageAllocationFile(storage, content, `Uploaded ${req.file.originalname}`, getRequestAuthor(req));
+      describeAudit(res, { target: req.file.originalname, changes: diffFields(settingsBefore, await snapshotSettings(storage)) });
+      console.log(`Staged ${req.file.originalname} as ${staged.queues.length} pending queue changes`);
 
-      res.json(configFile);
+      res.json({ ...staged, issues });
     } catch (error) {
+      console.error("Failed to upload configuration:", error);
       res.status(500).json({ message: "Failed to upload configuration" });
     }
   });
 
   // Download config file
-  app.get("/api/config/download", async (req, res) => {
+  router.get("/config/download", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const configFile = await storage.getConfigFile();
       if (!configFile) {
@@ -252,11 +664,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Fair Scheduler configuration converted to capacity-scheduler.xml, as
+  // JSON with the conversion report or (format=xml) as the file itself
+  router.get("/convert/capacity-scheduler", async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      const query = capacitySchedulerConversionQuerySchema.parse(req.query);
+      const applied = query.config === "applied";
+      const queues = applied ? await storage.getSyncedQueues() : await storage.getQueues();
+      const globalConfig = applied ? await storage.getSyncedGlobalConfig() : await storage.getGlobalConfig();
+      const userLimits = applied ? await storage.getSyncedUserLimits() : await storage.getUserLimits();
+      const yarnSite = await findYarnSiteProperties(cluster.yarnSitePath);
+
+      const conversion: CapacitySchedulerConversion = {
+        capacities: query.capacities,
+        yarnSitePath: yarnSite?.path ?? null,
+        ...convertToCapacityScheduler(queues, globalConfig, userLimits, yarnSite?.properties ?? {}, query.capacities),
+      };
+      if (query.format === "xml") {
+        res.set({
+          'Content-Type': 'application/xml',
+          'Content-Disposition': 'attachment; filename="capacity-scheduler.xml"',
+          'X-Conversion-Issues': String(conversion.issues.length),
+        });
+        return res.send(formatHadoopConfiguration(conversion.properties, conversionReport(conversion)));
+      }
+      res.json(conversion);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to convert configuration:", error);
+      res.status(500).json({ message: "Failed to convert configuration" });
+    }
+  });
+
   // Validate XML
-  app.post("/api/config/validate", async (req, res) => {
+  router.post("/config/validate", async (req, res) => {
     try {
       const { content } = req.body;
-      const validation = await validateXML(content);
+      const validation = await validateConfiguration(content);
       res.json(validation);
     } catch (error) {
       res.status(500).json({ message: "Failed to validate XML" });
@@ -264,15 +711,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate XML from queues
-  app.get("/api/config/generate", async (req, res) => {
+  router.get("/config/generate", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       console.log('=== GENERATE XML ROUTE CALLED ===');
       const queues = await storage.getQueues();
       const globalConfig = await storage.getGlobalConfig();
       console.log('Retrieved queues from storage:', queues.length);
       console.log('Retrieved global config from storage:', globalConfig);
-      console.log('Queue details:', queues.map(q => ({ name: q.name, parent: q.parent })));
-      const xmlContent = generateXMLFromQueues(queues, globalConfig);
+      console.log('Queue details:', queues.map(q => ({ path: q.path, parent: q.parent })));
+      const base = await resolveAllocationBase(
+        await storage.getSyncedFile(),
+        await storage.getSyncedQueues(),
+        await storage.getSyncedUserLimits(),
+        await storage.getStagedFile(),
+      );
+      const xmlContent = await updateAllocationsXML(
+        base.content,
+        queues,
+        globalConfig,
+        base.queues,
+        await storage.getUserLimits(),
+        base.userLimits,
+      );
       console.log('Generated XML contains root:', xmlContent.includes('queue name="root"'));
       res.json({ content: xmlContent });
     } catch (error) {
@@ -281,10 +742,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // List configuration revisions, newest first
+  router.get("/config/revisions", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const revisions = await storage.getConfigRevisions();
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch configuration revisions" });
+    }
+  });
+
+  // Get a single configuration revision including its content
+  router.get("/config/revisions/:id", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const revision = await storage.getConfigRevision(id);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch configuration revision" });
+    }
+  });
+
+  // Restore a configuration revision: stage it as pending changes, to be
+  // applied through a change request
+  router.post("/config/revisions/:id/restore", audited("config.restore"), requireRole("editor"), async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const revision = await storage.getConfigRevision(id);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      if (await storage.hasPendingChanges() && !req.body?.force) {
+        return res.status(409).json({ message: "Apply or discard pending changes before restoring a revision" });
+      }
+      const externalChanges = await checkExternalChanges(cluster, storage);
+      if (externalChanges.status === "changed") {
+        return res.status(409).json({
+          message: `${cluster.configPath} was changed outside the configurator; reload it before restoring a revision`,
+          externalChanges,
+        });
+      }
+
+      const validation = await validateXML(revision.content);
+      if (!validation.isValid) {
+        return res.status(400).json({ message: "Revision content is not a valid configuration", errors: validation.errors });
+      }
+
+      const settingsBefore = await snapshotSettings(storage);
+      const staged = await stageAllocationFile(storage, revision.content, `Revision #${revision.id}`, getRequestAuthor(req));
+      describeAudit(res, { target: `revision #${revision.id}`, changes: diffFields(settingsBefore, await snapshotSettings(storage)) });
+      console.log(`Staged configuration revision #${revision.id} as ${staged.queues.length} pending queue changes`);
+
+      res.json(staged);
+    } catch (error) {
+      console.error("Failed to restore configuration revision:", error);
+      res.status(500).json({
+        message: "Failed to restore configuration revision",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // The post-apply hook of the cluster: its own, and the server default that
+  // runs when it has none
+  router.get("/post-apply-hook", async (req, res) => {
+    const { cluster } = clusterContext(res);
+    res.json({ clusterId: cluster.id, hook: cluster.postApplyHook, serverDefault: getDefaultPostApplyHook() });
+  });
+
+  // Run the post-apply hook again for the latest revision, e.g. after it failed
+  router.post("/config/revisions/:id/hook", audited("post-apply-hook.run"), requireRole("approver"), async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const [latest] = await storage.getConfigRevisions();
+      if (!latest || latest.id !== id) {
+        return res.status(409).json({ message: "The post-apply hook only runs for the latest revision" });
+      }
+      if (!resolvePostApplyHook(cluster)) {
+        return res.status(409).json({ message: `No post-apply hook is configured for ${cluster.name}` });
+      }
+      describeAudit(res, { target: `revision #${id}` });
+      const hookResult = await runPostApplyHook(cluster, storage, latest);
+      res.json({ ...latest, hookResult });
+    } catch (error) {
+      console.error("Failed to run post-apply hook:", error);
+      res.status(500).json({ message: "Failed to run post-apply hook" });
+    }
+  });
+
   // Reload configuration from disk
-  app.post("/api/config/reload", async (req, res) => {
+  router.post("/config/reload", audited("config.reload"), requireRole("editor"), async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
     try {
+      const settingsBefore = await snapshotSettings(storage);
       await storage.reloadFromDisk();
+      describeAudit(res, { target: cluster.configPath, changes: diffFields(settingsBefore, await snapshotSettings(storage)) });
       res.json({ message: "Configuration reloaded from disk successfully" });
     } catch (error) {
       console.error("Failed to reload configuration:", error);
@@ -295,8 +855,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Whether the allocation file was edited outside the configurator since it
+  // was last read or written
+  router.get("/config/external-changes", async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      res.json(await checkExternalChanges(cluster, storage));
+    } catch (error) {
+      console.error("Failed to check for external changes:", error);
+      res.status(500).json({ message: "Failed to check the allocation file for external changes" });
+    }
+  });
+
+  // Three-way merge of the pending changes with the edited allocation file
+  router.get("/config/merge", async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      res.json(await previewMerge(cluster, storage));
+    } catch (error) {
+      if (error instanceof ConfigMergeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Failed to preview merge:", error);
+      res.status(500).json({ message: "Failed to merge with the allocation file on disk" });
+    }
+  });
+
+  // Reload the edited allocation file and stage the merged pending changes
+  // on top of it
+  router.post("/config/merge", audited("config.merge"), requireRole("editor"), async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      const { diskHash, resolutions } = configMergeRequestSchema.parse(req.body);
+      const settingsBefore = await snapshotSettings(storage);
+      const merged = await mergeExternalChanges(cluster, storage, diskHash, resolutions);
+      describeAudit(res, { target: cluster.configPath, changes: diffFields(settingsBefore, await snapshotSettings(storage)) });
+      console.log(`Merged pending changes with ${cluster.configPath} (${merged.conflicts} conflicts resolved)`);
+      res.json(merged);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      if (error instanceof ConfigMergeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Failed to merge external changes:", error);
+      res.status(500).json({
+        message: "Failed to merge with the allocation file on disk",
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // Get pending changes count
-  app.get("/api/pending-changes", async (req, res) => {
+  router.get("/pending-changes", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const count = await storage.getPendingChangesCount();
       const hasPending = await storage.hasPendingChanges();
@@ -306,28 +919,322 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Apply pending changes
-  app.post("/api/pending-changes/apply", async (req, res) => {
+  // Review pending changes: field-level queue changes and the resulting XML diff.
+  // ?queueIds=1,2&globalConfig=true limits the XML diff to the chosen changes.
+  router.get("/pending-changes/diff", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
-      await storage.applyPendingChanges();
-      res.json({ message: "Pending changes applied successfully" });
+      const [pendingIds, queues, syncedQueues, globalConfig, syncedGlobalConfig, userLimits, syncedUserLimits, syncedFile, stagedFile] = await Promise.all([
+        storage.getPendingQueueIds(),
+        storage.getQueues(),
+        storage.getSyncedQueues(),
+        storage.getGlobalConfig(),
+        storage.getSyncedGlobalConfig(),
+        storage.getUserLimits(),
+        storage.getSyncedUserLimits(),
+        storage.getSyncedFile(),
+        storage.getStagedFile(),
+      ]);
+
+      // Per-user limits and a staged allocation file are reviewed and
+      // applied with the global settings
+      const globalConfigChanges = [
+        ...diffStagedFile(stagedFile),
+        ...diffGlobalConfig(syncedGlobalConfig, globalConfig),
+        ...diffUserLimits(syncedUserLimits, userLimits),
+      ];
+      const selected = resolvePendingSelection(parseSelectionQuery(req.query), pendingIds, globalConfigChanges.length > 0);
+      const base = await resolveAllocationBase(syncedFile, syncedQueues, syncedUserLimits, selected.globalConfig ? stagedFile : undefined);
+      const updatedContent = selected.queueIds.length > 0 || selected.globalConfig
+        ? await updateAllocationsXML(
+            base.content,
+            overlayQueueChanges(syncedQueues, queues, selected.queueIds),
+            selected.globalConfig ? globalConfig : syncedGlobalConfig,
+            base.queues,
+            selected.globalConfig ? userLimits : syncedUserLimits,
+            base.userLimits,
+          )
+        : null;
+      const xmlDiff = updatedContent !== null
+        ? createUnifiedXmlDiff(syncedFile?.content ?? "", updatedContent, path.basename(syncedFile?.filePath || "fair-scheduler.xml"))
+        : "";
+
+      const diff: PendingChangesDiff = {
+        filePath: syncedFile?.filePath ?? null,
+        queues: diffPendingQueues(pendingIds, queues, syncedQueues),
+        globalConfig: globalConfigChanges,
+        xmlDiff,
+        // Applying is refused while the resulting file has validation errors
+        validation: updatedContent !== null ? await validateConfiguration(updatedContent) : null,
+      };
+      res.json(diff);
     } catch (error) {
-      res.status(500).json({ message: "Failed to apply pending changes" });
+      console.error("Failed to diff pending changes:", error);
+      res.status(500).json({ message: "Failed to diff pending changes" });
     }
   });
 
-  // Discard pending changes
-  app.post("/api/pending-changes/discard", async (req, res) => {
+  // Discard pending changes; { queueIds, globalConfig } in the body reverts only those
+  router.post("/pending-changes/discard", audited("pending-changes.discard"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
-      await storage.discardPendingChanges();
+      const selection = parseSelectionBody(req.body);
+      const selectionError = await checkPendingSelection(storage, selection, "discard");
+      if (selectionError) {
+        return res.status(400).json(selectionError);
+      }
+
+      const settingsBefore = await snapshotSettings(storage);
+      await storage.discardPendingChanges(selection);
+      describeAudit(res, { target: null, changes: diffFields(settingsBefore, await snapshotSettings(storage)) });
       res.json({ message: "Pending changes discarded successfully" });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid change selection", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to discard pending changes" });
     }
   });
 
+  // Change requests: pending changes are written to the allocation file only
+  // through a change request approved by someone other than its author
+  router.get("/change-requests", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const requests = await storage.getChangeRequests();
+      res.json(await Promise.all(requests.map(request => summarizeChangeRequest(storage, request))));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch change requests" });
+    }
+  });
+
+  router.get("/change-requests/:id", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const request = await storage.getChangeRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Change request not found" });
+      }
+      const detail: ChangeRequestDetail = {
+        ...await summarizeChangeRequest(storage, request),
+        events: await storage.getChangeRequestEvents(request.id),
+      };
+      res.json(detail);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch change request" });
+    }
+  });
+
+  // Submit pending changes for review; { queueIds, globalConfig } in the body
+  // submits only those
+  router.post("/change-requests", audited("change-request.submit"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const { title, description, ...body } = changeRequestFormSchema.parse(req.body);
+      const selection = parseSelectionBody(body);
+      const selectionError = await checkPendingSelection(storage, selection, "apply");
+      if (selectionError) {
+        return res.status(400).json(selectionError);
+      }
+
+      const { queueIds, globalConfig, changes } = await diffSelectedChanges(storage, selection);
+      if (queueIds.length === 0 && !globalConfig) {
+        return res.status(400).json({ message: "There are no pending changes to submit" });
+      }
+      const claimedBy = findClaimingRequest(await storage.getChangeRequests(), { queueIds, globalConfig });
+      if (claimedBy) {
+        return res.status(409).json({ message: `Some of the changes are already in change request #${claimedBy.id}` });
+      }
+
+      const now = new Date().toISOString();
+      const author = getRequestAuthor(req);
+      const request = await storage.createChangeRequest({
+        title,
+        description,
+        author,
+        status: "open",
+        queueIds,
+        globalConfig,
+        changes,
+        fingerprint: fingerprintChanges(changes),
+        revisionId: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await storage.addChangeRequestEvent({ changeRequestId: request.id, type: "submitted", author, message: null, createdAt: now });
+      describeAudit(res, { target: `change request #${request.id}`, changes: flattenQueueChanges(changes.queues, changes.globalConfig) });
+      console.log(`${author} submitted change request #${request.id}: ${title}`);
+      res.status(201).json(await summarizeChangeRequest(storage, request));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to submit change request:", error);
+      res.status(500).json({ message: "Failed to submit change request" });
+    }
+  });
+
+  router.post("/change-requests/:id/comments", audited("change-request.comment"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const { message } = changeRequestCommentSchema.parse(req.body);
+      const request = await storage.getChangeRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Change request not found" });
+      }
+      const updated = await recordChangeRequestEvent(storage, request, { type: "commented", author: getRequestAuthor(req), message });
+      describeAudit(res, { target: `change request #${request.id}` });
+      res.status(201).json(await summarizeChangeRequest(storage, updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  router.post("/change-requests/:id/approve", audited("change-request.approve"), requireRole("approver"), async (req, res) => {
+    await decideChangeRequest(req, res, "approved");
+  });
+
+  router.post("/change-requests/:id/reject", audited("change-request.reject"), requireRole("approver"), async (req, res) => {
+    await decideChangeRequest(req, res, "rejected");
+  });
+
+  // Authors withdraw their own requests; approvers may withdraw any
+  router.post("/change-requests/:id/withdraw", audited("change-request.withdraw"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const { message } = changeRequestDecisionSchema.parse(req.body ?? {});
+      const request = await storage.getChangeRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Change request not found" });
+      }
+      const author = getRequestAuthor(req);
+      if (request.author !== author && !hasRole(req.user!.role, "approver")) {
+        return res.status(403).json({ message: "Only the author or an approver can withdraw a change request" });
+      }
+      if (!canRecordEvent(request, "withdrawn")) {
+        return res.status(409).json({ message: `Change request #${request.id} is ${request.status}` });
+      }
+      const updated = await recordChangeRequestEvent(storage, request, { type: "withdrawn", author, message });
+      describeAudit(res, { target: `change request #${request.id}`, changes: diffFields({ status: request.status }, { status: updated.status }) });
+      res.json(await summarizeChangeRequest(storage, updated));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to withdraw change request" });
+    }
+  });
+
+  // Write the changes of an approved request to the allocation file
+  router.post("/change-requests/:id/apply", audited("change-request.apply"), requireRole("approver"), async (req, res) => {
+    const { cluster, storage } = clusterContext(res);
+    try {
+      const request = await storage.getChangeRequest(parseInt(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Change request not found" });
+      }
+      if (!canRecordEvent(request, "applied")) {
+        return res.status(409).json({ message: "Only approved change requests can be applied" });
+      }
+      if (await isOutdated(storage, request)) {
+        return res.status(409).json({ message: "The changes were edited or discarded after they were submitted; withdraw the request and submit them again" });
+      }
+
+      const selection: PendingChangeSelection = { queueIds: request.queueIds, globalConfig: request.globalConfig };
+      const selectionError = await checkPendingSelection(storage, selection, "apply");
+      if (selectionError) {
+        return res.status(400).json(selectionError);
+      }
+      const externalChanges = await checkExternalChanges(cluster, storage);
+      if (externalChanges.status === "changed") {
+        return res.status(409).json({
+          message: `${cluster.configPath} was changed outside the configurator; merge the pending changes with it before applying`,
+          externalChanges,
+        });
+      }
+
+      const author = getRequestAuthor(req);
+      const revision = await storage.applyPendingChanges(author, selection);
+      const updated = await recordChangeRequestEvent(storage, request, { type: "applied", author }, { revisionId: revision?.id ?? null });
+      describeAudit(res, { target: `change request #${request.id}`, changes: flattenQueueChanges(request.changes.queues, request.changes.globalConfig) });
+      console.log(`${author} applied change request #${request.id}`);
+      const hook = revision ? await runPostApplyHook(cluster, storage, revision) : null;
+      res.json({ ...await summarizeChangeRequest(storage, updated), hook });
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        return res.status(400).json({
+          message: "The configuration would not be valid",
+          errors: error.validation.errors,
+          warnings: error.validation.warnings,
+        });
+      }
+      console.error("Failed to apply change request:", error);
+      res.status(500).json({ message: "Failed to apply change request" });
+    }
+  });
+
+  // Preview promoting another cluster's queue tree into this cluster
+  router.post("/promotion/preview", async (req, res) => {
+    try {
+      const resolved = await resolvePromotion(clusterContext(res), req.body);
+      if ("message" in resolved) {
+        const { status, ...body } = resolved;
+        return res.status(status).json(body);
+      }
+      res.json(resolved.plan.preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to preview promotion:", error);
+      res.status(500).json({ message: "Failed to preview promotion" });
+    }
+  });
+
+  // Stage another cluster's queue tree as pending changes of this cluster.
+  // They are reviewed and applied like any other pending change.
+  router.post("/promotion", audited("promotion.stage"), requireRole("editor"), async (req, res) => {
+    const target = clusterContext(res);
+    try {
+      if (await target.storage.hasPendingChanges()) {
+        return res.status(409).json({ message: `Apply or discard the pending changes of ${target.cluster.name} before promoting into it` });
+      }
+      const resolved = await resolvePromotion(target, req.body);
+      if ("message" in resolved) {
+        const { status, ...body } = resolved;
+        return res.status(status).json(body);
+      }
+
+      const { plan } = resolved;
+      if (!plan.preview.validation.isValid) {
+        return res.status(400).json({
+          message: "The configuration would not be valid",
+          errors: plan.preview.validation.errors,
+          warnings: plan.preview.validation.warnings,
+        });
+      }
+      await stagePromotion(target.storage, plan);
+      describeAudit(res, {
+        target: `${plan.preview.source.name} -> ${target.cluster.name}`,
+        changes: flattenQueueChanges(plan.preview.queues, plan.preview.globalConfig),
+      });
+      console.log(`Staged promotion from ${plan.preview.source.name} into ${target.cluster.name}: ${plan.preview.queues.length} queue changes`);
+      res.json(plan.preview);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to stage promotion:", error);
+      res.status(500).json({ message: "Failed to stage promotion" });
+    }
+  });
+
   // Global configuration endpoints
-  app.get("/api/global-config", async (req, res) => {
+  router.get("/global-config", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const globalConfig = await storage.getGlobalConfig();
       res.json(globalConfig);
@@ -336,11 +1243,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/global-config", async (req, res) => {
+  router.put("/global-config", audited("global-config.update"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const { globalConfigFormSchema } = await import("@shared/schema");
       const validatedData = globalConfigFormSchema.parse(req.body);
+      const previousConfig = await storage.getGlobalConfig();
       const updatedConfig = await storage.updateGlobalConfig(validatedData);
+      describeAudit(res, { target: "global", changes: diffGlobalConfig(previousConfig, updatedConfig) });
       res.json(updatedConfig);
     } catch (error) {
       console.error("Global config update error:", error);
@@ -351,10 +1261,293 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Where the placement policy would put an application. Evaluates either
+  // the configuration being edited or the last applied one.
+  router.post("/placement/simulate", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const request = placementSimulationRequestSchema.parse(req.body);
+      const applied = request.config === "applied";
+      const globalConfig = applied ? await storage.getSyncedGlobalConfig() : await storage.getGlobalConfig();
+      const queues = applied ? await storage.getSyncedQueues() : await storage.getQueues();
+      const simulation = simulatePlacement(
+        globalConfig.queuePlacementRules || DEFAULT_PLACEMENT_RULES,
+        globalConfig.defaultQueue || "default",
+        queues,
+        request,
+      );
+      res.json(simulation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to simulate placement" });
+    }
+  });
+
+  // Steady and instantaneous fair shares of every queue, for the given cluster
+  // resources or those reported by the ResourceManager
+  router.get("/analysis/fair-shares", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const query = fairShareQuerySchema.parse(req.query);
+      const manual = query.memoryMb !== undefined && query.vcores !== undefined
+        ? { memoryMb: query.memoryMb, vcores: query.vcores }
+        : null;
+      const resolved = await resolveClusterResources(storage, manual);
+      if ("error" in resolved) {
+        return res.status(400).json({ message: "Enter the cluster resources or enable the YARN connection", error: resolved.error });
+      }
+
+      const applied = query.config === "applied";
+      const globalConfig = applied ? await storage.getSyncedGlobalConfig() : await storage.getGlobalConfig();
+      const queues = applied ? await storage.getSyncedQueues() : await storage.getQueues();
+      const analysis: FairShareAnalysis = {
+        cluster: resolved.cluster,
+        clusterSource: resolved.source,
+        queues: calculateFairShares(queues, globalConfig.defaultQueueSchedulingPolicy || "fair", resolved.cluster, query.active ?? null),
+      };
+      res.json(analysis);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to calculate fair shares:", error);
+      res.status(500).json({ message: "Failed to calculate fair shares" });
+    }
+  });
+
+  // What-if scenarios: hypothetical demand and usage per queue
+  router.get("/analysis/scenarios", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const scenarios = await storage.getWhatIfScenarios();
+      res.json(scenarios);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch scenarios" });
+    }
+  });
+
+  router.get("/analysis/scenarios/:id", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const scenario = await storage.getWhatIfScenario(parseInt(req.params.id));
+      if (!scenario) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      res.json(scenario);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch scenario" });
+    }
+  });
+
+  router.post("/analysis/scenarios", audited("scenario.create"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const validatedData = insertWhatIfScenarioSchema.parse(req.body);
+      const scenarios = await storage.getWhatIfScenarios();
+      if (scenarios.some(scenario => scenario.name === validatedData.name)) {
+        return res.status(409).json({ message: `A scenario named ${validatedData.name} already exists` });
+      }
+      const scenario = await storage.createWhatIfScenario(validatedData);
+      describeAudit(res, { target: scenario.name, changes: diffFields({}, scenario) });
+      res.status(201).json(scenario);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create scenario" });
+    }
+  });
+
+  router.put("/analysis/scenarios/:id", audited("scenario.update"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = insertWhatIfScenarioSchema.partial().parse(req.body);
+      const scenarios = await storage.getWhatIfScenarios();
+      const existing = scenarios.find(scenario => scenario.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      if (validatedData.name && scenarios.some(scenario => scenario.id !== id && scenario.name === validatedData.name)) {
+        return res.status(409).json({ message: `A scenario named ${validatedData.name} already exists` });
+      }
+      const scenario = await storage.updateWhatIfScenario(id, validatedData);
+      if (!scenario) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      describeAudit(res, { target: existing.name, changes: diffFields(existing, scenario) });
+      res.json(scenario);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update scenario" });
+    }
+  });
+
+  router.delete("/analysis/scenarios/:id", audited("scenario.delete"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getWhatIfScenario(id);
+      const success = await storage.deleteWhatIfScenario(id);
+      if (!existing || !success) {
+        return res.status(404).json({ message: "Scenario not found" });
+      }
+      describeAudit(res, { target: existing.name, changes: diffFields(existing, {}) });
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete scenario" });
+    }
+  });
+
+  // Allocations, starvation and preemption under a saved scenario or one
+  // given inline, for the current or the last applied configuration
+  router.post("/analysis/what-if", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const request = whatIfRequestSchema.parse(req.body);
+      let demands = request.demands ?? [];
+      let manual = request.cluster ?? null;
+      if (request.scenarioId !== undefined) {
+        const scenario = await storage.getWhatIfScenario(request.scenarioId);
+        if (!scenario) {
+          return res.status(404).json({ message: "Scenario not found" });
+        }
+        demands = scenario.demands;
+        manual = request.cluster ?? scenario.cluster ?? null;
+      }
+
+      const applied = request.config === "applied";
+      const globalConfig = applied ? await storage.getSyncedGlobalConfig() : await storage.getGlobalConfig();
+      const queues = applied ? await storage.getSyncedQueues() : await storage.getQueues();
+      const unknown = unknownScenarioQueues(queues, demands);
+      if (unknown.length > 0) {
+        return res.status(400).json({
+          message: `Unknown ${unknown.length === 1 ? "queue" : "queues"} in the ${applied ? "applied" : "current"} configuration: ${unknown.join(", ")}`,
+        });
+      }
+
+      const resolved = await resolveClusterResources(storage, manual);
+      if ("error" in resolved) {
+        return res.status(400).json({ message: "Enter the cluster resources or enable the YARN connection", error: resolved.error });
+      }
+
+      const outcome = analyzeScenario(queues, globalConfig, resolved.cluster, demands);
+      const analysis: WhatIfAnalysis = {
+        cluster: resolved.cluster,
+        clusterSource: resolved.source,
+        config: request.config,
+        ...outcome,
+      };
+      res.json(analysis);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      console.error("Failed to analyze scenario:", error);
+      res.status(500).json({ message: "Failed to analyze scenario" });
+    }
+  });
+
+  // Per-user limits (<user> elements). Changes are pending with the global
+  // settings until applied.
+  router.get("/users", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const userLimits = await storage.getUserLimits();
+      res.json(userLimits);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user limits" });
+    }
+  });
+
+  router.get("/users/:id", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const userLimit = await storage.getUserLimit(id);
+      if (!userLimit) {
+        return res.status(404).json({ message: "User limit not found" });
+      }
+      res.json(userLimit);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch user limit" });
+    }
+  });
+
+  router.post("/users", audited("user-limit.create"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const validatedData = userLimitFormSchema.parse(req.body);
+      const userLimits = await storage.getUserLimits();
+      if (userLimits.some(user => user.name === validatedData.name)) {
+        return res.status(409).json({ message: `A limit for user ${validatedData.name} already exists` });
+      }
+      const userLimit = await storage.createUserLimit(validatedData);
+      describeAudit(res, { target: userLimit.name, changes: diffUserLimits([], [userLimit]) });
+      console.log(`Created limit for user: ${userLimit.name} (pending sync)`);
+      res.status(201).json(userLimit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create user limit" });
+    }
+  });
+
+  router.put("/users/:id", audited("user-limit.update"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const validatedData = userLimitFormSchema.partial().parse(req.body);
+      const userLimits = await storage.getUserLimits();
+      const existing = userLimits.find(user => user.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "User limit not found" });
+      }
+      if (validatedData.name && userLimits.some(user => user.id !== id && user.name === validatedData.name)) {
+        return res.status(409).json({ message: `A limit for user ${validatedData.name} already exists` });
+      }
+      const userLimit = await storage.updateUserLimit(id, validatedData);
+      if (!userLimit) {
+        return res.status(404).json({ message: "User limit not found" });
+      }
+      describeAudit(res, { target: existing.name, changes: diffUserLimits([existing], [userLimit]) });
+      console.log(`Updated limit for user: ${userLimit.name} (pending sync)`);
+      res.json(userLimit);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation failed", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update user limit" });
+    }
+  });
+
+  router.delete("/users/:id", audited("user-limit.delete"), requireRole("editor"), async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      const id = parseInt(req.params.id);
+      const existing = await storage.getUserLimit(id);
+      const success = await storage.deleteUserLimit(id);
+      if (!existing || !success) {
+        return res.status(404).json({ message: "User limit not found" });
+      }
+      describeAudit(res, { target: existing.name, changes: diffUserLimits([existing], []) });
+      console.log(`Deleted user limit ID: ${id} (pending sync)`);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete user limit" });
+    }
+  });
+
   // YARN Resource Manager Integration Routes
   
   // Get YARN connection settings
-  app.get("/api/yarn/connection", async (req, res) => {
+  router.get("/yarn/connection", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const connection = await storage.getYarnConnection();
       res.json(connection);
@@ -364,10 +1557,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update YARN connection settings
-  app.put("/api/yarn/connection", async (req, res) => {
+  router.put("/yarn/connection", audited("yarn-connection.update"), requireRole("admin"), async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const validatedData = yarnConnectionSchema.parse(req.body);
+      const previousConnection = await storage.getYarnConnection();
       const updatedConnection = await storage.updateYarnConnection(validatedData);
+      describeAudit(res, { target: "yarn connection", changes: diffFields(previousConnection, updatedConnection) });
       res.json(updatedConnection);
     } catch (error) {
       console.error("YARN connection update error:", error);
@@ -379,7 +1575,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test YARN connection
-  app.get("/api/yarn/test-connection", async (req, res) => {
+  router.get("/yarn/test-connection", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const connection = await storage.getYarnConnection();
       const client = new YarnResourceManagerClient(connection);
@@ -392,7 +1589,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get cluster metrics
-  app.get("/api/yarn/cluster-metrics", async (req, res) => {
+  router.get("/yarn/cluster-metrics", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const connection = await storage.getYarnConnection();
       const client = new YarnResourceManagerClient(connection);
@@ -408,7 +1606,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get queue metrics
-  app.get("/api/yarn/queue-metrics", async (req, res) => {
+  router.get("/yarn/queue-metrics", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const connection = await storage.getYarnConnection();
       const client = new YarnResourceManagerClient(connection);
@@ -425,7 +1624,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get applications by queue
-  app.get("/api/yarn/applications", async (req, res) => {
+  router.get("/yarn/applications", async (req, res) => {
+    const { storage } = clusterContext(res);
     try {
       const connection = await storage.getYarnConnection();
       const client = new YarnResourceManagerClient(connection);
@@ -446,10 +1646,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Whether the ResourceManager runs with the applied configuration
+  router.get("/yarn/drift", async (req, res) => {
+    const { storage } = clusterContext(res);
+    try {
+      res.json(await checkDrift(storage));
+    } catch (error) {
+      console.error("Drift check error:", error);
+      res.status(500).json({ message: "Failed to check for configuration drift" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
+// Approves or rejects a change request on behalf of the reviewer making the
+// request. Approving needs changes that are still as submitted.
+async function decideChangeRequest(req: Request, res: Response, decision: "approved" | "rejected") {
+  const { storage } = clusterContext(res);
+  try {
+    const { message } = changeRequestDecisionSchema.parse(req.body ?? {});
+    const request = await storage.getChangeRequest(parseInt(req.params.id));
+    if (!request) {
+      return res.status(404).json({ message: "Change request not found" });
+    }
+    const reviewer = getRequestAuthor(req);
+    if (!mayReview(request, reviewer)) {
+      return res.status(403).json({ message: "Change requests are reviewed by someone other than their author" });
+    }
+    if (!canRecordEvent(request, decision)) {
+      return res.status(409).json({ message: `Change request #${request.id} is ${request.status}` });
+    }
+    if (decision === "approved" && await isOutdated(storage, request)) {
+      return res.status(409).json({ message: "The changes were edited or discarded after they were submitted" });
+    }
+
+    const updated = await recordChangeRequestEvent(storage, request, { type: decision, author: reviewer, message });
+    describeAudit(res, { target: `change request #${request.id}`, changes: diffFields({ status: request.status }, { status: updated.status }) });
+    console.log(`${reviewer} ${decision} change request #${request.id}`);
+    res.json(await summarizeChangeRequest(storage, updated));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    res.status(500).json({ message: `Failed to ${decision === "approved" ? "approve" : "reject"} change request` });
+  }
+}
+
+// A request selects specific pending changes only when it names queue ids or
+// the global config; otherwise every pending change is affected.
+function parseSelectionBody(body: any): PendingChangeSelection | undefined {
+  if (body?.queueIds === undefined && body?.globalConfig === undefined) {
+    return undefined;
+  }
+  return pendingChangeSelectionSchema.parse({ queueIds: body.queueIds, globalConfig: body.globalConfig });
+}
+
+function parseSelectionQuery(query: Request["query"]): PendingChangeSelection | undefined {
+  if (query.queueIds === undefined && query.globalConfig === undefined) {
+    return undefined;
+  }
+  return {
+    queueIds: String(query.queueIds ?? "").split(",").filter(Boolean).map(id => parseInt(id)),
+    globalConfig: query.globalConfig === "true",
+  };
+}
+
+// Rejects selections naming queues without pending changes, or whose result
+// would leave a queue without its parent (e.g. applying a child queue but not
+// the new parent it belongs to).
+async function checkPendingSelection(storage: IStorage, selection: PendingChangeSelection | undefined, action: "apply" | "discard"): Promise<{ message: string } | null> {
+  if (!selection?.queueIds?.length) return null;
+
+  const pendingIds = await storage.getPendingQueueIds();
+  const unknownIds = selection.queueIds.filter(id => !pendingIds.includes(id));
+  if (unknownIds.length > 0) {
+    return { message: `Queues have no pending changes: ${unknownIds.join(", ")}` };
+  }
+
+  const [queues, syncedQueues] = await Promise.all([storage.getQueues(), storage.getSyncedQueues()]);
+  const [base, overlay] = action === "apply" ? [syncedQueues, queues] : [queues, syncedQueues];
+  const result = overlayQueueChanges(base, overlay, selection.queueIds);
+  const orphanedBefore = new Set(findOrphanedQueues(base).map(queue => queue.id));
+  const orphaned = findOrphanedQueues(result).filter(queue => !orphanedBefore.has(queue.id));
+  if (orphaned.length > 0) {
+    const names = orphaned.map(queue => `${queue.path} (parent ${queue.parent})`).join(", ");
+    return { message: `Cannot ${action} the selected changes without their parent queues: ${names}` };
+  }
+
+  const duplicatesBefore = new Set(findDuplicateQueuePaths(base));
+  const duplicates = findDuplicateQueuePaths(result).filter(queuePath => !duplicatesBefore.has(queuePath));
+  if (duplicates.length > 0) {
+    return { message: `Cannot ${action} the selected changes: more than one queue would use ${duplicates.join(", ")}` };
+  }
+  return null;
+}
+
+// Path and parent path for a queue named `name` under `parent` (a queue path,
+// defaulting to root), or the reason it cannot go there. `moving` is the
+// queue being renamed or moved, if any.
+function resolveQueuePlacement(
+  queues: Queue[],
+  name: string,
+  parent: string | null | undefined,
+  moving?: Queue,
+): { path: string; parent: string | null } | { status: number; message: string } {
+  const parentPath = parent || (name === "root" ? null : "root");
+  if (parentPath && !queues.some(queue => queue.path === parentPath)) {
+    return { status: 400, message: `Parent queue not found: ${parentPath}` };
+  }
+  if (moving && parentPath && isSameOrDescendantPath(parentPath, moving.path)) {
+    return { status: 400, message: `Cannot move ${moving.path} under itself` };
+  }
+
+  const queuePath = buildQueuePath(parentPath, name);
+  if (queues.some(queue => queue.path === queuePath && queue.id !== moving?.id)) {
+    return { status: 409, message: `A queue already exists at ${queuePath}` };
+  }
+  return { path: queuePath, parent: parentPath };
+}
+
+// Name recorded as the author of configuration revisions
+function getRequestAuthor(req: Request): string {
+  return req.user?.username ?? "anonymous";
+}
+
+function toAccountSummary({ passwordHash, ...account }: Account): AccountSummary {
+  return account;
+}
+
+function isLastAdmin(allAccounts: Account[], account: Account): boolean {
+  return !allAccounts.some(other => other.id !== account.id && other.role === "admin");
+}
+
 async function validateXML(content: string): Promise<{ isValid: boolean; errors?: string[] }> {
   return new Promise((resolve) => {
     parseString(content, { explicitArray: false }, (err: any, result: any) => {
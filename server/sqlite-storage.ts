@@ -0,0 +1,1138 @@
+import Database from "better-sqlite3";
+import { drizzle, type BetterSQLite3Database } from "drizzle-orm/better-sqlite3";
+import { eq, desc, count, sql, inArray, getTableColumns, and, gte, lte, type SQL } from "drizzle-orm";
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  queues,
+  globalConfig,
+  configFiles,
+  configRevisions,
+  yarnConnections,
+  pendingChanges,
+  syncedQueues,
+  syncedGlobalConfig,
+  userLimits,
+  syncedUserLimits,
+  syncedFile,
+  stagedFile,
+  whatIfScenarios,
+  changeRequests,
+  changeRequestEvents,
+  clusters,
+  accounts,
+  auditLog,
+  type Queue,
+  type InsertQueue,
+  type ConfigFile,
+  type InsertConfigFile,
+  type GlobalConfig,
+  type InsertGlobalConfig,
+  type YarnConnection,
+  type ConfigRevision,
+  type InsertConfigRevision,
+  type ConfigRevisionSummary,
+  type PendingChangeSelection,
+  type UserLimit,
+  type InsertUserLimit,
+  type WhatIfScenario,
+  type InsertWhatIfScenario,
+  type ChangeRequest,
+  type InsertChangeRequest,
+  type ChangeRequestEvent,
+  type InsertChangeRequestEvent,
+  type Cluster,
+  type InsertCluster,
+  type Account,
+  type InsertAccount,
+  type AuditEntry,
+  type InsertAuditEntry,
+  type SyncedFile,
+  type StagedFile,
+} from "@shared/schema";
+import type { AuditFilter } from "@shared/audit";
+import type { PostApplyHookResult } from "@shared/post-apply-hook";
+import type { IStorage, IClusterStore, IAccountStore, IAuditLog, ClusterSettings } from "./storage";
+import {
+  DEFAULT_CLUSTER_ID,
+  createMemorySessionStore,
+  getDefaultXMLContent,
+  getDefaultYarnConnection,
+  detectYarnConnection,
+  getFileModTime,
+  readConfigFile,
+  readOrCreateConfigFile,
+  writeConfigFile,
+  dedupeQueuesByPath,
+  toQueueValues,
+  assignQueuePaths,
+  legacyResourceValue,
+  upgradeLegacyResources,
+  legacyPlacementRules,
+  summarizePendingChanges,
+  resolvePendingSelection,
+  overlayQueueChanges,
+  fingerprintConfigFile,
+  findSyncedRevision,
+  isSameConfigPath,
+  resolveAllocationBase,
+} from "./storage-utils";
+import { diffGlobalConfig, diffUserLimits } from "./config-diff";
+
+// Tables are created on startup; columns added after the first release are
+// listed in COLUMN_UPGRADES so that existing database files get migrated.
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS queues (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    path TEXT NOT NULL,
+    parent TEXT,
+    weight REAL DEFAULT 1.0,
+    scheduling_policy TEXT DEFAULT 'fair',
+    min_resources TEXT,
+    max_resources TEXT,
+    max_running_apps INTEGER,
+    max_am_share REAL,
+    allow_preemption_from INTEGER DEFAULT 0,
+    allow_preemption_to INTEGER DEFAULT 0,
+    min_share_preemption_timeout INTEGER,
+    fair_share_preemption_timeout INTEGER,
+    fair_share_preemption_threshold REAL,
+    reservation INTEGER DEFAULT 0,
+    acl_submit_apps TEXT,
+    acl_administer_apps TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS global_config (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    default_queue_scheduling_policy TEXT DEFAULT 'fair',
+    user_max_apps_default INTEGER DEFAULT 5,
+    queue_max_apps_default INTEGER,
+    queue_max_am_share_default REAL,
+    default_min_share_preemption_timeout INTEGER,
+    default_fair_share_preemption_timeout INTEGER,
+    default_fair_share_preemption_threshold REAL,
+    queue_placement_rules TEXT DEFAULT '[{"name":"specified"},{"name":"user"},{"name":"default"}]',
+    default_queue TEXT DEFAULT 'default'
+  );
+
+  CREATE TABLE IF NOT EXISTS user_limits (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    max_running_apps INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS config_files (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_path TEXT NOT NULL,
+    content TEXT NOT NULL,
+    is_valid INTEGER DEFAULT 1,
+    last_modified TEXT,
+    validation_errors TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS config_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    file_path TEXT NOT NULL,
+    content TEXT NOT NULL,
+    author TEXT NOT NULL,
+    summary TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    restored_from_id INTEGER,
+    hook_result TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS yarn_connection (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    resource_manager_host TEXT NOT NULL,
+    resource_manager_port INTEGER NOT NULL DEFAULT 8088,
+    enabled INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS pending_changes (
+    queue_id INTEGER PRIMARY KEY
+  );
+
+  CREATE TABLE IF NOT EXISTS synced_queues (
+    queue_id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS synced_global_config (
+    id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS synced_user_limits (
+    user_limit_id INTEGER PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS synced_file (
+    id INTEGER PRIMARY KEY,
+    file_path TEXT NOT NULL,
+    content TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    modified_at TEXT NOT NULL,
+    synced_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS staged_file (
+    id INTEGER PRIMARY KEY,
+    source TEXT NOT NULL,
+    content TEXT NOT NULL,
+    hash TEXT NOT NULL,
+    queue_ids TEXT NOT NULL,
+    user_limit_ids TEXT NOT NULL,
+    author TEXT NOT NULL,
+    staged_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS what_if_scenarios (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT,
+    cluster TEXT,
+    demands TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS change_requests (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    title TEXT NOT NULL,
+    description TEXT,
+    author TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    queue_ids TEXT NOT NULL,
+    global_config INTEGER NOT NULL DEFAULT 0,
+    changes TEXT NOT NULL,
+    fingerprint TEXT NOT NULL,
+    revision_id INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS change_request_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    change_request_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    author TEXT NOT NULL,
+    message TEXT,
+    created_at TEXT NOT NULL
+  );
+`;
+
+const COLUMN_UPGRADES: { table: string; column: string; definition: string }[] = [
+  { table: "queues", column: "acl_submit_apps", definition: "TEXT" },
+  { table: "queues", column: "acl_administer_apps", definition: "TEXT" },
+  { table: "queues", column: "path", definition: "TEXT" },
+  { table: "queues", column: "min_share_preemption_timeout", definition: "INTEGER" },
+  { table: "queues", column: "fair_share_preemption_timeout", definition: "INTEGER" },
+  { table: "queues", column: "fair_share_preemption_threshold", definition: "REAL" },
+  { table: "global_config", column: "default_min_share_preemption_timeout", definition: "INTEGER" },
+  { table: "global_config", column: "default_fair_share_preemption_timeout", definition: "INTEGER" },
+  { table: "global_config", column: "default_fair_share_preemption_threshold", definition: "REAL" },
+  { table: "queues", column: "min_resources", definition: "TEXT" },
+  { table: "queues", column: "max_resources", definition: "TEXT" },
+  { table: "config_revisions", column: "hook_result", definition: "TEXT" },
+];
+
+const LEGACY_RESOURCE_COLUMNS = ["min_memory", "min_vcores", "max_memory", "max_vcores"];
+
+/**
+ * SQLite-backed storage. Queues, pending changes, the last applied queue
+ * state, global configuration and YARN connection settings all survive a
+ * restart; the allocation file itself is still written to disk on apply.
+ */
+export class SqliteStorage implements IStorage {
+  private sqlite: Database.Database;
+  private db: BetterSQLite3Database;
+  private defaultConfigPath: string;
+  private yarnSitePath: string | null;
+  private ready: Promise<void>;
+
+  constructor(dbPath: string, settings: ClusterSettings) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    this.sqlite = new Database(dbPath);
+    this.createSchema(this.sqlite);
+    this.db = drizzle(this.sqlite);
+    this.defaultConfigPath = settings.configPath;
+    this.yarnSitePath = settings.yarnSitePath;
+    this.ready = this.initialize();
+  }
+
+  private createSchema(sqlite: Database.Database): void {
+    sqlite.exec(SCHEMA_SQL);
+
+    for (const upgrade of COLUMN_UPGRADES) {
+      const columns = sqlite.prepare(`PRAGMA table_info(${upgrade.table})`).all() as { name: string }[];
+      if (!columns.some(column => column.name === upgrade.column)) {
+        console.log(`Adding column ${upgrade.table}.${upgrade.column}`);
+        sqlite.exec(`ALTER TABLE ${upgrade.table} ADD COLUMN ${upgrade.column} ${upgrade.definition}`);
+      }
+    }
+
+    this.migrateQueuePaths(sqlite);
+    this.migrateResourceValues(sqlite);
+    this.migratePlacementRules(sqlite);
+    sqlite.exec(`CREATE UNIQUE INDEX IF NOT EXISTS queues_path_unique ON queues (path)`);
+  }
+
+  // Queues used to be identified by bare name with `parent` holding the
+  // parent's name. Rows from that era get a full path and a parent path,
+  // both in the live table and in the applied snapshot.
+  private migrateQueuePaths(sqlite: Database.Database): void {
+    const legacyRows = sqlite.prepare(`SELECT count(*) AS total FROM queues WHERE path IS NULL`).get() as { total: number };
+    const legacySnapshot = sqlite.prepare(`SELECT count(*) AS total FROM synced_queues WHERE json_extract(data, '$.path') IS NULL`).get() as { total: number };
+    if (legacyRows.total === 0 && legacySnapshot.total === 0) return;
+
+    console.log(`Migrating ${legacyRows.total} queues and ${legacySnapshot.total} applied queues to path identity`);
+    sqlite.transaction(() => {
+      if (legacyRows.total > 0) {
+        const rows = sqlite.prepare(`SELECT id, name, parent FROM queues`).all() as { id: number; name: string; parent: string | null }[];
+        const update = sqlite.prepare(`UPDATE queues SET path = ?, parent = ? WHERE id = ?`);
+        for (const row of assignQueuePaths(rows)) {
+          update.run(row.path, row.parent, row.id);
+        }
+      }
+
+      if (legacySnapshot.total > 0) {
+        const rows = (sqlite.prepare(`SELECT queue_id, data FROM synced_queues`).all() as { queue_id: number; data: string }[])
+          .map(row => JSON.parse(row.data) as Queue);
+        const update = sqlite.prepare(`UPDATE synced_queues SET data = ? WHERE queue_id = ?`);
+        for (const queue of assignQueuePaths(rows)) {
+          update.run(JSON.stringify(queue), queue.id);
+        }
+      }
+    })();
+  }
+
+  // Resources used to be stored as separate memory and vcores columns. Carry
+  // them over as absolute resource values and drop the old columns.
+  private migrateResourceValues(sqlite: Database.Database): void {
+    const columns = (sqlite.prepare(`PRAGMA table_info(queues)`).all() as { name: string }[]).map(column => column.name);
+    const legacyColumns = LEGACY_RESOURCE_COLUMNS.filter(column => columns.includes(column));
+    const legacySnapshot = sqlite.prepare(
+      `SELECT count(*) AS total FROM synced_queues WHERE json_type(data, '$.minMemory') IS NOT NULL OR json_type(data, '$.maxMemory') IS NOT NULL`
+    ).get() as { total: number };
+    if (legacyColumns.length === 0 && legacySnapshot.total === 0) return;
+
+    console.log(`Migrating queue resources to resource values`);
+    sqlite.transaction(() => {
+      if (legacyColumns.length === LEGACY_RESOURCE_COLUMNS.length) {
+        const rows = sqlite.prepare(`SELECT id, min_memory, min_vcores, max_memory, max_vcores FROM queues`).all() as {
+          id: number; min_memory: number | null; min_vcores: number | null; max_memory: number | null; max_vcores: number | null;
+        }[];
+        const update = sqlite.prepare(`UPDATE queues SET min_resources = ?, max_resources = ? WHERE id = ?`);
+        for (const row of rows) {
+          const minResources = legacyResourceValue(row.min_memory, row.min_vcores);
+          const maxResources = legacyResourceValue(row.max_memory, row.max_vcores);
+          update.run(minResources && JSON.stringify(minResources), maxResources && JSON.stringify(maxResources), row.id);
+        }
+      }
+      for (const column of legacyColumns) {
+        sqlite.exec(`ALTER TABLE queues DROP COLUMN ${column}`);
+      }
+
+      if (legacySnapshot.total > 0) {
+        const rows = sqlite.prepare(`SELECT queue_id, data FROM synced_queues`).all() as { queue_id: number; data: string }[];
+        const update = sqlite.prepare(`UPDATE synced_queues SET data = ? WHERE queue_id = ?`);
+        for (const row of rows) {
+          update.run(JSON.stringify(upgradeLegacyResources(JSON.parse(row.data))), row.queue_id);
+        }
+      }
+    })();
+  }
+
+  // Placement rules used to be stored as a comma-separated string. Convert
+  // them to rule lists in the live row and in the applied snapshot.
+  private migratePlacementRules(sqlite: Database.Database): void {
+    const legacyRows = sqlite.prepare(
+      `SELECT id, queue_placement_rules AS rules FROM global_config WHERE queue_placement_rules IS NULL OR json_valid(queue_placement_rules) = 0`
+    ).all() as { id: number; rules: string | null }[];
+    const legacySnapshot = sqlite.prepare(
+      `SELECT id, data FROM synced_global_config WHERE json_type(data, '$.queuePlacementRules') IN ('text', 'null')`
+    ).all() as { id: number; data: string }[];
+    if (legacyRows.length === 0 && legacySnapshot.length === 0) return;
+
+    console.log(`Migrating queue placement rules to rule lists`);
+    sqlite.transaction(() => {
+      const updateRow = sqlite.prepare(`UPDATE global_config SET queue_placement_rules = ? WHERE id = ?`);
+      for (const row of legacyRows) {
+        updateRow.run(JSON.stringify(legacyPlacementRules(row.rules)), row.id);
+      }
+
+      const updateSnapshot = sqlite.prepare(`UPDATE synced_global_config SET data = ? WHERE id = ?`);
+      for (const row of legacySnapshot) {
+        const data = JSON.parse(row.data);
+        updateSnapshot.run(JSON.stringify({ ...data, queuePlacementRules: legacyPlacementRules(data.queuePlacementRules) }), row.id);
+      }
+    })();
+  }
+
+  private async initialize(): Promise<void> {
+    try {
+      const existingConfig = this.db.select().from(configFiles).get();
+      if (existingConfig) {
+        console.log(`Restored configuration state from SQLite (${existingConfig.filePath})`);
+        this.ensureSyncedSnapshot();
+        await this.ensureUserLimits();
+      } else {
+        await this.loadConfigFromDisk();
+      }
+      await this.ensureInitialRevision();
+      this.ensureSyncedFile();
+
+      if (!this.db.select().from(globalConfig).get()) {
+        this.db.insert(globalConfig).values({}).run();
+      }
+      if (!this.db.select().from(syncedGlobalConfig).get()) {
+        this.saveSyncedGlobalConfig();
+      }
+
+      if (!this.db.select().from(yarnConnections).get()) {
+        const detected = await detectYarnConnection(this.yarnSitePath);
+        this.db.insert(yarnConnections).values(detected ?? getDefaultYarnConnection()).run();
+      }
+    } catch (error) {
+      console.error('Failed to initialize SQLite storage:', error);
+      throw error;
+    }
+  }
+
+  // Databases created before pending changes were persisted have queues but
+  // no snapshot; treat their current queues as the applied state.
+  private ensureSyncedSnapshot(): void {
+    const snapshot = this.db.select({ total: count() }).from(syncedQueues).get();
+    const pending = this.db.select({ total: count() }).from(pendingChanges).get();
+    if ((snapshot?.total ?? 0) === 0 && (pending?.total ?? 0) === 0) {
+      this.saveSyncedSnapshot();
+    }
+  }
+
+  // Databases created before per-user limits were modelled have none; take
+  // them from the stored allocation file.
+  private async ensureUserLimits(): Promise<void> {
+    const current = this.db.select({ total: count() }).from(userLimits).get();
+    const snapshot = this.db.select({ total: count() }).from(syncedUserLimits).get();
+    if ((current?.total ?? 0) > 0 || (snapshot?.total ?? 0) > 0) return;
+
+    const configFile = this.db.select().from(configFiles).orderBy(desc(configFiles.id)).limit(1).get();
+    if (!configFile) return;
+    try {
+      const { parseUserLimitsFromXML } = await import('./xml-utils');
+      await this.syncUserLimitsFromXML(await parseUserLimitsFromXML(configFile.content));
+      this.saveSyncedGlobalConfig();
+    } catch (parseError) {
+      console.error('Failed to parse user limits from stored configuration:', parseError);
+    }
+  }
+
+  private saveSyncedSnapshot(): void {
+    this.db.transaction((tx) => {
+      tx.delete(syncedQueues).run();
+      for (const queue of tx.select().from(queues).all()) {
+        tx.insert(syncedQueues).values({ queueId: queue.id, data: queue }).run();
+      }
+    });
+    this.saveSyncedGlobalConfig();
+  }
+
+  // Snapshots the global configuration together with the per-user limits,
+  // which are applied with it
+  private saveSyncedGlobalConfig(): void {
+    const current = this.db.select().from(globalConfig).get();
+    if (!current) return;
+    this.db.transaction((tx) => {
+      tx.insert(syncedGlobalConfig).values({ id: 1, data: current })
+        .onConflictDoUpdate({ target: syncedGlobalConfig.id, set: { data: current } })
+        .run();
+      tx.delete(syncedUserLimits).run();
+      for (const user of tx.select().from(userLimits).all()) {
+        tx.insert(syncedUserLimits).values({ userLimitId: user.id, data: user }).run();
+      }
+    });
+  }
+
+  // Move the given queue ids from pending to the synced snapshot
+  private markSynced(queueIds: number[]): void {
+    if (queueIds.length === 0) return;
+    this.db.transaction((tx) => {
+      tx.delete(syncedQueues).where(inArray(syncedQueues.queueId, queueIds)).run();
+      for (const queue of tx.select().from(queues).where(inArray(queues.id, queueIds)).all()) {
+        tx.insert(syncedQueues).values({ queueId: queue.id, data: queue }).run();
+      }
+      tx.delete(pendingChanges).where(inArray(pendingChanges.queueId, queueIds)).run();
+    });
+  }
+
+  // Record the configuration found at startup as the first revision
+  private async ensureInitialRevision(): Promise<void> {
+    if (this.db.select().from(configRevisions).get()) return;
+
+    const configFile = this.db.select().from(configFiles).orderBy(desc(configFiles.id)).limit(1).get();
+    if (configFile) {
+      await this.createConfigRevision({
+        filePath: configFile.filePath,
+        content: configFile.content,
+        author: "system",
+        summary: `Loaded from ${configFile.filePath}`,
+        createdAt: configFile.lastModified ?? new Date().toISOString(),
+        restoredFromId: null,
+      });
+    }
+  }
+
+  // Databases from before the synced file was recorded take it from the
+  // latest revision
+  private ensureSyncedFile(): void {
+    if (this.db.select({ id: syncedFile.id }).from(syncedFile).get()) return;
+    const revisions = this.db.select().from(configRevisions).orderBy(desc(configRevisions.id)).all();
+    const synced = findSyncedRevision(revisions, this.defaultConfigPath);
+    if (synced) {
+      this.recordSyncedFile(synced);
+    }
+  }
+
+  private markPending(queueId: number): void {
+    this.db.insert(pendingChanges).values({ queueId }).onConflictDoNothing().run();
+  }
+
+  private recordSyncedFile(file: SyncedFile): void {
+    this.db.insert(syncedFile).values({ id: 1, ...file })
+      .onConflictDoUpdate({ target: syncedFile.id, set: file })
+      .run();
+  }
+
+  private async loadConfigFromDisk(): Promise<void> {
+    const xmlContent = await readOrCreateConfigFile(this.defaultConfigPath);
+    const actualModTime = await getFileModTime(this.defaultConfigPath);
+    this.recordSyncedFile(await fingerprintConfigFile(this.defaultConfigPath, xmlContent));
+
+    this.db.insert(configFiles).values({
+      filePath: this.defaultConfigPath,
+      content: xmlContent,
+      isValid: true,
+      lastModified: actualModTime,
+      validationErrors: null,
+    }).run();
+
+    try {
+      const { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } = await import('./xml-utils');
+
+      const { id, ...parsedGlobalConfig } = await parseGlobalConfigFromXML(xmlContent);
+      this.db.delete(globalConfig).run();
+      this.db.insert(globalConfig).values(parsedGlobalConfig).run();
+      await this.syncUserLimitsFromXML(await parseUserLimitsFromXML(xmlContent));
+
+      const parsedQueues = await parseQueuesFromXML(xmlContent);
+      await this.syncQueuesFromXML(parsedQueues);
+      this.saveSyncedSnapshot();
+
+      console.log(`Synchronized ${parsedQueues.length} queues from XML file`);
+    } catch (parseError) {
+      console.error('Failed to parse XML, keeping existing queues:', parseError);
+    }
+  }
+
+  async getQueues(): Promise<Queue[]> {
+    await this.ready;
+    return this.db.select().from(queues).all();
+  }
+
+  async getQueue(id: number): Promise<Queue | undefined> {
+    await this.ready;
+    return this.db.select().from(queues).where(eq(queues.id, id)).get();
+  }
+
+  async createQueue(insertQueue: InsertQueue): Promise<Queue> {
+    await this.ready;
+    const queue = this.db.insert(queues).values(toQueueValues(insertQueue)).returning().get();
+    this.markPending(queue.id);
+    return queue;
+  }
+
+  async updateQueue(id: number, updateData: Partial<InsertQueue>): Promise<Queue | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getQueue(id);
+    }
+
+    const queue = this.db.update(queues).set(updateData).where(eq(queues.id, id)).returning().get();
+    if (!queue) return undefined;
+
+    this.markPending(id);
+    return queue;
+  }
+
+  async deleteQueue(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = this.db.delete(queues).where(eq(queues.id, id)).returning().all();
+    if (deleted.length > 0) {
+      this.markPending(id);
+    }
+    return deleted.length > 0;
+  }
+
+  async getConfigFile(): Promise<ConfigFile | undefined> {
+    await this.ready;
+    return this.db.select().from(configFiles).orderBy(desc(configFiles.id)).limit(1).get();
+  }
+
+  async saveConfigFile(config: InsertConfigFile): Promise<ConfigFile> {
+    return this.db.insert(configFiles).values({
+      ...config,
+      isValid: config.isValid ?? null,
+      lastModified: config.lastModified ?? null,
+      validationErrors: config.validationErrors ?? null,
+    }).returning().get();
+  }
+
+  async readConfigFromDisk(filePath: string): Promise<string> {
+    return readConfigFile(filePath);
+  }
+
+  async writeConfigToDisk(filePath: string, content: string): Promise<void> {
+    await writeConfigFile(filePath, content);
+    if (isSameConfigPath(filePath, this.defaultConfigPath)) {
+      this.recordSyncedFile(await fingerprintConfigFile(filePath, content));
+    }
+  }
+
+  async getSyncedFile(): Promise<SyncedFile | undefined> {
+    await this.ready;
+    const row = this.db.select().from(syncedFile).get();
+    if (!row) return undefined;
+    const { id, ...file } = row;
+    return file;
+  }
+
+  async getStagedFile(): Promise<StagedFile | undefined> {
+    await this.ready;
+    const row = this.db.select().from(stagedFile).get();
+    if (!row) return undefined;
+    const { id, ...file } = row;
+    return file;
+  }
+
+  async stageFile(file: StagedFile): Promise<void> {
+    await this.ready;
+    this.db.insert(stagedFile).values({ id: 1, ...file })
+      .onConflictDoUpdate({ target: stagedFile.id, set: file })
+      .run();
+  }
+
+  getDefaultXMLContent(): string {
+    return getDefaultXMLContent();
+  }
+
+  async syncQueuesFromXML(xmlQueues: any[]): Promise<void> {
+    console.log(`Syncing ${xmlQueues.length} queues from XML to SQLite storage`);
+    const uniqueQueues = dedupeQueuesByPath(xmlQueues);
+
+    this.db.transaction((tx) => {
+      tx.delete(queues).run();
+      // Restart ids at 1, matching the in-memory storage
+      tx.run(sql`DELETE FROM sqlite_sequence WHERE name = 'queues'`);
+      for (const queue of uniqueQueues) {
+        tx.insert(queues).values(toQueueValues(queue)).run();
+      }
+    });
+
+    console.log(`Synchronized ${uniqueQueues.length} unique queues to SQLite storage`);
+  }
+
+  async reloadFromDisk(): Promise<void> {
+    await this.ready;
+    console.log(`Reloading configuration from disk: ${this.defaultConfigPath}`);
+
+    try {
+      const xmlContent = await readConfigFile(this.defaultConfigPath);
+      const actualModTime = await getFileModTime(this.defaultConfigPath);
+
+      await this.saveConfigFile({
+        filePath: this.defaultConfigPath,
+        content: xmlContent,
+        isValid: true,
+        lastModified: actualModTime,
+        validationErrors: null,
+      });
+
+      const { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } = await import('./xml-utils');
+
+      const { id, ...parsedGlobalConfig } = await parseGlobalConfigFromXML(xmlContent);
+      await this.updateGlobalConfig(parsedGlobalConfig);
+      await this.syncUserLimitsFromXML(await parseUserLimitsFromXML(xmlContent));
+
+      const parsedQueues = await parseQueuesFromXML(xmlContent);
+      await this.syncQueuesFromXML(parsedQueues);
+
+      this.db.delete(pendingChanges).run();
+      this.db.delete(stagedFile).run();
+      this.saveSyncedSnapshot();
+      this.recordSyncedFile(await fingerprintConfigFile(this.defaultConfigPath, xmlContent));
+
+      console.log(`Successfully reloaded ${parsedQueues.length} queues from disk`);
+    } catch (error) {
+      console.error('Failed to reload from disk:', error);
+      throw new Error(`Failed to reload configuration from disk: ${error}`);
+    }
+  }
+
+  async getGlobalConfig(): Promise<GlobalConfig> {
+    await this.ready;
+    const config = this.db.select().from(globalConfig).get();
+    if (config) return config;
+    return this.db.insert(globalConfig).values({}).returning().get();
+  }
+
+  async updateGlobalConfig(config: Partial<InsertGlobalConfig>): Promise<GlobalConfig> {
+    const current = await this.getGlobalConfig();
+    if (Object.keys(config).length === 0) return current;
+    return this.db.update(globalConfig).set(config).where(eq(globalConfig.id, current.id)).returning().get();
+  }
+
+  // Per-user limits are pending and applied together with the global configuration
+  async getUserLimits(): Promise<UserLimit[]> {
+    await this.ready;
+    return this.db.select().from(userLimits).orderBy(userLimits.name).all();
+  }
+
+  async getUserLimit(id: number): Promise<UserLimit | undefined> {
+    await this.ready;
+    return this.db.select().from(userLimits).where(eq(userLimits.id, id)).get();
+  }
+
+  async createUserLimit(insertUserLimit: InsertUserLimit): Promise<UserLimit> {
+    await this.ready;
+    return this.db.insert(userLimits).values(insertUserLimit).returning().get();
+  }
+
+  async updateUserLimit(id: number, updateData: Partial<InsertUserLimit>): Promise<UserLimit | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getUserLimit(id);
+    }
+    return this.db.update(userLimits).set(updateData).where(eq(userLimits.id, id)).returning().get();
+  }
+
+  async deleteUserLimit(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = this.db.delete(userLimits).where(eq(userLimits.id, id)).returning().all();
+    return deleted.length > 0;
+  }
+
+  async syncUserLimitsFromXML(xmlUserLimits: any[]): Promise<void> {
+    this.db.transaction((tx) => {
+      tx.delete(userLimits).run();
+      tx.run(sql`DELETE FROM sqlite_sequence WHERE name = 'user_limits'`);
+      for (const user of xmlUserLimits) {
+        tx.insert(userLimits).values({ name: user.name, maxRunningApps: user.maxRunningApps }).run();
+      }
+    });
+  }
+
+  private async isGlobalConfigPending(): Promise<boolean> {
+    return !!(await this.getStagedFile())
+      || diffGlobalConfig(await this.getSyncedGlobalConfig(), await this.getGlobalConfig()).length > 0
+      || diffUserLimits(await this.getSyncedUserLimits(), await this.getUserLimits()).length > 0;
+  }
+
+  async getPendingChangesCount(): Promise<number> {
+    await this.ready;
+    const result = this.db.select({ total: count() }).from(pendingChanges).get();
+    return (result?.total ?? 0) + (await this.isGlobalConfigPending() ? 1 : 0);
+  }
+
+  async hasPendingChanges(): Promise<boolean> {
+    return (await this.getPendingChangesCount()) > 0;
+  }
+
+  async getPendingQueueIds(): Promise<number[]> {
+    await this.ready;
+    return this.db.select().from(pendingChanges).all().map(change => change.queueId);
+  }
+
+  async getSyncedQueues(): Promise<Queue[]> {
+    await this.ready;
+    return this.db.select().from(syncedQueues).orderBy(syncedQueues.queueId).all().map(row => row.data);
+  }
+
+  async getSyncedGlobalConfig(): Promise<GlobalConfig> {
+    await this.ready;
+    const synced = this.db.select().from(syncedGlobalConfig).get();
+    return synced?.data ?? this.getGlobalConfig();
+  }
+
+  async getSyncedUserLimits(): Promise<UserLimit[]> {
+    await this.ready;
+    return this.db.select().from(syncedUserLimits).orderBy(syncedUserLimits.userLimitId).all().map(row => row.data);
+  }
+
+  async applyPendingChanges(author: string = "anonymous", selection?: PendingChangeSelection): Promise<ConfigRevision | undefined> {
+    const { queueIds, globalConfig: applyGlobalConfig } = resolvePendingSelection(
+      selection, await this.getPendingQueueIds(), await this.isGlobalConfigPending());
+    if (queueIds.length === 0 && !applyGlobalConfig) return undefined;
+
+    try {
+      const allQueues = await this.getQueues();
+      const snapshot = await this.getSyncedQueues();
+      const globalConfigToWrite = applyGlobalConfig ? await this.getGlobalConfig() : await this.getSyncedGlobalConfig();
+      const syncedUsers = await this.getSyncedUserLimits();
+      const usersToWrite = applyGlobalConfig ? await this.getUserLimits() : syncedUsers;
+      // The staged file, if any, is the base when the global settings are applied
+      const base = await resolveAllocationBase(
+        await this.getSyncedFile(), snapshot, syncedUsers, applyGlobalConfig ? await this.getStagedFile() : undefined);
+      const { updateAllocationsXML } = await import('./xml-document');
+      const xmlContent = await updateAllocationsXML(
+        base.content, overlayQueueChanges(snapshot, allQueues, queueIds), globalConfigToWrite, base.queues, usersToWrite, base.userLimits);
+      const { assertValidConfiguration } = await import('./config-validator');
+      await assertValidConfiguration(xmlContent);
+
+      await this.saveConfigFile({
+        filePath: this.defaultConfigPath,
+        content: xmlContent,
+        isValid: true,
+        lastModified: new Date().toISOString(),
+        validationErrors: null,
+      });
+
+      await this.writeConfigToDisk(this.defaultConfigPath, xmlContent);
+      console.log(`Applied ${queueIds.length} pending queue changes to XML file`);
+
+      const revision = await this.createConfigRevision({
+        filePath: this.defaultConfigPath,
+        content: xmlContent,
+        author,
+        summary: summarizePendingChanges(queueIds, allQueues, snapshot, applyGlobalConfig),
+        createdAt: new Date().toISOString(),
+        restoredFromId: null,
+      });
+
+      this.markSynced(queueIds);
+      if (applyGlobalConfig) {
+        this.saveSyncedGlobalConfig();
+        this.db.delete(stagedFile).run();
+      }
+      return revision;
+    } catch (error) {
+      console.error('Failed to apply pending changes:', error);
+      throw error;
+    }
+  }
+
+  async discardPendingChanges(selection?: PendingChangeSelection): Promise<void> {
+    const { queueIds, globalConfig: discardGlobalConfig } = resolvePendingSelection(
+      selection, await this.getPendingQueueIds(), await this.isGlobalConfigPending());
+
+    if (queueIds.length > 0) {
+      this.db.transaction((tx) => {
+        const snapshot = tx.select().from(syncedQueues).where(inArray(syncedQueues.queueId, queueIds)).all();
+        tx.delete(queues).where(inArray(queues.id, queueIds)).run();
+        for (const { data } of snapshot) {
+          tx.insert(queues).values(data).run();
+        }
+        tx.delete(pendingChanges).where(inArray(pendingChanges.queueId, queueIds)).run();
+      });
+    }
+
+    if (discardGlobalConfig) {
+      const { id, ...synced } = await this.getSyncedGlobalConfig();
+      await this.updateGlobalConfig(synced);
+      const syncedUsers = await this.getSyncedUserLimits();
+      this.db.transaction((tx) => {
+        tx.delete(userLimits).run();
+        for (const user of syncedUsers) {
+          tx.insert(userLimits).values(user).run();
+        }
+        tx.delete(stagedFile).run();
+      });
+    }
+    console.log(`Discarded ${queueIds.length} pending queue changes${discardGlobalConfig ? ' and global settings changes' : ''}`);
+  }
+
+  async getConfigRevisions(): Promise<ConfigRevisionSummary[]> {
+    await this.ready;
+    const { content, ...summaryColumns } = getTableColumns(configRevisions);
+    return this.db.select(summaryColumns).from(configRevisions).orderBy(desc(configRevisions.id)).all();
+  }
+
+  async getConfigRevision(id: number): Promise<ConfigRevision | undefined> {
+    await this.ready;
+    return this.db.select().from(configRevisions).where(eq(configRevisions.id, id)).get();
+  }
+
+  async createConfigRevision(revision: InsertConfigRevision): Promise<ConfigRevision> {
+    return this.db.insert(configRevisions).values({
+      ...revision,
+      restoredFromId: revision.restoredFromId ?? null,
+    }).returning().get();
+  }
+
+  async setConfigRevisionHookResult(id: number, hookResult: PostApplyHookResult): Promise<ConfigRevision | undefined> {
+    await this.ready;
+    return this.db.update(configRevisions).set({ hookResult }).where(eq(configRevisions.id, id)).returning().get();
+  }
+
+  async getWhatIfScenarios(): Promise<WhatIfScenario[]> {
+    await this.ready;
+    return this.db.select().from(whatIfScenarios).orderBy(whatIfScenarios.name).all();
+  }
+
+  async getWhatIfScenario(id: number): Promise<WhatIfScenario | undefined> {
+    await this.ready;
+    return this.db.select().from(whatIfScenarios).where(eq(whatIfScenarios.id, id)).get();
+  }
+
+  async createWhatIfScenario(scenario: InsertWhatIfScenario): Promise<WhatIfScenario> {
+    await this.ready;
+    return this.db.insert(whatIfScenarios).values(scenario).returning().get();
+  }
+
+  async updateWhatIfScenario(id: number, updateData: Partial<InsertWhatIfScenario>): Promise<WhatIfScenario | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getWhatIfScenario(id);
+    }
+    return this.db.update(whatIfScenarios).set(updateData).where(eq(whatIfScenarios.id, id)).returning().get();
+  }
+
+  async deleteWhatIfScenario(id: number): Promise<boolean> {
+    await this.ready;
+    const deleted = this.db.delete(whatIfScenarios).where(eq(whatIfScenarios.id, id)).returning().all();
+    return deleted.length > 0;
+  }
+
+  async getChangeRequests(): Promise<ChangeRequest[]> {
+    await this.ready;
+    return this.db.select().from(changeRequests).orderBy(desc(changeRequests.id)).all();
+  }
+
+  async getChangeRequest(id: number): Promise<ChangeRequest | undefined> {
+    await this.ready;
+    return this.db.select().from(changeRequests).where(eq(changeRequests.id, id)).get();
+  }
+
+  async createChangeRequest(request: InsertChangeRequest): Promise<ChangeRequest> {
+    await this.ready;
+    return this.db.insert(changeRequests).values(request).returning().get();
+  }
+
+  async updateChangeRequest(id: number, updateData: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined> {
+    await this.ready;
+    if (Object.keys(updateData).length === 0) {
+      return this.getChangeRequest(id);
+    }
+    return this.db.update(changeRequests).set(updateData).where(eq(changeRequests.id, id)).returning().get();
+  }
+
+  async getChangeRequestEvents(changeRequestId: number): Promise<ChangeRequestEvent[]> {
+    await this.ready;
+    return this.db.select().from(changeRequestEvents)
+      .where(eq(changeRequestEvents.changeRequestId, changeRequestId))
+      .orderBy(changeRequestEvents.id).all();
+  }
+
+  async addChangeRequestEvent(event: InsertChangeRequestEvent): Promise<ChangeRequestEvent> {
+    await this.ready;
+    return this.db.insert(changeRequestEvents).values(event).returning().get();
+  }
+
+  async getYarnConnection(): Promise<YarnConnection> {
+    await this.ready;
+    const row = this.db.select().from(yarnConnections).get();
+    if (!row) return getDefaultYarnConnection();
+    const { id, ...connection } = row;
+    return connection;
+  }
+
+  async updateYarnConnection(connection: Partial<YarnConnection>): Promise<YarnConnection> {
+    const updated = { ...(await this.getYarnConnection()), ...connection };
+    this.db.transaction((tx) => {
+      tx.delete(yarnConnections).run();
+      tx.insert(yarnConnections).values(updated).run();
+    });
+    return updated;
+  }
+
+  async close(): Promise<void> {
+    await this.ready.catch(() => undefined);
+    this.sqlite.close();
+  }
+}
+
+const CLUSTERS_SQL = `
+  CREATE TABLE IF NOT EXISTS clusters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL UNIQUE,
+    config_path TEXT NOT NULL,
+    yarn_site_path TEXT,
+    promotion_overrides TEXT,
+    post_apply_hook TEXT
+  );
+`;
+
+/**
+ * Clusters kept in the main database file, which also holds the state of the
+ * first cluster. Every other cluster has a database file of its own next to
+ * it, e.g. yarn-scheduler-cluster-2.db.
+ */
+export class SqliteClusterStore implements IClusterStore {
+  private db: BetterSQLite3Database;
+
+  constructor(private dbPath: string, defaultCluster: InsertCluster) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const sqlite = new Database(dbPath);
+    sqlite.exec(CLUSTERS_SQL);
+    const columns = sqlite.prepare(`PRAGMA table_info(clusters)`).all() as { name: string }[];
+    for (const column of ["promotion_overrides", "post_apply_hook"]) {
+      if (!columns.some(existing => existing.name === column)) {
+        console.log(`Adding column clusters.${column}`);
+        sqlite.exec(`ALTER TABLE clusters ADD COLUMN ${column} TEXT`);
+      }
+    }
+    this.db = drizzle(sqlite);
+    if (!this.db.select().from(clusters).get()) {
+      this.db.insert(clusters).values(defaultCluster).run();
+    }
+  }
+
+  private clusterDbPath(id: number): string {
+    if (id === DEFAULT_CLUSTER_ID) return this.dbPath;
+    const extension = path.extname(this.dbPath);
+    return path.join(path.dirname(this.dbPath), `${path.basename(this.dbPath, extension)}-cluster-${id}${extension}`);
+  }
+
+  async getClusters(): Promise<Cluster[]> {
+    return this.db.select().from(clusters).orderBy(clusters.id).all();
+  }
+
+  async getCluster(id: number): Promise<Cluster | undefined> {
+    return this.db.select().from(clusters).where(eq(clusters.id, id)).get();
+  }
+
+  async createCluster(cluster: InsertCluster): Promise<Cluster> {
+    return this.db.insert(clusters).values(cluster).returning().get();
+  }
+
+  async updateCluster(id: number, updateData: Partial<InsertCluster>): Promise<Cluster | undefined> {
+    if (Object.keys(updateData).length === 0) {
+      return this.getCluster(id);
+    }
+    return this.db.update(clusters).set(updateData).where(eq(clusters.id, id)).returning().get();
+  }
+
+  async deleteCluster(id: number): Promise<boolean> {
+    const deleted = this.db.delete(clusters).where(eq(clusters.id, id)).returning().all();
+    if (deleted.length > 0 && id !== DEFAULT_CLUSTER_ID) {
+      fs.rmSync(this.clusterDbPath(id), { force: true });
+    }
+    return deleted.length > 0;
+  }
+
+  openStorage(cluster: Cluster): IStorage {
+    return new SqliteStorage(this.clusterDbPath(cluster.id), cluster);
+  }
+}
+
+const ACCOUNTS_SQL = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    username TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    role TEXT NOT NULL DEFAULT 'viewer'
+  );
+`;
+
+// Accounts are kept in the main database file, next to the clusters
+export class SqliteAccountStore implements IAccountStore {
+  sessionStore = createMemorySessionStore();
+  private db: BetterSQLite3Database;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const sqlite = new Database(dbPath);
+    sqlite.exec(ACCOUNTS_SQL);
+    this.db = drizzle(sqlite);
+  }
+
+  async getAccounts(): Promise<Account[]> {
+    return this.db.select().from(accounts).orderBy(accounts.username).all();
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    return this.db.select().from(accounts).where(eq(accounts.id, id)).get();
+  }
+
+  async getAccountByUsername(username: string): Promise<Account | undefined> {
+    return this.db.select().from(accounts).where(eq(accounts.username, username)).get();
+  }
+
+  async createAccount(account: InsertAccount): Promise<Account> {
+    return this.db.insert(accounts).values(account).returning().get();
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    if (Object.keys(updateData).length === 0) {
+      return this.getAccount(id);
+    }
+    return this.db.update(accounts).set(updateData).where(eq(accounts.id, id)).returning().get();
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    const deleted = this.db.delete(accounts).where(eq(accounts.id, id)).returning().all();
+    return deleted.length > 0;
+  }
+}
+
+const AUDIT_LOG_SQL = `
+  CREATE TABLE IF NOT EXISTS audit_log (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at TEXT NOT NULL,
+    actor TEXT NOT NULL,
+    source_ip TEXT,
+    method TEXT NOT NULL,
+    endpoint TEXT NOT NULL,
+    status_code INTEGER NOT NULL,
+    cluster_id INTEGER,
+    action TEXT NOT NULL,
+    target TEXT,
+    changes TEXT NOT NULL
+  );
+`;
+
+// The audit log is kept in the main database file, next to the accounts
+export class SqliteAuditLog implements IAuditLog {
+  private db: BetterSQLite3Database;
+
+  constructor(dbPath: string) {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const sqlite = new Database(dbPath);
+    sqlite.exec(AUDIT_LOG_SQL);
+    this.db = drizzle(sqlite);
+  }
+
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    return this.db.insert(auditLog).values(entry).returning().get();
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+    const conditions: SQL[] = [];
+    if (filter.actor !== undefined) conditions.push(eq(auditLog.actor, filter.actor));
+    if (filter.action !== undefined) conditions.push(eq(auditLog.action, filter.action));
+    if (filter.clusterId !== undefined) conditions.push(eq(auditLog.clusterId, filter.clusterId));
+    if (filter.target !== undefined) conditions.push(sql`instr(${auditLog.target}, ${filter.target}) > 0`);
+    if (filter.field !== undefined) {
+      const suffix = `.${filter.field}`;
+      conditions.push(sql`exists (select 1 from json_each(${auditLog.changes}) where json_extract(value, '$.field') = ${filter.field}
+        or substr(json_extract(value, '$.field'), ${-suffix.length}) = ${suffix})`);
+    }
+    if (filter.since !== undefined) conditions.push(gte(auditLog.createdAt, filter.since));
+    if (filter.until !== undefined) conditions.push(lte(auditLog.createdAt, filter.until));
+
+    return this.db.select().from(auditLog)
+      .where(and(...conditions))
+      .orderBy(desc(auditLog.id))
+      .limit(filter.limit)
+      .all();
+  }
+}
@@ -0,0 +1,464 @@
+import type { Queue, InsertQueue, YarnConnection, PendingChangeSelection, SyncedFile, StagedFile, ConfigRevision, UserLimit } from "@shared/schema";
+import type { ResourceValue } from "@shared/resources";
+import { DEFAULT_PLACEMENT_RULES, type PlacementRule } from "@shared/placement";
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { parseQueuesFromXML, parseUserLimitsFromXML } from "./xml-utils";
+
+/**
+ * Helpers shared by the storage backends: fair-scheduler.xml disk access,
+ * the default allocation file and YARN connection defaults.
+ */
+
+export function getDefaultConfigPath(): string {
+  return process.env.FAIR_SCHEDULER_XML_PATH || './data/fair-scheduler.xml';
+}
+
+// The cluster created on first start. Its state stays where single-cluster
+// installs kept theirs, so it cannot be removed.
+export const DEFAULT_CLUSTER_ID = 1;
+
+const MemoryStore = createMemoryStore(session);
+
+// Login sessions of the in-memory and SQLite backends. They do not survive
+// a restart.
+export function createMemorySessionStore(): session.Store {
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export async function readConfigFile(filePath: string): Promise<string> {
+  try {
+    console.log(`Reading config file from: ${filePath}`);
+    const content = await fs.readFile(filePath, 'utf-8');
+    console.log(`Successfully read ${content.length} characters from ${filePath}`);
+    return content;
+  } catch (error) {
+    console.error(`Failed to read config file from ${filePath}:`, error);
+    throw error; // Let the caller handle the error
+  }
+}
+
+export async function writeConfigFile(filePath: string, content: string): Promise<void> {
+  try {
+    // Ensure directory exists
+    const dir = path.dirname(filePath);
+    await fs.mkdir(dir, { recursive: true });
+
+    // Write the file
+    await fs.writeFile(filePath, content, 'utf-8');
+    console.log(`Successfully wrote XML config to ${filePath}`);
+  } catch (error) {
+    throw new Error(`Failed to write config file: ${error}`);
+  }
+}
+
+/**
+ * Returns the file modification time, falling back to the current time if
+ * the file cannot be stat'ed.
+ */
+export async function getFileModTime(filePath: string): Promise<string> {
+  try {
+    const stats = await fs.stat(filePath);
+    return stats.mtime.toISOString();
+  } catch (error) {
+    return new Date().toISOString();
+  }
+}
+
+export function hashConfigContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+// Whether two paths name the same allocation file
+export function isSameConfigPath(a: string, b: string): boolean {
+  return path.resolve(a) === path.resolve(b);
+}
+
+/**
+ * What was just read from or written to the allocation file, to detect
+ * edits made to it by anyone else afterwards.
+ */
+export async function fingerprintConfigFile(filePath: string, content: string): Promise<SyncedFile> {
+  return {
+    filePath,
+    content,
+    hash: hashConfigContent(content),
+    modifiedAt: await getFileModTime(filePath),
+    syncedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * The synced file of databases from before it was recorded: the latest
+ * revision of the allocation file, which is the last one written.
+ */
+export function findSyncedRevision(revisions: ConfigRevision[], filePath: string): SyncedFile | undefined {
+  const revision = revisions.find(revision => isSameConfigPath(revision.filePath, filePath));
+  if (!revision) return undefined;
+  return {
+    filePath,
+    content: revision.content,
+    hash: hashConfigContent(revision.content),
+    modifiedAt: revision.createdAt,
+    syncedAt: revision.createdAt,
+  };
+}
+
+/**
+ * Reads the allocation file, creating it with the default content when it
+ * does not exist yet.
+ */
+export async function readOrCreateConfigFile(filePath: string): Promise<string> {
+  try {
+    console.log(`Attempting to load existing config from: ${filePath}`);
+    const content = await readConfigFile(filePath);
+    console.log(`Successfully loaded existing config from: ${filePath}`);
+    return content;
+  } catch (error) {
+    console.log(`No existing config found at ${filePath}, creating default file`);
+    const content = getDefaultXMLContent();
+
+    try {
+      await writeConfigFile(filePath, content);
+      console.log(`Created default config file at: ${filePath}`);
+    } catch (writeError) {
+      console.error(`Failed to create default config file:`, writeError);
+    }
+    return content;
+  }
+}
+
+export function getDefaultYarnConnection(): YarnConnection {
+  return {
+    resourceManagerHost: process.env.YARN_RM_HOST || 'localhost',
+    resourceManagerPort: parseInt(process.env.YARN_RM_PORT || '8088'),
+    enabled: process.env.YARN_ENABLED === 'true' || false,
+  };
+}
+
+/**
+ * Looks up the Resource Manager address in yarn-site.xml, the given one or
+ * the first found. Returns the connection settings to use, or null when
+ * nothing was found.
+ */
+export async function detectYarnConnection(yarnSitePath?: string | null): Promise<YarnConnection | null> {
+  try {
+    const { autoConfigureYarn } = await import('./hadoop-config');
+    const autoConfig = await autoConfigureYarn(yarnSitePath);
+
+    if (autoConfig) {
+      console.log(`Auto-configured YARN: ${autoConfig.host}:${autoConfig.port}`);
+      return {
+        resourceManagerHost: autoConfig.host,
+        resourceManagerPort: autoConfig.port,
+        enabled: true,
+      };
+    }
+    console.log('No YARN configuration found, using defaults');
+  } catch (error) {
+    console.log('YARN auto-configuration failed:', error);
+  }
+  return null;
+}
+
+export function getDefaultXMLContent(): string {
+  return `<?xml version="1.0"?>
+<allocations>
+  <queue name="production">
+    <weight>3.0</weight>
+    <schedulingPolicy>fair</schedulingPolicy>
+    <minResources>2048 mb,2 vcores</minResources>
+    <maxResources>16384 mb,8 vcores</maxResources>
+    <maxRunningApps>100</maxRunningApps>
+    <maxAMShare>0.3</maxAMShare>
+    <allowPreemptionFrom>true</allowPreemptionFrom>
+  </queue>
+
+  <queue name="development">
+    <weight>2.0</weight>
+    <schedulingPolicy>fair</schedulingPolicy>
+    <minResources>1024 mb,1 vcores</minResources>
+    <maxResources>8192 mb,4 vcores</maxResources>
+    <maxRunningApps>50</maxRunningApps>
+    <maxAMShare>0.5</maxAMShare>
+  </queue>
+
+  <queue name="default">
+    <weight>1.0</weight>
+    <schedulingPolicy>fair</schedulingPolicy>
+    <minResources>1024 mb,1 vcores</minResources>
+    <maxResources>8192 mb,4 vcores</maxResources>
+    <maxRunningApps>25</maxRunningApps>
+  </queue>
+
+  <userMaxAppsDefault>5</userMaxAppsDefault>
+  <defaultQueueSchedulingPolicy>fair</defaultQueueSchedulingPolicy>
+
+  <queuePlacementPolicy>
+    <rule name="specified"/>
+    <rule name="user"/>
+    <rule name="default" queue="default"/>
+  </queuePlacementPolicy>
+</allocations>`;
+}
+
+/**
+ * Fully-qualified path of a queue given its parent's path, e.g.
+ * buildQueuePath("root.teamA", "adhoc") is "root.teamA.adhoc".
+ */
+export function buildQueuePath(parent: string | null | undefined, name: string): string {
+  return parent ? `${parent}.${name}` : name;
+}
+
+/**
+ * True when `path` is `ancestor` itself or lies below it.
+ */
+export function isSameOrDescendantPath(queuePath: string, ancestor: string): boolean {
+  return queuePath === ancestor || queuePath.startsWith(`${ancestor}.`);
+}
+
+/**
+ * Removes duplicate queue paths from a parsed XML queue list, keeping the
+ * first occurrence.
+ */
+export function dedupeQueuesByPath(queues: any[]): any[] {
+  const uniqueQueues = new Map();
+
+  queues.forEach(queue => {
+    const key = queue.path ?? buildQueuePath(queue.parent, queue.name);
+    if (!uniqueQueues.has(key)) {
+      uniqueQueues.set(key, { ...queue, path: key });
+    }
+  });
+
+  return Array.from(uniqueQueues.values());
+}
+
+/**
+ * A queue with every setting it does not have set to null, so that it
+ * replaces all settings of the queue it is stored over.
+ */
+export function toQueueValues(queue: InsertQueue): InsertQueue {
+  return {
+    name: queue.name,
+    path: queue.path,
+    parent: queue.parent ?? null,
+    weight: queue.weight ?? null,
+    schedulingPolicy: queue.schedulingPolicy ?? null,
+    minResources: queue.minResources ?? null,
+    maxResources: queue.maxResources ?? null,
+    maxRunningApps: queue.maxRunningApps ?? null,
+    maxAMShare: queue.maxAMShare ?? null,
+    allowPreemptionFrom: queue.allowPreemptionFrom ?? null,
+    allowPreemptionTo: queue.allowPreemptionTo ?? null,
+    minSharePreemptionTimeout: queue.minSharePreemptionTimeout ?? null,
+    fairSharePreemptionTimeout: queue.fairSharePreemptionTimeout ?? null,
+    fairSharePreemptionThreshold: queue.fairSharePreemptionThreshold ?? null,
+    reservation: queue.reservation ?? null,
+    aclSubmitApps: queue.aclSubmitApps ?? null,
+    aclAdministerApps: queue.aclAdministerApps ?? null,
+  };
+}
+
+/**
+ * The allocation file pending changes are written into, with the queues and
+ * user limits it was written from: the staged file when it is applied,
+ * otherwise the synced file. The staged file's queues and users take the ids
+ * they were staged as.
+ */
+export async function resolveAllocationBase(
+  syncedFile: SyncedFile | undefined,
+  syncedQueues: Queue[],
+  syncedUserLimits: UserLimit[],
+  stagedFile: StagedFile | undefined,
+): Promise<{ content: string; queues: Queue[]; userLimits: UserLimit[] }> {
+  if (!stagedFile) {
+    return { content: syncedFile?.content ?? "", queues: syncedQueues, userLimits: syncedUserLimits };
+  }
+
+  // Ids no row has, for anything the staged file has that was not staged
+  let unstagedId = 0;
+  const queues = dedupeQueuesByPath(await parseQueuesFromXML(stagedFile.content))
+    .map(queue => ({ ...toQueueValues(queue), id: stagedFile.queueIds[queue.path] ?? --unstagedId }) as Queue);
+  const userLimits = (await parseUserLimitsFromXML(stagedFile.content))
+    .map(user => ({ id: stagedFile.userLimitIds[user.name] ?? --unstagedId, name: user.name, maxRunningApps: user.maxRunningApps }));
+  return { content: stagedFile.content, queues, userLimits };
+}
+
+/**
+ * Converts queues stored before paths were introduced, whose `parent` is a
+ * bare queue name, to path identity: sets `path` and rewrites `parent` to the
+ * parent's path. Queues whose parent cannot be found keep the bare parent.
+ */
+export function assignQueuePaths<T extends { name: string; parent: string | null }>(legacyQueues: T[]): (T & { path: string })[] {
+  const byName = new Map(legacyQueues.map(queue => [queue.name, queue]));
+  const paths = new Map<string, string>();
+
+  const pathOf = (queue: T, visiting: Set<string>): string => {
+    const known = paths.get(queue.name);
+    if (known) return known;
+
+    const parent = queue.parent ? byName.get(queue.parent) : undefined;
+    let path: string;
+    if (!queue.parent) {
+      path = queue.name;
+    } else if (parent && !visiting.has(parent.name)) {
+      visiting.add(queue.name);
+      path = buildQueuePath(pathOf(parent, visiting), queue.name);
+    } else {
+      path = buildQueuePath(queue.parent, queue.name);
+    }
+    paths.set(queue.name, path);
+    return path;
+  };
+
+  return legacyQueues.map(queue => {
+    const parent = queue.parent ? byName.get(queue.parent) : undefined;
+    return {
+      ...queue,
+      path: pathOf(queue, new Set()),
+      parent: parent ? pathOf(parent, new Set()) : queue.parent,
+    };
+  });
+}
+
+/**
+ * The resource value for memory and vcores stored in the separate columns
+ * used before percentage and multi-resource values were supported.
+ */
+export function legacyResourceValue(memoryMb: number | null | undefined, vcores: number | null | undefined): ResourceValue | null {
+  if (memoryMb == null && vcores == null) return null;
+  return {
+    kind: "absolute",
+    ...(memoryMb != null && { memoryMb }),
+    ...(vcores != null && { vcores }),
+  };
+}
+
+/**
+ * Rewrites a queue saved with minMemory/minVcores/maxMemory/maxVcores fields
+ * to use minResources and maxResources.
+ */
+export function upgradeLegacyResources(legacyQueue: Record<string, any>): Queue {
+  const { minMemory, minVcores, maxMemory, maxVcores, ...queue } = legacyQueue;
+  return {
+    ...queue,
+    minResources: queue.minResources ?? legacyResourceValue(minMemory, minVcores),
+    maxResources: queue.maxResources ?? legacyResourceValue(maxMemory, maxVcores),
+  } as Queue;
+}
+
+/**
+ * Converts placement rules stored as a string such as
+ * "specified:create=false,user,default:queue=adhoc". The string could not
+ * hold the nested rule of nestedUserQueue, so primaryGroup is assumed.
+ */
+export function legacyPlacementRules(rules: string | null | undefined): PlacementRule[] {
+  const parsed = (rules ?? "").split(",").map(rule => rule.trim()).filter(Boolean).map(rule => {
+    const [name, ...attributes] = rule.split(":");
+    const placementRule: Record<string, unknown> = { name };
+    attributes.forEach(attribute => {
+      const [key, value] = attribute.split("=");
+      if (key === "create" && (value === "true" || value === "false")) placementRule.create = value === "true";
+      if (key === "queue" && value) placementRule.queue = value;
+    });
+    if (name === "nestedUserQueue") placementRule.nestedRule = { name: "primaryGroup" };
+    return placementRule as PlacementRule;
+  });
+  return parsed.length > 0 ? parsed : DEFAULT_PLACEMENT_RULES;
+}
+
+/**
+ * Narrows a selection to changes that are actually pending. Without a
+ * selection every pending change is chosen.
+ */
+export function resolvePendingSelection(
+  selection: PendingChangeSelection | undefined,
+  pendingIds: number[],
+  globalConfigChanged: boolean,
+): { queueIds: number[]; globalConfig: boolean } {
+  if (!selection) {
+    return { queueIds: pendingIds, globalConfig: globalConfigChanged };
+  }
+  const requested = new Set(selection.queueIds ?? []);
+  return {
+    queueIds: pendingIds.filter(id => requested.has(id)),
+    globalConfig: !!selection.globalConfig && globalConfigChanged,
+  };
+}
+
+/**
+ * Returns `base` with the given queue ids taken from `overlay`: queues
+ * present in the overlay replace or add to the base, missing ones are
+ * removed. Overlaying current queues onto the synced snapshot gives the
+ * state a selective apply writes; the reverse gives a selective discard.
+ */
+export function overlayQueueChanges(base: Queue[], overlay: Queue[], queueIds: number[]): Queue[] {
+  const result = new Map(base.map(queue => [queue.id, queue]));
+  const overlayById = new Map(overlay.map(queue => [queue.id, queue]));
+
+  for (const id of queueIds) {
+    const queue = overlayById.get(id);
+    if (queue) {
+      result.set(id, queue);
+    } else {
+      result.delete(id);
+    }
+  }
+
+  return Array.from(result.values()).sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Queues whose parent is not in the list.
+ */
+export function findOrphanedQueues(queues: Queue[]): Queue[] {
+  const paths = new Set(queues.map(queue => queue.path));
+  return queues.filter(queue => queue.parent && !paths.has(queue.parent));
+}
+
+/**
+ * Paths used by more than one queue in the list.
+ */
+export function findDuplicateQueuePaths(queues: Queue[]): string[] {
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  queues.forEach(queue => {
+    if (seen.has(queue.path)) duplicates.add(queue.path);
+    seen.add(queue.path);
+  });
+  return Array.from(duplicates);
+}
+
+/**
+ * Describes a set of pending queue changes for a revision summary, e.g.
+ * "Applied 2 pending changes: updated root.production, added root.analytics".
+ */
+export function summarizePendingChanges(pendingIds: Iterable<number>, currentQueues: Queue[], syncedQueues: Queue[], globalConfigChanged: boolean = false): string {
+  const current = new Map(currentQueues.map(queue => [queue.id, queue]));
+  const synced = new Map(syncedQueues.map(queue => [queue.id, queue]));
+  const descriptions: string[] = [];
+
+  for (const id of Array.from(pendingIds)) {
+    const now = current.get(id);
+    const before = synced.get(id);
+    if (now && before) {
+      descriptions.push(before.path === now.path ? `updated ${now.path}` : `moved ${before.path} to ${now.path}`);
+    } else if (now) {
+      descriptions.push(`added ${now.path}`);
+    } else if (before) {
+      descriptions.push(`removed ${before.path}`);
+    }
+  }
+  if (globalConfigChanged) {
+    descriptions.push("updated global settings");
+  }
+
+  const noun = descriptions.length === 1 ? "change" : "changes";
+  return descriptions.length > 0
+    ? `Applied ${descriptions.length} pending ${noun}: ${descriptions.join(", ")}`
+    : "Applied pending changes";
+}
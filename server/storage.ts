@@ -1,6 +1,34 @@
-import { type Queue, type InsertQueue, type ConfigFile, type InsertConfigFile, type GlobalConfig, type InsertGlobalConfig, type YarnConnection } from "@shared/schema";
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import { type Queue, type InsertQueue, type ConfigFile, type InsertConfigFile, type GlobalConfig, type InsertGlobalConfig, type YarnConnection, type ConfigRevision, type InsertConfigRevision, type ConfigRevisionSummary, type PendingChangeSelection, type UserLimit, type InsertUserLimit, type WhatIfScenario, type InsertWhatIfScenario, type ChangeRequest, type InsertChangeRequest, type ChangeRequestEvent, type InsertChangeRequestEvent, type Cluster, type InsertCluster, type Account, type InsertAccount, type AuditEntry, type InsertAuditEntry, type SyncedFile, type StagedFile } from "@shared/schema";
+import type { AuditFilter } from "@shared/audit";
+import type { PostApplyHookResult } from "@shared/post-apply-hook";
+import type session from "express-session";
+import { DEFAULT_PLACEMENT_RULES } from "@shared/placement";
+import {
+  DEFAULT_CLUSTER_ID,
+  createMemorySessionStore,
+  getDefaultConfigPath,
+  getDefaultXMLContent,
+  getDefaultYarnConnection,
+  detectYarnConnection,
+  getFileModTime,
+  readConfigFile,
+  readOrCreateConfigFile,
+  writeConfigFile,
+  dedupeQueuesByPath,
+  summarizePendingChanges,
+  resolvePendingSelection,
+  overlayQueueChanges,
+  fingerprintConfigFile,
+  isSameConfigPath,
+  resolveAllocationBase,
+} from "./storage-utils";
+import { diffGlobalConfig, diffUserLimits } from "./config-diff";
+import { watchConfigFile, unwatchConfigFile } from "./config-watcher";
+import { SqliteClusterStore, SqliteAccountStore, SqliteAuditLog } from "./sqlite-storage";
+import { PostgresClusterStore, PostgresAccountStore, PostgresAuditLog } from "./pg-storage";
+
+// Where the storage of a cluster finds its allocation file and yarn-site.xml
+export type ClusterSettings = Pick<Cluster, "configPath" | "yarnSitePath">;
 
 export interface IStorage {
   // Queue operations
@@ -18,58 +46,163 @@ export interface IStorage {
   getDefaultXMLContent(): string;
   syncQueuesFromXML(queues: any[]): Promise<void>;
   reloadFromDisk(): Promise<void>;
+  // The allocation file as last read or written by this storage; loading,
+  // reloading and writing it update the record
+  getSyncedFile(): Promise<SyncedFile | undefined>;
+  // An allocation file staged as the base of the pending changes. It is
+  // pending with the global settings: applying them writes the pending
+  // changes into it, discarding them or reloading drops it.
+  getStagedFile(): Promise<StagedFile | undefined>;
+  stageFile(file: StagedFile): Promise<void>;
   
   // Global config operations
   getGlobalConfig(): Promise<GlobalConfig>;
   updateGlobalConfig(config: Partial<InsertGlobalConfig>): Promise<GlobalConfig>;
+
+  // Per-user limit operations. Changes are pending with the global configuration.
+  getUserLimits(): Promise<UserLimit[]>;
+  getUserLimit(id: number): Promise<UserLimit | undefined>;
+  createUserLimit(userLimit: InsertUserLimit): Promise<UserLimit>;
+  updateUserLimit(id: number, userLimit: Partial<InsertUserLimit>): Promise<UserLimit | undefined>;
+  deleteUserLimit(id: number): Promise<boolean>;
+  syncUserLimitsFromXML(userLimits: any[]): Promise<void>;
   
   // Pending changes operations
   getPendingChangesCount(): Promise<number>;
   hasPendingChanges(): Promise<boolean>;
-  applyPendingChanges(): Promise<void>;
-  discardPendingChanges(): Promise<void>;
+  getPendingQueueIds(): Promise<number[]>;
+  getSyncedQueues(): Promise<Queue[]>;
+  getSyncedGlobalConfig(): Promise<GlobalConfig>;
+  getSyncedUserLimits(): Promise<UserLimit[]>;
+  // Without a selection every pending change is applied or discarded.
+  // Applying returns the revision written, none when nothing was selected.
+  applyPendingChanges(author?: string, selection?: PendingChangeSelection): Promise<ConfigRevision | undefined>;
+  discardPendingChanges(selection?: PendingChangeSelection): Promise<void>;
+
+  // Configuration revision operations
+  getConfigRevisions(): Promise<ConfigRevisionSummary[]>;
+  getConfigRevision(id: number): Promise<ConfigRevision | undefined>;
+  createConfigRevision(revision: InsertConfigRevision): Promise<ConfigRevision>;
+  setConfigRevisionHookResult(id: number, hookResult: PostApplyHookResult): Promise<ConfigRevision | undefined>;
+
+  // What-if scenario operations
+  getWhatIfScenarios(): Promise<WhatIfScenario[]>;
+  getWhatIfScenario(id: number): Promise<WhatIfScenario | undefined>;
+  createWhatIfScenario(scenario: InsertWhatIfScenario): Promise<WhatIfScenario>;
+  updateWhatIfScenario(id: number, scenario: Partial<InsertWhatIfScenario>): Promise<WhatIfScenario | undefined>;
+  deleteWhatIfScenario(id: number): Promise<boolean>;
+
+  // Change request operations. Requests are listed newest first, their
+  // events oldest first.
+  getChangeRequests(): Promise<ChangeRequest[]>;
+  getChangeRequest(id: number): Promise<ChangeRequest | undefined>;
+  createChangeRequest(request: InsertChangeRequest): Promise<ChangeRequest>;
+  updateChangeRequest(id: number, request: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined>;
+  getChangeRequestEvents(changeRequestId: number): Promise<ChangeRequestEvent[]>;
+  addChangeRequestEvent(event: InsertChangeRequestEvent): Promise<ChangeRequestEvent>;
 
   // YARN integration operations
   getYarnConnection(): Promise<YarnConnection>;
   updateYarnConnection(connection: Partial<YarnConnection>): Promise<YarnConnection>;
+
+  // Releases the storage of a cluster that was removed or moved
+  close(): Promise<void>;
+}
+
+// The clusters, each with storage of its own
+export interface IClusterStore {
+  getClusters(): Promise<Cluster[]>;
+  getCluster(id: number): Promise<Cluster | undefined>;
+  createCluster(cluster: InsertCluster): Promise<Cluster>;
+  updateCluster(id: number, cluster: Partial<InsertCluster>): Promise<Cluster | undefined>;
+  // Also deletes the stored state of the cluster
+  deleteCluster(id: number): Promise<boolean>;
+  openStorage(cluster: Cluster): IStorage;
+}
+
+// Local accounts and login sessions, shared by all clusters
+export interface IAccountStore {
+  sessionStore: session.Store;
+  getAccounts(): Promise<Account[]>;
+  getAccount(id: number): Promise<Account | undefined>;
+  getAccountByUsername(username: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount): Promise<Account>;
+  updateAccount(id: number, account: Partial<InsertAccount>): Promise<Account | undefined>;
+  deleteAccount(id: number): Promise<boolean>;
+}
+
+// Record of the changes made through the API, shared by all clusters.
+// Entries are only ever appended.
+export interface IAuditLog {
+  appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry>;
+  // Newest first, at most `filter.limit` entries
+  getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]>;
 }
 
 export class MemStorage implements IStorage {
   private queues: Map<number, Queue>;
   private configFiles: Map<number, ConfigFile>;
+  private configRevisions: Map<number, ConfigRevision>;
   private globalConfig: GlobalConfig;
   private currentQueueId: number;
   private currentConfigId: number;
+  private currentRevisionId: number;
   private defaultConfigPath: string;
+  private yarnSitePath: string | null;
   private pendingChanges: Set<number>;
   private lastSyncedState: Map<number, Queue>;
+  private lastSyncedGlobalConfig: GlobalConfig;
+  private userLimits: Map<number, UserLimit>;
+  private lastSyncedUserLimits: Map<number, UserLimit>;
+  private currentUserLimitId: number;
+  private whatIfScenarios: Map<number, WhatIfScenario>;
+  private currentScenarioId: number;
+  private changeRequests: Map<number, ChangeRequest>;
+  private currentChangeRequestId: number;
+  private changeRequestEvents: ChangeRequestEvent[];
+  private currentChangeRequestEventId: number;
   private yarnConnection: YarnConnection;
+  private syncedFile: SyncedFile | undefined;
+  private stagedFile: StagedFile | undefined;
+  private ready: Promise<void>;
 
-  constructor() {
+  constructor(settings: ClusterSettings) {
     this.queues = new Map();
     this.configFiles = new Map();
+    this.configRevisions = new Map();
     this.globalConfig = {
       id: 1,
       defaultQueueSchedulingPolicy: "fair",
       userMaxAppsDefault: 5,
       queueMaxAppsDefault: null,
       queueMaxAMShareDefault: null,
-      queuePlacementRules: "specified,user,default",
+      defaultMinSharePreemptionTimeout: null,
+      defaultFairSharePreemptionTimeout: null,
+      defaultFairSharePreemptionThreshold: null,
+      queuePlacementRules: DEFAULT_PLACEMENT_RULES,
       defaultQueue: "default",
     };
     this.currentQueueId = 1;
     this.currentConfigId = 1;
-    this.defaultConfigPath = process.env.FAIR_SCHEDULER_XML_PATH || './data/fair-scheduler.xml';
+    this.currentRevisionId = 1;
+    this.defaultConfigPath = settings.configPath;
+    this.yarnSitePath = settings.yarnSitePath;
     this.pendingChanges = new Set();
     this.lastSyncedState = new Map();
-    this.yarnConnection = {
-      resourceManagerHost: process.env.YARN_RM_HOST || 'localhost',
-      resourceManagerPort: parseInt(process.env.YARN_RM_PORT || '8088'),
-      enabled: process.env.YARN_ENABLED === 'true' || false,
-    };
+    this.lastSyncedGlobalConfig = { ...this.globalConfig };
+    this.userLimits = new Map();
+    this.lastSyncedUserLimits = new Map();
+    this.currentUserLimitId = 1;
+    this.whatIfScenarios = new Map();
+    this.currentScenarioId = 1;
+    this.changeRequests = new Map();
+    this.currentChangeRequestId = 1;
+    this.changeRequestEvents = [];
+    this.currentChangeRequestEventId = 1;
+    this.yarnConnection = getDefaultYarnConnection();
     
     // Try to load existing config from disk first, then initialize
-    this.loadConfigFromDisk();
+    this.ready = this.loadConfigFromDisk();
     
     // Try to auto-configure YARN connection
     this.autoConfigureYarnConnection();
@@ -79,6 +212,7 @@ export class MemStorage implements IStorage {
     const defaultQueues: InsertQueue[] = [
       {
         name: "root",
+        path: "root",
         parent: null,
         weight: 1.0,
         schedulingPolicy: "fair",
@@ -87,13 +221,12 @@ export class MemStorage implements IStorage {
       },
       {
         name: "production",
+        path: "root.production",
         parent: "root",
         weight: 3.0,
         schedulingPolicy: "fair",
-        minMemory: 2048,
-        minVcores: 2,
-        maxMemory: 16384,
-        maxVcores: 8,
+        minResources: { kind: "absolute", memoryMb: 2048, vcores: 2 },
+        maxResources: { kind: "absolute", memoryMb: 16384, vcores: 8 },
         maxRunningApps: 100,
         maxAMShare: 0.3,
         allowPreemptionFrom: true,
@@ -102,25 +235,23 @@ export class MemStorage implements IStorage {
       },
       {
         name: "development",
+        path: "root.development",
         parent: "root",
         weight: 2.0,
         schedulingPolicy: "fair",
-        minMemory: 1024,
-        minVcores: 1,
-        maxMemory: 8192,
-        maxVcores: 4,
+        minResources: { kind: "absolute", memoryMb: 1024, vcores: 1 },
+        maxResources: { kind: "absolute", memoryMb: 8192, vcores: 4 },
         maxRunningApps: 50,
         maxAMShare: 0.5,
       },
       {
         name: "default",
+        path: "root.default",
         parent: "root",
         weight: 1.0,
         schedulingPolicy: "fair",
-        minMemory: 1024,
-        minVcores: 1,
-        maxMemory: 8192,
-        maxVcores: 4,
+        minResources: { kind: "absolute", memoryMb: 1024, vcores: 1 },
+        maxResources: { kind: "absolute", memoryMb: 8192, vcores: 4 },
         maxRunningApps: 25,
       }
     ];
@@ -133,14 +264,15 @@ export class MemStorage implements IStorage {
         parent: queue.parent || null,
         weight: queue.weight || null,
         schedulingPolicy: queue.schedulingPolicy || null,
-        minMemory: queue.minMemory || null,
-        minVcores: queue.minVcores || null,
-        maxMemory: queue.maxMemory || null,
-        maxVcores: queue.maxVcores || null,
+        minResources: queue.minResources || null,
+        maxResources: queue.maxResources || null,
         maxRunningApps: queue.maxRunningApps || null,
         maxAMShare: queue.maxAMShare || null,
         allowPreemptionFrom: queue.allowPreemptionFrom || null,
         allowPreemptionTo: queue.allowPreemptionTo || null,
+        minSharePreemptionTimeout: queue.minSharePreemptionTimeout || null,
+        fairSharePreemptionTimeout: queue.fairSharePreemptionTimeout || null,
+        fairSharePreemptionThreshold: queue.fairSharePreemptionThreshold ?? null,
         reservation: queue.reservation || null,
         aclSubmitApps: queue.aclSubmitApps || null,
         aclAdministerApps: queue.aclAdministerApps || null
@@ -150,10 +282,12 @@ export class MemStorage implements IStorage {
   }
 
   async getQueues(): Promise<Queue[]> {
+    await this.ready;
     return Array.from(this.queues.values());
   }
 
   async getQueue(id: number): Promise<Queue | undefined> {
+    await this.ready;
     return this.queues.get(id);
   }
 
@@ -165,14 +299,15 @@ export class MemStorage implements IStorage {
       parent: insertQueue.parent ?? null,
       weight: insertQueue.weight ?? null,
       schedulingPolicy: insertQueue.schedulingPolicy ?? null,
-      minMemory: insertQueue.minMemory ?? null,
-      minVcores: insertQueue.minVcores ?? null,
-      maxMemory: insertQueue.maxMemory ?? null,
-      maxVcores: insertQueue.maxVcores ?? null,
+      minResources: insertQueue.minResources ?? null,
+      maxResources: insertQueue.maxResources ?? null,
       maxRunningApps: insertQueue.maxRunningApps ?? null,
       maxAMShare: insertQueue.maxAMShare ?? null,
       allowPreemptionFrom: insertQueue.allowPreemptionFrom ?? null,
       allowPreemptionTo: insertQueue.allowPreemptionTo ?? null,
+      minSharePreemptionTimeout: insertQueue.minSharePreemptionTimeout ?? null,
+      fairSharePreemptionTimeout: insertQueue.fairSharePreemptionTimeout ?? null,
+      fairSharePreemptionThreshold: insertQueue.fairSharePreemptionThreshold ?? null,
       reservation: insertQueue.reservation ?? null,
       aclSubmitApps: insertQueue.aclSubmitApps ?? null,
       aclAdministerApps: insertQueue.aclAdministerApps ?? null
@@ -201,8 +336,9 @@ export class MemStorage implements IStorage {
   }
 
   async getConfigFile(): Promise<ConfigFile | undefined> {
+    await this.ready;
     const configs = Array.from(this.configFiles.values());
-    return configs[0]; // Return the first (and typically only) config file
+    return configs[configs.length - 1]; // Return the most recently saved config file
   }
 
   async saveConfigFile(config: InsertConfigFile): Promise<ConfigFile> {
@@ -219,61 +355,37 @@ export class MemStorage implements IStorage {
   }
 
   async readConfigFromDisk(filePath: string): Promise<string> {
-    try {
-      console.log(`Reading config file from: ${filePath}`);
-      const content = await fs.readFile(filePath, 'utf-8');
-      console.log(`Successfully read ${content.length} characters from ${filePath}`);
-      return content;
-    } catch (error) {
-      console.error(`Failed to read config file from ${filePath}:`, error);
-      throw error; // Let the caller handle the error
-    }
+    return readConfigFile(filePath);
   }
 
   async writeConfigToDisk(filePath: string, content: string): Promise<void> {
-    try {
-      // Ensure directory exists
-      const dir = path.dirname(filePath);
-      await fs.mkdir(dir, { recursive: true });
-      
-      // Write the file
-      await fs.writeFile(filePath, content, 'utf-8');
-      console.log(`Successfully wrote XML config to ${filePath}`);
-    } catch (error) {
-      throw new Error(`Failed to write config file: ${error}`);
+    await writeConfigFile(filePath, content);
+    if (isSameConfigPath(filePath, this.defaultConfigPath)) {
+      this.syncedFile = await fingerprintConfigFile(filePath, content);
     }
   }
 
+  async getSyncedFile(): Promise<SyncedFile | undefined> {
+    await this.ready;
+    return this.syncedFile && { ...this.syncedFile };
+  }
+
+  async getStagedFile(): Promise<StagedFile | undefined> {
+    await this.ready;
+    return this.stagedFile && { ...this.stagedFile };
+  }
+
+  async stageFile(file: StagedFile): Promise<void> {
+    await this.ready;
+    this.stagedFile = { ...file };
+  }
+
   private async loadConfigFromDisk(): Promise<void> {
-    let xmlContent: string;
-    
-    try {
-      console.log(`Attempting to load existing config from: ${this.defaultConfigPath}`);
-      xmlContent = await this.readConfigFromDisk(this.defaultConfigPath);
-      console.log(`Successfully loaded existing config from: ${this.defaultConfigPath}`);
-    } catch (error) {
-      console.log(`No existing config found at ${this.defaultConfigPath}, creating default file`);
-      // Create default config file
-      xmlContent = this.getDefaultXMLContent();
-      
-      // Ensure directory exists and write default file
-      try {
-        await this.writeConfigToDisk(this.defaultConfigPath, xmlContent);
-        console.log(`Created default config file at: ${this.defaultConfigPath}`);
-      } catch (writeError) {
-        console.error(`Failed to create default config file:`, writeError);
-      }
-    }
+    const xmlContent = await readOrCreateConfigFile(this.defaultConfigPath);
+    this.syncedFile = await fingerprintConfigFile(this.defaultConfigPath, xmlContent);
 
     // Get actual file modification time
-    let actualModTime: string;
-    try {
-      const stats = await fs.stat(this.defaultConfigPath);
-      actualModTime = stats.mtime.toISOString();
-    } catch (error) {
-      // Fallback to current time if stat fails
-      actualModTime = new Date().toISOString();
-    }
+    const actualModTime = await getFileModTime(this.defaultConfigPath);
 
     // Save to memory storage
     const configFile: ConfigFile = {
@@ -285,15 +397,29 @@ export class MemStorage implements IStorage {
       validationErrors: null
     };
     this.configFiles.set(configFile.id, configFile);
+
+    // Record the configuration found on disk as the first revision
+    await this.createConfigRevision({
+      filePath: this.defaultConfigPath,
+      content: xmlContent,
+      author: "system",
+      summary: `Loaded from ${this.defaultConfigPath}`,
+      createdAt: actualModTime,
+      restoredFromId: null,
+    });
     
     // Parse global configuration and queues from XML
     try {
-      const { parseGlobalConfigFromXML, parseQueuesFromXML } = await import('./xml-utils');
+      const { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } = await import('./xml-utils');
       
       // Parse global configuration from XML first
       const parsedGlobalConfig = await parseGlobalConfigFromXML(xmlContent);
       this.globalConfig = { ...this.globalConfig, ...parsedGlobalConfig };
+      this.lastSyncedGlobalConfig = { ...this.globalConfig };
       console.log('Loaded global config from XML:', this.globalConfig);
+
+      await this.syncUserLimitsFromXML(await parseUserLimitsFromXML(xmlContent));
+      this.lastSyncedUserLimits = new Map(Array.from(this.userLimits, ([id, user]) => [id, { ...user }]));
       
       // Parse and sync queues from XML
       const parsedQueues = await parseQueuesFromXML(xmlContent);
@@ -322,18 +448,11 @@ export class MemStorage implements IStorage {
     this.queues.clear();
     this.currentQueueId = 1;
 
-    // Ensure we only have one root queue
-    const uniqueQueues = new Map();
-    
-    queues.forEach(queue => {
-      const key = queue.name;
-      if (!uniqueQueues.has(key)) {
-        uniqueQueues.set(key, queue);
-      }
-    });
+    // Ensure every queue path appears only once
+    const uniqueQueues = dedupeQueuesByPath(queues);
 
     // Add queues from XML (deduplicated)
-    Array.from(uniqueQueues.values()).forEach(queue => {
+    uniqueQueues.forEach(queue => {
       const id = this.currentQueueId++;
       const newQueue: Queue = { 
         ...queue, 
@@ -341,119 +460,257 @@ export class MemStorage implements IStorage {
         parent: queue.parent || null,
         weight: queue.weight || null,
         schedulingPolicy: queue.schedulingPolicy || null,
-        minMemory: queue.minMemory || null,
-        minVcores: queue.minVcores || null,
-        maxMemory: queue.maxMemory || null,
-        maxVcores: queue.maxVcores || null,
+        minResources: queue.minResources || null,
+        maxResources: queue.maxResources || null,
         maxRunningApps: queue.maxRunningApps || null,
         maxAMShare: queue.maxAMShare || null,
         allowPreemptionFrom: queue.allowPreemptionFrom || null,
         allowPreemptionTo: queue.allowPreemptionTo || null,
+        minSharePreemptionTimeout: queue.minSharePreemptionTimeout || null,
+        fairSharePreemptionTimeout: queue.fairSharePreemptionTimeout || null,
+        fairSharePreemptionThreshold: queue.fairSharePreemptionThreshold ?? null,
         reservation: queue.reservation || null
       };
       this.queues.set(id, newQueue);
     });
 
-    console.log(`Synchronized ${uniqueQueues.size} unique queues to memory storage`);
+    console.log(`Synchronized ${uniqueQueues.length} unique queues to memory storage`);
   }
 
   getDefaultXMLContent(): string {
-    return `<?xml version="1.0"?>
-<allocations>
-  <queue name="production">
-    <weight>3.0</weight>
-    <schedulingPolicy>fair</schedulingPolicy>
-    <minResources>2048 mb,2 vcores</minResources>
-    <maxResources>16384 mb,8 vcores</maxResources>
-    <maxRunningApps>100</maxRunningApps>
-    <maxAMShare>0.3</maxAMShare>
-    <allowPreemptionFrom>true</allowPreemptionFrom>
-  </queue>
-  
-  <queue name="development">
-    <weight>2.0</weight>
-    <schedulingPolicy>fair</schedulingPolicy>
-    <minResources>1024 mb,1 vcores</minResources>
-    <maxResources>8192 mb,4 vcores</maxResources>
-    <maxRunningApps>50</maxRunningApps>
-    <maxAMShare>0.5</maxAMShare>
-  </queue>
-  
-  <queue name="default">
-    <weight>1.0</weight>
-    <schedulingPolicy>fair</schedulingPolicy>
-    <minResources>1024 mb,1 vcores</minResources>
-    <maxResources>8192 mb,4 vcores</maxResources>
-    <maxRunningApps>25</maxRunningApps>
-  </queue>
-  
-  <userMaxAppsDefault>5</userMaxAppsDefault>
-  <defaultQueueSchedulingPolicy>fair</defaultQueueSchedulingPolicy>
-  
-  <queuePlacementPolicy>
-    <rule name="specified"/>
-    <rule name="user"/>
-    <rule name="default" queue="default"/>
-  </queuePlacementPolicy>
-</allocations>`;
+    return getDefaultXMLContent();
+  }
+
+  // Per-user limits are pending and applied together with the global configuration
+  private isGlobalConfigPending(): boolean {
+    return !!this.stagedFile
+      || diffGlobalConfig(this.lastSyncedGlobalConfig, this.globalConfig).length > 0
+      || diffUserLimits(Array.from(this.lastSyncedUserLimits.values()), Array.from(this.userLimits.values())).length > 0;
   }
 
   async getPendingChangesCount(): Promise<number> {
-    return this.pendingChanges.size;
+    await this.ready;
+    return this.pendingChanges.size + (this.isGlobalConfigPending() ? 1 : 0);
   }
 
   async hasPendingChanges(): Promise<boolean> {
-    return this.pendingChanges.size > 0;
+    return (await this.getPendingChangesCount()) > 0;
   }
 
-  async applyPendingChanges(): Promise<void> {
-    if (this.pendingChanges.size === 0) return;
+  async getPendingQueueIds(): Promise<number[]> {
+    await this.ready;
+    return Array.from(this.pendingChanges);
+  }
+
+  async getSyncedQueues(): Promise<Queue[]> {
+    await this.ready;
+    return Array.from(this.lastSyncedState.values()).map(queue => ({ ...queue }));
+  }
+
+  async getSyncedGlobalConfig(): Promise<GlobalConfig> {
+    await this.ready;
+    return { ...this.lastSyncedGlobalConfig };
+  }
+
+  async getSyncedUserLimits(): Promise<UserLimit[]> {
+    await this.ready;
+    return Array.from(this.lastSyncedUserLimits.values()).map(user => ({ ...user }));
+  }
+
+  async applyPendingChanges(author: string = "anonymous", selection?: PendingChangeSelection): Promise<ConfigRevision | undefined> {
+    const { queueIds, globalConfig: applyGlobalConfig } = resolvePendingSelection(
+      selection, Array.from(this.pendingChanges), this.isGlobalConfigPending());
+    if (queueIds.length === 0 && !applyGlobalConfig) return undefined;
 
     try {
-      // Regenerate and save XML from current queues
+      // Write the last synced state plus the chosen changes into the file last
+      // synced, or into the staged file when the global settings are applied
       const allQueues = Array.from(this.queues.values());
-      const { generateXMLFromQueues } = await import('./xml-utils');
-      const xmlContent = generateXMLFromQueues(allQueues, this.globalConfig);
+      const syncedQueues = Array.from(this.lastSyncedState.values());
+      const syncedUserLimits = Array.from(this.lastSyncedUserLimits.values());
+      const base = await resolveAllocationBase(this.syncedFile, syncedQueues, syncedUserLimits, applyGlobalConfig ? this.stagedFile : undefined);
+      const { updateAllocationsXML } = await import('./xml-document');
+      const xmlContent = await updateAllocationsXML(
+        base.content,
+        overlayQueueChanges(syncedQueues, allQueues, queueIds),
+        applyGlobalConfig ? this.globalConfig : this.lastSyncedGlobalConfig,
+        base.queues,
+        Array.from((applyGlobalConfig ? this.userLimits : this.lastSyncedUserLimits).values()),
+        base.userLimits,
+      );
+      const { assertValidConfiguration } = await import('./config-validator');
+      await assertValidConfiguration(xmlContent);
       
-      // Update config file with regenerated XML
-      const configFile = await this.getConfigFile();
-      if (configFile) {
-        await this.saveConfigFile({
-          filePath: configFile.filePath,
-          content: xmlContent,
-          isValid: true,
-          lastModified: new Date().toISOString(),
-          validationErrors: null,
-        });
-        
-        // Write to disk
-        await this.writeConfigToDisk(configFile.filePath, xmlContent);
-        console.log(`Applied ${this.pendingChanges.size} pending changes to XML file`);
-      }
+      // Update config file with the new XML
+      await this.saveConfigFile({
+        filePath: this.defaultConfigPath,
+        content: xmlContent,
+        isValid: true,
+        lastModified: new Date().toISOString(),
+        validationErrors: null,
+      });
 
-      // Clear pending changes and update synced state
-      this.pendingChanges.clear();
-      this.lastSyncedState.clear();
-      this.queues.forEach((queue, id) => {
-        this.lastSyncedState.set(id, { ...queue });
+      // Write to disk
+      await this.writeConfigToDisk(this.defaultConfigPath, xmlContent);
+      console.log(`Applied ${queueIds.length} pending queue changes to XML file`);
+
+      const revision = await this.createConfigRevision({
+        filePath: this.defaultConfigPath,
+        content: xmlContent,
+        author,
+        summary: summarizePendingChanges(queueIds, allQueues, syncedQueues, applyGlobalConfig),
+        createdAt: new Date().toISOString(),
+        restoredFromId: null,
       });
-      
+
+      // Mark the applied changes as synced
+      for (const id of queueIds) {
+        const queue = this.queues.get(id);
+        if (queue) {
+          this.lastSyncedState.set(id, { ...queue });
+        } else {
+          this.lastSyncedState.delete(id);
+        }
+        this.pendingChanges.delete(id);
+      }
+      if (applyGlobalConfig) {
+        this.lastSyncedGlobalConfig = { ...this.globalConfig };
+        this.lastSyncedUserLimits = new Map(Array.from(this.userLimits, ([id, user]) => [id, { ...user }]));
+        this.stagedFile = undefined;
+      }
+      return revision;
     } catch (error) {
       console.error('Failed to apply pending changes:', error);
       throw error;
     }
   }
 
-  async discardPendingChanges(): Promise<void> {
-    // Restore queues to last synced state
-    this.queues.clear();
-    this.lastSyncedState.forEach((queue, id) => {
-      this.queues.set(id, { ...queue });
-    });
-    
-    // Clear pending changes
-    this.pendingChanges.clear();
-    console.log('Discarded all pending changes');
+  async discardPendingChanges(selection?: PendingChangeSelection): Promise<void> {
+    const { queueIds, globalConfig: discardGlobalConfig } = resolvePendingSelection(
+      selection, Array.from(this.pendingChanges), this.isGlobalConfigPending());
+
+    // Restore the chosen queues to their last synced state, keeping id order
+    const restored = overlayQueueChanges(Array.from(this.queues.values()), Array.from(this.lastSyncedState.values()), queueIds);
+    this.queues = new Map(restored.map(queue => [queue.id, { ...queue }]));
+    queueIds.forEach(id => this.pendingChanges.delete(id));
+
+    if (discardGlobalConfig) {
+      this.globalConfig = { ...this.lastSyncedGlobalConfig };
+      this.userLimits = new Map(Array.from(this.lastSyncedUserLimits, ([id, user]) => [id, { ...user }]));
+      this.stagedFile = undefined;
+    }
+    console.log(`Discarded ${queueIds.length} pending queue changes${discardGlobalConfig ? ' and global settings changes' : ''}`);
+  }
+
+  async getConfigRevisions(): Promise<ConfigRevisionSummary[]> {
+    await this.ready;
+    return Array.from(this.configRevisions.values())
+      .reverse()
+      .map(({ content, ...summary }) => summary);
+  }
+
+  async getConfigRevision(id: number): Promise<ConfigRevision | undefined> {
+    await this.ready;
+    return this.configRevisions.get(id);
+  }
+
+  async createConfigRevision(revision: InsertConfigRevision): Promise<ConfigRevision> {
+    const id = this.currentRevisionId++;
+    const configRevision: ConfigRevision = {
+      ...revision,
+      id,
+      restoredFromId: revision.restoredFromId ?? null,
+      hookResult: revision.hookResult ?? null,
+    };
+    this.configRevisions.set(id, configRevision);
+    return configRevision;
+  }
+
+  async setConfigRevisionHookResult(id: number, hookResult: PostApplyHookResult): Promise<ConfigRevision | undefined> {
+    const existing = this.configRevisions.get(id);
+    if (!existing) return undefined;
+
+    const revision: ConfigRevision = { ...existing, hookResult };
+    this.configRevisions.set(id, revision);
+    return revision;
+  }
+
+  async getWhatIfScenarios(): Promise<WhatIfScenario[]> {
+    return Array.from(this.whatIfScenarios.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWhatIfScenario(id: number): Promise<WhatIfScenario | undefined> {
+    return this.whatIfScenarios.get(id);
+  }
+
+  async createWhatIfScenario(insertScenario: InsertWhatIfScenario): Promise<WhatIfScenario> {
+    const id = this.currentScenarioId++;
+    const scenario: WhatIfScenario = {
+      ...insertScenario,
+      id,
+      description: insertScenario.description ?? null,
+      cluster: insertScenario.cluster ?? null,
+    };
+    this.whatIfScenarios.set(id, scenario);
+    return scenario;
+  }
+
+  async updateWhatIfScenario(id: number, updateData: Partial<InsertWhatIfScenario>): Promise<WhatIfScenario | undefined> {
+    const existing = this.whatIfScenarios.get(id);
+    if (!existing) return undefined;
+
+    const scenario: WhatIfScenario = { ...existing, ...updateData };
+    this.whatIfScenarios.set(id, scenario);
+    return scenario;
+  }
+
+  async deleteWhatIfScenario(id: number): Promise<boolean> {
+    return this.whatIfScenarios.delete(id);
+  }
+
+  async getChangeRequests(): Promise<ChangeRequest[]> {
+    return Array.from(this.changeRequests.values()).sort((a, b) => b.id - a.id);
+  }
+
+  async getChangeRequest(id: number): Promise<ChangeRequest | undefined> {
+    return this.changeRequests.get(id);
+  }
+
+  async createChangeRequest(insertRequest: InsertChangeRequest): Promise<ChangeRequest> {
+    const id = this.currentChangeRequestId++;
+    const request: ChangeRequest = {
+      ...insertRequest,
+      id,
+      description: insertRequest.description ?? null,
+      status: insertRequest.status ?? "open",
+      globalConfig: insertRequest.globalConfig ?? false,
+      revisionId: insertRequest.revisionId ?? null,
+    };
+    this.changeRequests.set(id, request);
+    return request;
+  }
+
+  async updateChangeRequest(id: number, updateData: Partial<InsertChangeRequest>): Promise<ChangeRequest | undefined> {
+    const existing = this.changeRequests.get(id);
+    if (!existing) return undefined;
+
+    const request: ChangeRequest = { ...existing, ...updateData };
+    this.changeRequests.set(id, request);
+    return request;
+  }
+
+  async getChangeRequestEvents(changeRequestId: number): Promise<ChangeRequestEvent[]> {
+    return this.changeRequestEvents.filter(event => event.changeRequestId === changeRequestId);
+  }
+
+  async addChangeRequestEvent(insertEvent: InsertChangeRequestEvent): Promise<ChangeRequestEvent> {
+    const event: ChangeRequestEvent = {
+      ...insertEvent,
+      id: this.currentChangeRequestEventId++,
+      message: insertEvent.message ?? null,
+    };
+    this.changeRequestEvents.push(event);
+    return event;
   }
 
   async getYarnConnection(): Promise<YarnConnection> {
@@ -466,21 +723,10 @@ export class MemStorage implements IStorage {
   }
 
   private async autoConfigureYarnConnection(): Promise<void> {
-    try {
-      const { autoConfigureYarn } = await import('./hadoop-config');
-      const autoConfig = await autoConfigureYarn();
-      
-      if (autoConfig) {
-        console.log(`Auto-configured YARN: ${autoConfig.host}:${autoConfig.port}`);
-        this.yarnConnection.resourceManagerHost = autoConfig.host;
-        this.yarnConnection.resourceManagerPort = autoConfig.port;
-        this.yarnConnection.enabled = true;
-        console.log('YARN auto-configuration successful');
-      } else {
-        console.log('No YARN configuration found, using defaults');
-      }
-    } catch (error) {
-      console.log('YARN auto-configuration failed:', error);
+    const detected = await detectYarnConnection(this.yarnSitePath);
+    if (detected) {
+      this.yarnConnection = detected;
+      console.log('YARN auto-configuration successful');
     }
   }
 
@@ -492,14 +738,7 @@ export class MemStorage implements IStorage {
       const xmlContent = await this.readConfigFromDisk(this.defaultConfigPath);
       
       // Get actual file modification time
-      let actualModTime: string;
-      try {
-        const stats = await fs.stat(this.defaultConfigPath);
-        actualModTime = stats.mtime.toISOString();
-      } catch (error) {
-        // Fallback to current time if stat fails
-        actualModTime = new Date().toISOString();
-      }
+      const actualModTime = await getFileModTime(this.defaultConfigPath);
 
       // Update config file in memory
       const configFile: ConfigFile = {
@@ -516,12 +755,16 @@ export class MemStorage implements IStorage {
       this.configFiles.set(configFile.id, configFile);
       
       // Parse global configuration and queues from XML
-      const { parseGlobalConfigFromXML, parseQueuesFromXML } = await import('./xml-utils');
+      const { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } = await import('./xml-utils');
       
       // Parse global configuration from XML first
       const parsedGlobalConfig = await parseGlobalConfigFromXML(xmlContent);
       this.globalConfig = { ...this.globalConfig, ...parsedGlobalConfig };
+      this.lastSyncedGlobalConfig = { ...this.globalConfig };
       console.log('Reloaded global config from XML:', this.globalConfig);
+
+      await this.syncUserLimitsFromXML(await parseUserLimitsFromXML(xmlContent));
+      this.lastSyncedUserLimits = new Map(Array.from(this.userLimits, ([id, user]) => [id, { ...user }]));
       
       // Parse and sync queues from XML
       const parsedQueues = await parseQueuesFromXML(xmlContent);
@@ -529,10 +772,12 @@ export class MemStorage implements IStorage {
       
       // Clear pending changes and update synced state
       this.pendingChanges.clear();
+      this.stagedFile = undefined;
       this.lastSyncedState.clear();
       this.queues.forEach((queue, id) => {
         this.lastSyncedState.set(id, { ...queue });
       });
+      this.syncedFile = await fingerprintConfigFile(this.defaultConfigPath, xmlContent);
       
       console.log(`Successfully reloaded ${parsedQueues.length} queues from disk`);
       
@@ -543,6 +788,7 @@ export class MemStorage implements IStorage {
   }
 
   async getGlobalConfig(): Promise<GlobalConfig> {
+    await this.ready;
     return this.globalConfig;
   }
 
@@ -553,7 +799,279 @@ export class MemStorage implements IStorage {
     };
     return this.globalConfig;
   }
+
+  async getUserLimits(): Promise<UserLimit[]> {
+    await this.ready;
+    return Array.from(this.userLimits.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getUserLimit(id: number): Promise<UserLimit | undefined> {
+    await this.ready;
+    return this.userLimits.get(id);
+  }
+
+  async createUserLimit(insertUserLimit: InsertUserLimit): Promise<UserLimit> {
+    const id = this.currentUserLimitId++;
+    const userLimit: UserLimit = { ...insertUserLimit, id };
+    this.userLimits.set(id, userLimit);
+    return userLimit;
+  }
+
+  async updateUserLimit(id: number, updateData: Partial<InsertUserLimit>): Promise<UserLimit | undefined> {
+    const existing = this.userLimits.get(id);
+    if (!existing) return undefined;
+
+    const userLimit: UserLimit = { ...existing, ...updateData };
+    this.userLimits.set(id, userLimit);
+    return userLimit;
+  }
+
+  async deleteUserLimit(id: number): Promise<boolean> {
+    return this.userLimits.delete(id);
+  }
+
+  async syncUserLimitsFromXML(userLimits: any[]): Promise<void> {
+    this.userLimits.clear();
+    this.currentUserLimitId = 1;
+    userLimits.forEach(user => {
+      const id = this.currentUserLimitId++;
+      this.userLimits.set(id, { id, name: user.name, maxRunningApps: user.maxRunningApps });
+    });
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class MemClusterStore implements IClusterStore {
+  private clusters: Map<number, Cluster>;
+  private currentClusterId: number;
+
+  constructor(defaultCluster: InsertCluster) {
+    this.clusters = new Map([[DEFAULT_CLUSTER_ID, {
+      ...defaultCluster,
+      id: DEFAULT_CLUSTER_ID,
+      yarnSitePath: defaultCluster.yarnSitePath ?? null,
+      promotionOverrides: defaultCluster.promotionOverrides ?? null,
+      postApplyHook: defaultCluster.postApplyHook ?? null,
+    }]]);
+    this.currentClusterId = DEFAULT_CLUSTER_ID + 1;
+  }
+
+  async getClusters(): Promise<Cluster[]> {
+    return Array.from(this.clusters.values());
+  }
+
+  async getCluster(id: number): Promise<Cluster | undefined> {
+    return this.clusters.get(id);
+  }
+
+  async createCluster(insertCluster: InsertCluster): Promise<Cluster> {
+    const id = this.currentClusterId++;
+    const cluster: Cluster = {
+      ...insertCluster,
+      id,
+      yarnSitePath: insertCluster.yarnSitePath ?? null,
+      promotionOverrides: insertCluster.promotionOverrides ?? null,
+      postApplyHook: insertCluster.postApplyHook ?? null,
+    };
+    this.clusters.set(id, cluster);
+    return cluster;
+  }
+
+  async updateCluster(id: number, updateData: Partial<InsertCluster>): Promise<Cluster | undefined> {
+    const existing = this.clusters.get(id);
+    if (!existing) return undefined;
+
+    const cluster: Cluster = { ...existing, ...updateData };
+    this.clusters.set(id, cluster);
+    return cluster;
+  }
+
+  async deleteCluster(id: number): Promise<boolean> {
+    return this.clusters.delete(id);
+  }
+
+  openStorage(cluster: Cluster): IStorage {
+    return new MemStorage(cluster);
+  }
+}
+
+export class MemAccountStore implements IAccountStore {
+  sessionStore = createMemorySessionStore();
+  private accounts = new Map<number, Account>();
+  private currentAccountId = 1;
+
+  async getAccounts(): Promise<Account[]> {
+    return Array.from(this.accounts.values());
+  }
+
+  async getAccount(id: number): Promise<Account | undefined> {
+    return this.accounts.get(id);
+  }
+
+  async getAccountByUsername(username: string): Promise<Account | undefined> {
+    return Array.from(this.accounts.values()).find(account => account.username === username);
+  }
+
+  async createAccount(insertAccount: InsertAccount): Promise<Account> {
+    const id = this.currentAccountId++;
+    const account: Account = { ...insertAccount, id, role: insertAccount.role ?? "viewer" };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  async updateAccount(id: number, updateData: Partial<InsertAccount>): Promise<Account | undefined> {
+    const existing = this.accounts.get(id);
+    if (!existing) return undefined;
+
+    const account: Account = { ...existing, ...updateData };
+    this.accounts.set(id, account);
+    return account;
+  }
+
+  async deleteAccount(id: number): Promise<boolean> {
+    return this.accounts.delete(id);
+  }
+}
+
+// "maxRunningApps" also matches "root.prod.maxRunningApps", as changes to
+// many queues at once name their fields
+function matchesField(field: string, wanted: string): boolean {
+  return field === wanted || field.endsWith(`.${wanted}`);
+}
+
+export class MemAuditLog implements IAuditLog {
+  private entries: AuditEntry[] = [];
+
+  async appendAuditEntry(entry: InsertAuditEntry): Promise<AuditEntry> {
+    const created: AuditEntry = {
+      ...entry,
+      id: this.entries.length + 1,
+      sourceIp: entry.sourceIp ?? null,
+      clusterId: entry.clusterId ?? null,
+      target: entry.target ?? null,
+    };
+    this.entries.push(created);
+    return created;
+  }
+
+  async getAuditEntries(filter: AuditFilter): Promise<AuditEntry[]> {
+    return this.entries
+      .filter(entry =>
+        (filter.actor === undefined || entry.actor === filter.actor) &&
+        (filter.action === undefined || entry.action === filter.action) &&
+        (filter.clusterId === undefined || entry.clusterId === filter.clusterId) &&
+        (filter.target === undefined || (entry.target ?? "").includes(filter.target)) &&
+        (filter.field === undefined || entry.changes.some(change => matchesField(change.field, filter.field!))) &&
+        (filter.since === undefined || entry.createdAt >= filter.since) &&
+        (filter.until === undefined || entry.createdAt <= filter.until))
+      .reverse()
+      .slice(0, filter.limit);
+  }
+}
+
+/**
+ * The clusters this configurator manages and the storage of each, which is
+ * opened on first use. The allocation file of an open storage is watched
+ * for edits made outside the configurator.
+ */
+export class ClusterManager {
+  private storages = new Map<number, IStorage>();
+
+  constructor(private store: IClusterStore) {}
+
+  async getClusters(): Promise<Cluster[]> {
+    return this.store.getClusters();
+  }
+
+  async getCluster(id: number): Promise<Cluster | undefined> {
+    return this.store.getCluster(id);
+  }
+
+  getStorage(cluster: Cluster): IStorage {
+    let storage = this.storages.get(cluster.id);
+    if (!storage) {
+      storage = this.store.openStorage(cluster);
+      this.storages.set(cluster.id, storage);
+      watchConfigFile(cluster, storage);
+    }
+    return storage;
+  }
+
+  async createCluster(cluster: InsertCluster): Promise<Cluster> {
+    return this.store.createCluster(cluster);
+  }
+
+  // Storage is reopened for moved files. A different allocation file is
+  // loaded right away, which drops pending changes.
+  async updateCluster(id: number, updateData: Partial<InsertCluster>): Promise<Cluster | undefined> {
+    const existing = await this.store.getCluster(id);
+    const cluster = await this.store.updateCluster(id, updateData);
+    if (!existing || !cluster) return undefined;
+
+    if (cluster.configPath !== existing.configPath || cluster.yarnSitePath !== existing.yarnSitePath) {
+      await this.closeStorage(id);
+      if (cluster.configPath !== existing.configPath) {
+        await this.getStorage(cluster).reloadFromDisk();
+      }
+    }
+    return cluster;
+  }
+
+  async deleteCluster(id: number): Promise<boolean> {
+    await this.closeStorage(id);
+    return this.store.deleteCluster(id);
+  }
+
+  private async closeStorage(id: number): Promise<void> {
+    const storage = this.storages.get(id);
+    this.storages.delete(id);
+    unwatchConfigFile(id);
+    await storage?.close();
+  }
+}
+
+function createStores(): { clusters: ClusterManager; accounts: IAccountStore; audit: IAuditLog } {
+  const storageType = (process.env.STORAGE_TYPE || 'sqlite').toLowerCase();
+  // Created on first start from the single-cluster settings
+  const defaultCluster: InsertCluster = {
+    name: process.env.CLUSTER_NAME || "default",
+    configPath: getDefaultConfigPath(),
+    yarnSitePath: process.env.YARN_SITE_XML_PATH || null,
+  };
+
+  switch (storageType) {
+    case 'memory':
+      console.log('Using in-memory storage with XML file persistence');
+      return {
+        clusters: new ClusterManager(new MemClusterStore(defaultCluster)),
+        accounts: new MemAccountStore(),
+        audit: new MemAuditLog(),
+      };
+    case 'sqlite': {
+      const dbPath = process.env.SQLITE_DB_PATH || './data/yarn-scheduler.db';
+      console.log(`Using SQLite storage: ${dbPath}`);
+      return {
+        clusters: new ClusterManager(new SqliteClusterStore(dbPath, defaultCluster)),
+        accounts: new SqliteAccountStore(dbPath),
+        audit: new SqliteAuditLog(dbPath),
+      };
+    }
+    case 'postgres':
+    case 'postgresql': {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_TYPE=postgres requires DATABASE_URL to be set");
+      }
+      console.log('Using PostgreSQL storage');
+      return {
+        clusters: new ClusterManager(new PostgresClusterStore(process.env.DATABASE_URL, defaultCluster)),
+        accounts: new PostgresAccountStore(process.env.DATABASE_URL),
+        audit: new PostgresAuditLog(process.env.DATABASE_URL),
+      };
+    }
+    default:
+      throw new Error(`Unsupported STORAGE_TYPE "${storageType}" (expected "sqlite", "postgres" or "memory")`);
+  }
 }
 
-// Simple memory storage with XML file persistence only
-export const storage = new MemStorage();
\ No newline at end of file
+export const { clusters, accounts, audit } = createStores();
\ No newline at end of file
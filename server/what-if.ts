@@ -0,0 +1,194 @@
+import type { Queue, GlobalConfig, ClusterResources, ResourceShare, QueueWhatIf } from "@shared/schema";
+import type { ScenarioDemand } from "@shared/what-if";
+import { calculateAllocations } from "./fair-share";
+
+/**
+ * Evaluates a what-if scenario: the queues' demand and current usage, in
+ * percent of the cluster, against a configuration. Reports the resulting
+ * instantaneous fair shares and allocations, which queues are starved and
+ * when preemption starts on their behalf, and which queues it takes from.
+ *
+ * Queues below their share are served from free resources first; they are
+ * only starved, and preemption only happens, once those run out.
+ */
+
+type ResourceType = keyof ClusterResources;
+
+// YARN's default fairSharePreemptionThreshold
+const DEFAULT_FAIR_SHARE_PREEMPTION_THRESHOLD = 0.5;
+
+const NO_RESOURCES: ClusterResources = { memoryMb: 0, vcores: 0 };
+
+function ofCluster(percent: number, cluster: ClusterResources): ClusterResources {
+  return {
+    memoryMb: Math.floor(cluster.memoryMb * percent / 100),
+    vcores: Math.floor(cluster.vcores * percent / 100),
+  };
+}
+
+function add(a: ClusterResources, b: ClusterResources): ClusterResources {
+  return { memoryMb: a.memoryMb + b.memoryMb, vcores: a.vcores + b.vcores };
+}
+
+function ancestors(path: string): string[] {
+  const segments = path.split(".");
+  return segments.map((_, i) => segments.slice(0, segments.length - i).join("."));
+}
+
+/**
+ * Queue paths in `demands` that are not in `queues`.
+ */
+export function unknownScenarioQueues(queues: Queue[], demands: ScenarioDemand[]): string[] {
+  const paths = new Set(queues.map(queue => queue.path));
+  return demands.map(demand => demand.queue).filter(path => !paths.has(path));
+}
+
+// Leaf queues' demand and usage in percent. A leaf takes the entry of its
+// nearest queue that has one; entries on parent queues are spread over the
+// leaves that take them by weight.
+function leafPercentages(queues: Queue[], demands: ScenarioDemand[]): Map<string, { demand: number; usage: number }> {
+  const parents = new Set(queues.map(queue => queue.parent).filter(Boolean));
+  const leaves = queues.filter(queue => !parents.has(queue.path) && (queue.path !== "root" || queues.length === 1));
+  const entries = new Map(demands.map(demand => [demand.queue, demand]));
+
+  const owner = new Map<string, ScenarioDemand>();
+  const ownerWeight = new Map<string, number>();
+  leaves.forEach(leaf => {
+    const entry = ancestors(leaf.path).map(path => entries.get(path)).find(Boolean);
+    if (!entry) return;
+    owner.set(leaf.path, entry);
+    ownerWeight.set(entry.queue, (ownerWeight.get(entry.queue) ?? 0) + (leaf.weight ?? 1));
+  });
+
+  const result = new Map<string, { demand: number; usage: number }>();
+  leaves.forEach(leaf => {
+    const entry = owner.get(leaf.path);
+    if (!entry) return;
+    const fraction = entry.queue === leaf.path ? 1 : (leaf.weight ?? 1) / (ownerWeight.get(entry.queue) || 1);
+    result.set(leaf.path, { demand: entry.demand * fraction, usage: entry.usage * fraction });
+  });
+  return result;
+}
+
+// A queue setting, inherited from the nearest ancestor that sets it
+function inherited<K extends keyof Queue>(path: string, byPath: Map<string, Queue>, key: K): NonNullable<Queue[K]> | null {
+  for (const ancestor of ancestors(path)) {
+    const value = byPath.get(ancestor)?.[key];
+    if (value !== null && value !== undefined) return value as NonNullable<Queue[K]>;
+  }
+  return null;
+}
+
+// allowPreemptionFrom=false applies to a queue's descendants as well; unset
+// allows preemption, as in YARN
+function isPreemptable(path: string, byPath: Map<string, Queue>): boolean {
+  return ancestors(path).every(ancestor => byPath.get(ancestor)?.allowPreemptionFrom !== false);
+}
+
+// Resources the policy of the queue's parent divides
+function computedTypes(share: ResourceShare): ResourceType[] {
+  return (["memoryMb", "vcores"] as ResourceType[]).filter(type => share[type] !== null);
+}
+
+export function analyzeScenario(
+  queues: Queue[],
+  globalConfig: GlobalConfig,
+  cluster: ClusterResources,
+  demands: ScenarioDemand[],
+): { queues: QueueWhatIf[]; preemptedQueues: string[] } {
+  const byPath = new Map(queues.map(queue => [queue.path, queue]));
+  const percentages = leafPercentages(queues, demands);
+  const leafDemands = new Map(Array.from(percentages, ([path, { demand }]) => [path, ofCluster(demand, cluster)] as const));
+  const allocations = calculateAllocations(queues, globalConfig.defaultQueueSchedulingPolicy || "fair", cluster, leafDemands);
+
+  // Usage of every queue: its own or its leaves'
+  const usage = new Map<string, ClusterResources>();
+  percentages.forEach(({ usage: percent }, leaf) => {
+    const leafUsage = ofCluster(percent, cluster);
+    ancestors(leaf).forEach(path => usage.set(path, add(usage.get(path) ?? NO_RESOURCES, leafUsage)));
+  });
+  const usageOf = (path: string) => usage.get(path) ?? NO_RESOURCES;
+
+  // Shortfall of the leaf queues below their min share and below their
+  // fair share times the threshold
+  const leaves = Array.from(percentages.keys());
+  const shortfall = (path: string, target: (type: ResourceType) => number) => {
+    const { instantaneousFairShare } = allocations.get(path)!;
+    const missing: ClusterResources = { ...NO_RESOURCES };
+    computedTypes(instantaneousFairShare).forEach(type => {
+      missing[type] = Math.max(0, Math.floor(target(type)) - usageOf(path)[type]);
+    });
+    return missing;
+  };
+  const minShareShortfall = new Map(leaves.map(path => {
+    const { minShare, demand } = allocations.get(path)!;
+    return [path, shortfall(path, type => Math.min(minShare[type], demand[type]))] as const;
+  }));
+  const fairShareShortfall = new Map(leaves.map(path => {
+    const { instantaneousFairShare, demand } = allocations.get(path)!;
+    const threshold = inherited(path, byPath, "fairSharePreemptionThreshold")
+      ?? globalConfig.defaultFairSharePreemptionThreshold ?? DEFAULT_FAIR_SHARE_PREEMPTION_THRESHOLD;
+    return [path, shortfall(path, type => threshold * Math.min(instantaneousFairShare[type] ?? 0, demand[type]))] as const;
+  }));
+
+  // Starvation only lasts when free resources cannot make up the shortfall
+  const free = {
+    memoryMb: cluster.memoryMb - usageOf("root").memoryMb,
+    vcores: cluster.vcores - usageOf("root").vcores,
+  };
+  const totalShortfall = leaves.reduce((total, path) => add(total, minShareShortfall.get(path)!), NO_RESOURCES);
+  leaves.forEach(path => {
+    const fairShortfall = fairShareShortfall.get(path)!;
+    const minShortfall = minShareShortfall.get(path)!;
+    totalShortfall.memoryMb += Math.max(0, fairShortfall.memoryMb - minShortfall.memoryMb);
+    totalShortfall.vcores += Math.max(0, fairShortfall.vcores - minShortfall.vcores);
+  });
+  const starving = totalShortfall.memoryMb > free.memoryMb || totalShortfall.vcores > free.vcores;
+  const isStarved = (missing: ClusterResources) => starving && (missing.memoryMb > 0 || missing.vcores > 0);
+
+  const starvedLeaves = new Set<string>();
+  const results: QueueWhatIf[] = [];
+  allocations.forEach((allocation, path) => {
+    const queue = byPath.get(path);
+    const isLeaf = percentages.has(path);
+    const minShareStarved = isLeaf && isStarved(minShareShortfall.get(path)!);
+    const fairShareStarved = isLeaf && isStarved(fairShareShortfall.get(path)!);
+    const minShareTimeout = inherited(path, byPath, "minSharePreemptionTimeout") ?? globalConfig.defaultMinSharePreemptionTimeout;
+    const fairShareTimeout = inherited(path, byPath, "fairSharePreemptionTimeout") ?? globalConfig.defaultFairSharePreemptionTimeout;
+    const minSharePreemptionIn = minShareStarved ? minShareTimeout ?? null : null;
+    const fairSharePreemptionIn = fairShareStarved ? fairShareTimeout ?? null : null;
+    if (minSharePreemptionIn !== null || fairSharePreemptionIn !== null) starvedLeaves.add(path);
+
+    results.push({
+      path,
+      name: queue?.name ?? path,
+      parent: path === "root" ? null : queue?.parent ?? null,
+      demand: allocation.demand,
+      usage: usageOf(path),
+      instantaneousFairShare: allocation.instantaneousFairShare,
+      allocation: allocation.allocation,
+      minShareStarved,
+      fairShareStarved,
+      minSharePreemptionIn,
+      fairSharePreemptionIn,
+      preemptable: isPreemptable(path, byPath),
+      preempted: { memoryMb: 0, vcores: 0 },
+    });
+  });
+
+  // Preemption takes resources above their fair share from preemptable
+  // leaf queues, once some queue has been starved for its timeout
+  const preemptedQueues: string[] = [];
+  if (starvedLeaves.size > 0) {
+    results.filter(result => percentages.has(result.path) && result.preemptable).forEach(result => {
+      const preempted: ResourceShare = { memoryMb: null, vcores: null };
+      computedTypes(result.instantaneousFairShare).forEach(type => {
+        preempted[type] = Math.max(0, result.usage[type] - (result.instantaneousFairShare[type] ?? 0));
+      });
+      result.preempted = preempted;
+      if ((preempted.memoryMb ?? 0) > 0 || (preempted.vcores ?? 0) > 0) preemptedQueues.push(result.path);
+    });
+  }
+
+  return { queues: results, preemptedQueues };
+}
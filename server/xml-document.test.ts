@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import type { GlobalConfig, Queue, UserLimit } from "@shared/schema";
+import { updateAllocationsXML } from "./xml-document";
+import { parseGlobalConfigFromXML, parseQueuesFromXML, parseUserLimitsFromXML } from "./xml-utils";
+import { toQueueValues } from "./storage-utils";
+
+const FILE = `<?xml version="1.0"?>
+<!-- Managed by the platform team -->
+<allocations>
+  <queue name="root">
+    <!-- Production first -->
+    <queue name="prod" type="parent">
+      <weight>2.0</weight>
+      <maxChildResources>4096 mb, 4 vcores</maxChildResources>
+      <allowPreemptionTo>false</allowPreemptionTo>
+      <queue name="etl">
+        <maxRunningApps>10</maxRunningApps>
+        <customSetting>kept</customSetting>
+      </queue>
+    </queue>
+    <queue name="adhoc"/>
+  </queue>
+  <user name="alice">
+    <maxRunningApps>3</maxRunningApps>
+  </user>
+  <userMaxAppsDefault>5</userMaxAppsDefault>
+  <queuePlacementPolicy>
+    <rule name="specified"/>
+    <rule name="default" queue="adhoc"/>
+  </queuePlacementPolicy>
+</allocations>
+`;
+
+// The settings of a file as the storage holds them, with ids by position
+async function load(content: string): Promise<{ queues: Queue[]; globalConfig: GlobalConfig; userLimits: UserLimit[] }> {
+  return {
+    queues: (await parseQueuesFromXML(content)).map((queue, index) => ({ ...toQueueValues(queue), id: index + 1 }) as Queue),
+    globalConfig: await parseGlobalConfigFromXML(content),
+    userLimits: (await parseUserLimitsFromXML(content)).map((user, index) => ({ id: index + 1, name: user.name, maxRunningApps: user.maxRunningApps })),
+  };
+}
+
+async function write(edit: (state: Awaited<ReturnType<typeof load>>) => void): Promise<string> {
+  const previous = await load(FILE);
+  const state = await load(FILE);
+  edit(state);
+  return updateAllocationsXML(FILE, state.queues, state.globalConfig, previous.queues, state.userLimits, previous.userLimits);
+}
+
+function byPath(queues: Queue[], path: string): Queue {
+  return queues.find(queue => queue.path === path)!;
+}
+
+describe("updateAllocationsXML", () => {
+  it("writes an unchanged file back as it was", async () => {
+    expect(await write(() => {})).toBe(FILE);
+  });
+
+  it("rewrites only the setting that changed", async () => {
+    const content = await write(({ queues }) => {
+      byPath(queues, "root.prod").weight = 3;
+    });
+
+    expect(content).toBe(FILE.replace("<weight>2.0</weight>", "<weight>3.0</weight>"));
+  });
+
+  it("keeps an explicit allowPreemptionTo=false", async () => {
+    const content = await write(({ queues }) => {
+      byPath(queues, "root.adhoc").maxRunningApps = 4;
+    });
+
+    expect(content).toContain("<allowPreemptionTo>false</allowPreemptionTo>");
+    expect(content).toContain(`<queue name="adhoc">\n      <maxRunningApps>4</maxRunningApps>\n    </queue>`);
+  });
+
+  it("removes a setting that was cleared", async () => {
+    const content = await write(({ queues }) => {
+      byPath(queues, "root.prod.etl").maxRunningApps = null;
+    });
+
+    expect(content).not.toContain("<maxRunningApps>10</maxRunningApps>");
+    expect(content).toContain("<customSetting>kept</customSetting>");
+  });
+
+  it("adds new queues after their last sibling", async () => {
+    const content = await write(({ queues }) => {
+      queues.push({ ...toQueueValues({ name: "batch", path: "root.prod.batch", parent: "root.prod", weight: 1 }), id: 100 } as Queue);
+    });
+
+    expect(content).toContain(`        <customSetting>kept</customSetting>
+      </queue>
+      <queue name="batch">
+        <weight>1.0</weight>`);
+  });
+
+  it("removes deleted queues only", async () => {
+    const content = await write(state => {
+      state.queues = state.queues.filter(queue => queue.path !== "root.adhoc");
+    });
+
+    expect(content).not.toContain(`<queue name="adhoc"/>`);
+    expect(content).toContain(`<queue name="etl">`);
+  });
+
+  it("keeps the elements of renamed and moved queues", async () => {
+    const content = await write(({ queues }) => {
+      Object.assign(byPath(queues, "root.prod.etl"), { name: "pipelines", path: "root.adhoc.pipelines", parent: "root.adhoc" });
+    });
+
+    expect(content).not.toContain(`<queue name="etl">`);
+    expect(content).toMatch(/<queue name="adhoc">\s*<queue name="pipelines">\s*<maxRunningApps>10<\/maxRunningApps>\s*<customSetting>kept<\/customSetting>/);
+    expect(content).toContain("<!-- Production first -->");
+  });
+
+  it("writes user limits and global settings", async () => {
+    const content = await write(state => {
+      state.userLimits = [{ id: 1, name: "alice", maxRunningApps: 6 }, { id: 9, name: "bob", maxRunningApps: 2 }];
+      state.globalConfig = { ...state.globalConfig, queueMaxAppsDefault: 50 };
+    });
+
+    expect(content).toMatch(/<user name="alice">\s*<maxRunningApps>6<\/maxRunningApps>/);
+    expect(content).toMatch(/<user name="bob">\s*<maxRunningApps>2<\/maxRunningApps>/);
+    expect(content).toContain("<queueMaxAppsDefault>50</queueMaxAppsDefault>");
+    expect(content).toContain("<!-- Managed by the platform team -->");
+  });
+
+  it("rewrites the placement policy when its rules change", async () => {
+    const content = await write(state => {
+      state.globalConfig = { ...state.globalConfig, queuePlacementRules: [{ name: "user", create: false }, { name: "reject" }] };
+    });
+
+    expect(content).toMatch(/<queuePlacementPolicy>\s*<rule name="user" create="false"\/>\s*<rule name="reject"\/>\s*<\/queuePlacementPolicy>/);
+  });
+
+  it("generates a file when there is none", async () => {
+    const { queues, globalConfig, userLimits } = await load(FILE);
+
+    const content = await updateAllocationsXML("", queues, globalConfig, [], userLimits, []);
+
+    expect((await load(content)).queues.map(queue => queue.path)).toEqual(queues.map(queue => queue.path));
+  });
+});
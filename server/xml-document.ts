@@ -0,0 +1,369 @@
+import { DOMParser, XMLSerializer, onErrorStopParsing, type Document, type Element, type Node } from "@xmldom/xmldom";
+import type { Queue, GlobalConfig, UserLimit } from "@shared/schema";
+import { formatResourceValue } from "@shared/resources";
+import { DEFAULT_PLACEMENT_RULES, type PlacementRule } from "@shared/placement";
+import { parseQueuesFromXML, parseGlobalConfigFromXML, parseUserLimitsFromXML, generateXMLFromQueues, placementRuleAttributes } from "./xml-utils";
+
+/**
+ * Writes queue and global settings into an existing allocation file without
+ * regenerating it: comments, elements and attributes the configurator does not
+ * model, and the order of everything, are kept. Only settings whose value
+ * differs from what the file already says are rewritten.
+ */
+
+const INDENT = "  ";
+
+// How a queue setting maps to a child element of <queue>. `format` returns the
+// element text, or null when the element should be absent.
+interface ElementWriter<T> {
+  element: string;
+  format: (settings: Partial<T>) => string | null;
+}
+
+function formatDecimal(value: number): string {
+  // Preserve decimal notation (e.g., 4.0 instead of 4), as the generator does
+  return Number.isInteger(value) ? `${value}.0` : String(value);
+}
+
+const QUEUE_WRITERS: ElementWriter<Queue>[] = [
+  { element: "weight", format: q => q.weight != null ? formatDecimal(q.weight) : null },
+  { element: "schedulingPolicy", format: q => q.schedulingPolicy || null },
+  { element: "minResources", format: q => q.minResources ? formatResourceValue(q.minResources) : null },
+  { element: "maxResources", format: q => q.maxResources ? formatResourceValue(q.maxResources) : null },
+  { element: "maxRunningApps", format: q => q.maxRunningApps ? String(q.maxRunningApps) : null },
+  { element: "maxAMShare", format: q => q.maxAMShare ? formatDecimal(q.maxAMShare) : null },
+  { element: "allowPreemptionFrom", format: q => q.allowPreemptionFrom ? "true" : "false" },
+  { element: "allowPreemptionTo", format: q => q.allowPreemptionTo != null ? String(q.allowPreemptionTo) : null },
+  { element: "minSharePreemptionTimeout", format: q => q.minSharePreemptionTimeout ? String(q.minSharePreemptionTimeout) : null },
+  { element: "fairSharePreemptionTimeout", format: q => q.fairSharePreemptionTimeout ? String(q.fairSharePreemptionTimeout) : null },
+  { element: "fairSharePreemptionThreshold", format: q => q.fairSharePreemptionThreshold != null ? String(q.fairSharePreemptionThreshold) : null },
+  { element: "aclSubmitApps", format: q => q.aclSubmitApps && q.aclSubmitApps !== "*" ? q.aclSubmitApps : null },
+  { element: "aclAdministerApps", format: q => q.aclAdministerApps && q.aclAdministerApps !== "*" ? q.aclAdministerApps : null },
+];
+
+const GLOBAL_WRITERS: ElementWriter<GlobalConfig>[] = [
+  { element: "userMaxAppsDefault", format: g => String(g.userMaxAppsDefault || 5) },
+  { element: "queueMaxAppsDefault", format: g => g.queueMaxAppsDefault ? String(g.queueMaxAppsDefault) : null },
+  { element: "queueMaxAMShareDefault", format: g => g.queueMaxAMShareDefault ? String(g.queueMaxAMShareDefault) : null },
+  { element: "defaultMinSharePreemptionTimeout", format: g => g.defaultMinSharePreemptionTimeout ? String(g.defaultMinSharePreemptionTimeout) : null },
+  { element: "defaultFairSharePreemptionTimeout", format: g => g.defaultFairSharePreemptionTimeout ? String(g.defaultFairSharePreemptionTimeout) : null },
+  { element: "defaultFairSharePreemptionThreshold", format: g => g.defaultFairSharePreemptionThreshold != null ? String(g.defaultFairSharePreemptionThreshold) : null },
+  { element: "defaultQueueSchedulingPolicy", format: g => g.defaultQueueSchedulingPolicy || "fair" },
+];
+
+const USER_WRITERS: ElementWriter<UserLimit>[] = [
+  { element: "maxRunningApps", format: u => u.maxRunningApps != null ? String(u.maxRunningApps) : null },
+];
+
+function parseDocument(content: string): Document | null {
+  if (!content.trim()) return null;
+  try {
+    const doc = new DOMParser({ onError: onErrorStopParsing }).parseFromString(content, "text/xml");
+    return doc.documentElement?.tagName === "allocations" ? doc : null;
+  } catch {
+    return null;
+  }
+}
+
+function childElements(parent: Element, tagName?: string): Element[] {
+  return Array.from(parent.children).filter(child => !tagName || child.tagName === tagName);
+}
+
+// Whitespace that precedes an element on its line
+function indentOf(element: Element): string {
+  const previous = element.previousSibling;
+  if (previous && previous.nodeType === previous.TEXT_NODE) {
+    const text = previous.nodeValue ?? "";
+    const newline = text.lastIndexOf("\n");
+    if (newline >= 0 && !text.slice(newline + 1).trim()) return text.slice(newline + 1);
+  }
+  return "";
+}
+
+function childIndentOf(parent: Element): string {
+  const [firstChild] = childElements(parent);
+  return firstChild ? indentOf(firstChild) : indentOf(parent) + INDENT;
+}
+
+function isWhitespace(node: Node | null): boolean {
+  return !!node && node.nodeType === node.TEXT_NODE && !(node.nodeValue ?? "").trim();
+}
+
+// Inserts `child` on its own line, after `after` or before `before` (or as the
+// last child when neither is given), indented like its siblings
+function insertChild(parent: Element, child: Element, position: { after?: Element; before?: Element } = {}): void {
+  const doc = parent.ownerDocument!;
+  const indent = childIndentOf(parent);
+
+  if (childElements(parent).length === 0 && Array.from(parent.childNodes).every(isWhitespace)) {
+    while (parent.firstChild) parent.removeChild(parent.firstChild);
+    parent.appendChild(doc.createTextNode(`\n${indent}`));
+    parent.appendChild(child);
+    parent.appendChild(doc.createTextNode(`\n${indentOf(parent)}`));
+    return;
+  }
+
+  if (position.before) {
+    parent.insertBefore(child, position.before);
+    parent.insertBefore(doc.createTextNode(`\n${indent}`), position.before);
+    return;
+  }
+
+  const after = position.after ?? childElements(parent).pop();
+  if (!after) {
+    parent.appendChild(doc.createTextNode(`\n${indent}`));
+    parent.appendChild(child);
+    return;
+  }
+  const next = after.nextSibling;
+  parent.insertBefore(doc.createTextNode(`\n${indent}`), next);
+  parent.insertBefore(child, next);
+}
+
+// Removes an element together with the whitespace that put it on its own line
+function removeElement(element: Element): void {
+  const parent = element.parentNode;
+  if (!parent) return;
+  if (isWhitespace(element.previousSibling)) {
+    parent.removeChild(element.previousSibling!);
+  }
+  parent.removeChild(element);
+}
+
+// Shifts the indentation of everything inside `element` from one level to another
+function reindent(element: Element, from: string, to: string): void {
+  if (from === to) return;
+  Array.from(element.childNodes).forEach(node => {
+    if (isWhitespace(node)) {
+      node.nodeValue = (node.nodeValue ?? "").split(`\n${from}`).join(`\n${to}`);
+    } else if (node.nodeType === node.ELEMENT_NODE) {
+      reindent(node as Element, from, to);
+    }
+  });
+}
+
+// Sets, replaces or removes the settings elements that `writers` produce
+// differently for `current` than for `previous`. A null `previous` writes
+// every setting, as for a newly created element.
+function applyWriters<T>(element: Element, writers: ElementWriter<T>[], current: Partial<T>, previous: Partial<T> | null): void {
+  const doc = element.ownerDocument!;
+  for (const writer of writers) {
+    const text = writer.format(current);
+    if (previous ? text === writer.format(previous) : text === null) continue;
+
+    const existing = childElements(element, writer.element)[0];
+    if (text === null) {
+      if (existing) removeElement(existing);
+    } else if (existing) {
+      while (existing.firstChild) existing.removeChild(existing.firstChild);
+      existing.appendChild(doc.createTextNode(text));
+    } else {
+      const created = doc.createElement(writer.element);
+      created.appendChild(doc.createTextNode(text));
+      // Settings go after the other settings and before any child queues
+      const settings = childElements(element).filter(child => child.tagName !== "queue");
+      const firstQueue = childElements(element, "queue")[0];
+      insertChild(element, created, settings.length > 0
+        ? { after: settings[settings.length - 1] }
+        : { before: firstQueue });
+    }
+  }
+}
+
+// <queue> elements by full path. Without an explicit <queue name="root">, the
+// top-level queues are children of an implicit root.
+function indexQueueElements(allocations: Element): Map<string, Element> {
+  const index = new Map<string, Element>();
+  const visit = (element: Element, parentPath: string | null) => {
+    const name = element.getAttribute("name");
+    if (!name) return;
+    const queuePath = parentPath ? `${parentPath}.${name}` : name;
+    if (index.has(queuePath)) return;
+    index.set(queuePath, element);
+    childElements(element, "queue").forEach(child => visit(child, queuePath));
+  };
+  childElements(allocations, "queue").forEach(element => {
+    visit(element, element.getAttribute("name") === "root" ? null : "root");
+  });
+  return index;
+}
+
+function byPath<T extends { path: string }>(queues: T[]): Map<string, T> {
+  const map = new Map<string, T>();
+  queues.forEach(queue => {
+    if (!map.has(queue.path)) map.set(queue.path, queue);
+  });
+  return map;
+}
+
+// The <rule> elements a rule list is written as, for comparing policies
+function placementPolicyElements(rules: PlacementRule[], defaultQueue: string) {
+  return rules.map(rule => ({
+    attributes: placementRuleAttributes(rule, defaultQueue),
+    nested: rule.nestedRule ? placementRuleAttributes(rule.nestedRule, defaultQueue) : null,
+  }));
+}
+
+function updatePlacementPolicy(allocations: Element, current: GlobalConfig, previous: Partial<GlobalConfig>): void {
+  const currentRules = placementPolicyElements(current.queuePlacementRules || DEFAULT_PLACEMENT_RULES, current.defaultQueue || "default");
+  const previousRules = placementPolicyElements(previous.queuePlacementRules || DEFAULT_PLACEMENT_RULES, previous.defaultQueue || "default");
+  if (JSON.stringify(currentRules) === JSON.stringify(previousRules)) return;
+
+  const doc = allocations.ownerDocument!;
+  let policy = childElements(allocations, "queuePlacementPolicy")[0];
+  if (!policy) {
+    policy = doc.createElement("queuePlacementPolicy");
+    insertChild(allocations, policy);
+  }
+
+  while (policy.firstChild) policy.removeChild(policy.firstChild);
+  const createRule = (attributes: Record<string, string>) => {
+    const rule = doc.createElement("rule");
+    Object.entries(attributes).forEach(([key, value]) => rule.setAttribute(key, value));
+    return rule;
+  };
+  currentRules.forEach(({ attributes, nested }) => {
+    const rule = createRule(attributes);
+    insertChild(policy, rule);
+    if (nested) insertChild(rule, createRule(nested));
+  });
+}
+
+// Matches <user> elements the same way queues are matched: by the name the
+// user had when the file was last written, so renames keep their element
+async function updateUserElements(allocations: Element, content: string, userLimits: UserLimit[], previousUserLimits: UserLimit[]): Promise<void> {
+  const doc = allocations.ownerDocument!;
+  const fileUsers = new Map((await parseUserLimitsFromXML(content)).map(user => [user.name as string, user]));
+  const elements = new Map<string, Element>();
+  childElements(allocations, "user").forEach(element => {
+    const name = element.getAttribute("name");
+    if (name && !elements.has(name)) elements.set(name, element);
+  });
+  const previousNames = new Map(previousUserLimits.map(user => [user.id, user.name]));
+  const claimed = new Set<Element>();
+
+  for (const user of userLimits) {
+    const fileName = previousNames.get(user.id) ?? user.name;
+    let element = elements.get(fileName) ?? elements.get(user.name);
+    if (element && claimed.has(element)) element = undefined;
+
+    if (element) {
+      if (element.getAttribute("name") !== user.name) {
+        element.setAttribute("name", user.name);
+      }
+      applyWriters(element, USER_WRITERS, user, fileUsers.get(fileName) ?? {});
+    } else {
+      element = doc.createElement("user");
+      element.setAttribute("name", user.name);
+      // New users follow the existing ones, or the queues when there are none
+      const after = childElements(allocations, "user").pop() ?? childElements(allocations, "queue").pop();
+      insertChild(allocations, element, after ? { after } : {});
+      applyWriters(element, USER_WRITERS, user, null);
+    }
+    claimed.add(element);
+  }
+
+  // Remove users that existed when the file was last written and are gone now
+  for (const previous of previousUserLimits) {
+    const element = elements.get(previous.name);
+    if (element && !claimed.has(element) && !userLimits.some(user => user.id === previous.id)) {
+      removeElement(element);
+    }
+  }
+}
+
+/**
+ * Allocation file content for `queues`, `globalConfig` and `userLimits`, based
+ * on the existing file `content`. `previousQueues` and `previousUserLimits`
+ * are the state the file was last written from; they tell renamed and moved
+ * queues and users apart from new ones and limit deletions to those that were
+ * actually removed. Falls back to generating a fresh file when `content` is
+ * empty or not an allocation file.
+ */
+export async function updateAllocationsXML(
+  content: string,
+  queues: Queue[],
+  globalConfig: GlobalConfig,
+  previousQueues: Queue[],
+  userLimits: UserLimit[],
+  previousUserLimits: UserLimit[],
+): Promise<string> {
+  const doc = parseDocument(content);
+  if (!doc) {
+    return generateXMLFromQueues(queues, globalConfig, userLimits);
+  }
+
+  const allocations = doc.documentElement!;
+  const fileQueues = byPath(await parseQueuesFromXML(content));
+  const fileGlobalConfig = await parseGlobalConfigFromXML(content);
+  const elements = indexQueueElements(allocations);
+  const previousPaths = new Map(previousQueues.map(queue => [queue.id, queue.path]));
+
+  // Element of each queue by its new path; the implicit root is <allocations>
+  const placed = new Map<string, Element>();
+  const explicitRoot = elements.get("root");
+  const claimed = new Set<Element>();
+
+  // Parents first, so that every queue's parent element exists when it is placed
+  const ordered = [...queues].sort((a, b) => a.path.split(".").length - b.path.split(".").length);
+  for (const queue of ordered) {
+    const filePath = previousPaths.get(queue.id) ?? queue.path;
+    let element = elements.get(filePath) ?? elements.get(queue.path);
+    if (element && claimed.has(element)) element = undefined;
+
+    if (queue.path === "root" && !queue.parent) {
+      // Settings of an implicit root cannot be written without restructuring the file
+      if (element) {
+        claimed.add(element);
+        placed.set("root", element);
+        applyWriters(element, QUEUE_WRITERS, queue, fileQueues.get(filePath) ?? {});
+      }
+      continue;
+    }
+
+    const parentElement = queue.parent
+      ? placed.get(queue.parent) ?? (queue.parent === "root" ? explicitRoot ?? allocations : undefined)
+      : allocations;
+    if (!parentElement) {
+      console.warn(`Skipping queue ${queue.path}: parent ${queue.parent} is not in the allocation file`);
+      continue;
+    }
+
+    if (element) {
+      claimed.add(element);
+      if (element.getAttribute("name") !== queue.name) {
+        element.setAttribute("name", queue.name);
+      }
+      if (element.parentNode !== parentElement) {
+        const oldIndent = indentOf(element);
+        removeElement(element);
+        insertChild(parentElement, element, { after: childElements(parentElement, "queue").pop() });
+        reindent(element, oldIndent, indentOf(element));
+      }
+      applyWriters(element, QUEUE_WRITERS, queue, fileQueues.get(filePath) ?? {});
+    } else {
+      element = doc.createElement("queue");
+      element.setAttribute("name", queue.name);
+      const lastQueue = childElements(parentElement, "queue").pop();
+      insertChild(parentElement, element, lastQueue ? { after: lastQueue } : {});
+      applyWriters(element, QUEUE_WRITERS, queue, null);
+    }
+    placed.set(queue.path, element);
+  }
+
+  // Remove queues that existed when the file was last written and are gone now
+  for (const previous of previousQueues) {
+    const element = elements.get(previous.path);
+    if (element && !claimed.has(element) && !queues.some(queue => queue.id === previous.id)) {
+      removeElement(element);
+    }
+  }
+
+  await updateUserElements(allocations, content, userLimits, previousUserLimits);
+  applyWriters(allocations, GLOBAL_WRITERS, globalConfig, fileGlobalConfig);
+  updatePlacementPolicy(allocations, globalConfig, fileGlobalConfig);
+
+  // The serializer drops whitespace after the document element
+  const trailing = content.match(/\s*$/)?.[0] ?? "";
+  return new XMLSerializer().serializeToString(doc) + trailing;
+}
@@ -1,6 +1,9 @@
 import { parseString } from 'xml2js';
+import { parseResourceValue, formatResourceValue } from '@shared/resources';
+import { PLACEMENT_RULE_NAMES, NESTED_PLACEMENT_RULE_NAMES, DEFAULT_PLACEMENT_RULES, type PlacementRule, type NestedPlacementRule } from '@shared/placement';
+import type { GlobalConfig } from '@shared/schema';
 
-export async function parseGlobalConfigFromXML(content: string): Promise<any> {
+export async function parseGlobalConfigFromXML(content: string): Promise<GlobalConfig> {
   return new Promise((resolve, reject) => {
     parseString(content, { explicitArray: false }, (err: any, result: any) => {
       if (err) {
@@ -8,13 +11,16 @@ export async function parseGlobalConfigFromXML(content: string): Promise<any> {
         return;
       }
 
-      const globalConfig: any = {
+      const globalConfig: GlobalConfig = {
         id: 1,
         defaultQueueSchedulingPolicy: "fair",
         userMaxAppsDefault: 5,
         queueMaxAppsDefault: null,
         queueMaxAMShareDefault: null,
-        queuePlacementRules: "specified,user,default",
+        defaultMinSharePreemptionTimeout: null,
+        defaultFairSharePreemptionTimeout: null,
+        defaultFairSharePreemptionThreshold: null,
+        queuePlacementRules: DEFAULT_PLACEMENT_RULES,
         defaultQueue: "default",
       };
 
@@ -40,33 +46,29 @@ export async function parseGlobalConfigFromXML(content: string): Promise<any> {
         globalConfig.queueMaxAMShareDefault = parseFloat(result.allocations.queueMaxAMShareDefault);
       }
 
-      // Parse queue placement policy with create attributes
+      // Parse preemption defaults
+      if (result.allocations.defaultMinSharePreemptionTimeout) {
+        globalConfig.defaultMinSharePreemptionTimeout = parseInt(result.allocations.defaultMinSharePreemptionTimeout);
+      }
+
+      if (result.allocations.defaultFairSharePreemptionTimeout) {
+        globalConfig.defaultFairSharePreemptionTimeout = parseInt(result.allocations.defaultFairSharePreemptionTimeout);
+      }
+
+      if (result.allocations.defaultFairSharePreemptionThreshold) {
+        globalConfig.defaultFairSharePreemptionThreshold = parseFloat(result.allocations.defaultFairSharePreemptionThreshold);
+      }
+
+      // Parse queue placement policy, including nested rules
       if (result.allocations.queuePlacementPolicy && result.allocations.queuePlacementPolicy.rule) {
-        const rules = Array.isArray(result.allocations.queuePlacementPolicy.rule) 
-          ? result.allocations.queuePlacementPolicy.rule 
-          : [result.allocations.queuePlacementPolicy.rule];
-        
-        const ruleStrings = rules.map((rule: any) => {
-          if (rule.$ && rule.$.name) {
-            let ruleString = rule.$.name;
-            
-            // Handle create attribute
-            if (rule.$.create !== undefined) {
-              ruleString += `:create=${rule.$.create}`;
-            }
-            
-            // Handle queue attribute for default rule
-            if (rule.$.name === 'default' && rule.$.queue) {
-              globalConfig.defaultQueue = rule.$.queue;
-              ruleString += `:queue=${rule.$.queue}`;
-            }
-            
-            return ruleString;
-          }
-          return rule;
-        });
-        
-        globalConfig.queuePlacementRules = ruleStrings.join(',');
+        const rules = parsePlacementRules(result.allocations.queuePlacementPolicy.rule, PLACEMENT_RULE_NAMES);
+        const defaultRule = rules.find(rule => rule.name === 'default' && rule.queue);
+        if (defaultRule?.queue) {
+          globalConfig.defaultQueue = defaultRule.queue;
+        }
+        if (rules.length > 0) {
+          globalConfig.queuePlacementRules = rules;
+        }
       }
 
       resolve(globalConfig);
@@ -74,6 +76,33 @@ export async function parseGlobalConfigFromXML(content: string): Promise<any> {
   });
 }
 
+// Placement rules from parsed <rule> elements. Rules with a name outside
+// `names` are skipped.
+function parsePlacementRules(ruleElements: any, names: readonly string[]): PlacementRule[] {
+  const elements = Array.isArray(ruleElements) ? ruleElements : [ruleElements];
+  const rules: PlacementRule[] = [];
+  elements.forEach((element: any) => {
+    const attributes = element?.$ || {};
+    if (!names.includes(attributes.name)) return;
+
+    const rule: any = { name: attributes.name };
+    if (attributes.create === 'true' || attributes.create === 'false') {
+      rule.create = attributes.create === 'true';
+    }
+    if (attributes.name === 'default' && attributes.queue) {
+      rule.queue = attributes.queue;
+    }
+    if (attributes.name === 'nestedUserQueue') {
+      const [nestedRule] = element.rule ? parsePlacementRules(element.rule, NESTED_PLACEMENT_RULE_NAMES) : [];
+      // YARN rejects a nestedUserQueue rule without a nested rule
+      if (!nestedRule) return;
+      rule.nestedRule = nestedRule;
+    }
+    rules.push(rule);
+  });
+  return rules;
+}
+
 export async function parseQueuesFromXML(content: string): Promise<any[]> {
   return new Promise((resolve, reject) => {
     parseString(content, { explicitArray: false }, (err: any, result: any) => {
@@ -89,50 +118,47 @@ export async function parseQueuesFromXML(content: string): Promise<any[]> {
         return;
       }
 
-      // Add root queue (only if we have actual queues to parse)
-      let hasQueues = false;
-      if (result.allocations.queue) {
-        hasQueues = true;
-      }
-      
-      if (hasQueues) {
+      const topLevelQueues = result.allocations.queue
+        ? (Array.isArray(result.allocations.queue) ? result.allocations.queue : [result.allocations.queue])
+        : [];
+
+      // Add root queue (only if we have actual queues to parse and the file
+      // does not declare it explicitly)
+      const declaresRoot = topLevelQueues.some((queue: any) => queue?.$?.name === "root");
+      if (topLevelQueues.length > 0 && !declaresRoot) {
         queues.push({
           name: "root",
+          path: "root",
           parent: null,
           weight: 1.0,
           schedulingPolicy: "fair"
         });
       }
 
-      // Parse queues from XML
-      const processQueue = (queueXml: any, parentName: string = "root") => {
+      // Parse queues from XML. Queues are identified by their full path
+      // (root.parent.child) and reference their parent by path as well.
+      const processQueue = (queueXml: any, parentPath: string | null = "root") => {
         if (!queueXml) return;
 
         const queueName = queueXml.$ ? queueXml.$.name : null;
         if (!queueName) return;
 
+        const queuePath = parentPath ? `${parentPath}.${queueName}` : queueName;
         const queue: any = {
           name: queueName,
-          parent: parentName,
+          path: queuePath,
+          parent: parentPath,
           weight: queueXml.weight ? parseFloat(queueXml.weight) : 1.0,
           schedulingPolicy: queueXml.schedulingPolicy || "fair"
         };
 
-        // Parse resource limits
-        if (queueXml.minResources) {
-          const minRes = queueXml.minResources.match(/(\d+)\s*mb.*?(\d+)\s*vcores/i);
-          if (minRes) {
-            queue.minMemory = parseInt(minRes[1]);
-            queue.minVcores = parseInt(minRes[2]);
-          }
+        // Parse resource limits; values in an unrecognized form are left unset
+        if (typeof queueXml.minResources === 'string') {
+          queue.minResources = parseResourceValue(queueXml.minResources);
         }
 
-        if (queueXml.maxResources) {
-          const maxRes = queueXml.maxResources.match(/(\d+)\s*mb.*?(\d+)\s*vcores/i);
-          if (maxRes) {
-            queue.maxMemory = parseInt(maxRes[1]);
-            queue.maxVcores = parseInt(maxRes[2]);
-          }
+        if (typeof queueXml.maxResources === 'string') {
+          queue.maxResources = parseResourceValue(queueXml.maxResources);
         }
 
         if (queueXml.maxRunningApps) {
@@ -151,31 +177,81 @@ export async function parseQueuesFromXML(content: string): Promise<any[]> {
           queue.allowPreemptionTo = queueXml.allowPreemptionTo === 'true';
         }
 
+        if (queueXml.minSharePreemptionTimeout) {
+          queue.minSharePreemptionTimeout = parseInt(queueXml.minSharePreemptionTimeout);
+        }
+
+        if (queueXml.fairSharePreemptionTimeout) {
+          queue.fairSharePreemptionTimeout = parseInt(queueXml.fairSharePreemptionTimeout);
+        }
+
+        if (queueXml.fairSharePreemptionThreshold) {
+          queue.fairSharePreemptionThreshold = parseFloat(queueXml.fairSharePreemptionThreshold);
+        }
+
+        // ACLs are "users groups"; the whitespace is significant
+        if (typeof queueXml.aclSubmitApps === 'string') {
+          queue.aclSubmitApps = queueXml.aclSubmitApps;
+        }
+
+        if (typeof queueXml.aclAdministerApps === 'string') {
+          queue.aclAdministerApps = queueXml.aclAdministerApps;
+        }
+
         queues.push(queue);
 
         // Process nested queues
         if (queueXml.queue) {
           const nestedQueues = Array.isArray(queueXml.queue) ? queueXml.queue : [queueXml.queue];
-          nestedQueues.forEach((nestedQueue: any) => processQueue(nestedQueue, queueName));
+          nestedQueues.forEach((nestedQueue: any) => processQueue(nestedQueue, queuePath));
         }
       };
 
-      // Process all queues
-      if (result.allocations.queue) {
-        const queueList = Array.isArray(result.allocations.queue) ? result.allocations.queue : [result.allocations.queue];
-        queueList.forEach((queue: any) => processQueue(queue));
-      }
+      // Process all queues; an explicit top-level root queue is the root itself
+      topLevelQueues.forEach((queue: any) => {
+        processQueue(queue, queue?.$?.name === "root" ? null : "root");
+      });
 
       resolve(queues);
     });
   });
 }
 
-export function generateXMLFromQueues(queues: any[], globalConfig?: any): string {
+// Per-user limits from the <user> elements of the allocation file. Users
+// without a maxRunningApps override are not modelled and are skipped.
+export async function parseUserLimitsFromXML(content: string): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    parseString(content, { explicitArray: false }, (err: any, result: any) => {
+      if (err) {
+        reject(err);
+        return;
+      }
+
+      if (!result?.allocations?.user) {
+        resolve([]);
+        return;
+      }
+
+      const users = Array.isArray(result.allocations.user) ? result.allocations.user : [result.allocations.user];
+      const seen = new Set<string>();
+      const userLimits: any[] = [];
+      users.forEach((user: any) => {
+        const name = user?.$?.name;
+        if (!name || seen.has(name) || !user.maxRunningApps) return;
+        seen.add(name);
+        userLimits.push({ name, maxRunningApps: parseInt(user.maxRunningApps) });
+      });
+
+      resolve(userLimits);
+    });
+  });
+}
+
+export function generateXMLFromQueues(queues: any[], globalConfig?: any, userLimits: any[] = []): string {
   // FORCE DEBUG OUTPUT TO CONSOLE
   console.log('>>> XML-UTILS generateXMLFromQueues called with', queues.length, 'queues');
   console.log('>>> globalConfig parameter:', globalConfig);
-  console.log('Queue allowPreemptionFrom values:', queues.map(q => ({ name: q.name, allowPreemptionFrom: q.allowPreemptionFrom })));
+  console.log('Queue allowPreemptionFrom values:', queues.map(q => ({ path: q.path, allowPreemptionFrom: q.allowPreemptionFrom })));
   
   let xml = '<?xml version="1.0"?>\n<allocations>\n';
   
@@ -183,10 +259,10 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
   const queueMap = new Map();
   const childrenMap = new Map();
   
-  // Initialize maps
+  // Initialize maps, keyed by full queue path
   queues.forEach(queue => {
-    queueMap.set(queue.name, queue);
-    childrenMap.set(queue.name, []);
+    queueMap.set(queue.path, queue);
+    childrenMap.set(queue.path, []);
   });
   
   // Build parent-child relationships
@@ -202,7 +278,7 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
     let queueXml = `${indent}<queue name="${queue.name}">\n`;
     
     // Add queue properties (but skip them for root queue to keep it clean)
-    if (queue.name !== 'root') {
+    if (queue.path !== 'root') {
       if (queue.weight !== null && queue.weight !== undefined) {
         // Format weight to preserve decimal notation (e.g., 4.0 instead of 4)
         const formattedWeight = Number.isInteger(queue.weight) ? `${queue.weight}.0` : queue.weight;
@@ -214,19 +290,13 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
       }
       
       // Generate minResources
-      if (queue.minMemory || queue.minVcores) {
-        const minParts = [];
-        if (queue.minMemory) minParts.push(`${queue.minMemory} mb`);
-        if (queue.minVcores) minParts.push(`${queue.minVcores} vcores`);
-        queueXml += `${indent}  <minResources>${minParts.join(',')}</minResources>\n`;
+      if (queue.minResources) {
+        queueXml += `${indent}  <minResources>${formatResourceValue(queue.minResources)}</minResources>\n`;
       }
       
       // Generate maxResources
-      if (queue.maxMemory || queue.maxVcores) {
-        const maxParts = [];
-        if (queue.maxMemory) maxParts.push(`${queue.maxMemory} mb`);
-        if (queue.maxVcores) maxParts.push(`${queue.maxVcores} vcores`);
-        queueXml += `${indent}  <maxResources>${maxParts.join(',')}</maxResources>\n`;
+      if (queue.maxResources) {
+        queueXml += `${indent}  <maxResources>${formatResourceValue(queue.maxResources)}</maxResources>\n`;
       }
       
       if (queue.maxRunningApps) {
@@ -248,6 +318,8 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
         queueXml += `${indent}  <allowPreemptionTo>${queue.allowPreemptionTo ? 'true' : 'false'}</allowPreemptionTo>\n`;
       }
       
+      queueXml += generatePreemptionXML(queue, indent);
+      
       // ACL settings (provide defaults if not specified)
       const aclSubmitApps = queue.aclSubmitApps || "*";
       const aclAdministerApps = queue.aclAdministerApps || "*";
@@ -277,10 +349,20 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
       if (queue.allowPreemptionTo !== null && queue.allowPreemptionTo !== undefined) {
         queueXml += `${indent}  <allowPreemptionTo>${queue.allowPreemptionTo ? 'true' : 'false'}</allowPreemptionTo>\n`;
       }
+      
+      queueXml += generatePreemptionXML(queue, indent);
+
+      // Root ACLs apply to every queue, so they matter most when restricted
+      if (queue.aclSubmitApps && queue.aclSubmitApps !== "*") {
+        queueXml += `${indent}  <aclSubmitApps>${queue.aclSubmitApps}</aclSubmitApps>\n`;
+      }
+      if (queue.aclAdministerApps && queue.aclAdministerApps !== "*") {
+        queueXml += `${indent}  <aclAdministerApps>${queue.aclAdministerApps}</aclAdministerApps>\n`;
+      }
     }
-    
+
     // Add child queues
-    const children = childrenMap.get(queue.name) || [];
+    const children = childrenMap.get(queue.path) || [];
     children.forEach((child: any) => {
       queueXml += generateQueueXML(child, depth + 1);
     });
@@ -293,7 +375,7 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
   const rootQueue = queueMap.get('root');
   
   // DEBUG: Force check what we have in the map
-  console.log('Available queue names in map:', Array.from(queueMap.keys()));
+  console.log('Available queue paths in map:', Array.from(queueMap.keys()));
   console.log('Root queue search result:', rootQueue ? 'FOUND' : 'NOT FOUND');
   
   if (rootQueue) {
@@ -308,10 +390,17 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
     });
   }
   
+  // Per-user overrides
+  userLimits.forEach(user => {
+    xml += `  <user name="${user.name}">\n`;
+    xml += `    <maxRunningApps>${user.maxRunningApps}</maxRunningApps>\n`;
+    xml += `  </user>\n`;
+  });
+  
   // Add global settings using configuration or defaults
   const userMaxApps = globalConfig?.userMaxAppsDefault || 5;
   const defaultPolicy = globalConfig?.defaultQueueSchedulingPolicy || "fair";
-  const placementRules = globalConfig?.queuePlacementRules || "specified,user,default";
+  const placementRules: PlacementRule[] = globalConfig?.queuePlacementRules || DEFAULT_PLACEMENT_RULES;
   const defaultQueue = globalConfig?.defaultQueue || "default";
   
   xml += `\n  <userMaxAppsDefault>${userMaxApps}</userMaxAppsDefault>\n`;
@@ -324,32 +413,32 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
     xml += `  <queueMaxAMShareDefault>${globalConfig.queueMaxAMShareDefault}</queueMaxAMShareDefault>\n`;
   }
   
+  if (globalConfig?.defaultMinSharePreemptionTimeout) {
+    xml += `  <defaultMinSharePreemptionTimeout>${globalConfig.defaultMinSharePreemptionTimeout}</defaultMinSharePreemptionTimeout>\n`;
+  }
+  
+  if (globalConfig?.defaultFairSharePreemptionTimeout) {
+    xml += `  <defaultFairSharePreemptionTimeout>${globalConfig.defaultFairSharePreemptionTimeout}</defaultFairSharePreemptionTimeout>\n`;
+  }
+  
+  if (globalConfig?.defaultFairSharePreemptionThreshold != null) {
+    xml += `  <defaultFairSharePreemptionThreshold>${globalConfig.defaultFairSharePreemptionThreshold}</defaultFairSharePreemptionThreshold>\n`;
+  }
+  
   xml += `  <defaultQueueSchedulingPolicy>${defaultPolicy}</defaultQueueSchedulingPolicy>\n\n`;
   
   xml += `  <queuePlacementPolicy>\n`;
   
-  // Parse placement rules and generate rule elements with attributes
-  const rules = placementRules.split(',').map((rule: string) => rule.trim());
-  rules.forEach((rule: string) => {
-    // Parse rule with attributes (e.g., "specified:create=false")
-    const [ruleName, ...attributes] = rule.split(':');
-    let ruleXml = `    <rule name="${ruleName}"`;
-    
-    // Process attributes
-    attributes.forEach(attr => {
-      const [key, value] = attr.split('=');
-      if (key && value) {
-        ruleXml += ` ${key}="${value}"`;
-      }
-    });
-    
-    // Handle special case for default rule with queue
-    if (ruleName === 'default' && !attributes.some(attr => attr.startsWith('queue='))) {
-      ruleXml += ` queue="${defaultQueue}"`;
+  placementRules.forEach(rule => {
+    const attributeXml = (attributes: Record<string, string>) =>
+      Object.entries(attributes).map(([key, value]) => ` ${key}="${value}"`).join('');
+    if (rule.nestedRule) {
+      xml += `    <rule${attributeXml(placementRuleAttributes(rule, defaultQueue))}>\n`;
+      xml += `      <rule${attributeXml(placementRuleAttributes(rule.nestedRule, defaultQueue))}/>\n`;
+      xml += `    </rule>\n`;
+    } else {
+      xml += `    <rule${attributeXml(placementRuleAttributes(rule, defaultQueue))}/>\n`;
     }
-    
-    ruleXml += '/>\n';
-    xml += ruleXml;
   });
   
   xml += `  </queuePlacementPolicy>\n`;
@@ -357,4 +446,32 @@ export function generateXMLFromQueues(queues: any[], globalConfig?: any): string
   xml += `</allocations>`;
   
   return xml;
-}
\ No newline at end of file
+}
+
+// Preemption timeouts (seconds) and threshold of a queue, if set
+function generatePreemptionXML(queue: any, indent: string): string {
+  let xml = '';
+  if (queue.minSharePreemptionTimeout) {
+    xml += `${indent}  <minSharePreemptionTimeout>${queue.minSharePreemptionTimeout}</minSharePreemptionTimeout>\n`;
+  }
+  if (queue.fairSharePreemptionTimeout) {
+    xml += `${indent}  <fairSharePreemptionTimeout>${queue.fairSharePreemptionTimeout}</fairSharePreemptionTimeout>\n`;
+  }
+  if (queue.fairSharePreemptionThreshold !== null && queue.fairSharePreemptionThreshold !== undefined) {
+    xml += `${indent}  <fairSharePreemptionThreshold>${queue.fairSharePreemptionThreshold}</fairSharePreemptionThreshold>\n`;
+  }
+  return xml;
+}
+
+// Attributes of the <rule> element for a placement rule. A default rule
+// without a queue of its own targets the configured default queue.
+export function placementRuleAttributes(rule: PlacementRule | NestedPlacementRule, defaultQueue: string): Record<string, string> {
+  const attributes: Record<string, string> = { name: rule.name };
+  if (rule.create !== undefined) {
+    attributes.create = String(rule.create);
+  }
+  if (rule.name === 'default') {
+    attributes.queue = rule.queue || defaultQueue;
+  }
+  return attributes;
+}
@@ -92,7 +92,8 @@ export class YarnResourceManagerClient {
       }
 
       const data = await response.json();
-      return data.schedulerInfo;
+      // The ResourceManager wraps it in "scheduler"
+      return data.scheduler?.schedulerInfo ?? data.schedulerInfo;
     } catch (error) {
       console.error('Failed to fetch scheduler info:', error);
       throw new Error(`Failed to fetch scheduler info: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -0,0 +1,69 @@
+import { z } from "zod";
+
+// What an audit log entry records, as "<subject>.<verb>"
+export const AUDIT_ACTIONS = [
+  "auth.login",
+  "auth.logout",
+  "auth.password",
+  "account.create",
+  "account.update",
+  "account.delete",
+  "cluster.create",
+  "cluster.update",
+  "cluster.delete",
+  "queue.create",
+  "queue.update",
+  "queue.delete",
+  "global-config.update",
+  "user-limit.create",
+  "user-limit.update",
+  "user-limit.delete",
+  "config.save",
+  "config.upload",
+  "config.reload",
+  "config.restore",
+  "config.merge",
+  "post-apply-hook.run",
+  "pending-changes.discard",
+  "change-request.submit",
+  "change-request.comment",
+  "change-request.approve",
+  "change-request.reject",
+  "change-request.withdraw",
+  "change-request.apply",
+  "promotion.stage",
+  "scenario.create",
+  "scenario.update",
+  "scenario.delete",
+  "yarn-connection.update",
+] as const;
+
+export const auditActionSchema = z.enum(AUDIT_ACTIONS);
+
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+const optionalText = z.string().trim().optional().transform(value => value || undefined);
+
+const optionalTime = z.string().trim().optional()
+  .transform(value => value || undefined)
+  .refine(value => value === undefined || !Number.isNaN(Date.parse(value)), "Invalid date")
+  .transform(value => value && new Date(value).toISOString());
+
+// Filters of GET /api/audit, from the query string. `target` matches part of
+// the queue path, user or other name an entry is about; `field` matches
+// entries that changed that setting, also where it is named with its queue
+// ("root.prod.maxRunningApps"). Entries are returned newest first.
+export const auditQuerySchema = z.object({
+  actor: optionalText,
+  action: z.preprocess(value => value || undefined, auditActionSchema.optional()),
+  clusterId: z.preprocess(value => value || undefined, z.coerce.number().int().optional()),
+  target: optionalText,
+  field: optionalText,
+  since: optionalTime,
+  until: optionalTime,
+  limit: z.coerce.number().int().min(1).max(100000).default(1000),
+  format: z.enum(["json", "csv", "jsonl"]).default("json"),
+});
+
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+export type AuditFilter = Omit<AuditQuery, "format">;
@@ -0,0 +1,42 @@
+import { z } from "zod";
+
+// Roles in increasing order of privilege; each role may do everything the
+// ones before it may:
+//   viewer    read configurations, analyses and metrics
+//   editor    stage changes: queues, global settings, user limits, scenarios
+//   approver  review and apply change requests, restore revisions
+//   admin     manage clusters, ResourceManager connections and accounts
+export const ROLES = ["viewer", "editor", "approver", "admin"] as const;
+
+export const roleSchema = z.enum(ROLES);
+
+export type Role = z.infer<typeof roleSchema>;
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+// The user a request is made by. Local users log in with a password; proxy
+// users are authenticated by the reverse proxy in front of the configurator
+// and have no account unless one with the same username exists.
+export type AuthUser = {
+  id: number | null;
+  username: string;
+  role: Role;
+  source: "local" | "proxy";
+};
+
+export type Login = z.infer<typeof loginSchema>;
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
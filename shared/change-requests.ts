@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+// Lifecycle of a change request:
+//   open       submitted, waiting for review
+//   approved   a reviewer other than the author approved; may be applied
+//   rejected   a reviewer turned it down
+//   withdrawn  the author or an approver took it back
+//   applied    written to the allocation file
+export const CHANGE_REQUEST_STATUSES = ["open", "approved", "rejected", "withdrawn", "applied"] as const;
+
+export const changeRequestStatusSchema = z.enum(CHANGE_REQUEST_STATUSES);
+
+export type ChangeRequestStatus = z.infer<typeof changeRequestStatusSchema>;
+
+// Change requests whose pending changes no other change request may include
+export const ACTIVE_CHANGE_REQUEST_STATUSES: readonly ChangeRequestStatus[] = ["open", "approved"];
+
+// Entries of a change request's history. Every status change is recorded with
+// the event that caused it.
+export const changeRequestEventTypeSchema = z.enum(["submitted", "commented", "approved", "rejected", "withdrawn", "applied"]);
+
+export type ChangeRequestEventType = z.infer<typeof changeRequestEventTypeSchema>;
+
+// A new change request for some of the pending changes. Without queueIds and
+// globalConfig every pending change is included.
+export const changeRequestFormSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(200),
+  description: z.string().trim().optional().transform(value => value || null),
+  queueIds: z.array(z.number().int()).optional(),
+  globalConfig: z.boolean().optional(),
+});
+
+export const changeRequestCommentSchema = z.object({
+  message: z.string().trim().min(1, "Comment is required"),
+});
+
+// Approving, rejecting and withdrawing take an optional remark
+export const changeRequestDecisionSchema = z.object({
+  message: z.string().trim().optional().transform(value => value || null),
+});
+
+export type ChangeRequestForm = z.input<typeof changeRequestFormSchema>;
+export type ChangeRequestComment = z.infer<typeof changeRequestCommentSchema>;
@@ -0,0 +1,182 @@
+import { pgTable, serial, integer, text, doublePrecision, boolean, jsonb } from "drizzle-orm/pg-core";
+import type { Queue, GlobalConfig, UserLimit, ClusterResources, ChangeRequestChanges, FieldChange } from "./schema";
+import type { ResourceValue } from "./resources";
+import { DEFAULT_PLACEMENT_RULES, type PlacementRule } from "./placement";
+import type { ScenarioDemand } from "./what-if";
+import type { PromotionOverrides } from "./promotion";
+import type { Role } from "./auth";
+import type { ChangeRequestStatus, ChangeRequestEventType } from "./change-requests";
+import type { AuditAction } from "./audit";
+import type { PostApplyHook, PostApplyHookResult } from "./post-apply-hook";
+
+// PostgreSQL mirrors of the tables in schema.ts. Column names and inferred
+// row types match the SQLite definitions so both backends return the same
+// shared types.
+
+export const pgQueues = pgTable("queues", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  path: text("path").notNull().unique(),
+  parent: text("parent"),
+  weight: doublePrecision("weight").default(1.0),
+  schedulingPolicy: text("scheduling_policy").default("fair"),
+  minResources: jsonb("min_resources").$type<ResourceValue>(),
+  maxResources: jsonb("max_resources").$type<ResourceValue>(),
+  maxRunningApps: integer("max_running_apps"),
+  maxAMShare: doublePrecision("max_am_share"),
+  allowPreemptionFrom: boolean("allow_preemption_from").default(false),
+  allowPreemptionTo: boolean("allow_preemption_to").default(false),
+  minSharePreemptionTimeout: integer("min_share_preemption_timeout"),
+  fairSharePreemptionTimeout: integer("fair_share_preemption_timeout"),
+  fairSharePreemptionThreshold: doublePrecision("fair_share_preemption_threshold"),
+  reservation: boolean("reservation").default(false),
+  aclSubmitApps: text("acl_submit_apps"),
+  aclAdministerApps: text("acl_administer_apps"),
+});
+
+export const pgGlobalConfig = pgTable("global_config", {
+  id: serial("id").primaryKey(),
+  defaultQueueSchedulingPolicy: text("default_queue_scheduling_policy").default("fair"),
+  userMaxAppsDefault: integer("user_max_apps_default").default(5),
+  queueMaxAppsDefault: integer("queue_max_apps_default"),
+  queueMaxAMShareDefault: doublePrecision("queue_max_am_share_default"),
+  defaultMinSharePreemptionTimeout: integer("default_min_share_preemption_timeout"),
+  defaultFairSharePreemptionTimeout: integer("default_fair_share_preemption_timeout"),
+  defaultFairSharePreemptionThreshold: doublePrecision("default_fair_share_preemption_threshold"),
+  queuePlacementRules: jsonb("queue_placement_rules").$type<PlacementRule[]>().default(DEFAULT_PLACEMENT_RULES),
+  defaultQueue: text("default_queue").default("default"),
+});
+
+export const pgUserLimits = pgTable("user_limits", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  maxRunningApps: integer("max_running_apps").notNull(),
+});
+
+export const pgConfigFiles = pgTable("config_files", {
+  id: serial("id").primaryKey(),
+  filePath: text("file_path").notNull(),
+  content: text("content").notNull(),
+  isValid: boolean("is_valid").default(true),
+  lastModified: text("last_modified"),
+  validationErrors: text("validation_errors"),
+});
+
+export const pgConfigRevisions = pgTable("config_revisions", {
+  id: serial("id").primaryKey(),
+  filePath: text("file_path").notNull(),
+  content: text("content").notNull(),
+  author: text("author").notNull(),
+  summary: text("summary").notNull(),
+  createdAt: text("created_at").notNull(),
+  restoredFromId: integer("restored_from_id"),
+  hookResult: jsonb("hook_result").$type<PostApplyHookResult>(),
+});
+
+export const pgYarnConnections = pgTable("yarn_connection", {
+  id: serial("id").primaryKey(),
+  resourceManagerHost: text("resource_manager_host").notNull(),
+  resourceManagerPort: integer("resource_manager_port").notNull().default(8088),
+  enabled: boolean("enabled").notNull().default(false),
+});
+
+export const pgWhatIfScenarios = pgTable("what_if_scenarios", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  cluster: jsonb("cluster").$type<ClusterResources>(),
+  demands: jsonb("demands").notNull().$type<ScenarioDemand[]>(),
+});
+
+export const pgClusters = pgTable("clusters", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  configPath: text("config_path").notNull(),
+  yarnSitePath: text("yarn_site_path"),
+  promotionOverrides: jsonb("promotion_overrides").$type<PromotionOverrides>(),
+  postApplyHook: jsonb("post_apply_hook").$type<PostApplyHook>(),
+});
+
+export const pgAccounts = pgTable("accounts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().$type<Role>().default("viewer"),
+});
+
+export const pgAuditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  createdAt: text("created_at").notNull(),
+  actor: text("actor").notNull(),
+  sourceIp: text("source_ip"),
+  method: text("method").notNull(),
+  endpoint: text("endpoint").notNull(),
+  statusCode: integer("status_code").notNull(),
+  clusterId: integer("cluster_id"),
+  action: text("action").notNull().$type<AuditAction>(),
+  target: text("target"),
+  changes: jsonb("changes").notNull().$type<FieldChange[]>(),
+});
+
+export const pgChangeRequests = pgTable("change_requests", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description"),
+  author: text("author").notNull(),
+  status: text("status").notNull().$type<ChangeRequestStatus>().default("open"),
+  queueIds: jsonb("queue_ids").notNull().$type<number[]>(),
+  globalConfig: boolean("global_config").notNull().default(false),
+  changes: jsonb("changes").notNull().$type<ChangeRequestChanges>(),
+  fingerprint: text("fingerprint").notNull(),
+  revisionId: integer("revision_id"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+export const pgChangeRequestEvents = pgTable("change_request_events", {
+  id: serial("id").primaryKey(),
+  changeRequestId: integer("change_request_id").notNull(),
+  type: text("type").notNull().$type<ChangeRequestEventType>(),
+  author: text("author").notNull(),
+  message: text("message"),
+  createdAt: text("created_at").notNull(),
+});
+
+export const pgPendingChanges = pgTable("pending_changes", {
+  queueId: integer("queue_id").primaryKey(),
+});
+
+export const pgSyncedQueues = pgTable("synced_queues", {
+  queueId: integer("queue_id").primaryKey(),
+  data: jsonb("data").notNull().$type<Queue>(),
+});
+
+export const pgSyncedGlobalConfig = pgTable("synced_global_config", {
+  id: integer("id").primaryKey(),
+  data: jsonb("data").notNull().$type<GlobalConfig>(),
+});
+
+export const pgSyncedUserLimits = pgTable("synced_user_limits", {
+  userLimitId: integer("user_limit_id").primaryKey(),
+  data: jsonb("data").notNull().$type<UserLimit>(),
+});
+
+export const pgSyncedFile = pgTable("synced_file", {
+  id: integer("id").primaryKey(),
+  filePath: text("file_path").notNull(),
+  content: text("content").notNull(),
+  hash: text("hash").notNull(),
+  modifiedAt: text("modified_at").notNull(),
+  syncedAt: text("synced_at").notNull(),
+});
+
+export const pgStagedFile = pgTable("staged_file", {
+  id: integer("id").primaryKey(),
+  source: text("source").notNull(),
+  content: text("content").notNull(),
+  hash: text("hash").notNull(),
+  queueIds: jsonb("queue_ids").notNull().$type<Record<string, number>>(),
+  userLimitIds: jsonb("user_limit_ids").notNull().$type<Record<string, number>>(),
+  author: text("author").notNull(),
+  stagedAt: text("staged_at").notNull(),
+});
@@ -0,0 +1,91 @@
+import { z } from "zod";
+
+// Rules of a <queuePlacementPolicy>, tried in order until one places the
+// application:
+//   specified                    the queue the application asked for
+//   user                         a queue named after the submitting user
+//   primaryGroup                 a queue named after the user's primary group
+//   secondaryGroupExistingQueue  the first existing queue named after one of
+//                                the user's secondary groups
+//   nestedUserQueue              a user queue under the queue picked by the
+//                                nested rule
+//   default                      the rule's queue, or the default queue
+//   reject                       rejects the application
+export const PLACEMENT_RULE_NAMES = [
+  "specified",
+  "user",
+  "primaryGroup",
+  "secondaryGroupExistingQueue",
+  "nestedUserQueue",
+  "default",
+  "reject",
+] as const;
+
+export type PlacementRuleName = typeof PLACEMENT_RULE_NAMES[number];
+
+// Rules that can pick the parent queue of a nestedUserQueue rule
+export const NESTED_PLACEMENT_RULE_NAMES = [
+  "specified",
+  "primaryGroup",
+  "secondaryGroupExistingQueue",
+  "default",
+] as const;
+
+const nestedPlacementRuleSchema = z.object({
+  name: z.enum(NESTED_PLACEMENT_RULE_NAMES),
+  create: z.boolean().optional(),
+  queue: z.string().min(1).optional(),
+});
+
+export const placementRuleSchema = z.object({
+  name: z.enum(PLACEMENT_RULE_NAMES),
+  // Whether the rule may create the queue it picks; YARN's default is true
+  create: z.boolean().optional(),
+  // Target queue of the default rule
+  queue: z.string().min(1).optional(),
+  // Parent queue rule of a nestedUserQueue rule
+  nestedRule: nestedPlacementRuleSchema.optional(),
+}).superRefine((rule, ctx) => {
+  if (rule.name === "nestedUserQueue" && !rule.nestedRule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nestedRule"], message: "nestedUserQueue needs a nested rule" });
+  }
+  if (rule.name !== "nestedUserQueue" && rule.nestedRule) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nestedRule"], message: "Only nestedUserQueue can have a nested rule" });
+  }
+  if (rule.name === "reject" && rule.create !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["create"], message: "The reject rule has no create flag" });
+  }
+  if (rule.queue !== undefined && rule.name !== "default") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["queue"], message: "Only the default rule has a target queue" });
+  }
+});
+
+export const placementRulesSchema = z.array(placementRuleSchema).min(1, "Add at least one placement rule");
+
+export type PlacementRule = z.infer<typeof placementRuleSchema>;
+export type NestedPlacementRule = z.infer<typeof nestedPlacementRuleSchema>;
+
+export const DEFAULT_PLACEMENT_RULES: PlacementRule[] = [
+  { name: "specified" },
+  { name: "user" },
+  { name: "default" },
+];
+
+/**
+ * A rule for display, e.g. "nestedUserQueue (create=false) > primaryGroup".
+ */
+export function formatPlacementRule(rule: PlacementRule | NestedPlacementRule): string {
+  const options = [];
+  if (rule.create !== undefined) options.push(`create=${rule.create}`);
+  if (rule.queue) options.push(`queue=${rule.queue}`);
+  const nested = "nestedRule" in rule && rule.nestedRule ? ` > ${formatPlacementRule(rule.nestedRule)}` : "";
+  return `${rule.name}${options.length ? ` (${options.join(", ")})` : ""}${nested}`;
+}
+
+/**
+ * A one-line summary of a rule list for display, e.g.
+ * "specified (create=false), nestedUserQueue > primaryGroup, default".
+ */
+export function formatPlacementRules(rules: PlacementRule[]): string {
+  return rules.map(formatPlacementRule).join(", ");
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+const timeoutSecondsSchema = z.number().int().min(1).max(600).default(60);
+
+// What runs after a cluster's allocation file was written, so that the
+// ResourceManager picks it up without waiting for its reload interval:
+//   command  a shell command, e.g. yarn rmadmin -refreshQueues
+//   webhook  a POST of the revision to a URL
+//   none     nothing, even where the server has a default hook
+export const postApplyHookSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  z.object({
+    type: z.literal("command"),
+    command: z.string().trim().min(1, "Command is required"),
+    timeoutSeconds: timeoutSecondsSchema,
+  }),
+  z.object({
+    type: z.literal("webhook"),
+    url: z.string().trim().url("Invalid URL"),
+    timeoutSeconds: timeoutSecondsSchema,
+  }),
+]);
+
+export type PostApplyHook = z.infer<typeof postApplyHookSchema>;
+export type PostApplyHookInput = z.input<typeof postApplyHookSchema>;
+
+// One run of a hook. A command succeeds with exit code 0, a webhook with a
+// 2xx status; `error` says why it did not run to the end (timeout, network).
+// For webhooks `stdout` holds the response body.
+export type PostApplyHookResult = {
+  type: "command" | "webhook";
+  target: string;
+  success: boolean;
+  exitCode: number | null;
+  statusCode: number | null;
+  stdout: string;
+  stderr: string;
+  error: string | null;
+  durationMs: number;
+  ranAt: string;
+};
+
+// Why a hook run failed, for logs and notifications
+export function describeHookFailure(result: PostApplyHookResult): string {
+  if (result.error) return result.error;
+  return result.type === "command" ? `exit code ${result.exitCode}` : `HTTP ${result.statusCode}`;
+}
@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { resourceValueInputSchema } from "./resources";
+import { clusterResourcesSchema } from "./what-if";
+
+// Queue settings a cluster keeps whatever is promoted into it, by queue path.
+// Unset fields take the promoted value; null removes the setting.
+export const queueOverrideSchema = z.object({
+  queue: z.string().trim().min(1, "Queue is required"),
+  weight: z.number().min(0.1, "Weight must be at least 0.1").optional(),
+  minResources: resourceValueInputSchema.nullable().optional(),
+  maxResources: resourceValueInputSchema.nullable().optional(),
+  maxRunningApps: z.number().int().min(1).nullable().optional(),
+  maxAMShare: z.number().min(0).max(1).nullable().optional(),
+  aclSubmitApps: z.string().nullable().optional(),
+  aclAdministerApps: z.string().nullable().optional(),
+});
+
+// Per-environment adjustments applied to every configuration promoted into a
+// cluster. With scaleResources, absolute minResources and maxResources are
+// scaled by the target's cluster size relative to the source's; the queue
+// overrides are applied after scaling.
+export const promotionOverridesSchema = z.object({
+  scaleResources: z.boolean().default(false),
+  queues: z.array(queueOverrideSchema).default([]).superRefine((overrides, ctx) => {
+    const seen = new Set<string>();
+    overrides.forEach((override, index) => {
+      if (seen.has(override.queue)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "queue"], message: `${override.queue} appears more than once` });
+      }
+      seen.add(override.queue);
+    });
+  }),
+});
+
+// Promotion of another cluster's queue tree into the cluster of the request.
+// Without overrides the target cluster's saved overrides are used. Cluster
+// resources for scaling come from each cluster's ResourceManager unless given.
+export const promotionRequestSchema = z.object({
+  sourceClusterId: z.number().int(),
+  // Promote what the source last applied, or what is being edited there
+  config: z.enum(["pending", "applied"]).default("applied"),
+  // The global settings and per-user limits are promoted with the queues
+  includeGlobalConfig: z.boolean().default(false),
+  overrides: promotionOverridesSchema.optional(),
+  sourceResources: clusterResourcesSchema.nullable().optional(),
+  targetResources: clusterResourcesSchema.nullable().optional(),
+});
+
+export type QueueOverride = z.infer<typeof queueOverrideSchema>;
+export type PromotionOverrides = z.infer<typeof promotionOverridesSchema>;
+export type PromotionRequest = z.infer<typeof promotionRequestSchema>;
@@ -0,0 +1,147 @@
+import { z } from "zod";
+
+// A minResources/maxResources value in any of the forms the Fair Scheduler
+// accepts:
+//   absolute               "4096 mb, 4 vcores"
+//   percentage             "50.0%" (of every resource)
+//   resourcePercentages    "50.0% memory, 25.0% cpu"
+//   keyValue               "memory-mb=4096, vcores=4, yarn.io/gpu=2", or with
+//                          every value a percentage ("vcores=50%, memory-mb=25%")
+export const resourceValueSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("absolute"),
+    memoryMb: z.number().int().min(0).optional(),
+    vcores: z.number().int().min(0).optional(),
+  }),
+  z.object({
+    kind: z.literal("percentage"),
+    percent: z.number().min(0).max(100),
+  }),
+  z.object({
+    kind: z.literal("resourcePercentages"),
+    memoryPercent: z.number().min(0).max(100),
+    cpuPercent: z.number().min(0).max(100),
+  }),
+  z.object({
+    kind: z.literal("keyValue"),
+    resources: z.record(z.string().min(1), z.number().min(0)),
+    percent: z.boolean(),
+  }),
+]).superRefine((value, ctx) => {
+  // YARN reads absolute amounts as whole numbers; only percentages have decimals
+  if (value.kind !== "keyValue" || value.percent) return;
+  for (const [name, amount] of Object.entries(value.resources)) {
+    if (!Number.isInteger(amount)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["resources", name],
+        message: `${name} must be a whole number unless it is a percentage`,
+      });
+    }
+  }
+});
+
+export type ResourceValue = z.infer<typeof resourceValueSchema>;
+
+const NUMBER = String.raw`\d+(?:\.\d+)?`;
+
+/**
+ * Parses a minResources/maxResources element value. Returns null when the
+ * text is not in a recognized form.
+ */
+export function parseResourceValue(text: string): ResourceValue | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  const single = value.match(new RegExp(`^(${NUMBER})\\s*%$`));
+  if (single) {
+    return { kind: "percentage", percent: parseFloat(single[1]) };
+  }
+
+  const parts = value.split(",").map(part => part.trim()).filter(Boolean);
+
+  if (parts.every(part => part.includes("="))) {
+    const resources: Record<string, number> = {};
+    const percentages = new Set<boolean>();
+    for (const part of parts) {
+      const match = part.match(new RegExp(`^([\\w./-]+)\\s*=\\s*(${NUMBER})\\s*(%?)$`));
+      if (!match) return null;
+      const percent = match[3] === "%";
+      // Absolute amounts are whole numbers
+      if (!percent && match[2].includes(".")) return null;
+      resources[match[1]] = parseFloat(match[2]);
+      percentages.add(percent);
+    }
+    // Absolute and percentage values cannot be mixed
+    if (percentages.size !== 1) return null;
+    return { kind: "keyValue", resources, percent: percentages.has(true) };
+  }
+
+  if (parts.some(part => part.includes("%"))) {
+    let memoryPercent: number | undefined;
+    let cpuPercent: number | undefined;
+    for (const part of parts) {
+      const match = part.match(new RegExp(`^(${NUMBER})\\s*%\\s*(memory|cpu)$`, "i"));
+      if (!match) return null;
+      if (match[2].toLowerCase() === "memory") memoryPercent = parseFloat(match[1]);
+      else cpuPercent = parseFloat(match[1]);
+    }
+    if (memoryPercent === undefined || cpuPercent === undefined) return null;
+    return { kind: "resourcePercentages", memoryPercent, cpuPercent };
+  }
+
+  const absolute: ResourceValue = { kind: "absolute" };
+  for (const part of parts) {
+    const memory = part.match(/^(\d+)\s*mb$/i);
+    const vcores = part.match(/^(\d+)\s*vcores?$/i);
+    if (memory) absolute.memoryMb = parseInt(memory[1]);
+    else if (vcores) absolute.vcores = parseInt(vcores[1]);
+    else return null;
+  }
+  return absolute.memoryMb === undefined && absolute.vcores === undefined ? null : absolute;
+}
+
+function formatPercent(percent: number): string {
+  return Number.isInteger(percent) ? `${percent}.0` : String(percent);
+}
+
+/**
+ * The element text for a resource value, in the same form it was parsed from.
+ */
+export function formatResourceValue(value: ResourceValue): string {
+  switch (value.kind) {
+    case "absolute": {
+      const parts = [];
+      if (value.memoryMb !== undefined) parts.push(`${value.memoryMb} mb`);
+      if (value.vcores !== undefined) parts.push(`${value.vcores} vcores`);
+      return parts.join(",");
+    }
+    case "percentage":
+      return `${formatPercent(value.percent)}%`;
+    case "resourcePercentages":
+      return `${formatPercent(value.memoryPercent)}% memory, ${formatPercent(value.cpuPercent)}% cpu`;
+    case "keyValue":
+      return Object.entries(value.resources)
+        .map(([name, amount]) => `${name}=${amount}${value.percent ? "%" : ""}`)
+        .join(", ");
+  }
+}
+
+/**
+ * Accepts a resource value either as an object or as Fair Scheduler text
+ * (e.g. "50%"), as used by the queue API and form.
+ */
+export const resourceValueInputSchema = z.union([
+  resourceValueSchema,
+  z.string().transform((text, ctx) => {
+    const value = parseResourceValue(text);
+    if (!value) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Use "X mb, Y vcores", "X%", "X% memory, Y% cpu" or "memory-mb=X, vcores=Y" (whole amounts, or all percentages)',
+      });
+      return z.NEVER;
+    }
+    return value;
+  }),
+]);
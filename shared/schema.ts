@@ -1,22 +1,35 @@
 import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { resourceValueSchema, resourceValueInputSchema, type ResourceValue } from "./resources";
+import { placementRulesSchema, DEFAULT_PLACEMENT_RULES, type PlacementRule } from "./placement";
+import { scenarioDemandsSchema, clusterResourcesSchema, type ScenarioDemand } from "./what-if";
+import { promotionOverridesSchema, type PromotionOverrides } from "./promotion";
+import { roleSchema, passwordSchema, type Role } from "./auth";
+import { changeRequestStatusSchema, changeRequestEventTypeSchema, type ChangeRequestStatus, type ChangeRequestEventType } from "./change-requests";
+import { auditActionSchema, type AuditAction } from "./audit";
+import { postApplyHookSchema, type PostApplyHook, type PostApplyHookResult } from "./post-apply-hook";
 
-// Queue configuration schema
+// Queue configuration schema. A queue is identified by its fully-qualified
+// path (root.teamA.adhoc); `name` is the last path segment and `parent` holds
+// the parent queue's path.
 export const queues = sqliteTable("queues", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   name: text("name").notNull(),
+  path: text("path").notNull().unique(),
   parent: text("parent"),
   weight: real("weight").default(1.0),
   schedulingPolicy: text("scheduling_policy").default("fair"),
-  minMemory: integer("min_memory"),
-  minVcores: integer("min_vcores"),
-  maxMemory: integer("max_memory"),
-  maxVcores: integer("max_vcores"),
+  minResources: text("min_resources", { mode: "json" }).$type<ResourceValue>(),
+  maxResources: text("max_resources", { mode: "json" }).$type<ResourceValue>(),
   maxRunningApps: integer("max_running_apps"),
   maxAMShare: real("max_am_share"),
   allowPreemptionFrom: integer("allow_preemption_from", { mode: "boolean" }).default(false),
   allowPreemptionTo: integer("allow_preemption_to", { mode: "boolean" }).default(false),
+  // Preemption timeouts are in seconds; the threshold is a fraction of fair share
+  minSharePreemptionTimeout: integer("min_share_preemption_timeout"),
+  fairSharePreemptionTimeout: integer("fair_share_preemption_timeout"),
+  fairSharePreemptionThreshold: real("fair_share_preemption_threshold"),
   reservation: integer("reservation", { mode: "boolean" }).default(false),
   aclSubmitApps: text("acl_submit_apps"),
   aclAdministerApps: text("acl_administer_apps"),
@@ -29,10 +42,21 @@ export const globalConfig = sqliteTable("global_config", {
   userMaxAppsDefault: integer("user_max_apps_default").default(5),
   queueMaxAppsDefault: integer("queue_max_apps_default"),
   queueMaxAMShareDefault: real("queue_max_am_share_default"),
-  queuePlacementRules: text("queue_placement_rules").default("specified,user,default"),
+  defaultMinSharePreemptionTimeout: integer("default_min_share_preemption_timeout"),
+  defaultFairSharePreemptionTimeout: integer("default_fair_share_preemption_timeout"),
+  defaultFairSharePreemptionThreshold: real("default_fair_share_preemption_threshold"),
+  queuePlacementRules: text("queue_placement_rules", { mode: "json" }).$type<PlacementRule[]>().$defaultFn(() => DEFAULT_PLACEMENT_RULES),
   defaultQueue: text("default_queue").default("default"),
 });
 
+// Per-user overrides of userMaxAppsDefault (<user> elements). They are
+// applied and discarded together with the global configuration.
+export const userLimits = sqliteTable("user_limits", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  maxRunningApps: integer("max_running_apps").notNull(),
+});
+
 // Configuration file metadata
 export const configFiles = sqliteTable("config_files", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -43,8 +67,162 @@ export const configFiles = sqliteTable("config_files", {
   validationErrors: text("validation_errors"),
 });
 
+// Immutable history of every configuration written to disk
+export const configRevisions = sqliteTable("config_revisions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  filePath: text("file_path").notNull(),
+  content: text("content").notNull(),
+  author: text("author").notNull(),
+  summary: text("summary").notNull(),
+  createdAt: text("created_at").notNull(),
+  restoredFromId: integer("restored_from_id"),
+  // Last run of the post-apply hook after this revision was written
+  hookResult: text("hook_result", { mode: "json" }).$type<PostApplyHookResult>(),
+});
+
+// YARN Resource Manager connection settings
+export const yarnConnections = sqliteTable("yarn_connection", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  resourceManagerHost: text("resource_manager_host").notNull(),
+  resourceManagerPort: integer("resource_manager_port").notNull().default(8088),
+  enabled: integer("enabled", { mode: "boolean" }).notNull().default(false),
+});
+
+// Saved what-if scenarios: hypothetical queue demands to evaluate fair
+// shares and preemption against. Without cluster resources the YARN
+// cluster metrics are used.
+export const whatIfScenarios = sqliteTable("what_if_scenarios", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  description: text("description"),
+  cluster: text("cluster", { mode: "json" }).$type<ClusterResources>(),
+  demands: text("demands", { mode: "json" }).notNull().$type<ScenarioDemand[]>(),
+});
+
+// YARN clusters managed by this configurator. Each cluster has its own
+// allocation file, ResourceManager connection and stored state.
+export const clusters = sqliteTable("clusters", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name").notNull().unique(),
+  configPath: text("config_path").notNull(),
+  // yarn-site.xml of the cluster; unset looks in the usual Hadoop locations
+  yarnSitePath: text("yarn_site_path"),
+  // Applied to every configuration promoted into the cluster
+  promotionOverrides: text("promotion_overrides", { mode: "json" }).$type<PromotionOverrides>(),
+  // Run after the allocation file is written; unset runs the server's default hook
+  postApplyHook: text("post_apply_hook", { mode: "json" }).$type<PostApplyHook>(),
+});
+
+// Local accounts of the configurator. Passwords are stored as scrypt hashes.
+export const accounts = sqliteTable("accounts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  role: text("role").notNull().$type<Role>().default("viewer"),
+});
+
+// Append-only record of the changes made through the API, shared by all
+// clusters. `changes` holds each field the request changed with its value
+// before and after; requests that were refused are recorded with their status.
+export const auditLog = sqliteTable("audit_log", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  createdAt: text("created_at").notNull(),
+  actor: text("actor").notNull(),
+  sourceIp: text("source_ip"),
+  method: text("method").notNull(),
+  endpoint: text("endpoint").notNull(),
+  statusCode: integer("status_code").notNull(),
+  // Unset for changes that are not about a single cluster, such as accounts
+  clusterId: integer("cluster_id"),
+  action: text("action").notNull().$type<AuditAction>(),
+  target: text("target"),
+  changes: text("changes", { mode: "json" }).notNull().$type<FieldChange[]>(),
+});
+
+// Proposals to apply some of the pending changes. `changes` is what was
+// proposed when the request was submitted; `fingerprint` identifies those
+// changes so that a request edited afterwards cannot be applied.
+export const changeRequests = sqliteTable("change_requests", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  title: text("title").notNull(),
+  description: text("description"),
+  author: text("author").notNull(),
+  status: text("status").notNull().$type<ChangeRequestStatus>().default("open"),
+  queueIds: text("queue_ids", { mode: "json" }).notNull().$type<number[]>(),
+  globalConfig: integer("global_config", { mode: "boolean" }).notNull().default(false),
+  changes: text("changes", { mode: "json" }).notNull().$type<ChangeRequestChanges>(),
+  fingerprint: text("fingerprint").notNull(),
+  // Revision written when the request was applied
+  revisionId: integer("revision_id"),
+  createdAt: text("created_at").notNull(),
+  updatedAt: text("updated_at").notNull(),
+});
+
+// History of each change request: submission, comments and decisions
+export const changeRequestEvents = sqliteTable("change_request_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  changeRequestId: integer("change_request_id").notNull(),
+  type: text("type").notNull().$type<ChangeRequestEventType>(),
+  author: text("author").notNull(),
+  message: text("message"),
+  createdAt: text("created_at").notNull(),
+});
+
+// Queue ids modified since the configuration was last applied
+export const pendingChanges = sqliteTable("pending_changes", {
+  queueId: integer("queue_id").primaryKey(),
+});
+
+// Snapshot of each queue as it was when the configuration was last applied
+export const syncedQueues = sqliteTable("synced_queues", {
+  queueId: integer("queue_id").primaryKey(),
+  data: text("data", { mode: "json" }).notNull().$type<Queue>(),
+});
+
+// Global configuration as it was when the configuration was last applied
+export const syncedGlobalConfig = sqliteTable("synced_global_config", {
+  id: integer("id").primaryKey(),
+  data: text("data", { mode: "json" }).notNull().$type<GlobalConfig>(),
+});
+
+// Snapshot of each user limit as it was when the configuration was last applied
+export const syncedUserLimits = sqliteTable("synced_user_limits", {
+  userLimitId: integer("user_limit_id").primaryKey(),
+  data: text("data", { mode: "json" }).notNull().$type<UserLimit>(),
+});
+
+// The allocation file as last read from or written to disk. Edits made to
+// it by anyone else are detected against its hash.
+export const syncedFile = sqliteTable("synced_file", {
+  id: integer("id").primaryKey(),
+  filePath: text("file_path").notNull(),
+  content: text("content").notNull(),
+  hash: text("hash").notNull(),
+  modifiedAt: text("modified_at").notNull(),
+  syncedAt: text("synced_at").notNull(),
+});
+
+// An allocation file staged as the base of the pending changes, such as an
+// uploaded one. It is applied with the global settings: the pending changes
+// are written into it instead of into the synced file. `queueIds` and
+// `userLimitIds` map its queue paths and user names to the rows they were
+// staged as.
+export const stagedFile = sqliteTable("staged_file", {
+  id: integer("id").primaryKey(),
+  source: text("source").notNull(),
+  content: text("content").notNull(),
+  hash: text("hash").notNull(),
+  queueIds: text("queue_ids", { mode: "json" }).notNull().$type<Record<string, number>>(),
+  userLimitIds: text("user_limit_ids", { mode: "json" }).notNull().$type<Record<string, number>>(),
+  author: text("author").notNull(),
+  stagedAt: text("staged_at").notNull(),
+});
+
 // Insert schemas
-export const insertQueueSchema = createInsertSchema(queues).omit({
+export const insertQueueSchema = createInsertSchema(queues, {
+  minResources: resourceValueSchema.nullable().optional(),
+  maxResources: resourceValueSchema.nullable().optional(),
+}).omit({
   id: true,
 });
 
@@ -52,7 +230,70 @@ export const insertConfigFileSchema = createInsertSchema(configFiles).omit({
   id: true,
 });
 
-export const insertGlobalConfigSchema = createInsertSchema(globalConfig).omit({
+export const insertGlobalConfigSchema = createInsertSchema(globalConfig, {
+  queuePlacementRules: placementRulesSchema.nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertUserLimitSchema = createInsertSchema(userLimits).omit({
+  id: true,
+});
+
+export const insertConfigRevisionSchema = createInsertSchema(configRevisions, {
+  hookResult: z.custom<PostApplyHookResult>().nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertWhatIfScenarioSchema = createInsertSchema(whatIfScenarios, {
+  name: z.string().trim().min(1, "Name is required"),
+  cluster: clusterResourcesSchema.nullable().optional(),
+  demands: scenarioDemandsSchema,
+}).omit({
+  id: true,
+});
+
+export const insertClusterSchema = createInsertSchema(clusters, {
+  name: z.string().trim().min(1, "Name is required"),
+  configPath: z.string().trim().min(1, "Allocation file path is required"),
+  yarnSitePath: z.string().trim().nullable().optional().transform(value => value || null),
+  promotionOverrides: promotionOverridesSchema.nullable().optional(),
+  postApplyHook: postApplyHookSchema.nullable().optional(),
+}).omit({
+  id: true,
+});
+
+export const insertAccountSchema = createInsertSchema(accounts, {
+  username: z.string().trim().min(1, "Username is required").regex(/^[a-zA-Z0-9._@-]+$/, "Invalid username format"),
+  role: roleSchema.default("viewer"),
+}).omit({
+  id: true,
+});
+
+// An account as entered by an administrator; the password is hashed on the server
+export const accountFormSchema = insertAccountSchema.omit({ passwordHash: true }).extend({
+  password: passwordSchema,
+});
+
+export const insertChangeRequestSchema = createInsertSchema(changeRequests, {
+  status: changeRequestStatusSchema.default("open"),
+  queueIds: z.array(z.number().int()),
+  changes: z.custom<ChangeRequestChanges>(),
+}).omit({
+  id: true,
+});
+
+export const insertChangeRequestEventSchema = createInsertSchema(changeRequestEvents, {
+  type: changeRequestEventTypeSchema,
+}).omit({
+  id: true,
+});
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog, {
+  action: auditActionSchema,
+  changes: z.custom<FieldChange[]>(),
+}).omit({
   id: true,
 });
 
@@ -101,12 +342,75 @@ export const queueMetricsSchema: z.ZodType<{
   }).optional(),
 });
 
+// Pending queue ids and/or the global configuration to apply or discard
+export const pendingChangeSelectionSchema = z.object({
+  queueIds: z.array(z.number().int()).optional(),
+  globalConfig: z.boolean().optional(),
+});
+
+// Merge of pending changes with an allocation file edited on disk.
+// `diskHash` is the file the merge was reviewed against; `resolutions`
+// picks a side for every conflict, by change key.
+export const configMergeRequestSchema = z.object({
+  diskHash: z.string().min(1),
+  resolutions: z.record(z.enum(["disk", "pending"])).default({}),
+});
+
+// A submission to run through the queue placement policy. Without a requested
+// queue the application asks for "default", as YARN clients do.
+export const placementSimulationRequestSchema = z.object({
+  user: z.string().trim().min(1, "User is required"),
+  groups: z.array(z.string().trim().min(1)).default([]),
+  requestedQueue: z.string().trim().optional(),
+  // Evaluate the configuration being edited or the one last applied
+  config: z.enum(["pending", "applied"]).default("pending"),
+});
+
+// Query of the fair share calculator. Cluster resources come from the YARN
+// ResourceManager unless both are given. `active` lists the leaf queues with
+// running applications for the instantaneous fair shares; without it every
+// leaf queue is active.
+export const fairShareQuerySchema = z.object({
+  memoryMb: z.coerce.number().int().positive().optional(),
+  vcores: z.coerce.number().int().positive().optional(),
+  active: z.string().optional()
+    .transform(active => active === undefined ? undefined : active.split(",").map(path => path.trim()).filter(Boolean)),
+  config: z.enum(["pending", "applied"]).default("pending"),
+}).refine(query => (query.memoryMb === undefined) === (query.vcores === undefined), {
+  message: "Give both memoryMb and vcores, or neither to use the cluster metrics",
+  path: ["vcores"],
+});
+
+// A what-if evaluation of a saved scenario, or of demands given inline
+export const whatIfRequestSchema = z.object({
+  scenarioId: z.number().int().optional(),
+  demands: scenarioDemandsSchema.optional(),
+  cluster: clusterResourcesSchema.nullable().optional(),
+  config: z.enum(["pending", "applied"]).default("pending"),
+}).refine(request => (request.scenarioId === undefined) !== (request.demands === undefined), {
+  message: "Give either a scenarioId or demands",
+  path: ["demands"],
+});
+
+export const capacitySchedulerConversionQuerySchema = z.object({
+  config: z.enum(["pending", "applied"]).default("pending"),
+  // Child queue capacities as percentages of the parent, or as weights (Hadoop 3.3+)
+  capacities: z.enum(["percentage", "weight"]).default("percentage"),
+  format: z.enum(["json", "xml"]).default("json"),
+});
+
 export const yarnConnectionSchema = z.object({
   resourceManagerHost: z.string().min(1, "Resource Manager host is required"),
   resourceManagerPort: z.number().min(1).max(65535).default(8088),
   enabled: z.boolean().default(false),
 });
 
+// A cluster with, optionally, its ResourceManager connection. Without one
+// the connection is read from the cluster's yarn-site.xml.
+export const clusterFormSchema = insertClusterSchema.extend({
+  connection: yarnConnectionSchema.optional(),
+});
+
 // Types
 export type Queue = typeof queues.$inferSelect;
 export type InsertQueue = z.infer<typeof insertQueueSchema>;
@@ -114,20 +418,310 @@ export type ConfigFile = typeof configFiles.$inferSelect;
 export type InsertConfigFile = z.infer<typeof insertConfigFileSchema>;
 export type GlobalConfig = typeof globalConfig.$inferSelect;
 export type InsertGlobalConfig = z.infer<typeof insertGlobalConfigSchema>;
+export type UserLimit = typeof userLimits.$inferSelect;
+export type InsertUserLimit = z.infer<typeof insertUserLimitSchema>;
+export type ConfigRevision = typeof configRevisions.$inferSelect;
+export type InsertConfigRevision = z.infer<typeof insertConfigRevisionSchema>;
+export type Cluster = typeof clusters.$inferSelect;
+export type InsertCluster = z.infer<typeof insertClusterSchema>;
+export type ClusterForm = z.infer<typeof clusterFormSchema>;
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+export type AccountForm = z.infer<typeof accountFormSchema>;
+// Accounts as the API returns them
+export type AccountSummary = Omit<Account, "passwordHash">;
+export type ChangeRequest = typeof changeRequests.$inferSelect;
+export type InsertChangeRequest = z.infer<typeof insertChangeRequestSchema>;
+export type ChangeRequestEvent = typeof changeRequestEvents.$inferSelect;
+export type InsertChangeRequestEvent = z.infer<typeof insertChangeRequestEventSchema>;
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type SyncedFile = Omit<typeof syncedFile.$inferSelect, "id">;
+export type StagedFile = Omit<typeof stagedFile.$inferSelect, "id">;
+export type WhatIfScenario = typeof whatIfScenarios.$inferSelect;
+export type InsertWhatIfScenario = z.infer<typeof insertWhatIfScenarioSchema>;
+export type ConfigRevisionSummary = Omit<ConfigRevision, "content">;
 export type ClusterMetrics = z.infer<typeof clusterMetricsSchema>;
 export type QueueMetrics = z.infer<typeof queueMetricsSchema>;
 export type YarnConnection = z.infer<typeof yarnConnectionSchema>;
+export type PendingChangeSelection = z.infer<typeof pendingChangeSelectionSchema>;
+export type ConfigMergeRequest = z.infer<typeof configMergeRequestSchema>;
+export type PlacementSimulationRequest = z.infer<typeof placementSimulationRequestSchema>;
+export type FairShareQuery = z.infer<typeof fairShareQuerySchema>;
+export type WhatIfRequest = z.infer<typeof whatIfRequestSchema>;
+export type CapacitySchedulerConversionQuery = z.infer<typeof capacitySchedulerConversionQuerySchema>;
+
+// Review of pending changes against the last applied configuration
+export type FieldChange = {
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
 
-// Extended schemas for forms
-export const queueFormSchema = insertQueueSchema.extend({
+export type QueueChange = {
+  queueId: number;
+  queuePath: string;
+  type: "added" | "removed" | "modified";
+  fields: FieldChange[];
+};
+
+// A problem found by the configuration validator. `ruleId` names the check
+// (e.g. "child-min-exceeds-parent-max"); the location is 1-based.
+export type ValidationIssue = {
+  ruleId: string;
+  severity: "error" | "warning";
+  message: string;
+  queuePath: string | null;
+  location: { line: number; column: number } | null;
+};
+
+// Errors make a configuration invalid; warnings do not
+export type ConfigValidation = {
+  isValid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+};
+
+export type PendingChangesDiff = {
+  filePath: string | null;
+  queues: QueueChange[];
+  globalConfig: FieldChange[];
+  xmlDiff: string;
+  // Validation of the file the selected changes would produce
+  validation: ConfigValidation | null;
+};
+
+// The pending changes a change request proposes
+export type ChangeRequestChanges = {
+  queues: QueueChange[];
+  globalConfig: FieldChange[];
+};
+
+// A change request as listed. Open and approved requests are outdated when
+// their pending changes were edited or discarded after submission.
+export type ChangeRequestSummary = ChangeRequest & {
+  outdated: boolean;
+};
+
+export type ChangeRequestDetail = ChangeRequestSummary & {
+  events: ChangeRequestEvent[];
+};
+
+// Outcome of a placement rule during a simulation. Skipped rules did not
+// yield a queue the application may use, so the next rule was tried.
+export type PlacementRuleTrace = {
+  index: number;
+  rule: PlacementRule;
+  outcome: "skipped" | "placed" | "rejected";
+  queue: string | null;
+  reason: string;
+};
+
+export type PlacementSimulation = {
+  // Leaf queue the application lands in; null when it is rejected
+  queue: string | null;
+  ruleIndex: number | null;
+  rule: PlacementRule | null;
+  rejected: boolean;
+  reason: string;
+  // Queues that do not exist yet and would be created, outermost first
+  createdQueues: string[];
+  trace: PlacementRuleTrace[];
+};
+
+export type ClusterResources = {
+  memoryMb: number;
+  vcores: number;
+};
+
+// A fair share per resource. A resource is null where the parent's policy
+// does not divide it: fair divides memory only, drf every resource.
+export type ResourceShare = {
+  memoryMb: number | null;
+  vcores: number | null;
+};
+
+export type QueueFairShare = {
+  path: string;
+  name: string;
+  parent: string | null;
+  weight: number;
+  schedulingPolicy: string;
+  // minResources and maxResources in cluster resources; a null maximum is unlimited
+  minShare: ClusterResources;
+  maxShare: { memoryMb: number | null; vcores: number | null };
+  // Whether the queue has running applications
+  active: boolean;
+  steadyFairShare: ResourceShare;
+  instantaneousFairShare: ResourceShare;
+};
+
+export type FairShareAnalysis = {
+  cluster: ClusterResources;
+  clusterSource: "manual" | "yarn";
+  // Queues in tree order, root first
+  queues: QueueFairShare[];
+};
+
+// Outcome of a what-if scenario for one queue. Parents sum their leaves'
+// demand and usage; starvation and preemption concern leaf queues.
+export type QueueWhatIf = {
+  path: string;
+  name: string;
+  parent: string | null;
+  demand: ClusterResources;
+  usage: ClusterResources;
+  instantaneousFairShare: ResourceShare;
+  // What the queue ends up with once the scheduler has settled: its fair
+  // share, capped by its demand, plus what other queues do not use
+  allocation: ResourceShare;
+  // Below its min share (or fair share times the threshold) while asking for more
+  minShareStarved: boolean;
+  fairShareStarved: boolean;
+  // Seconds until preemption starts on behalf of the queue; null when it is
+  // not starved or no timeout is configured
+  minSharePreemptionIn: number | null;
+  fairSharePreemptionIn: number | null;
+  // Whether the queue and its ancestors allow preemption from them
+  preemptable: boolean;
+  // Resources above its fair share that preemption would take back
+  preempted: ResourceShare;
+};
+
+export type WhatIfAnalysis = {
+  cluster: ClusterResources;
+  clusterSource: "manual" | "yarn";
+  config: "pending" | "applied";
+  // Queues in tree order, root first
+  queues: QueueWhatIf[];
+  // Queues preemption would take resources from
+  preemptedQueues: string[];
+};
+
+// Preview of promoting another cluster's queue tree, against the queues of
+// the target cluster. Queue changes carry the target's queue id, or null for
+// added queues.
+export type PromotionPreview = {
+  source: { id: number; name: string; config: "pending" | "applied" };
+  target: { id: number; name: string };
+  // Cluster sizes the resources were scaled between; null without scaling
+  scaling: { source: ClusterResources; target: ClusterResources } | null;
+  queues: Array<Omit<QueueChange, "queueId"> & { queueId: number | null }>;
+  globalConfig: FieldChange[];
+  xmlDiff: string;
+  validation: ConfigValidation;
+  // Overrides that did not match a promoted queue
+  warnings: string[];
+};
+
+// A queue setting the ResourceManager runs with that differs from the
+// applied configuration. Resources are in MB and vcores, as the
+// ResourceManager reports them.
+export type DriftDifference = {
+  field: "weight" | "schedulingPolicy" | "minResources" | "maxResources" | "maxRunningApps";
+  expected: unknown;
+  actual: unknown;
+};
+
+// missing:      in the applied configuration, not on the ResourceManager
+// unconfigured: on the ResourceManager only; counts as drift unless the
+//               placement policy creates queues
+// changed:      on both, with different settings
+export type QueueDrift = {
+  path: string;
+  kind: "missing" | "unconfigured" | "changed";
+  differences: DriftDifference[];
+};
+
+// The applied configuration against the ResourceManager's live scheduler.
+// `disabled` without a YARN connection, `unavailable` when the
+// ResourceManager could not be asked (see `error`).
+export type DriftReport = {
+  status: "in-sync" | "drifted" | "unavailable" | "disabled";
+  checkedAt: string;
+  // The revision on disk the configuration was last applied from
+  revisionId: number | null;
+  queues: QueueDrift[];
+  // Whether placement rules create queues, making unconfigured queues expected
+  placementCreatesQueues: boolean;
+  // Settings the ResourceManager does not report, which were not compared
+  notReported: DriftDifference["field"][];
+  error: string | null;
+};
+
+// The allocation file on disk against the one last read or written.
+// `changed` when someone else edited it since, `missing` when it cannot be
+// read.
+export type ExternalChangeStatus = {
+  status: "in-sync" | "changed" | "missing";
+  filePath: string;
+  syncedHash: string | null;
+  syncedAt: string | null;
+  diskHash: string | null;
+  diskModifiedAt: string | null;
+  checkedAt: string;
+  error: string | null;
+};
+
+// A setting changed on disk, by pending changes or both since the file was
+// last synced. `field` is null where a whole queue or user limit was added
+// or removed; values are null where it is absent. A conflict is a setting
+// both changed to different values.
+export type MergeChange = {
+  key: string;
+  scope: "queue" | "global" | "user";
+  // Queue path or user name; null for global settings
+  name: string | null;
+  field: string | null;
+  base: unknown;
+  disk: unknown;
+  pending: unknown;
+  source: "disk" | "pending" | "both";
+  conflict: boolean;
+};
+
+// Three-way merge of the last synced file, the file on disk and the pending
+// changes. `xmlDiff` shows what changed on disk.
+export type MergePreview = {
+  file: ExternalChangeStatus;
+  changes: MergeChange[];
+  conflicts: number;
+  xmlDiff: string;
+};
+
+// A property of a Hadoop configuration file (yarn-site.xml, capacity-scheduler.xml)
+export type HadoopProperty = {
+  name: string;
+  value: string;
+};
+
+// A setting a scheduler conversion could not carry over exactly. `queue` is
+// null for scheduler-wide settings.
+export type ConversionIssue = {
+  queue: string | null;
+  setting: string;
+  message: string;
+};
+
+export type CapacitySchedulerConversion = {
+  capacities: "percentage" | "weight";
+  // yarn-site.xml the scheduler-wide settings were read from, if any
+  yarnSitePath: string | null;
+  properties: HadoopProperty[];
+  issues: ConversionIssue[];
+};
+
+// Extended schemas for forms. The path is derived from parent and name.
+export const queueFormSchema = insertQueueSchema.omit({ path: true }).extend({
   name: z.string().min(1, "Queue name is required").regex(/^[a-zA-Z0-9_-]+$/, "Invalid queue name format"),
   weight: z.number().min(0.1, "Weight must be at least 0.1"),
-  minMemory: z.number().min(0).optional(),
-  minVcores: z.number().min(0).optional(),
-  maxMemory: z.number().min(0).optional(),
-  maxVcores: z.number().min(0).optional(),
+  minResources: resourceValueInputSchema.nullable().optional(),
+  maxResources: resourceValueInputSchema.nullable().optional(),
   maxRunningApps: z.number().min(1).optional(),
   maxAMShare: z.number().min(0).max(1).optional(),
+  minSharePreemptionTimeout: z.number().int("Timeout must be whole seconds").min(1, "Timeout must be at least 1 second").optional(),
+  fairSharePreemptionTimeout: z.number().int("Timeout must be whole seconds").min(1, "Timeout must be at least 1 second").optional(),
+  fairSharePreemptionThreshold: z.number().min(0, "Threshold must be between 0 and 1").max(1, "Threshold must be between 0 and 1").optional(),
 });
 
 export type QueueFormData = z.infer<typeof queueFormSchema>;
@@ -138,8 +732,19 @@ export const globalConfigFormSchema = insertGlobalConfigSchema.extend({
   userMaxAppsDefault: z.number().min(1),
   queueMaxAppsDefault: z.number().min(1).optional(),
   queueMaxAMShareDefault: z.number().min(0).max(1).optional(),
-  queuePlacementRules: z.string().min(1),
+  defaultMinSharePreemptionTimeout: z.number().int("Timeout must be whole seconds").min(1, "Timeout must be at least 1 second").optional(),
+  defaultFairSharePreemptionTimeout: z.number().int("Timeout must be whole seconds").min(1, "Timeout must be at least 1 second").optional(),
+  defaultFairSharePreemptionThreshold: z.number().min(0, "Threshold must be between 0 and 1").max(1, "Threshold must be between 0 and 1").optional(),
+  queuePlacementRules: placementRulesSchema,
   defaultQueue: z.string().min(1),
 });
 
 export type GlobalConfigFormData = z.infer<typeof globalConfigFormSchema>;
+
+// Per-user limit form schema
+export const userLimitFormSchema = insertUserLimitSchema.extend({
+  name: z.string().min(1, "User name is required").regex(/^[a-zA-Z0-9._@-]+$/, "Invalid user name format"),
+  maxRunningApps: z.number().int("Max running apps must be a whole number").min(0, "Max running apps cannot be negative"),
+});
+
+export type UserLimitFormData = z.infer<typeof userLimitFormSchema>;
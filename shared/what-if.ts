@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// A queue's part in a what-if scenario, in percent of the cluster:
+//   demand  resources the queue's applications ask for; 0 leaves it idle
+//   usage   resources the queue holds when the scenario starts
+// A demand on a parent queue is spread over its leaf queues by weight.
+export const scenarioDemandSchema = z.object({
+  queue: z.string().trim().min(1, "Queue is required"),
+  demand: z.number().min(0).max(100),
+  usage: z.number().min(0).max(100).default(0),
+});
+
+export const scenarioDemandsSchema = z.array(scenarioDemandSchema).superRefine((demands, ctx) => {
+  const seen = new Set<string>();
+  demands.forEach((demand, index) => {
+    if (seen.has(demand.queue)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, "queue"], message: `${demand.queue} appears more than once` });
+    }
+    seen.add(demand.queue);
+  });
+});
+
+export const clusterResourcesSchema = z.object({
+  memoryMb: z.number().int().positive(),
+  vcores: z.number().int().positive(),
+});
+
+export type ScenarioDemand = z.infer<typeof scenarioDemandSchema>;